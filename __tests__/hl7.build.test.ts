@@ -2,7 +2,8 @@ import { randomUUID } from 'crypto'
 import fs from 'fs'
 import path from 'path'
 import { describe, expect, test, beforeEach, beforeAll } from 'vitest';
-import { FileBatch, Batch, Message, createHL7Date, HL7Node, EmptyNode } from '../src'
+import { Readable } from 'stream'
+import { FileBatch, FileBatchReader, Batch, Message, createHL7Date, HL7Node, EmptyNode } from '../src'
 import { HL7_2_1, HL7_2_7, HL7_2_2, HL7_2_3, HL7_2_3_1, HL7_2_4, HL7_2_5, HL7_2_5_1, HL7_2_6, HL7_2_7_1, HL7_2_8 } from '../src/hl7'
 import {MSH_HEADER} from "./__data__/constants";
 import { sleep } from './__utils__'
@@ -381,6 +382,225 @@ describe('node hl7 client - builder tests', () => {
     })
   })
 
+  describe('builder acknowledgment', () => {
+
+    const text = 'MSH|^~\\&|SEND_APP|SEND_FAC|RECV_APP|RECV_FAC|20081231||ADT^A01^ADT_A01|CONTROL_ID|P|2.7\rPID|1||MRN'
+
+    test('...swaps sender and receiver and sets MSH-9 and MSA', async () => {
+      const message = new Message({ text })
+      const ack = message.createAck('AA', { controlId: 'ACK_ID' })
+      expect(ack.get('MSH.3').toString()).toBe('RECV_APP')
+      expect(ack.get('MSH.4').toString()).toBe('RECV_FAC')
+      expect(ack.get('MSH.5').toString()).toBe('SEND_APP')
+      expect(ack.get('MSH.6').toString()).toBe('SEND_FAC')
+      expect(ack.get('MSH.9').toRaw()).toBe('ACK^A01^ACK')
+      expect(ack.get('MSH.10').toString()).toBe('ACK_ID')
+      expect(ack.get('MSH.11').toString()).toBe('P')
+      expect(ack.get('MSH.12').toString()).toBe('2.7')
+      expect(ack.get('MSA.1').toString()).toBe('AA')
+      expect(ack.get('MSA.2').toString()).toBe('CONTROL_ID')
+    })
+
+    test('...adds text and ERR segments', async () => {
+      const message = new Message({ text })
+      const ack = message.createAck('AE', {
+        text: 'Missing | MRN',
+        errors: [
+          { location: { segment: 'PID', sequence: 1, field: 3 }, code: '101', text: 'Required field missing' },
+          { code: '207', text: 'Application internal error', severity: 'W', diagnostic: 'Retry later' }
+        ]
+      })
+      expect(ack.get('MSA.3').toString()).toBe('Missing | MRN')
+      expect(ack.toString().split('\r').slice(2)).toEqual([
+        'ERR||PID^1^3|101^Required field missing^HL70357|E',
+        'ERR|||207^Application internal error^HL70357|W|||Retry later'
+      ])
+    })
+
+    test('...uses ERR-1 before v2.5', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|A|B|C|D|20081231||ADT^A01|CONTROL_ID|P|2.3\rPID|1' })
+      const ack = message.createAck('AR', { errors: [{ location: { segment: 'PID', sequence: 1, field: 3 }, code: '101', text: 'Required field missing' }] })
+      expect(ack.get('ERR.1').toRaw()).toBe('PID^1^3^101&Required field missing&HL70357')
+    })
+
+    test('...keeps the delimiters and specification', async () => {
+      const custom = new Message({ text: 'MSH#@~\\&#A#B#C#D#20081231##ADT@A01#CONTROL_ID#P#2.7\nPID#1' })
+      const ack = custom.createAck('CA')
+      expect(ack.toString().startsWith('MSH#@~\\&#C#D#A#B#')).toBe(true)
+      expect(ack.toString()).toContain('\nMSA#CA#CONTROL_ID')
+
+      const built = new Message({ messageHeader: { ...MSH_HEADER, msh_10: 'BUILT_ID' } })
+      expect(built.createAck('AA')._opt.specification).toBeInstanceOf(HL7_2_7)
+    })
+
+    test('...error - invalid code', async () => {
+      const message = new Message({ text })
+      // @ts-expect-error not a code
+      expect(() => message.createAck('ZZ')).toThrow('ZZ is not a valid acknowledgment code.')
+    })
+
+  })
+
+  describe('insert, remove, and move segments', () => {
+
+    const text = 'MSH|^~\\&|||||20081231||ADT^A08|CONTROL_ID|P|2.5.1\rEVN|A08\rPID|1||MRN\rZPD|1|custom\rPV1|1|I\rZPD|2|custom'
+    const names = (root: Message | Batch | FileBatch): string[] => root.toString().split('\r').map(line => line.slice(0, 3))
+
+    test('...insert at an index or after a segment', async () => {
+      const message = new Message({ text })
+      message.insertSegment('PD1', 3).set('1', 'first')
+      const nte = message.insertSegment('NTE', message.get('PV1').get(0))
+      nte.set('3', 'Note')
+      message.insertSegment('SFT', 1)
+      message.insertSegment('ZZZ', message.toArray().length)
+      expect(names(message)).toEqual(['MSH', 'SFT', 'EVN', 'PID', 'PD1', 'ZPD', 'PV1', 'NTE', 'ZPD', 'ZZZ'])
+      expect(message.get('PD1.1').toString()).toBe('first')
+      expect(message.get('NTE.3').toString()).toBe('Note')
+    })
+
+    test('...insert errors', async () => {
+      const message = new Message({ text })
+      expect(() => message.insertSegment('NTE', 7)).toThrow('Index 7 is out of range.')
+      expect(() => message.insertSegment('NTE', -1)).toThrow('Index -1 is out of range.')
+      expect(() => message.insertSegment('NTE.1', 1)).toThrow('Invalid segment NTE.1.')
+      expect(() => message.insertSegment('NTE', new Message({ text }).get('PID').get(0))).toThrow('Segment PID is not here.')
+      expect(() => message.insertSegment('NTE', 0)).toThrow('A segment can not go before the MSH segment.')
+      expect(message.toString()).toBe(text)
+    })
+
+    test('...remove by name or segment', async () => {
+      const message = new Message({ text })
+      const removed = message.removeSegment('ZPD')
+      expect(removed?.get('1').toString()).toBe('1')
+      expect(message.toString()).toBe('MSH|^~\\&|||||20081231||ADT^A08|CONTROL_ID|P|2.5.1\rEVN|A08\rPID|1||MRN\rPV1|1|I\rZPD|2|custom')
+      message.removeSegment(message.query('ZPD[*]')[0])
+      expect(names(message)).toEqual(['MSH', 'EVN', 'PID', 'PV1'])
+      expect(message.removeSegment('ZPD')).toBeUndefined()
+      expect(message.removeSegment(new Message({ text }).get('PID').get(0))).toBeUndefined()
+    })
+
+    test('...remove errors', async () => {
+      const message = new Message({ text })
+      expect(() => message.removeSegment('MSH')).toThrow('MSH segment can not be removed.')
+      expect(() => message.removeSegment(message.get('MSH').get(0))).toThrow('MSH segment can not be removed.')
+      expect(message.toString()).toBe(text)
+    })
+
+    test('...a removed segment no longer changes the message', async () => {
+      const message = new Message({ text })
+      message.toString()
+      const removed = message.removeSegment('PV1')
+      removed?.set('2', 'O')
+      expect(removed?.toString()).toBe('PV1|1|O')
+      expect(message.exists('PV1')).toBe(false)
+      expect(names(message)).toEqual(['MSH', 'EVN', 'PID', 'ZPD', 'ZPD'])
+    })
+
+    test('...move to an index or after a segment', async () => {
+      const message = new Message({ text })
+      message.moveSegment('PV1', message.get('PID').get(0))
+      expect(names(message)).toEqual(['MSH', 'EVN', 'PID', 'PV1', 'ZPD', 'ZPD'])
+      const zpd = message.query('ZPD[2]')[0]
+      message.moveSegment(zpd, 4)
+      expect(message.query('ZPD[*].1').map(node => node.toString())).toEqual(['2', '1'])
+      message.moveSegment('EVN', 5)
+      expect(names(message)).toEqual(['MSH', 'PID', 'PV1', 'ZPD', 'ZPD', 'EVN'])
+      expect(message.get('PID.3').toString()).toBe('MRN')
+    })
+
+    test('...move errors', async () => {
+      const message = new Message({ text })
+      expect(() => message.moveSegment('OBX', 1)).toThrow('Segment OBX is not here.')
+      expect(() => message.moveSegment('PV1', 6)).toThrow('Index 6 is out of range.')
+      expect(() => message.moveSegment('PV1', message.get('PV1').get(0))).toThrow('A segment can not be moved after itself.')
+      expect(() => message.moveSegment('ZPD', 0)).toThrow('A segment can not go before the MSH segment.')
+      expect(() => message.moveSegment('MSH', 3)).toThrow('MSH segment can not be moved.')
+      expect(() => message.moveSegment('MSH', message.get('PV1').get(0))).toThrow('MSH segment can not be moved.')
+      expect(message.toString()).toBe(text)
+    })
+
+    test('...batch and file', async () => {
+      const batch = new Batch({ text: 'BHS|^~\\&|||||20081231\rMSH|^~\\&|||||20081231||ADT^A08|1|P|2.5.1\rZPD|1\rBTS|1' })
+      batch.removeSegment('ZPD')
+      batch.insertSegment('ZBH', batch.get('BHS').get(0))
+      expect(names(batch)).toEqual(['BHS', 'ZBH', 'MSH', 'BTS'])
+      batch.moveSegment('ZBH', 3)
+      expect(names(batch)).toEqual(['BHS', 'MSH', 'BTS', 'ZBH'])
+
+      const file = new FileBatch({ text: 'FHS|^~\\&|||||20081231\rMSH|^~\\&|||||20081231||ADT^A08|1|P|2.5.1\rFTS|1' })
+      file.insertSegment('ZFH', 1)
+      expect(names(file)).toEqual(['FHS', 'ZFH', 'MSH', 'FTS'])
+      file.moveSegment('ZFH', file.get('FTS').get(0))
+      file.removeSegment('MSH')
+      expect(names(file)).toEqual(['FHS', 'FTS', 'ZFH'])
+    })
+
+    test('...the header of a batch and file stays first', async () => {
+      const batch = new Batch({ text: 'BHS|^~\\&|||||20081231\rMSH|^~\\&|||||20081231||ADT^A08|1|P|2.5.1\rBTS|1' })
+      expect(() => batch.insertSegment('ZBH', 0)).toThrow('A segment can not go before the BHS segment.')
+      expect(() => batch.moveSegment('MSH', 0)).toThrow('A segment can not go before the BHS segment.')
+      expect(() => batch.removeSegment('BHS')).toThrow('BHS segment can not be removed.')
+      expect(() => batch.moveSegment('BHS', 2)).toThrow('BHS segment can not be moved.')
+      expect(names(batch)).toEqual(['BHS', 'MSH', 'BTS'])
+
+      const file = new FileBatch({ text: 'FHS|^~\\&|||||20081231\rBHS|^~\\&|||||20081231\rBTS|0\rFTS|1' })
+      expect(() => file.insertSegment('ZFH', 0)).toThrow('A segment can not go before the FHS segment.')
+      expect(() => file.removeSegment('FHS')).toThrow('FHS segment can not be removed.')
+      expect(() => file.moveSegment('FHS', file.get('FTS').get(0))).toThrow('FHS segment can not be moved.')
+      file.moveSegment('BHS', 1)
+      expect(names(file)).toEqual(['FHS', 'BHS', 'BTS', 'FTS'])
+    })
+
+    test('...messages of a batch after each change', async () => {
+      const msh = (id: string): string => `MSH|^~\\&|||||20081231||ADT^A08|${id}|P|2.5.1`
+      const batch = new Batch({ text: ['BHS|^~\\&|||||20081231', msh('1'), 'PID|1', msh('2'), 'PID|2', msh('3'), 'PID|3', 'BTS|3'].join('\r') })
+      const messages = (): string[][] => batch.messages().map(message => [message.get('MSH.10').toString(), ...message.toArray().map(segment => segment.name)])
+
+      batch.insertSegment('NTE', batch.get('PID').get(0))
+      expect(messages()).toEqual([['1', 'MSH', 'PID', 'NTE'], ['2', 'MSH', 'PID'], ['3', 'MSH', 'PID']])
+
+      batch.moveSegment('NTE', batch.get('PID').get(1))
+      expect(messages()).toEqual([['1', 'MSH', 'PID'], ['2', 'MSH', 'PID', 'NTE'], ['3', 'MSH', 'PID']])
+
+      // an MSH takes the rest of its message with it
+      expect(batch.removeSegment('MSH')?.get('10').toString()).toBe('1')
+      expect(names(batch)).toEqual(['BHS', 'MSH', 'PID', 'NTE', 'MSH', 'PID', 'BTS'])
+      expect(messages()).toEqual([['2', 'MSH', 'PID', 'NTE'], ['3', 'MSH', 'PID']])
+
+      batch.moveSegment('MSH', batch.get('PID').get(1))
+      expect(messages()).toEqual([['3', 'MSH', 'PID'], ['2', 'MSH', 'PID', 'NTE']])
+
+      // and so does a message from messages()
+      const [first, second] = batch.messages()
+      batch.moveSegment(first, second)
+      expect(messages()).toEqual([['2', 'MSH', 'PID', 'NTE'], ['3', 'MSH', 'PID']])
+      batch.insertSegment('ZPD', first)
+      expect(messages()).toEqual([['2', 'MSH', 'PID', 'NTE'], ['3', 'MSH', 'PID', 'ZPD']])
+      expect(batch.removeSegment(second)?.get('10').toString()).toBe('2')
+      expect(batch.removeSegment(second)).toBeUndefined()
+      expect(messages()).toEqual([['3', 'MSH', 'PID', 'ZPD']])
+      expect(names(batch)).toEqual(['BHS', 'MSH', 'PID', 'ZPD', 'BTS'])
+    })
+
+    test('...messages of a file, and of a batch that was built, after each change', async () => {
+      const file = new FileBatch({ text: 'FHS|^~\\&|||||20081231\rBHS|^~\\&|||||20081231\rMSH|^~\\&|||||20081231||ADT^A08|1|P|2.5.1\rPID|1\rBTS|1\rFTS|1' })
+      file.insertSegment('NTE', file.get('PID').get(0))
+      expect(file.messages().map(message => message.toString())).toEqual(['MSH|^~\\&|||||20081231||ADT^A08|1|P|2.5.1\rPID|1\rNTE'])
+      file.removeSegment(file.messages()[0])
+      expect(file.messages()).toEqual([])
+      expect(names(file)).toEqual(['FHS', 'BHS', 'BTS', 'FTS'])
+
+      const batch = new Batch()
+      batch.add(new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A08|1|P|2.5.1\rPID|1' }))
+      batch.add(new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A08|2|P|2.5.1\rPID|2' }))
+      expect(batch.messages().map(message => message.get('MSH.10').toString())).toEqual(['1', '2'])
+      batch.moveSegment(batch.messages()[0], 2)
+      expect(batch.messages().map(message => message.get('MSH.10').toString())).toEqual(['2', '1'])
+      batch.removeSegment(batch.messages()[1])
+      expect(batch.messages().map(message => message.get('MSH.10').toString())).toEqual(['2'])
+    })
+  })
+
   describe('basic batch basics', () => {
     let batch: Batch
 
@@ -723,6 +943,71 @@ describe('node hl7 client - builder tests', () => {
     })
   })
 
+  describe('file batch reader', () => {
+    const file: string = [
+      'FHS|^~\\&|||||20231208',
+      'BHS|^~\\&|||||20231208||||BATCH_1',
+      'MSH|^~\\&|||||20231208||ADT^A01^ADT_A01|CONTROL_ID_1||2.7',
+      'EVN||20081231',
+      'MSH|^~\\&|||||20231208||ADT^A01^ADT_A01|CONTROL_ID_2||2.7',
+      'EVN||20081231',
+      'EVN||20081231',
+      'BTS|2',
+      'BHS|^~\\&|||||20231208||||BATCH_2',
+      'MSH|^~\\&|||||20231208||ADT^A01^ADT_A01|CONTROL_ID_3||2.7',
+      'BTS|1',
+      'FTS|2'
+    ].join('\r\n')
+
+    const read = async (reader: FileBatchReader): Promise<string[]> => {
+      const ids: string[] = []
+      for await (const message of reader) {
+        ids.push(`${reader.getBatchHeader()?.get('BHS.11').toString() as string}:${message.get('MSH.10').toString()}`)
+      }
+      return ids
+    }
+
+    test('...yields each message with its batch', async () => {
+      // split into chunks that cut through lines and the \r\n
+      const chunks: string[] = []
+      for (let i = 0; i < file.length; i += 7) {
+        chunks.push(file.slice(i, i + 7))
+      }
+      const reader = new FileBatchReader(Readable.from(chunks))
+      expect(await read(reader)).toEqual(['BATCH_1:CONTROL_ID_1', 'BATCH_1:CONTROL_ID_2', 'BATCH_2:CONTROL_ID_3'])
+      expect(reader.stats.messages).toBe(3)
+      expect(reader.getFileHeader()).toBeUndefined()
+    })
+
+    test('...keeps every segment of a message', async () => {
+      const messages: Message[] = []
+      for await (const message of new FileBatchReader(Readable.from([Buffer.from(file)]))) {
+        messages.push(message)
+      }
+      expect(messages[1].toString()).toBe('MSH|^~\\&|||||20231208||ADT^A01^ADT_A01|CONTROL_ID_2||2.7\rEVN||20081231\rEVN||20081231')
+    })
+
+    test('...messages without a batch or file', async () => {
+      const reader = new FileBatchReader(Readable.from(['MSH|^~\\&|||||20231208||ADT^A01^ADT_A01|ONE||2.7\nEVN||20081231\nMSH|^~\\&|||||20231208||ADT^A01^ADT_A01|TWO||2.7\n']))
+      expect(await read(reader)).toEqual(['undefined:ONE', 'undefined:TWO'])
+    })
+
+    test('...error - BTS count does not match', async () => {
+      const reader = new FileBatchReader(Readable.from([file.replace('BTS|2', 'BTS|3')]))
+      await expect(read(reader)).rejects.toThrow('BTS-1 is 3, but 2 were read.')
+    })
+
+    test('...error - FTS count does not match', async () => {
+      const reader = new FileBatchReader(Readable.from([file.replace('FTS|2', 'FTS|1')]))
+      await expect(read(reader)).rejects.toThrow('FTS-1 is 1, but 2 were read.')
+    })
+
+    test('...error - segment outside of a message', async () => {
+      const reader = new FileBatchReader(Readable.from(['BHS|^~\\&\rEVN||20081231\rBTS|0']))
+      await expect(read(reader)).rejects.toThrow('EVN segment found outside of a message.')
+    })
+  })
+
   describe('complex file generation', () => {
     beforeAll(async () => {
       fs.readdir('temp/', (err, files) => {
@@ -880,6 +1165,14 @@ describe('node hl7 client - builder tests', () => {
       })
     })
 
+    test('...stream from a file path', async () => {
+      const ids: string[] = []
+      for await (const message of new FileBatchReader(path.join('temp/', 'hl7.readTestBHS.20231208.hl7'))) {
+        ids.push(message.get('MSH.10').toString())
+      }
+      expect(ids).toEqual(['CONTROL_ID'])
+    })
+
     test('...get MSH in a BHS', async () => {
       const fileBatch = new FileBatch({ fullFilePath: path.join('temp/', 'hl7.readTestBHS.20231208.hl7') })
       expect(fileBatch._opt.text).toContain(hl7_batch)
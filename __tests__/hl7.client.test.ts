@@ -1,5 +1,5 @@
 import { describe, expect, test, beforeEach } from 'vitest';
-import { Client } from '../src'
+import { Client, InboundResponse } from '../src'
 
 describe('node hl7 client', () => {
   describe('sanity tests - client class', () => {
@@ -61,7 +61,31 @@ describe('node hl7 client', () => {
       const client = new Client({ host: 'hl7.server.local' })
       expect(client.getHost()).toEqual('hl7.server.local')
     })
-    
+
+    test('endpoints - the first endpoint is the active one', async () => {
+      const client = new Client({ endpoints: [{ host: 'hl7.primary.local' }, { host: 'hl7.secondary.local', port: 3001 }] })
+      expect(client.getHost()).toEqual('hl7.primary.local')
+      expect(client.getEndpoint()).toEqual({ host: 'hl7.primary.local' })
+    })
+
+    test('error - endpoints can not be empty', async () => {
+      expect(() => new Client({ endpoints: [] })).toThrow('endpoints must be a list with at least one endpoint.')
+    })
+
+    test('error - host and endpoints can not both be set', async () => {
+      expect(() => new Client({ host: 'hl7.server.local', endpoints: [{ host: 'hl7.primary.local' }] })).toThrow('host and endpoints can not both be set.')
+    })
+
+    test('error - endpoints are validated', async () => {
+      expect(() => new Client({ endpoints: [{ host: '123.34.52.45' }, { host: '123.34.52.455' }], ipv4: true, ipv6: false })).toThrow('host is not a valid IPv4 address.')
+      expect(() => new Client({ endpoints: [{ host: 'hl7.primary.local', port: 70000 }] })).toThrow('port must be a number (1, 65353).')
+    })
+
+    test('error - failover policy must be known', async () => {
+      // @ts-expect-error not a policy
+      expect(() => new Client({ host: 'hl7.server.local', failover: 'random' })).toThrow('failover must be one of priority, round-robin, or sticky.')
+    })
+
   })
 
   describe('sanity tests - listener class', () => {
@@ -106,4 +130,78 @@ describe('node hl7 client', () => {
     })
 
   })
+
+  describe('sanity tests - inbound response', () => {
+
+    test('...accepted', async () => {
+      const response = new InboundResponse('MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK1||2.7\rMSA|AA|CONTROL_ID|Message Accepted')
+      expect(response.getAcknowledgmentCode()).toBe('AA')
+      expect(response.getControlId()).toBe('CONTROL_ID')
+      expect(response.getTextMessage()).toBe('Message Accepted')
+      expect(response.getErrors()).toEqual([])
+      expect(response.isSuccess()).toBe(true)
+      expect(response.isRetryable()).toBe(false)
+    })
+
+    test('...error with v2.5+ ERR segments', async () => {
+      const response = new InboundResponse([
+        'MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK1||2.7',
+        'MSA|AE|CONTROL_ID|Bad PID',
+        'ERR||PID^1^3^1^2|101^Required field missing^HL70357|E|MRN^Missing MRN||PID-3 is empty|Please add an MRN',
+        'ERR||PV1^1^2|102^Data type error^HL70357|W'
+      ].join('\r'))
+      expect(response.getAcknowledgmentCode()).toBe('AE')
+      expect(response.isSuccess()).toBe(false)
+      expect(response.isRetryable()).toBe(false)
+      expect(response.getErrors()).toEqual([
+        {
+          location: { segment: 'PID', sequence: 1, field: 3, repetition: 1, component: 2 },
+          code: '101',
+          text: 'Required field missing',
+          severity: 'E',
+          applicationCode: 'MRN',
+          diagnostic: 'PID-3 is empty',
+          userMessage: 'Please add an MRN'
+        },
+        {
+          location: { segment: 'PV1', sequence: 1, field: 2 },
+          code: '102',
+          text: 'Data type error',
+          severity: 'W',
+          applicationCode: undefined,
+          diagnostic: undefined,
+          userMessage: undefined
+        }
+      ])
+    })
+
+    test('...error with a pre v2.5 ERR-1', async () => {
+      const response = new InboundResponse('MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK1||2.3\rMSA|AE|CONTROL_ID\rERR|PID^1^3^101&Required field missing')
+      expect(response.getErrors()).toEqual([
+        { location: { segment: 'PID', sequence: 1, field: 3 }, code: '101', text: 'Required field missing' }
+      ])
+    })
+
+    test('...rejected and retryable', async () => {
+      const response = new InboundResponse('MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK1||2.7\rMSA|AR|CONTROL_ID|Busy\rERR|||207^Application internal error^HL70357|E')
+      expect(response.getAcknowledgmentCode()).toBe('AR')
+      expect(response.isSuccess()).toBe(false)
+      expect(response.isRetryable()).toBe(true)
+    })
+
+    test('...rejected for an unsupported message type is not retryable', async () => {
+      const response = new InboundResponse('MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK1||2.7\rMSA|CR|CONTROL_ID\rERR|||200^Unsupported message type^HL70357|E')
+      expect(response.getAcknowledgmentCode()).toBe('CR')
+      expect(response.getErrors()[0].location).toBeUndefined()
+      expect(response.isRetryable()).toBe(false)
+    })
+
+    test('...unknown code', async () => {
+      const response = new InboundResponse('MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK1||2.7\rMSA|ZZ|CONTROL_ID')
+      expect(response.getAcknowledgmentCode()).toBeUndefined()
+      expect(response.isSuccess()).toBe(false)
+      expect(response.isRetryable()).toBe(false)
+    })
+
+  })
 })
@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'vitest'
+import { createHL7Date, DTM, HL7DateTime, Message } from '../src'
+
+describe('node hl7 client - date/time tests', () => {
+  describe('parse', () => {
+    test.each([
+      ['2008', 4],
+      ['200812', 6],
+      ['20081231', 8],
+      ['2008123115', 10],
+      ['200812311530', 12],
+      ['20081231153000', 14],
+      ['20081231153000.1', 16],
+      ['20081231153000.12', 17],
+      ['20081231153000.123', 18],
+      ['20081231153000.1234', 19],
+      ['20081231153000.1234-0500', 19],
+      ['20081231+0530', 8]
+    ])('...%s keeps its precision', async (text, precision) => {
+      const value = HL7DateTime.parse(text)
+      expect(value.precision).toBe(precision)
+      expect(value.toString()).toBe(text)
+    })
+
+    test('...parts', async () => {
+      const value = HL7DateTime.parse('20081231153000.1234-0500')
+      expect([value.year, value.month, value.day, value.hour, value.minute, value.second]).toEqual([2008, 12, 31, 15, 30, 0])
+      expect(value.fraction).toBe('1234')
+      expect(value.offset).toBe(-300)
+    })
+
+    test('...time zone offsets', async () => {
+      expect(HL7DateTime.parse('20081231153000-0500').toDate().toISOString()).toBe('2008-12-31T20:30:00.000Z')
+      expect(HL7DateTime.parse('20081231153000+0530').toDate().toISOString()).toBe('2008-12-31T10:00:00.000Z')
+      expect(HL7DateTime.parse('20081231+0000').toDate().toISOString()).toBe('2008-12-31T00:00:00.000Z')
+    })
+
+    test('...fractional seconds', async () => {
+      expect(HL7DateTime.parse('20081231153000.1234+0000').toDate().getUTCMilliseconds()).toBe(123)
+      expect(HL7DateTime.parse('20081231153000.5+0000').toDate().getUTCMilliseconds()).toBe(500)
+      expect(HL7DateTime.parse('20081231153059.9999+0000').toDate().toISOString()).toBe('2008-12-31T15:31:00.000Z')
+    })
+
+    test('...no offset is local time', async () => {
+      expect(HL7DateTime.parse('2008123115').toDate()).toEqual(new Date(2008, 11, 31, 15))
+      expect(HL7DateTime.parse('200812').toDate()).toEqual(new Date(2008, 11, 1))
+    })
+
+    test.each(['200', '2008123', '20081331', '20080230', '200812311530.1', '20081231153000.12345', '20081231-0560', '20081231241000', '20081231 1530'])('...%s is not valid', async (text) => {
+      expect(() => HL7DateTime.parse(text)).toThrow('Invalid Date Format')
+    })
+  })
+
+  describe('create', () => {
+    const date = new Date(Date.UTC(2020, 0, 31, 23, 59, 59, 996))
+
+    test('...precision', async () => {
+      expect(createHL7Date(date, '4', { offset: 0 })).toBe('2020+0000')
+      expect(createHL7Date(date, '10', { offset: 0 })).toBe('2020013123+0000')
+      expect(createHL7Date(date, '16', { offset: 0 })).toBe('20200131235959.9+0000')
+      expect(createHL7Date(date, '19', { offset: 0 })).toBe('20200131235959.9960+0000')
+    })
+
+    test('...local time without an offset', async () => {
+      const local = new Date(2020, 0, 2, 3, 4, 5)
+      expect(createHL7Date(local)).toBe('20200102030405')
+      expect(createHL7Date(local, '8')).toBe('20200102')
+      expect(createHL7Date(local, '12')).toBe('202001020304')
+      expect(createHL7Date(local, 'nope')).toBe('20200102030405')
+    })
+
+    test('...offsets', async () => {
+      expect(createHL7Date(date, '14', { offset: -300 })).toBe('20200131185959-0500')
+      expect(createHL7Date(date, '12', { offset: 330 })).toBe('202002010529+0530')
+      expect(HL7DateTime.fromDate(date, { offset: 'local' }).offset).toBe(-date.getTimezoneOffset())
+    })
+
+    test('...rounding', async () => {
+      expect(createHL7Date(date, '14', { offset: 0 })).toBe('20200131235959+0000')
+      expect(createHL7Date(date, '14', { offset: 0, round: true })).toBe('20200201000000+0000')
+      expect(createHL7Date(date, '17', { offset: 0, round: true })).toBe('20200201000000.00+0000')
+      expect(createHL7Date(date, '18', { offset: 0, round: true })).toBe('20200131235959.996+0000')
+      // dates are not rounded
+      expect(createHL7Date(date, '8', { offset: 0, round: true })).toBe('20200131+0000')
+    })
+
+    test('...round trip', async () => {
+      const value = HL7DateTime.fromDate(date, { precision: 18, offset: -300 })
+      expect(HL7DateTime.parse(value.toString()).toDate()).toEqual(date)
+    })
+  })
+
+  describe('message', () => {
+    const message = new Message({ text: 'MSH|^~\\&|||||20081231153000-0500||ADT^A01^ADT_A01|12345|P|2.7\rEVN||20081231153000.12' })
+
+    test('...toDate uses the offset', async () => {
+      expect(message.get('MSH.7').toDate().toISOString()).toBe('2008-12-31T20:30:00.000Z')
+      expect(message.get('MSH.7').as(DTM).toDate().toISOString()).toBe('2008-12-31T20:30:00.000Z')
+    })
+
+    test('...toDateTime', async () => {
+      const value = message.get('EVN.2').toDateTime()
+      expect(value.precision).toBe(17)
+      expect(value.fraction).toBe('12')
+      expect(message.get('EVN.2').as(DTM).toDateTime().toString()).toBe('20081231153000.12')
+    })
+
+    test('...set a date/time', async () => {
+      message.set('EVN.6', HL7DateTime.parse('2008123115-0500'))
+      expect(message.get('EVN.6').toString()).toBe('2008123115-0500')
+      message.set('EVN.3').as(DTM).setDate(HL7DateTime.fromDate(new Date(Date.UTC(2020, 0, 1)), { precision: 8, offset: 0 }))
+      expect(message.get('EVN.3').toString()).toBe('20200101+0000')
+    })
+
+    test('...builder date length', async () => {
+      const built = new Message({ date: '19', messageHeader: { msh_9_1: 'ADT', msh_9_2: 'A01', msh_10: '12345', msh_11_1: 'P' } })
+      expect(built.get('MSH.7').toString()).toMatch(/^\d{14}\.\d{4}$/)
+    })
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, expect, test } from 'vitest'
+import { Batch, FileBatch, Message, SAFE_HARBOR } from '../src'
+
+describe('node hl7 client - de-identify tests', () => {
+  const hl7 = [
+    'MSH|^~\\&|APP|FAC|RECV|RFAC|20240105120000||ADT^A01^ADT_A01|1|P|2.5',
+    'EVN|A01|20240105120000',
+    'PID|1||MRN12345^^^HOSP^MR~123-45-6789^^^SSA^SS||SMITH^JOHN^Q^JR||19800215|M|||123 MAIN ST^APT 4^BOSTON^MA^02115^USA^H||^PRN^PH^^1^617^5551234~^NET^Internet^john@mail.com',
+    'NK1|1|SMITH^JANE|SPO|123 MAIN ST^^BOSTON^MA^02115|^PRN^PH^^1^617^5559999',
+    'PV1|1|I|W^1^1',
+    'OBX|1|NM|GLU^Glucose||90'
+  ].join('\r')
+
+  const structure = (message: Message): Array<[string, number]> => message.toArray().map(segment => [segment.name, segment.length])
+
+  const message = (): Message => {
+    const message = new Message({ text: hl7 })
+    message.set('PV1.19', 'VISIT77')
+    message.set('PV1.44', '20240101083000-0500')
+    message.set('PV1.45', '20240105')
+    return message
+  }
+
+  test('...keeps the structure, and does not change the message', async () => {
+    const original = message()
+    const text = original.toString()
+    const result = original.deidentify({ salt: 'secret' })
+    expect(original.toString()).toBe(text)
+
+    const parsed = new Message({ text: result.toString() })
+    expect(structure(parsed)).toEqual(structure(original))
+    expect(parsed.get('PID.3').toArray()).toHaveLength(2)
+    expect(parsed.get('MSH.10').toString()).toBe('1')
+    expect(parsed.get('OBX.5').toString()).toBe('90')
+    expect(parsed.get('EVN.2').toString()).toBe('20240105120000')
+  })
+
+  test('...safe harbor identifiers', async () => {
+    const result = message().deidentify({ salt: 'secret' })
+    const text = result.toString()
+    for (const identifier of ['SMITH', 'JOHN', 'JANE', 'MRN12345', '123-45-6789', 'MAIN ST', 'BOSTON', '5551234', '5559999', 'john@mail.com', '19800215', 'VISIT77']) {
+      expect(text).not.toContain(identifier)
+    }
+
+    // the format of IDs, and what is not an identifier, stays
+    expect(result.get('PID.3.1').toString()).toMatch(/^[A-Z]{3}\d{5}$/)
+    expect(result.get('PID.3.4').toString()).toBe('HOSP')
+    expect(result.get('PID.3.5').toString()).toBe('MR')
+    expect(result.get('PID.3').get(1).toRaw()).toMatch(/^\d{3}-\d{2}-\d{4}\^\^\^SSA\^SS$/)
+    expect(result.get('PID.5.4').toString()).toBe('JR')
+    expect(result.get('PID.5.3').toString()).toMatch(/^[A-Z]$/)
+    expect(result.get('PID.11.2').toString()).toBe('')
+    expect(result.get('PID.11.4').toString()).toBe('MA')
+    expect(result.get('PID.11.5').toString()).toBe('00000')
+    expect(result.get('NK1.4.5').toString()).toBe('00000')
+    expect(result.get('PID.13').get(0).get(1).toString()).toBe('PRN')
+    expect(result.get('PID.13').get(1).get(3).toString()).toMatch(/@example\.com$/)
+    expect(result.get('PV1.2').toString()).toBe('I')
+  })
+
+  test('...the same values are the same fake data with the same salt', async () => {
+    const first = message().deidentify({ salt: 'secret' })
+    const second = message().deidentify({ salt: 'secret' })
+    expect(first.toString()).toBe(second.toString())
+    // the family name of the patient and their next of kin
+    expect(first.get('NK1.2.1').toString()).toBe(first.get('PID.5.1').toString())
+    expect(first.get('NK1.4.1').toString()).toBe(first.get('PID.11.1').toString())
+
+    const other = message().deidentify({ salt: 'other' })
+    expect(other.toString()).not.toBe(first.toString())
+    const random = message().deidentify()
+    expect(random.get('PID.3.1').toString()).not.toBe('MRN12345')
+  })
+
+  test('...dates are only their year', async () => {
+    const result = message()
+    result.set('NK1.8', '20200101')
+    result.set('IN1.12', 'not a date')
+    const deidentified = result.deidentify({ salt: 'secret' })
+    expect(deidentified.get('PID.7').toString()).toBe('1980')
+    expect(deidentified.get('PV1.44').toString()).toBe('2024')
+    expect(deidentified.get('PV1.45').toString()).toBe('2024')
+    expect(deidentified.get('NK1.8').toString()).toBe('2020')
+    expect(deidentified.get('IN1.12').toString()).toBe('')
+    // the message date, and dates that are not about the patient, stay
+    expect(deidentified.get('MSH.7').toString()).toBe('20240105120000')
+    expect(deidentified.get('EVN.2').toString()).toBe('20240105120000')
+    expect(deidentified.toString()).not.toContain('20240101083000')
+  })
+
+  test('...years of birth over 89 years ago are all the same', async () => {
+    const oldest = String(new Date().getUTCFullYear() - 90)
+    const result = message()
+    result.set('PID.7', '19200101')
+    result.set('PID.29', `${oldest}0615`)
+    result.set('NK1.16', `${Number(oldest) + 1}0101`)
+    const deidentified = result.deidentify({ salt: 'secret' })
+    expect(deidentified.get('PID.7').toString()).toBe(oldest)
+    expect(deidentified.get('PID.29').toString()).toBe(oldest)
+    expect(deidentified.get('NK1.16').toString()).toBe(String(Number(oldest) + 1))
+    expect(deidentified.toString()).not.toContain('1920')
+  })
+
+  test('...dates of a patient move the same number of days with shift', async () => {
+    const days = (from: string, to: string): number => Math.round((Date.UTC(+to.slice(0, 4), +to.slice(4, 6) - 1, +to.slice(6, 8)) - Date.UTC(+from.slice(0, 4), +from.slice(4, 6) - 1, +from.slice(6, 8))) / 86400000)
+
+    const result = message().deidentify({
+      salt: 'secret',
+      shiftDays: 30,
+      rules: ['PID.7', 'PV1.44', 'PV1.45'].map(path => ({ path, action: 'shift' as const }))
+    })
+    const birth = days('19800215', result.get('PID.7').toString())
+    expect(birth).not.toBe(0)
+    expect(Math.abs(birth)).toBeLessThanOrEqual(30)
+    expect(days('20240101', result.get('PV1.44').toString())).toBe(birth)
+    expect(days('20240105', result.get('PV1.45').toString())).toBe(birth)
+    // the time, offset, and precision are kept
+    expect(result.get('PV1.44').toString()).toMatch(/^\d{8}083000-0500$/)
+    expect(result.get('PV1.45').toString()).toHaveLength(8)
+  })
+
+  test('...custom rules', async () => {
+    const result = message().deidentify({
+      salt: 'secret',
+      rules: [
+        { path: 'PID.3.1', action: 'hash' },
+        { path: 'PID.5.2', action: 'fake', fake: 'name' },
+        { path: 'PID.11', action: 'remove' },
+        { path: 'OBX.5', action: 'remove' },
+        { path: 'EVN.2', action: 'shift' },
+        { path: 'PV1.44.1', action: 'year' }
+      ]
+    })
+    expect(result.get('PID.3').get(0).toRaw()).toMatch(/^[0-9a-f]{16}\^\^\^HOSP\^MR$/)
+    expect(result.get('PID.3').get(1).toRaw()).toMatch(/^[0-9a-f]{16}\^\^\^SSA\^SS$/)
+    expect(result.get('PID.5.1').toString()).toBe('SMITH')
+    expect(result.get('PID.5.2').toString()).not.toBe('JOHN')
+    expect(result.get('PID.11').toString()).toBe('')
+    expect(result.get('OBX.5').toString()).toBe('')
+    expect(result.get('PID.7').toString()).toBe('19800215')
+    expect(result.get('EVN.2').toString()).not.toBe('20240105120000')
+    expect(result.get('PV1.44').toString()).toBe('2024')
+    expect(result.toArray().map(segment => segment.name)).toEqual(['MSH', 'EVN', 'PID', 'NK1', 'PV1', 'OBX'])
+  })
+
+  test('...invalid rules', async () => {
+    const result = message()
+    expect(() => result.deidentify({ rules: [{ path: 'PID', action: 'remove' }] })).toThrow('Invalid path PID. It must be a segment and a field, component, or sub-component, like PID.11.5.')
+    expect(() => result.deidentify({ rules: [{ path: 'MSH.3', action: 'remove' }] })).toThrow('Invalid path MSH.3.')
+    expect(() => result.deidentify({ rules: [{ path: 'PID.5', action: 'fake', fake: 'email' as 'name' }] })).toThrow('Unknown fake data email.')
+    expect(() => result.deidentify({ rules: [{ path: 'PID.5', action: 'scrub' as 'remove' }] })).toThrow('Unknown de-identify action scrub.')
+    expect(() => result.deidentify({ shiftDays: 0 })).toThrow('shiftDays must be a whole number of 1 or more.')
+    expect(SAFE_HARBOR.length).toBeGreaterThan(0)
+  })
+
+  test('...batch and file', async () => {
+    const other = hl7.replace('SMITH^JOHN', 'DOE^JANE').replace('MRN12345', 'MRN999')
+    const batch = new Batch({ text: ['BHS|^~\\&|APP', hl7, other, 'BTS|2'].join('\r') })
+    const result = batch.deidentify({ salt: 'secret' })
+    const messages = result.messages()
+    expect(messages).toHaveLength(2)
+    expect(messages[0].toString()).toBe(new Message({ text: hl7 }).deidentify({ salt: 'secret' }).toString())
+    expect(messages[1].get('PID.5.1').toString()).not.toBe('DOE')
+    expect(result.get('BTS.1').toString()).toBe('2')
+    expect(batch.toString()).toContain('SMITH')
+
+    const file = new FileBatch({ text: ['FHS|^~\\&|APP', 'BHS|^~\\&|APP', hl7, 'BTS|1', 'FTS|1'].join('\r') })
+    const deidentified = file.deidentify({ salt: 'secret' })
+    expect(deidentified.messages()[0].toString()).toBe(messages[0].toString())
+  })
+})
@@ -1,11 +1,13 @@
 import fs from "fs";
+import net from 'node:net'
 import {Server} from 'node-hl7-server'
+import os from 'node:os'
 import path from "node:path";
 import { describe, expect, test } from 'vitest';
 import tcpPortUsed from 'tcp-port-used'
-import Client, {Batch, Message} from '../src'
+import Client, {Batch, Message, MLLPFramer, OutboundQueue} from '../src'
 import {createDeferred} from "../src/utils/utils";
-import {expectEvent} from './__utils__'
+import {expectEvent, sleep} from './__utils__'
 
 describe('node hl7 end to end - client', () => {
 
@@ -103,6 +105,690 @@ describe('node hl7 end to end - client', () => {
     })
   })
 
+  describe('server/client mllp framing', () => {
+
+    const VT = String.fromCharCode(0x0b)
+    const FSCR = `${String.fromCharCode(0x1c)}${String.fromCharCode(0x0d)}`
+
+    test('...ack split over many packets and two acks in one packet', async () => {
+
+      let dfd = createDeferred<void>()
+
+      const largeAck = `MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK1||2.7\rMSA|AE|CONTROL_ID_1\r${'ERR|^^^207&Application internal error&HL70357\r'.repeat(200)}`
+      const ackTwo = 'MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK2||2.7\rMSA|AA|CONTROL_ID_2'
+      const ackThree = 'MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK3||2.7\rMSA|AA|CONTROL_ID_3'
+
+      const server = net.createServer((socket) => {
+        socket.setNoDelay(true)
+        socket.once('data', () => {
+          const first = Buffer.from(`${VT}${largeAck}${FSCR}`)
+          let offset = 0
+          const writeNext = (): void => {
+            if (offset < first.length) {
+              socket.write(first.subarray(offset, offset + 1000))
+              offset += 1000
+              setTimeout(writeNext, 5)
+            } else {
+              socket.write(`${VT}${ackTwo}${FSCR}${VT}${ackThree}${FSCR}`)
+            }
+          }
+          writeNext()
+        })
+      })
+
+      await new Promise<void>((resolve) => server.listen(3000, '0.0.0.0', resolve))
+
+      const received: string[] = []
+
+      const client = new Client({ host: '0.0.0.0' })
+      const outbound = client.createConnection({ port: 3000 }, async (res) => {
+        received.push(res.getMessage().get('MSA.2').toString())
+        if (received.length === 3) {
+          dfd.resolve()
+        }
+      })
+
+      await expectEvent(outbound, 'connect')
+
+      const message = new Message({
+        messageHeader: {
+          msh_9_1: 'ADT',
+          msh_9_2: 'A01',
+          msh_10: 'CONTROL_ID_1',
+          msh_11_1: 'D'
+        }
+      })
+
+      await outbound.sendMessage(message)
+
+      await dfd.promise
+
+      expect(received).toEqual(['CONTROL_ID_1', 'CONTROL_ID_2', 'CONTROL_ID_3'])
+      expect(client.totalAck()).toEqual(3)
+
+      await outbound.close()
+      await new Promise((resolve) => server.close(resolve))
+
+      client.closeAll()
+
+    })
+
+    test('...a framed response that is not HL7 is dropped', async () => {
+
+      let dfd = createDeferred<void>()
+
+      const ack = 'MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK1||2.7\rMSA|AA|CONTROL_ID_1'
+
+      const server = net.createServer((socket) => {
+        socket.once('data', () => {
+          socket.write(`${VT}not an HL7 message${FSCR}${VT}${ack}${FSCR}`)
+        })
+      })
+
+      await new Promise<void>((resolve) => server.listen(3000, '0.0.0.0', resolve))
+
+      const errors: Error[] = []
+
+      const client = new Client({ host: '0.0.0.0' })
+      const outbound = client.createConnection({ port: 3000 }, async (res) => {
+        expect(res.getMessage().get('MSA.2').toString()).toBe('CONTROL_ID_1')
+        dfd.resolve()
+      })
+      outbound.on('client.error', (err) => errors.push(err))
+
+      await expectEvent(outbound, 'connect')
+
+      await outbound.sendMessage(new Message({
+        messageHeader: {
+          msh_9_1: 'ADT',
+          msh_9_2: 'A01',
+          msh_10: 'CONTROL_ID_1',
+          msh_11_1: 'D'
+        }
+      }))
+
+      await dfd.promise
+
+      expect(errors).toHaveLength(1)
+      expect(errors[0].message).toBe('text must begin with the MSH segment.')
+      expect(client.totalAck()).toEqual(1)
+
+      await outbound.close()
+      await new Promise((resolve) => server.close(resolve))
+
+      client.closeAll()
+
+    })
+
+  })
+
+  describe('server/client response correlation', () => {
+
+    test('...sendMessage resolves with the matching response', async () => {
+
+      const server = new Server({ bindAddress: '0.0.0.0' })
+      const listener = server.createInbound({ port: 3000 }, async (req, res) => {
+        await res.sendResponse('AA')
+      })
+
+      await expectEvent(listener, 'listen')
+
+      const client = new Client({ host: '0.0.0.0' })
+      const outbound = client.createConnection({ port: 3000 }, async () => {})
+
+      await expectEvent(outbound, 'connect')
+
+      const message = new Message({
+        messageHeader: {
+          msh_9_1: 'ADT',
+          msh_9_2: 'A01',
+          msh_10: 'CONTROL_ID_WAIT',
+          msh_11_1: 'D'
+        }
+      })
+
+      const response = await outbound.sendMessage(message, { waitResponse: true })
+
+      expect(response.getMessage().get('MSA.1').toString()).toBe('AA')
+      expect(response.getMessage().get('MSA.2').toString()).toBe('CONTROL_ID_WAIT')
+
+      await outbound.close()
+      await listener.close()
+
+      client.closeAll()
+
+    })
+
+    test('...sendMessage rejects on timeout and on close', async () => {
+
+      const sockets: net.Socket[] = []
+      const server = net.createServer((socket) => { sockets.push(socket) })
+
+      await new Promise<void>((resolve) => server.listen(3000, '0.0.0.0', resolve))
+
+      const client = new Client({ host: '0.0.0.0' })
+      const outbound = client.createConnection({ port: 3000, waitAck: false }, async () => {})
+
+      await expectEvent(outbound, 'connect')
+
+      const message = new Message({
+        messageHeader: {
+          msh_9_1: 'ADT',
+          msh_9_2: 'A01',
+          msh_10: 'CONTROL_ID_TIMEOUT',
+          msh_11_1: 'D'
+        }
+      })
+
+      await expect(outbound.sendMessage(message, { waitResponse: true, responseTimeout: 100 }))
+        .rejects.toThrow('No response received for MSH.10 CONTROL_ID_TIMEOUT within 100ms.')
+
+      const pending = outbound.sendMessage(message, { waitResponse: true })
+
+      await expect(outbound.sendMessage(message, { waitResponse: true }))
+        .rejects.toThrow('Already waiting for a response to MSH.10 CONTROL_ID_TIMEOUT.')
+
+      await outbound.close()
+
+      await expect(pending).rejects.toThrow('Connection closed before a response was received.')
+
+      sockets.forEach((socket) => socket.destroy())
+      await new Promise((resolve) => server.close(resolve))
+
+      client.closeAll()
+
+    })
+
+  })
+
+  describe('server/client windowed sending', () => {
+
+    const VT = String.fromCharCode(0x0b)
+    const FSCR = `${String.fromCharCode(0x1c)}${String.fromCharCode(0x0d)}`
+
+    test('...no more than windowSize messages in flight', async () => {
+
+      const received: string[] = []
+      let serverSocket: net.Socket | undefined
+
+      const server = net.createServer((socket) => {
+        serverSocket = socket
+        const framer = new MLLPFramer()
+        framer.on('frame', (frame: string) => {
+          received.push(new Message({ text: frame }).get('MSH.10').toString())
+        })
+        socket.on('data', (buffer) => framer.push(buffer))
+      })
+
+      await new Promise<void>((resolve) => server.listen(3000, '0.0.0.0', resolve))
+
+      const ack = (controlId: string): void => {
+        serverSocket?.write(`${VT}MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK_${controlId}||2.7\rMSA|AA|${controlId}${FSCR}`)
+      }
+
+      const client = new Client({ host: '0.0.0.0' })
+      const outbound = client.createConnection({ port: 3000, windowSize: 2 }, async () => {})
+
+      await expectEvent(outbound, 'connect')
+
+      const send = async (controlId: string) => {
+        const message = new Message({
+          messageHeader: {
+            msh_9_1: 'ADT',
+            msh_9_2: 'A01',
+            msh_10: controlId,
+            msh_11_1: 'D'
+          }
+        })
+        return await outbound.sendMessage(message, { waitResponse: true })
+      }
+
+      const responses = Promise.all([send('ONE'), send('TWO'), send('THREE')])
+
+      await sleep(50)
+
+      expect(received).toEqual(['ONE', 'TWO'])
+      expect(outbound.stats.inFlight).toBe(2)
+
+      // acknowledged out of order
+      ack('TWO')
+
+      await sleep(50)
+
+      expect(received).toEqual(['ONE', 'TWO', 'THREE'])
+      expect(outbound.stats.inFlight).toBe(2)
+
+      ack('THREE')
+      ack('ONE')
+
+      const results = await responses
+      expect(results.map(res => res.getMessage().get('MSA.2').toString())).toEqual(['ONE', 'TWO', 'THREE'])
+      expect(outbound.stats.inFlight).toBe(0)
+
+      await outbound.close()
+      serverSocket?.destroy()
+      await new Promise((resolve) => server.close(resolve))
+
+      client.closeAll()
+
+    })
+
+    test('...a response timeout frees its place in the window', async () => {
+
+      const received: string[] = []
+      let serverSocket: net.Socket | undefined
+
+      const server = net.createServer((socket) => {
+        serverSocket = socket
+        const framer = new MLLPFramer()
+        framer.on('frame', (frame: string) => {
+          const controlId = new Message({ text: frame }).get('MSH.10').toString()
+          received.push(controlId)
+          // the first one is never answered
+          if (controlId !== 'LOST') {
+            socket.write(`${VT}MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK_${controlId}||2.7\rMSA|AA|${controlId}${FSCR}`)
+          }
+        })
+        socket.on('data', (buffer) => framer.push(buffer))
+      })
+
+      await new Promise<void>((resolve) => server.listen(3000, '0.0.0.0', resolve))
+
+      const client = new Client({ host: '0.0.0.0' })
+      // waitAck, so one message at a time
+      const outbound = client.createConnection({ port: 3000 }, async () => {})
+
+      await expectEvent(outbound, 'connect')
+
+      const send = async (controlId: string, responseTimeout: number) => {
+        const message = new Message({
+          messageHeader: {
+            msh_9_1: 'ADT',
+            msh_9_2: 'A01',
+            msh_10: controlId,
+            msh_11_1: 'D'
+          }
+        })
+        return await outbound.sendMessage(message, { waitResponse: true, responseTimeout })
+      }
+
+      await expect(send('LOST', 100)).rejects.toThrow('No response received for MSH.10 LOST within 100ms.')
+      expect(outbound.stats.inFlight).toBe(0)
+
+      const response = await send('FOUND', 1000)
+      expect(response.getMessage().get('MSA.2').toString()).toBe('FOUND')
+      expect(received).toEqual(['LOST', 'FOUND'])
+      expect(outbound.stats.inFlight).toBe(0)
+
+      await outbound.close()
+      serverSocket?.destroy()
+      await new Promise((resolve) => server.close(resolve))
+
+      client.closeAll()
+
+    })
+
+  })
+
+  describe('server/client ack timeout', () => {
+
+    const VT = String.fromCharCode(0x0b)
+    const FSCR = `${String.fromCharCode(0x1c)}${String.fromCharCode(0x0d)}`
+
+    const createMessage = (controlId: string): Message => {
+      return new Message({
+        messageHeader: {
+          msh_9_1: 'ADT',
+          msh_9_2: 'A01',
+          msh_10: controlId,
+          msh_11_1: 'D'
+        }
+      })
+    }
+
+    test('...resends with the same MSH-10 and then gives up', async () => {
+
+      const received: string[] = []
+      let serverSocket: net.Socket | undefined
+
+      const server = net.createServer((socket) => {
+        serverSocket = socket
+        const framer = new MLLPFramer()
+        framer.on('frame', (frame: string) => {
+          received.push(new Message({ text: frame }).get('MSH.10').toString())
+        })
+        socket.on('data', (buffer) => framer.push(buffer))
+      })
+
+      await new Promise<void>((resolve) => server.listen(3000, '0.0.0.0', resolve))
+
+      const client = new Client({ host: '0.0.0.0' })
+      const outbound = client.createConnection({ port: 3000, ackTimeout: 100, ackRetries: 2 }, async () => {})
+
+      await expectEvent(outbound, 'connect')
+
+      const timedOut: string[] = []
+      outbound.on('client.ack.timeout', (message) => {
+        timedOut.push((message as Message).get('MSH.10').toString())
+      })
+
+      const message = createMessage('NEVER_ACKED')
+
+      await expect(outbound.sendMessage(message)).rejects.toThrow('No ACK received for MSH.10 NEVER_ACKED after 3 attempts.')
+
+      expect(received).toEqual(['NEVER_ACKED', 'NEVER_ACKED', 'NEVER_ACKED'])
+      expect(timedOut).toEqual(['NEVER_ACKED'])
+      expect(outbound.stats.inFlight).toBe(0)
+
+      // the window is free again
+      const next = outbound.sendMessage(createMessage('NEXT'))
+      await sleep(20)
+      expect(received[received.length - 1]).toBe('NEXT')
+      serverSocket?.write(`${VT}MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK_NEXT||2.7\rMSA|AA|NEXT${FSCR}`)
+      await next
+
+      await outbound.close()
+      serverSocket?.destroy()
+      await new Promise((resolve) => server.close(resolve))
+
+      client.closeAll()
+
+    })
+
+    test('...resolves once a resent message is acknowledged', async () => {
+
+      const received: string[] = []
+
+      const server = net.createServer((socket) => {
+        const framer = new MLLPFramer()
+        framer.on('frame', (frame: string) => {
+          const controlId = new Message({ text: frame }).get('MSH.10').toString()
+          received.push(controlId)
+          // only the second copy gets through
+          if (received.length === 2) {
+            socket.write(`${VT}MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK_${controlId}||2.7\rMSA|AA|${controlId}${FSCR}`)
+          }
+        })
+        socket.on('data', (buffer) => framer.push(buffer))
+      })
+
+      await new Promise<void>((resolve) => server.listen(3000, '0.0.0.0', resolve))
+
+      const client = new Client({ host: '0.0.0.0' })
+      const outbound = client.createConnection({ port: 3000, ackTimeout: 100 }, async () => {})
+
+      await expectEvent(outbound, 'connect')
+
+      let timedOut = false
+      outbound.on('client.ack.timeout', () => { timedOut = true })
+
+      await outbound.sendMessage(createMessage('SECOND_TRY'))
+
+      expect(received).toEqual(['SECOND_TRY', 'SECOND_TRY'])
+      expect(client.totalAck()).toBe(1)
+
+      await sleep(250)
+      expect(received.length).toBe(2)
+      expect(timedOut).toBe(false)
+
+      await outbound.close()
+      await new Promise((resolve) => server.close(resolve))
+
+      client.closeAll()
+
+    })
+
+  })
+
+  describe('server/client connection pool', () => {
+
+    const VT = String.fromCharCode(0x0b)
+    const FSCR = `${String.fromCharCode(0x1c)}${String.fromCharCode(0x0d)}`
+
+    test('...busy sockets open new ones up to maxConnections', async () => {
+
+      const sockets: net.Socket[] = []
+      const received: Array<{ socket: net.Socket, controlId: string }> = []
+
+      const server = net.createServer((socket) => {
+        sockets.push(socket)
+        const framer = new MLLPFramer()
+        framer.on('frame', (frame: string) => {
+          received.push({ socket, controlId: new Message({ text: frame }).get('MSH.10').toString() })
+        })
+        socket.on('data', (buffer) => framer.push(buffer))
+      })
+
+      await new Promise<void>((resolve) => server.listen(3000, '0.0.0.0', resolve))
+
+      const ackAll = (): void => {
+        for (const { socket, controlId } of received.splice(0)) {
+          socket.write(`${VT}MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK_${controlId}||2.7\rMSA|AA|${controlId}${FSCR}`)
+        }
+      }
+
+      const client = new Client({ host: '0.0.0.0' })
+      const outbound = client.createConnection({ port: 3000, maxConnections: 2 }, async () => {})
+
+      await expectEvent(outbound, 'connect')
+
+      expect(client.totalConnections()).toBe(1)
+
+      const send = async (controlId: string) => {
+        const message = new Message({
+          messageHeader: {
+            msh_9_1: 'ADT',
+            msh_9_2: 'A01',
+            msh_10: controlId,
+            msh_11_1: 'D'
+          }
+        })
+        return await outbound.sendMessage(message, { waitResponse: true })
+      }
+
+      const responses = Promise.all([send('ONE'), send('TWO'), send('THREE')])
+
+      await sleep(50)
+
+      // two sockets, one message each, the third waits on an ACK
+      expect(sockets.length).toBe(2)
+      expect(received.map(r => r.controlId)).toEqual(['ONE', 'TWO'])
+      expect(received[0].socket).not.toBe(received[1].socket)
+      expect(outbound.stats.inFlight).toBe(2)
+      expect(client.totalConnections()).toBe(2)
+
+      ackAll()
+
+      await sleep(50)
+
+      expect(received.map(r => r.controlId)).toEqual(['THREE'])
+
+      ackAll()
+
+      const results = await responses
+      expect(results.map(res => res.getMessage().get('MSA.2').toString())).toEqual(['ONE', 'TWO', 'THREE'])
+      expect(client.totalAck()).toBe(3)
+      expect(client.totalSent()).toBe(3)
+
+      await outbound.close()
+      expect(client.totalConnections()).toBe(0)
+
+      for (const socket of sockets) socket.destroy()
+      await new Promise((resolve) => server.close(resolve))
+
+      client.closeAll()
+
+    })
+
+    test('...maxConnections can not be used with a queue', async () => {
+      const client = new Client({ host: '0.0.0.0' })
+      expect(() => client.createConnection({ port: 3000, maxConnections: 2, queueDirectory: os.tmpdir() }, async () => {})).toThrow('queueDirectory can not be used when maxConnections is greater than 1.')
+    })
+
+  })
+
+  describe('server/client failover', () => {
+
+    const listen = async (port: number, sockets: net.Socket[]): Promise<net.Server> => {
+      const server = net.createServer((socket) => { sockets.push(socket) })
+      await new Promise<void>((resolve) => server.listen(port, '0.0.0.0', resolve))
+      return server
+    }
+
+    const shutdown = async (server: net.Server, sockets: net.Socket[]): Promise<void> => {
+      for (const socket of sockets) socket.destroy()
+      await new Promise((resolve) => server.close(resolve))
+    }
+
+    test('...priority moves to the secondary and fails back to the primary', async () => {
+
+      const primarySockets: net.Socket[] = []
+      const secondarySockets: net.Socket[] = []
+      const secondary = await listen(3001, secondarySockets)
+
+      const client = new Client({
+        endpoints: [{ host: '0.0.0.0', port: 3000 }, { host: '0.0.0.0', port: 3001 }],
+        failbackInterval: 1000
+      })
+
+      const switches: number[] = []
+      client.on('client.failover', (endpoint) => { switches.push(endpoint.port as number) })
+
+      const outbound = client.createConnection({ port: 3000, retryLow: 10, retryHigh: 50 }, async () => {})
+
+      // the primary is down
+      await expectEvent(outbound, 'connect')
+      expect(switches).toEqual([3001])
+      expect(client.getEndpoint()).toEqual({ host: '0.0.0.0', port: 3001 })
+      expect(secondarySockets.length).toBe(1)
+
+      // the primary comes back
+      const primary = await listen(3000, primarySockets)
+
+      await expectEvent(outbound, 'connect')
+      expect(switches).toEqual([3001, 3000])
+      expect(client.getEndpoint()).toEqual({ host: '0.0.0.0', port: 3000 })
+      // one for the check, one for the connection
+      expect(primarySockets.length).toBe(2)
+
+      await outbound.close()
+      client.closeAll()
+
+      await shutdown(primary, primarySockets)
+      await shutdown(secondary, secondarySockets)
+
+    })
+
+    test('...round-robin spreads sockets over every endpoint', async () => {
+
+      const firstSockets: net.Socket[] = []
+      const secondSockets: net.Socket[] = []
+      const first = await listen(3000, firstSockets)
+      const second = await listen(3001, secondSockets)
+
+      const client = new Client({
+        endpoints: [{ host: '0.0.0.0', port: 3000 }, { host: '0.0.0.0', port: 3001 }],
+        failover: 'round-robin'
+      })
+
+      const one = client.createConnection({ port: 3000 }, async () => {})
+      await expectEvent(one, 'connect')
+      expect(client.getEndpoint().port).toBe(3000)
+
+      const two = client.createConnection({ port: 3000 }, async () => {})
+      await expectEvent(two, 'connect')
+      expect(client.getEndpoint().port).toBe(3001)
+
+      expect(firstSockets.length).toBe(1)
+      expect(secondSockets.length).toBe(1)
+
+      await one.close()
+      await two.close()
+      client.closeAll()
+
+      await shutdown(first, firstSockets)
+      await shutdown(second, secondSockets)
+
+    })
+
+  })
+
+  describe('server/client store and forward queue', () => {
+
+    const VT = String.fromCharCode(0x0b)
+    const FSCR = `${String.fromCharCode(0x1c)}${String.fromCharCode(0x0d)}`
+    const directory = path.join(os.tmpdir(), 'node-hl7-client-queue-e2e')
+
+    const createMessage = (controlId: string): Message => {
+      return new Message({
+        messageHeader: {
+          msh_9_1: 'ADT',
+          msh_9_2: 'A01',
+          msh_10: controlId,
+          msh_11_1: 'D'
+        }
+      })
+    }
+
+    test('...replays queued messages in order and holds rejected ones', async () => {
+
+      fs.rmSync(directory, { recursive: true, force: true })
+
+      // left over from a previous run of the process
+      const previous = new OutboundQueue(directory)
+      previous.add(createMessage('QUEUED_ONE').toString())
+      previous.add(createMessage('QUEUED_TWO').toString())
+      previous.close()
+
+      const received: string[] = []
+      const sockets: net.Socket[] = []
+
+      const server = net.createServer((socket) => {
+        sockets.push(socket)
+        const framer = new MLLPFramer()
+        framer.on('frame', (frame: string) => {
+          const controlId = new Message({ text: frame }).get('MSH.10').toString()
+          received.push(controlId)
+          const code = controlId === 'REJECT_ME' && received.filter(id => id === controlId).length === 1 ? 'AR' : 'AA'
+          socket.write(`${VT}MSH|^~\\&|||||20081231||ACK^A01^ACK|ACK_${controlId}||2.7\rMSA|${code}|${controlId}|Rejected${FSCR}`)
+        })
+        socket.on('data', (buffer) => framer.push(buffer))
+      })
+
+      await new Promise<void>((resolve) => server.listen(3000, '0.0.0.0', resolve))
+
+      const client = new Client({ host: '0.0.0.0' })
+      const outbound = client.createConnection({ port: 3000, queueDirectory: directory }, async () => {})
+
+      await expectEvent(outbound, 'connect')
+
+      const response = await outbound.sendMessage(createMessage('REJECT_ME'), { waitResponse: true })
+      expect(response.getMessage().get('MSA.1').toString()).toBe('AR')
+
+      expect(received).toEqual(['QUEUED_ONE', 'QUEUED_TWO', 'REJECT_ME'])
+
+      const queue = outbound.getQueue()
+      const failed = queue?.list('failed') ?? []
+      expect(failed.length).toBe(1)
+      expect(failed[0].reason).toBe('AR: Rejected')
+      expect(queue?.list('pending').length).toBe(0)
+
+      expect(queue?.requeue(failed[0].id)).toBe(1)
+      await outbound.sendMessage(createMessage('AFTER'), { waitResponse: true })
+
+      expect(received).toEqual(['QUEUED_ONE', 'QUEUED_TWO', 'REJECT_ME', 'REJECT_ME', 'AFTER'])
+      expect(queue?.size).toBe(0)
+
+      await outbound.close()
+      sockets.forEach((socket) => socket.destroy())
+      await new Promise((resolve) => server.close(resolve))
+
+      client.closeAll()
+
+    })
+
+  })
+
   describe('server/client failure checks', () => {
     test('...host does not exist, error out', async () => {
 
@@ -149,7 +835,9 @@ describe('node hl7 end to end - client', () => {
         const outbound = client.createConnection({ port: 3000 }, async (res) => {
           const messageRes = res.getMessage()
           expect(messageRes.get('MSA.1').toString()).toBe('AA')
-          dfd.resolve()
+          if (client.totalAck() === 2) {
+            dfd.resolve()
+          }
         })
 
         const batch = new Batch()
@@ -174,7 +862,7 @@ describe('node hl7 end to end - client', () => {
         await dfd.promise
 
         expect(client.totalSent()).toEqual(1)
-        expect(client.totalAck()).toEqual(1)
+        expect(client.totalAck()).toEqual(2)
 
         await outbound.close()
         await inbound.close()
@@ -0,0 +1,220 @@
+import { describe, expect, test } from 'vitest'
+import { FHIRMapper, FHIRObservation, FHIRPatient, FHIRResource, Message, PID } from '../src'
+
+describe('node hl7 client - fhir tests', () => {
+  const oru = [
+    'MSH|^~\\&|LAB|HOSP|EMR|HOSP|20240101120000-0500||ORU^R01^ORU_R01|MSG1|P|2.5.1',
+    'PID|1||12345^^^HOSP&1.2.3&ISO^MR~999-99-9999^^^SSA^SS||Doe^John^Q^Jr^Dr^MD^L||19700115|M|||123 Main St^Apt 4^Springfield^IL^62701^USA^H||^PRN^PH^^1^217^5551234~^NET^Internet^john@example.org|^WPN^PH^^^217^5559876^12||M^Married||||||||Y|2',
+    'PV1|1|I|ICU^101^A^HOSP||||1234^Smith^Jane^^^Dr|||MED||||7|||5678^Jones^Bob||V100^^^HOSP|||||||||||||||||||||||||20240101080000-0500',
+    'ORC|RE|PL123^EMR|FL456^LAB||||||20240101090000-0500|||1234^Smith^Jane',
+    'OBR|1|PL123^EMR|FL456^LAB|24331-1^Lipid panel^LN|R||20240101093000-0500|||||||||1234^Smith^Jane||||||20240101110000-0500||CH|F',
+    'NTE|1||Fasting sample',
+    'OBX|1|NM|2093-3^Cholesterol^LN||190|mg/dL^^UCUM|100-200|N|||F|||20240101100000-0500',
+    'NTE|1||Normal',
+    'NTE|2||Repeat in a year',
+    'OBX|2|SN|2571-8^Triglyceride^LN||<^150|mg/dL^^UCUM|||||F',
+    'OBX|3|CWE|X^Y^LN||260385009^Negative^SCT||||||F',
+    'OBX|4|ST|Z^Comment^L||Line one~Line two||||||P'
+  ].join('\r')
+
+  const resources = (message: string, mapper: FHIRMapper = new FHIRMapper()): FHIRResource[] =>
+    mapper.map(new Message({ text: message })).entry.map(entry => entry.resource)
+
+  test('...bundle', async () => {
+    const bundle = new FHIRMapper().map(new Message({ text: oru }))
+    expect(bundle.resourceType).toBe('Bundle')
+    expect(bundle.type).toBe('collection')
+    expect(bundle.identifier).toEqual({ value: 'MSG1' })
+    expect(bundle.entry.map(entry => `${entry.resource.resourceType}/${entry.resource.id as string}`)).toEqual([
+      'Patient/patient-1',
+      'Encounter/encounter-1',
+      'ServiceRequest/servicerequest-1',
+      'Observation/observation-1',
+      'Observation/observation-2',
+      'Observation/observation-3',
+      'Observation/observation-4',
+      'DiagnosticReport/diagnosticreport-1'
+    ])
+    // plain JSON
+    expect(JSON.parse(JSON.stringify(bundle))).toEqual(bundle)
+  })
+
+  test('...patient', async () => {
+    const [patient] = resources(oru)
+    expect(patient).toEqual({
+      resourceType: 'Patient',
+      id: 'patient-1',
+      identifier: [
+        { type: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0203', code: 'MR' }] }, system: 'urn:oid:1.2.3', assigner: { display: 'HOSP' }, value: '12345' },
+        { type: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0203', code: 'SS' }] }, assigner: { display: 'SSA' }, value: '999-99-9999' }
+      ],
+      name: [{ use: 'official', family: 'Doe', given: ['John', 'Q'], prefix: ['Dr'], suffix: ['Jr', 'MD'] }],
+      telecom: [
+        { system: 'phone', value: '+1 217 5551234', use: 'home' },
+        { system: 'email', value: 'john@example.org', use: 'home' },
+        { system: 'phone', value: '217 5559876 x12', use: 'work' }
+      ],
+      gender: 'male',
+      birthDate: '1970-01-15',
+      address: [{ use: 'home', line: ['123 Main St', 'Apt 4'], city: 'Springfield', state: 'IL', postalCode: '62701', country: 'USA' }],
+      maritalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0002', code: 'M', display: 'Married' }] },
+      multipleBirthInteger: 2
+    })
+  })
+
+  test('...encounter', async () => {
+    const encounter = resources(oru)[1] as any
+    expect(encounter.status).toBe('in-progress')
+    expect(encounter.class).toEqual({ system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'IMP', display: 'inpatient encounter' })
+    expect(encounter.identifier).toEqual([{ assigner: { display: 'HOSP' }, value: 'V100' }])
+    expect(encounter.subject).toEqual({ reference: 'Patient/patient-1' })
+    expect(encounter.period).toEqual({ start: '2024-01-01T08:00:00-05:00' })
+    expect(encounter.location).toEqual([{ location: { display: 'ICU 101 A' } }])
+    expect(encounter.participant.map((participant: any) => [participant.type[0].coding[0].code, participant.individual.display])).toEqual([
+      ['ATND', 'Jane Smith'],
+      ['ADM', 'Bob Jones']
+    ])
+    expect(encounter.hospitalization).toEqual({ admitSource: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0023', code: '7' }] } })
+  })
+
+  test('...encounter status from the event', async () => {
+    const status = (event: string, discharge: string = ''): string =>
+      (resources(`MSH|^~\\&|||||20240101||ADT^${event}|1|P|2.5.1\rPID|1||1\rPV1|1|O${'|'.repeat(43)}${discharge}`)[1] as any).status
+    expect(status('A01')).toBe('in-progress')
+    expect(status('A05')).toBe('planned')
+    expect(status('A11')).toBe('cancelled')
+    expect(status('A08', '20240102')).toBe('finished')
+  })
+
+  test('...service request', async () => {
+    const request = resources(oru)[2] as any
+    expect(request.status).toBe('completed')
+    expect(request.intent).toBe('order')
+    expect(request.priority).toBe('routine')
+    expect(request.identifier.map((identifier: any) => [identifier.type.coding[0].code, identifier.value])).toEqual([['PLAC', 'PL123'], ['FILL', 'FL456']])
+    expect(request.code).toEqual({ coding: [{ system: 'http://loinc.org', code: '24331-1', display: 'Lipid panel' }] })
+    expect(request.encounter).toEqual({ reference: 'Encounter/encounter-1' })
+    expect(request.authoredOn).toBe('2024-01-01T09:00:00-05:00')
+    expect(request.requester).toEqual({ type: 'Practitioner', identifier: { value: '1234' }, display: 'Jane Smith' })
+    expect(request.note).toEqual([{ text: 'Fasting sample' }])
+  })
+
+  test('...orders without results', async () => {
+    const list = resources([
+      'MSH|^~\\&|||||20240101||ORM^O01|1|P|2.5.1',
+      'PID|1||1',
+      'ORC|NW|A1',
+      'OBR|1|A1||CBC^Blood count^L|S',
+      'ORC|CA|A2'
+    ].join('\r'))
+    expect(list.map(resource => resource.resourceType)).toEqual(['Patient', 'ServiceRequest', 'ServiceRequest'])
+    expect(list.slice(1).map((resource: any) => [resource.status, resource.identifier[0].value, resource.priority])).toEqual([
+      ['active', 'A1', 'stat'],
+      ['revoked', 'A2', undefined]
+    ])
+  })
+
+  test('...observations', async () => {
+    const list = resources(oru) as FHIRObservation[]
+    expect(list[3]).toMatchObject({
+      status: 'final',
+      code: { coding: [{ system: 'http://loinc.org', code: '2093-3', display: 'Cholesterol' }] },
+      subject: { reference: 'Patient/patient-1' },
+      basedOn: [{ reference: 'ServiceRequest/servicerequest-1' }],
+      effectiveDateTime: '2024-01-01T10:00:00-05:00',
+      valueQuantity: { value: 190, unit: 'mg/dL', system: 'http://unitsofmeasure.org', code: 'mg/dL' },
+      interpretation: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation', code: 'N' }] }],
+      note: [{ text: 'Normal' }, { text: 'Repeat in a year' }],
+      referenceRange: [{
+        low: { value: 100, unit: 'mg/dL', system: 'http://unitsofmeasure.org', code: 'mg/dL' },
+        high: { value: 200, unit: 'mg/dL', system: 'http://unitsofmeasure.org', code: 'mg/dL' }
+      }]
+    })
+    expect(list[4].valueQuantity).toEqual({ value: 150, comparator: '<', unit: 'mg/dL', system: 'http://unitsofmeasure.org', code: 'mg/dL' })
+    expect(list[5].valueCodeableConcept).toEqual({ coding: [{ system: 'http://snomed.info/sct', code: '260385009', display: 'Negative' }] })
+    expect(list[6].status).toBe('preliminary')
+    expect(list[6].code).toEqual({ coding: [{ code: 'Z', display: 'Comment' }] })
+    expect(list[6].valueString).toBe('Line one\nLine two')
+  })
+
+  test('...observation value types', async () => {
+    const value = (type: string, text: string): Partial<FHIRObservation> => {
+      const observation = resources(`MSH|^~\\&|||||20240101||ORU^R01|1|P|2.5.1\rOBX|1|${type}|X||${text}||||||F`)[0] as FHIRObservation
+      const { resourceType, id, status, code, ...rest } = observation
+      return rest
+    }
+    expect(value('SN', '^1^:^128')).toEqual({ valueRatio: { numerator: { value: 1 }, denominator: { value: 128 } } })
+    expect(value('SN', '^2^-^4')).toEqual({ valueRange: { low: { value: 2 }, high: { value: 4 } } })
+    expect(value('DTM', '20240101153000+0100')).toEqual({ valueDateTime: '2024-01-01T15:30:00+01:00' })
+    expect(value('TM', '1530')).toEqual({ valueTime: '15:30:00' })
+    expect(value('NM', '')).toEqual({})
+  })
+
+  test('...diagnostic report', async () => {
+    const report = resources(oru)[7] as any
+    expect(report.status).toBe('final')
+    expect(report.category).toEqual([{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0074', code: 'CH' }] }])
+    expect(report.basedOn).toEqual([{ reference: 'ServiceRequest/servicerequest-1' }])
+    expect(report.effectiveDateTime).toBe('2024-01-01T09:30:00-05:00')
+    expect(report.issued).toBe('2024-01-01T11:00:00-05:00')
+    expect(report.result).toEqual([1, 2, 3, 4].map(index => ({ reference: `Observation/observation-${index}` })))
+  })
+
+  test('...more than one patient', async () => {
+    const list = resources([
+      'MSH|^~\\&|||||20240101||ORU^R01|1|P|2.5.1',
+      'PID|1||1', 'OBR|1||A', 'OBX|1|ST|X||a||||||F',
+      'PID|2||2', 'OBR|1||B', 'OBX|1|ST|X||b||||||F'
+    ].join('\r')) as any[]
+    expect(list.map(resource => [resource.id, resource.subject?.reference, resource.result])).toEqual([
+      ['patient-1', undefined, undefined],
+      ['servicerequest-1', 'Patient/patient-1', undefined],
+      ['observation-1', 'Patient/patient-1', undefined],
+      ['diagnosticreport-1', 'Patient/patient-1', [{ reference: 'Observation/observation-1' }]],
+      ['patient-2', undefined, undefined],
+      ['servicerequest-2', 'Patient/patient-2', undefined],
+      ['observation-2', 'Patient/patient-2', undefined],
+      ['diagnosticreport-2', 'Patient/patient-2', [{ reference: 'Observation/observation-2' }]]
+    ])
+  })
+
+  test('...dates', async () => {
+    const mapper = new FHIRMapper()
+    expect(mapper.date('2024')).toBe('2024')
+    expect(mapper.date('202401')).toBe('2024-01')
+    expect(mapper.dateTime('20240102')).toBe('2024-01-02')
+    expect(mapper.dateTime('202401021530-0500')).toBe('2024-01-02T15:30:00-05:00')
+    expect(mapper.dateTime('20240102153045.25+0530')).toBe('2024-01-02T15:30:45.25+05:30')
+    expect(mapper.dateTime('2024010215')).toMatch(/^2024-01-02T15:00:00[+-]\d{2}:\d{2}$/)
+    expect(mapper.dateTime('not a date')).toBeUndefined()
+    expect(mapper.dateTime('')).toBeUndefined()
+  })
+
+  test('...override', async () => {
+    class Mapper extends FHIRMapper {
+      codeSystem (name: string): string | undefined {
+        return name === 'L' ? 'http://lab.example.org/codes' : super.codeSystem(name)
+      }
+
+      patient (pid: PID, context: any): FHIRPatient | undefined {
+        const patient = super.patient(pid, context)
+        return typeof patient !== 'undefined' ? { ...patient, gender: undefined } : undefined
+      }
+
+      encounter (): undefined {
+        return undefined
+      }
+
+      id (resourceType: string, index: number): string {
+        return `${resourceType}${index}`
+      }
+    }
+
+    const list = resources(oru, new Mapper()) as any[]
+    expect(list.map(resource => resource.resourceType)).not.toContain('Encounter')
+    expect(list[0].gender).toBeUndefined()
+    expect(list[0].id).toBe('Patient1')
+    expect(list[1].encounter).toBeUndefined()
+    expect(list[5].code).toEqual({ coding: [{ system: 'http://lab.example.org/codes', code: 'Z', display: 'Comment' }] })
+  })
+})
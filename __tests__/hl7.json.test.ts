@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'vitest'
+import { Batch, FileBatch, HL7MessageJSON, Message } from '../src'
+
+describe('node hl7 client - json tests', () => {
+  const hl7 = 'MSH|^~\\&|SEND|FAC|RECV|FAC|20081231||ADT^A01^ADT_A01|12345|P|2.7\rPID|1||123^^^HOSP&1.2.3&ISO~456||Doe\\S\\Jr^John||\rZPD\rPV1|'
+
+  const roundTrip = <T>(value: T): any => JSON.parse(JSON.stringify(value))
+
+  describe('message', () => {
+    test('...shape', async () => {
+      const json = new Message({ text: hl7 }).toJSON()
+      expect(json.delimiters).toEqual({ segment: '\r', field: '|', component: '^', repetition: '~', escape: '\\', subComponent: '&' })
+      expect(json.segments.map(segment => segment.name)).toEqual(['MSH', 'PID', 'ZPD', 'PV1'])
+      expect(json.segments[0].fields.slice(0, 3)).toEqual([[[['|']]], [[['^~\\&']]], [[['SEND']]]])
+      expect(json.segments[0].fields[8]).toEqual([[['ADT'], ['A01'], ['ADT_A01']]])
+      expect(json.segments[1].fields).toEqual([
+        [[['1']]],
+        [[['']]],
+        [[['123'], [''], [''], ['HOSP', '1.2.3', 'ISO']], [['456']]],
+        [[['']]],
+        [[['Doe\\S\\Jr'], ['John']]],
+        [[['']]],
+        [[['']]]
+      ])
+      expect(json.segments[2].fields).toEqual([])
+      expect(json.segments[3].fields).toEqual([[[['']]]])
+    })
+
+    test('...round trip', async () => {
+      const message = new Message({ text: hl7 })
+      const copy = Message.fromJSON(roundTrip(message))
+      expect(copy.toString()).toBe(message.toString())
+      expect(copy.get('PID.5.1').toString()).toBe('Doe^Jr')
+    })
+
+    test('...round trip with other delimiters', async () => {
+      const message = new Message({ text: 'MSH#$*!@#SEND#FAC#RECV#FAC#20081231##ADT$A01$ADT_A01#12345#P#2.7\nPID#1##123$$$HOSP@1.2.3*456' })
+      const json = message.toJSON()
+      expect(json.delimiters).toEqual({ segment: '\n', field: '#', component: '$', repetition: '*', escape: '!', subComponent: '@' })
+      expect(json.segments[1].fields[2]).toEqual([[['123'], [''], [''], ['HOSP', '1.2.3']], [['456']]])
+      expect(Message.fromJSON(roundTrip(message)).toString()).toBe(message.toString())
+    })
+
+    test('...round trip of a built message', async () => {
+      const message = new Message({ messageHeader: { msh_9_1: 'ADT', msh_9_2: 'A01', msh_10: '12345', msh_11_1: 'P' } })
+      message.addSegment('PID').set('5', ['Doe', 'John'])
+      message.set('PID.3.1', 'a|b')
+      expect(Message.fromJSON(roundTrip(message)).toString()).toBe(message.toString())
+    })
+
+    test('...not a message', async () => {
+      expect(() => Message.fromJSON({ segments: [] } as unknown as HL7MessageJSON)).toThrow('JSON is not a message.')
+    })
+  })
+
+  describe('batch', () => {
+    test('...shape and round trip', async () => {
+      const batch = new Batch()
+      batch.start()
+      batch.add(new Message({ text: hl7 }))
+      batch.add(new Message({ text: hl7.replace('12345', '12346') }))
+      batch.end()
+
+      const json = batch.toJSON()
+      expect(json.header?.name).toBe('BHS')
+      expect(json.messages.length).toBe(2)
+      expect(json.messages[1].segments[0].fields[9]).toEqual([[['12346']]])
+      expect(json.trailer).toEqual({ name: 'BTS', fields: [[[['2']]]] })
+      expect(Batch.fromJSON(roundTrip(batch)).toString()).toBe(batch.toString())
+    })
+
+    test('...parsed batch', async () => {
+      const batch = new Batch({ text: `BHS|^~\\&|||||20081231\r${hl7}\r${hl7}\rBTS|2` })
+      const json = batch.toJSON()
+      expect(json.messages.map(message => message.segments.length)).toEqual([4, 4])
+      expect(Batch.fromJSON(roundTrip(batch)).toString()).toBe(batch.toString())
+    })
+
+    test('...without a trailer', async () => {
+      const batch = new Batch({ text: `BHS|^~\\&|||||20081231\r${hl7}` })
+      expect(batch.toJSON().trailer).toBeUndefined()
+      expect(Batch.fromJSON(roundTrip(batch)).toString()).toBe(batch.toString())
+    })
+  })
+
+  describe('file batch', () => {
+    test('...with batches', async () => {
+      const text = `FHS|^~\\&|||||20081231\rBHS|^~\\&|||||20081231\r${hl7}\rBTS|1\rBHS|^~\\&|||||20081231\r${hl7}\r${hl7}\rBTS|2\rFTS|2`
+      const file = new FileBatch({ text })
+      const json = file.toJSON()
+      expect(json.batches.map(batch => batch.messages.length)).toEqual([1, 2])
+      expect(json.messages).toEqual([])
+      expect(json.trailer).toEqual({ name: 'FTS', fields: [[[['2']]]] })
+      expect(FileBatch.fromJSON(roundTrip(file)).toString()).toBe(text)
+    })
+
+    test('...with messages', async () => {
+      const file = new FileBatch()
+      file.start()
+      file.add(new Message({ text: hl7 }))
+      file.end()
+      const json = file.toJSON()
+      expect(json.batches).toEqual([])
+      expect(json.messages.length).toBe(1)
+      expect(FileBatch.fromJSON(roundTrip(file)).toString()).toBe(file.toString())
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, expect, test } from 'vitest'
+import { Message } from '../src'
+
+describe('node hl7 client - lenient parsing tests', () => {
+  const hl7 = [
+    'MSH|^~\\&|APP|FAC|RECV|RFAC|20240101||ADT^A01|1|P|2.5',
+    'EVN|A01',
+    'PID|1||100^^^HOSP^MR||Doe^John',
+    'PV1|1|I'
+  ].join('\r')
+
+  test('...a message that is fine has no diagnostics', async () => {
+    const message = new Message({ text: hl7, lenient: true })
+    expect(message.toString()).toBe(hl7)
+    expect(message.diagnostics).toEqual([])
+    expect(new Message({ text: hl7 }).diagnostics).toEqual([])
+  })
+
+  test('...mixed segment terminators', async () => {
+    const text = 'MSH|^~\\&|APP|FAC|RECV|RFAC|20240101||ADT^A01|1|P|2.5\r\nEVN|A01\nPID|1||100^^^HOSP^MR||Doe^John\r\nPV1|1|I\r\n'
+    // without lenient, the EVN and PID are one segment
+    expect(new Message({ text }).get('PID.5.1').toString()).toBe('')
+
+    const message = new Message({ text, lenient: true })
+    expect(message.toString()).toBe(hl7)
+    expect(message.get('PID.5.1').toString()).toBe('Doe')
+    expect(message.diagnostics).toEqual([{
+      code: 'line.ending',
+      severity: 'warning',
+      line: 2,
+      segment: 'EVN',
+      field: 1,
+      original: 'EVN|A01',
+      message: 'The line ended with \\n, and not \\r\\n like the first one.'
+    }])
+  })
+
+  test('...whitespace and empty lines', async () => {
+    const message = new Message({ text: '\x0b MSH|^~\\&|APP|FAC|RECV|RFAC|20240101||ADT^A01|1|P|2.5\r\rEVN|A01  \r\t\rPID|1||100^^^HOSP^MR||Doe^John\rPV1|1|I\x1c\r', lenient: true })
+    expect(message.toString()).toBe(hl7)
+    // whitespace before the segment is at its name, and after it at its last field
+    expect(message.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.line, diagnostic.segment, diagnostic.field])).toEqual([
+      ['segment.whitespace', 1, 'MSH', 0],
+      ['line.empty', 2, undefined, 0],
+      ['segment.whitespace', 3, 'EVN', 1],
+      ['line.empty', 4, undefined, 0],
+      ['segment.whitespace', 6, 'PV1', 2]
+    ])
+    expect(message.diagnostics[4].original).toBe('PV1|1|I\x1c')
+  })
+
+  test('...missing separators', async () => {
+    const message = new Message({ text: 'MSH|^~|APP|FAC|RECV|RFAC|20240101||ADT^A01|1|P|2.5\rEVN|A01\rPID|1||100^^^HOSP^MR||Doe^John\rPV1', lenient: true })
+    expect(message.toString()).toBe('MSH|^~\\&|APP|FAC|RECV|RFAC|20240101||ADT^A01|1|P|2.5\rEVN|A01\rPID|1||100^^^HOSP^MR||Doe^John\rPV1|')
+    expect(message.get('MSH.3').toString()).toBe('APP')
+    expect(message.diagnostics).toEqual([
+      {
+        code: 'encoding.missing',
+        severity: 'warning',
+        line: 1,
+        segment: 'MSH',
+        field: 2,
+        original: 'MSH|^~|APP|FAC|RECV|RFAC|20240101||ADT^A01|1|P|2.5',
+        message: 'Added the missing encoding characters \\&.'
+      },
+      {
+        code: 'segment.separator',
+        severity: 'warning',
+        line: 4,
+        segment: 'PV1',
+        field: 1,
+        original: 'PV1',
+        message: 'Added | after the segment name.'
+      }
+    ])
+  })
+
+  test('...invalid segment names', async () => {
+    const message = new Message({ text: 'msh|^~\\&|APP|FAC|RECV|RFAC|20240101||ADT^A01|1|P|2.5\rEVN|A01\rpid|1||100^^^HOSP^MR||Doe^John\rwrapped text\rZ1|x\rPV1|1|I', lenient: true })
+    expect(message.toString()).toBe(hl7)
+    expect(message.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.severity, diagnostic.line, diagnostic.field, diagnostic.original])).toEqual([
+      ['segment.name', 'warning', 1, 0, 'msh|^~\\&|APP|FAC|RECV|RFAC|20240101||ADT^A01|1|P|2.5'],
+      ['segment.name', 'warning', 3, 0, 'pid|1||100^^^HOSP^MR||Doe^John'],
+      ['segment.invalid', 'error', 4, 0, 'wrapped text'],
+      ['segment.invalid', 'error', 5, 0, 'Z1|x']
+    ])
+    expect(message.diagnostics[1].message).toBe('Changed the segment name pid to PID.')
+  })
+
+  test('...missing trailing field separators', async () => {
+    const message = new Message({ text: 'MSH|^~\\&|APP|FAC\r\nEVN|A01  \r\nPV1\r\n', lenient: true })
+    expect(message.toString()).toBe('MSH|^~\\&|APP|FAC||||||||\rEVN|A01\rPV1|')
+    expect(message.get('MSH.4').toString()).toBe('FAC')
+    expect(message.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.line, diagnostic.segment, diagnostic.field])).toEqual([
+      ['segment.fields', 1, 'MSH', 5],
+      ['segment.whitespace', 2, 'EVN', 1],
+      ['segment.separator', 3, 'PV1', 1]
+    ])
+    expect(message.diagnostics[0].message).toBe('Added the missing fields MSH-5 to MSH-12.')
+
+    // only the encoding characters are left
+    const short = new Message({ text: 'MSH|^~\rPID|1', lenient: true })
+    expect(short.toString()).toBe('MSH|^~\\&||||||||||\rPID|1')
+    expect(short.diagnostics.map(diagnostic => [diagnostic.code, diagnostic.field])).toEqual([
+      ['encoding.missing', 2],
+      ['segment.fields', 3]
+    ])
+  })
+})
@@ -0,0 +1,250 @@
+import fs from 'fs'
+import net from 'node:net'
+import path from 'node:path'
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import Client, { Batch, InboundRequest, Message, MLLPFramer, Server } from '../src'
+import { createDeferred } from '../src/utils/utils'
+import { expectEvent } from './__utils__'
+
+describe('node hl7 server - listener', () => {
+
+  const port = 3100
+
+  const createMessage = (controlId: string): Message => {
+    return new Message({
+      messageHeader: {
+        msh_9_1: 'ADT',
+        msh_9_2: 'A01',
+        msh_10: controlId,
+        msh_11_1: 'D'
+      }
+    })
+  }
+
+  describe('sanity checks', () => {
+
+    test('error - port not a number', async () => {
+      const server = new Server()
+      // @ts-expect-error port is not specified as a number
+      expect(() => server.createListener({ port: '12345' }, async () => {})).toThrow('port is not valid number.')
+    })
+
+    test('error - bindAddress not a valid IPv4 address', async () => {
+      expect(() => new Server({ bindAddress: '123.34.52.455', ipv4: true })).toThrow('bindAddress is not a valid IPv4 address.')
+    })
+
+    test('...request parses batches', async () => {
+      const batch = new Batch()
+      batch.start()
+      batch.add(createMessage('ONE'))
+      batch.add(createMessage('TWO'))
+      batch.end()
+      const req = new InboundRequest(batch.toString())
+      expect(req.getMessage()).toBeInstanceOf(Batch)
+      expect(req.getMessages().map(message => message.get('MSH.10').toString())).toEqual(['ONE', 'TWO'])
+    })
+
+  })
+
+  describe('server/client', () => {
+
+    let server: Server
+    let client: Client
+
+    beforeEach(() => {
+      server = new Server({ bindAddress: '0.0.0.0' })
+      client = new Client({ host: '0.0.0.0' })
+    })
+
+    afterEach(async () => {
+      client.closeAll()
+      await server.closeAll()
+    })
+
+    test('...sends back a generated AA', async () => {
+      const received: string[] = []
+      const listener = server.createListener({ port }, async (req) => {
+        received.push((req.getMessage() as Message).get('MSH.10').toString())
+      })
+      await expectEvent(listener, 'listen')
+
+      const outbound = client.createConnection({ port }, async () => {})
+      await expectEvent(outbound, 'connect')
+
+      const res = await outbound.sendMessage(createMessage('CONTROL_ID'), { waitResponse: true })
+
+      expect(received).toEqual(['CONTROL_ID'])
+      expect(res.getAcknowledgmentCode()).toBe('AA')
+      expect(res.getControlId()).toBe('CONTROL_ID')
+      expect(res.getMessage().get('MSH.9.1').toString()).toBe('ACK')
+      expect(listener.stats.received).toBe(1)
+
+      await outbound.close()
+    })
+
+    test('...sends back the ACK the handler returns', async () => {
+      const listener = server.createListener({ port }, async (req) => {
+        const message = req.getMessage() as Message
+        return `MSH|^~\\&|||||20081231||ACK^A01^ACK|MY_ACK||2.7\rMSA|AR|${message.get('MSH.10').toString()}|Not today`
+      })
+      await expectEvent(listener, 'listen')
+
+      const outbound = client.createConnection({ port }, async () => {})
+      await expectEvent(outbound, 'connect')
+
+      const res = await outbound.sendMessage(createMessage('CONTROL_ID'), { waitResponse: true })
+
+      expect(res.getAcknowledgmentCode()).toBe('AR')
+      expect(res.getTextMessage()).toBe('Not today')
+      expect(res.getMessage().get('MSH.10').toString()).toBe('MY_ACK')
+
+      await outbound.close()
+    })
+
+    test('...sends back an AE when the handler throws', async () => {
+      const listener = server.createListener({ port }, async () => {
+        throw new Error('Database is down')
+      })
+      await expectEvent(listener, 'listen')
+
+      const handlerError = expectEvent(listener, 'handler.error')
+
+      const outbound = client.createConnection({ port }, async () => {})
+      await expectEvent(outbound, 'connect')
+
+      const res = await outbound.sendMessage(createMessage('CONTROL_ID'), { waitResponse: true })
+
+      expect(res.getAcknowledgmentCode()).toBe('AE')
+      expect(res.getTextMessage()).toBe('Database is down')
+      expect((await handlerError).message).toBe('Database is down')
+
+      await outbound.close()
+    })
+
+    test('...acknowledges every message in a batch', async () => {
+      let dfd = createDeferred<void>()
+
+      const listener = server.createListener({ port }, async (req) => {
+        expect(req.getMessage()).toBeInstanceOf(Batch)
+      })
+      await expectEvent(listener, 'listen')
+
+      const acked: string[] = []
+      const outbound = client.createConnection({ port }, async (res) => {
+        acked.push(res.getControlId())
+        if (acked.length === 2) {
+          dfd.resolve()
+        }
+      })
+      await expectEvent(outbound, 'connect')
+
+      const batch = new Batch()
+      batch.start()
+      batch.add(createMessage('ONE'))
+      batch.add(createMessage('TWO'))
+      batch.end()
+
+      await outbound.sendMessage(batch)
+
+      await dfd.promise
+
+      expect(acked).toEqual(['ONE', 'TWO'])
+
+      await outbound.close()
+    })
+
+  })
+
+  describe('server/client bad frames', () => {
+
+    const VT = String.fromCharCode(0x0b)
+    const FSCR = `${String.fromCharCode(0x1c)}${String.fromCharCode(0x0d)}`
+
+    test('...sends back an AR, and keeps going with the next frame', async () => {
+      const server = new Server({ bindAddress: '0.0.0.0' })
+      const listener = server.createListener({ port }, async () => {})
+      await expectEvent(listener, 'listen')
+
+      const errors: string[] = []
+      listener.on('data.error', (err, raw) => errors.push(`${err.message as string} ${raw as string}`))
+
+      const responses: Message[] = []
+      let dfd = createDeferred<void>()
+      const framer = new MLLPFramer()
+      framer.on('frame', (frame: string) => {
+        responses.push(new Message({ text: frame }))
+        if (responses.length === 4) {
+          dfd.resolve()
+        }
+      })
+
+      let bytes = ''
+      const socket = net.connect(port, '0.0.0.0')
+      socket.on('data', (data) => {
+        bytes += data.toString()
+        framer.push(data)
+      })
+      await expectEvent(socket, 'connect')
+
+      const good = createMessage('GOOD').toString()
+      const late = `ZPD|1\r${createMessage('LATE').toString()}`
+      socket.write(`${VT}not an HL7 message${FSCR}${VT}${late}${FSCR}${VT}BHS|^~\\&${FSCR}${VT}${good}${FSCR}`)
+
+      try {
+        await dfd.promise
+      } finally {
+        socket.destroy()
+        await server.closeAll()
+      }
+
+      expect(responses.map(response => [response.get('MSA.1').toString(), response.get('MSA.2').toString()])).toEqual([
+        ['AR', ''],
+        ['AR', 'LATE'],
+        ['AR', ''],
+        ['AA', 'GOOD']
+      ])
+      expect(responses[0].get('MSA.3').toString()).toBe('text must begin with the MSH segment.')
+      expect(responses[1].get('MSA.3').toString()).toBe('text must begin with the MSH segment.')
+      expect(responses[2].get('MSA.3').toString()).toBe('No messages inside batch.')
+      expect(errors).toHaveLength(3)
+      expect(listener.stats.received).toBe(4)
+
+      // the same as every other ACK, but for the date and control ID
+      expect(bytes.replace(/\|\d{14}\|\|(ACK[^|]*)\|[\w-]{20}\|/g, '|DATE||$1|ID|')).toBe([
+        `${VT}MSH|^~\\&|||||DATE||ACK|ID||\rMSA|AR||text must begin with the MSH segment.${FSCR}`,
+        `${VT}MSH|^~\\&|||||DATE||ACK^A01^ACK|ID|D|2.7\rMSA|AR|LATE|text must begin with the MSH segment.${FSCR}`,
+        `${VT}MSH|^~\\&|||||DATE||ACK|ID||\rMSA|AR||No messages inside batch.${FSCR}`,
+        `${VT}MSH|^~\\&|||||DATE||ACK^A01^ACK|ID|D|2.7\rMSA|AA|GOOD${FSCR}`
+      ].join(''))
+    })
+
+  })
+
+  describe('server/client tls', () => {
+
+    test('...sends back a generated AA', async () => {
+      const server = new Server({
+        bindAddress: '0.0.0.0',
+        tls: {
+          key: fs.readFileSync(path.join('certs/', 'server-key.pem')),
+          cert: fs.readFileSync(path.join('certs/', 'server-crt.pem'))
+        }
+      })
+      const listener = server.createListener({ port }, async () => {})
+      await expectEvent(listener, 'listen')
+
+      const client = new Client({ host: '0.0.0.0', tls: { rejectUnauthorized: false } })
+      const outbound = client.createConnection({ port }, async () => {})
+      await expectEvent(outbound, 'connect')
+
+      const res = await outbound.sendMessage(createMessage('CONTROL_ID'), { waitResponse: true })
+      expect(res.isSuccess()).toBe(true)
+
+      await outbound.close()
+      client.closeAll()
+      await server.closeAll()
+    })
+
+  })
+
+})
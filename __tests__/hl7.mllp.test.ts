@@ -0,0 +1,86 @@
+import { describe, expect, test, beforeEach } from 'vitest';
+import { MLLPFramer } from '../src'
+
+describe('node hl7 client - mllp framer', () => {
+  const VT = String.fromCharCode(0x0b)
+  const FSCR = `${String.fromCharCode(0x1c)}${String.fromCharCode(0x0d)}`
+  const ack_one: string = 'MSH|^~\\&|||||20081231||ACK^A01^ACK|1||2.7\rMSA|AA|CONTROL_ID_1'
+  const ack_two: string = 'MSH|^~\\&|||||20081231||ACK^A01^ACK|2||2.7\rMSA|AE|CONTROL_ID_2'
+
+  let framer: MLLPFramer
+  let frames: string[]
+  let garbage: string[]
+
+  beforeEach(() => {
+    framer = new MLLPFramer()
+    frames = []
+    garbage = []
+    framer.on('frame', (frame: string) => frames.push(frame))
+    framer.on('garbage', (data: Buffer) => garbage.push(data.toString()))
+  })
+
+  test('...single frame in a single chunk', async () => {
+    framer.push(Buffer.from(`${VT}${ack_one}${FSCR}`))
+    expect(frames).toEqual([ack_one])
+    expect(garbage).toEqual([])
+    expect(framer.pending).toBe(0)
+  })
+
+  test('...frame split across many chunks', async () => {
+    const data = Buffer.from(`${VT}${ack_one}${FSCR}`)
+    for (let i = 0; i < data.length; i += 7) {
+      framer.push(data.subarray(i, i + 7))
+    }
+    expect(frames).toEqual([ack_one])
+    expect(garbage).toEqual([])
+  })
+
+  test('...footer split between chunks', async () => {
+    framer.push(Buffer.from(`${VT}${ack_one}${String.fromCharCode(0x1c)}`))
+    expect(frames).toEqual([])
+    framer.push(Buffer.from(String.fromCharCode(0x0d)))
+    expect(frames).toEqual([ack_one])
+  })
+
+  test('...two frames coalesced into one chunk', async () => {
+    framer.push(Buffer.from(`${VT}${ack_one}${FSCR}${VT}${ack_two}${FSCR}`))
+    expect(frames).toEqual([ack_one, ack_two])
+  })
+
+  test('...complete frame followed by a partial one', async () => {
+    framer.push(Buffer.from(`${VT}${ack_one}${FSCR}${VT}${ack_two.slice(0, 10)}`))
+    expect(frames).toEqual([ack_one])
+    framer.push(Buffer.from(`${ack_two.slice(10)}${FSCR}`))
+    expect(frames).toEqual([ack_one, ack_two])
+  })
+
+  test('...multi-byte characters split across chunks', async () => {
+    const text = 'MSH|^~\\&|||||20081231||ACK^A01^ACK|1||2.7\rNTE|1||Café'
+    const data = Buffer.from(`${VT}${text}${FSCR}`)
+    const split = data.length - 3 // inside the two byte "é"
+    framer.push(data.subarray(0, split))
+    framer.push(data.subarray(split))
+    expect(frames).toEqual([text])
+  })
+
+  test('...garbage outside frames is reported', async () => {
+    framer.push(Buffer.from(`noise${VT}${ack_one}${FSCR}\r\n`))
+    expect(frames).toEqual([ack_one])
+    expect(garbage).toEqual(['noise', '\r\n'])
+  })
+
+  test('...incomplete frame interrupted by a new frame is reported', async () => {
+    framer.push(Buffer.from(`${VT}MSH|partial${VT}${ack_one}${FSCR}`))
+    expect(frames).toEqual([ack_one])
+    expect(garbage).toEqual([`${VT}MSH|partial`])
+  })
+
+  test('...reset drops a partial frame', async () => {
+    framer.push(Buffer.from(`${VT}${ack_one}`))
+    expect(framer.pending).toBeGreaterThan(0)
+    framer.reset()
+    expect(framer.pending).toBe(0)
+    framer.push(Buffer.from(`${VT}${ack_two}${FSCR}`))
+    expect(frames).toEqual([ack_two])
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'vitest'
+import { HL7Node, Message } from '../src'
+
+describe('node hl7 client - query tests', () => {
+  const hl7 = [
+    'MSH|^~\\&|LAB|HOSP|||20240101||ORU^R01|1|P|2.5.1',
+    'PID|1||100^^^HOSP^PI~200^^^HOSP^MR&X||Doe^John',
+    'OBX|1|NM|GLU^Glucose||90|mg/dL|||||F',
+    'OBX|2|NM|NA^Sodium||140~141|mmol/L|||||P',
+    'OBX|3|NM|GLU^Glucose||95|mg/dL|||||F',
+    'NTE|1||Fasting'
+  ].join('\r')
+
+  const message = new Message({ text: hl7 })
+  const query = (text: string): string[] => message.query(text).map((node: HL7Node) => node.toString())
+
+  test('...without [ ] is the first one, like get', async () => {
+    expect(query('OBX.5')).toEqual(['90'])
+    expect(query('OBX.3.2')).toEqual([message.get('OBX.3.2').toString()])
+    expect(query('MSH.9.1')).toEqual(['ORU'])
+    expect(query('MSH.1')).toEqual(['|'])
+  })
+
+  test('...every segment', async () => {
+    expect(query('OBX[*].5')).toEqual(['90', '140', '95'])
+    expect(query('OBX[*]')).toEqual(hl7.split('\r').slice(2, 5))
+    expect(query('ZZZ[*]')).toEqual([])
+  })
+
+  test('...positions and ranges', async () => {
+    expect(query('OBX[2].3.2')).toEqual(['Sodium'])
+    expect(query('OBX[2..3].1')).toEqual(['2', '3'])
+    expect(query('OBX[2..].1')).toEqual(['2', '3'])
+    expect(query('OBX[..2].1')).toEqual(['1', '2'])
+    expect(query('OBX[4]')).toEqual([])
+  })
+
+  test('...predicates', async () => {
+    expect(query("OBX[3.1='GLU'].5")).toEqual(['90', '95'])
+    expect(query('OBX[3.1="GLU"].1')).toEqual(['1', '3'])
+    expect(query("OBX[3.1!='GLU'].3.2")).toEqual(['Sodium'])
+    expect(query('NTE[3.1].3')).toEqual(['Fasting'])
+    expect(query('OBX[4.1].1')).toEqual([])
+    expect(query('OBX[9].1')).toEqual([])
+    expect(query("OBX[3.1='GLU'][2].5")).toEqual(['95'])
+    expect(query("OBX[11='F'][3.1='NA']")).toEqual([])
+  })
+
+  test('...repetitions', async () => {
+    expect(query('OBX[2].5[*]')).toEqual(['140', '141'])
+    expect(query('OBX[2].5[2]')).toEqual(['141'])
+    expect(query('OBX[*].5[*]')).toEqual(['90', '140', '141', '95'])
+    expect(query('PID.3[*].1')).toEqual(['100', '200'])
+    expect(query("PID.3[5='MR'].1")).toEqual(['200'])
+    expect(query("PID.3[5.2='X'].1")).toEqual(['200'])
+  })
+
+  test('...wildcards', async () => {
+    expect(query('PID.5.*')).toEqual(['Doe', 'John'])
+    expect(query('PID.3[2].5.*')).toEqual(['MR', 'X'])
+    expect(query('OBX[3].*')).toEqual(['3', 'NM', 'GLU', '', '95', 'mg/dL', '', '', '', '', 'F'])
+  })
+
+  test('...nodes', async () => {
+    const [field] = message.query("OBX[3.1='NA'].5")
+    expect(field.toArray().map(repetition => repetition.toString())).toEqual(['140', '141'])
+    field.set(0, '142')
+    expect(message.get('OBX').get(1).get(5).toString()).toBe('142')
+  })
+
+  test('...errors', async () => {
+    expect(() => message.query('obx')).toThrow('Invalid query obx at position 0: expected a segment name.')
+    expect(() => message.query('OBX[')).toThrow('expected a position of 1 or more')
+    expect(() => message.query('OBX.0')).toThrow('expected a position of 1 or more')
+    expect(() => message.query('OBX[0]')).toThrow('expected a range like 2..4')
+    expect(() => message.query('OBX[4..2]')).toThrow('expected a range like 2..4')
+    expect(() => message.query("OBX[3='GLU]")).toThrow('missing the end of the value')
+    expect(() => message.query('OBX[3=GLU]')).toThrow('expected a quoted value')
+    expect(() => message.query('OBX.5.1[*]')).toThrow('only segments and fields can have [ ]')
+    expect(() => message.query('OBX.5.1.1.1')).toThrow('a query can not go past sub-components')
+    expect(() => message.query('OBX-5')).toThrow('expected .')
+  })
+})
@@ -0,0 +1,98 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, expect, test, beforeEach } from 'vitest';
+import { OutboundQueue } from '../src'
+
+describe('node hl7 client - outbound queue', () => {
+  const directory = path.join(os.tmpdir(), 'node-hl7-client-queue-unit')
+  const journal = path.join(directory, 'outbound.journal')
+  const hl7_string: string = 'MSH|^~\\&|||||20081231||ADT^A01^ADT_A01|12345||2.7\rEVN||20081231'
+
+  beforeEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  test('...error - directory must be set', async () => {
+    expect(() => new OutboundQueue('')).toThrow('Queue directory must be set.')
+  })
+
+  test('...add and list in order', async () => {
+    const queue = new OutboundQueue(directory)
+    const one = queue.add(`${hl7_string}1`)
+    const two = queue.add(`${hl7_string}2`)
+
+    expect(queue.size).toBe(2)
+    expect(queue.list().map(entry => entry.id)).toEqual([one.id, two.id])
+    expect(queue.list('pending').length).toBe(2)
+    expect(queue.list('failed').length).toBe(0)
+
+    queue.close()
+  })
+
+  test('...survives a restart', async () => {
+    const queue = new OutboundQueue(directory)
+    const one = queue.add(`${hl7_string}1`)
+    const two = queue.add(`${hl7_string}2`)
+    const three = queue.add(`${hl7_string}3`)
+    queue.sent(one.id)
+    queue.ack(one.id)
+    queue.sent(two.id)
+    queue.fail(two.id, 'AE: Bad PID')
+    queue.close()
+
+    const reopened = new OutboundQueue(directory)
+    const entries = reopened.list()
+    expect(entries.map(entry => entry.id)).toEqual([two.id, three.id])
+    expect(entries[0]).toMatchObject({ state: 'failed', reason: 'AE: Bad PID', attempts: 1, message: `${hl7_string}2` })
+    expect(entries[1]).toMatchObject({ state: 'pending', attempts: 0, message: `${hl7_string}3` })
+
+    reopened.close()
+  })
+
+  test('...requeue moves failed messages to the back', async () => {
+    const queue = new OutboundQueue(directory)
+    const one = queue.add(`${hl7_string}1`)
+    const two = queue.add(`${hl7_string}2`)
+    queue.fail(one.id, 'AR')
+
+    expect(queue.requeue()).toBe(1)
+    expect(queue.list().map(entry => entry.id)).toEqual([two.id, one.id])
+    expect(queue.get(one.id)?.state).toBe('pending')
+    expect(queue.get(one.id)?.reason).toBeUndefined()
+    queue.close()
+
+    const reopened = new OutboundQueue(directory)
+    expect(reopened.list().map(entry => entry.id)).toEqual([two.id, one.id])
+    reopened.close()
+  })
+
+  test('...purge one or all', async () => {
+    const queue = new OutboundQueue(directory)
+    const one = queue.add(`${hl7_string}1`)
+    queue.add(`${hl7_string}2`)
+
+    expect(queue.purge(one.id)).toBe(1)
+    expect(queue.size).toBe(1)
+    expect(queue.purge()).toBe(1)
+    expect(queue.size).toBe(0)
+
+    // nothing is left, so the journal is emptied
+    expect(fs.readFileSync(journal).length).toBe(0)
+
+    expect(() => queue.purge('missing')).toThrow('Queue entry missing does not exist.')
+    queue.close()
+  })
+
+  test('...ignores a partial record left by a crash', async () => {
+    const queue = new OutboundQueue(directory)
+    const one = queue.add(hl7_string)
+    queue.close()
+
+    fs.appendFileSync(journal, '{"op":"ack","id"')
+
+    const reopened = new OutboundQueue(directory)
+    expect(reopened.list().map(entry => entry.id)).toEqual([one.id])
+    reopened.close()
+  })
+})
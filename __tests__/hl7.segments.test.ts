@@ -0,0 +1,204 @@
+import { describe, expect, test } from 'vitest'
+import { CE, CWE, CX, DTM, HD, Message, PID, PV1, OBX, SN, XPN, XTN, defineSegment } from '../src'
+
+describe('node hl7 client - segment tests', () => {
+  const hl7 = [
+    'MSH|^~\\&|||||20081231||ADT^A01^ADT_A01|12345||2.7',
+    'PID|1||123456^^^HOSP&1.2.3&ISO^MR~987654321^^^SSA^SS||Doe^John^Q^Jr~Roe^Rick||19700101|M|||1 Main St^^Springfield^IL^62701^USA^H||^PRN^PH^^1^555^5551234',
+    'PV1|1|I|4E^401^A^HOSP||||1234^Welby^Marcus',
+    'OBX|1|NM|8867-4^Heart rate^LN||72|/min^^UCUM|||||F',
+    'OBX|2|ST|8310-5^Body temperature^LN||98.6\\S\\F|[degF]^^UCUM|||||F'
+  ].join('\r')
+
+  describe('sanity', () => {
+    test('...wrong segment', async () => {
+      const message = new Message({ text: hl7 })
+      expect(() => new PID(message.get('PV1'))).toThrow('Expected a PID segment, not PV1.')
+    })
+
+    test('...static information', async () => {
+      expect(PID.segmentName).toBe('PID')
+      expect(PID.fields.patientName).toEqual({ field: 5, type: XPN, repeating: true })
+    })
+  })
+
+  describe('reading', () => {
+    test('...simple fields', async () => {
+      const pid = new PID(new Message({ text: hl7 }).get('PID'))
+      expect(pid.setId).toBe('1')
+      expect(pid.dateTimeOfBirth).toBe('19700101')
+      expect(pid.administrativeSex).toBe('M')
+      expect(pid.ssnNumber).toBe('')
+    })
+
+    test('...composite fields', async () => {
+      const pid = new PID(new Message({ text: hl7 }).get('PID'))
+      expect(pid.patientName.length).toBe(2)
+      expect(pid.patientName[0].familyName).toBe('Doe')
+      expect(pid.patientName[0].givenName).toBe('John')
+      expect(pid.patientName[0].suffix).toBe('Jr')
+      expect(pid.patientName[1].familyName).toBe('Roe')
+      expect(pid.patientIdentifierList[0].idNumber).toBe('123456')
+      expect(pid.patientIdentifierList[0].assigningAuthority.namespaceId).toBe('HOSP')
+      expect(pid.patientIdentifierList[0].assigningAuthority.universalId).toBe('1.2.3')
+      expect(pid.patientIdentifierList[1].identifierTypeCode).toBe('SS')
+      expect(pid.patientAddress[0].city).toBe('Springfield')
+      expect(pid.phoneNumberHome[0].localNumber).toBe('5551234')
+      expect(pid.patientIdentifierList[1].toString()).toBe('987654321^^^SSA^SS')
+    })
+
+    test('...empty composite fields', async () => {
+      const pid = new PID(new Message({ text: hl7 }).get('PID'))
+      expect(pid.mothersMaidenName.length).toBe(1)
+      expect(pid.mothersMaidenName[0].isEmpty()).toBe(true)
+      expect(pid.mothersMaidenName[0].familyName).toBe('')
+      expect(pid.lastUpdateFacility.toString()).toBe('')
+    })
+
+    test('...every segment of a type', async () => {
+      const message = new Message({ text: hl7 })
+      const results = message.get('OBX').toArray().map(segment => new OBX(segment))
+      expect(results.map(obx => obx.observationIdentifier.text)).toEqual(['Heart rate', 'Body temperature'])
+      expect(results[1].observationValue).toEqual(['98.6^F'])
+      expect(results[0].units.identifier).toBe('/min')
+    })
+
+    test('...nested composite', async () => {
+      const pv1 = new PV1(new Message({ text: hl7 }).get('PV1'))
+      expect(pv1.assignedPatientLocation.room).toBe('401')
+      expect(pv1.assignedPatientLocation.facility.namespaceId).toBe('HOSP')
+      expect(pv1.attendingDoctor[0].familyName).toBe('Welby')
+    })
+  })
+
+  describe('writing', () => {
+    test('...writes go to the message', async () => {
+      const message = new Message({ text: hl7 })
+      const pid = new PID(message.get('PID'))
+      pid.patientName[0].givenName = 'Jane'
+      pid.administrativeSex = 'F'
+      expect(message.get('PID.5.2').toString()).toBe('Jane')
+      expect(message.get('PID.8').toString()).toBe('F')
+      expect(message.toString()).toContain('PID|1||123456^^^HOSP&1.2.3&ISO^MR~987654321^^^SSA^SS||Doe^Jane^Q^Jr~Roe^Rick||19700101|F|')
+    })
+
+    test('...reads see changes made to the message', async () => {
+      const message = new Message({ text: hl7 })
+      const pid = new PID(message.get('PID'))
+      message.set('PID.5.1', 'Smith')
+      expect(pid.patientName[0].familyName).toBe('Smith')
+    })
+
+    test('...build a new segment', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A01^ADT_A01|12345||2.7' })
+      const pid = new PID(message.addSegment('PID'))
+      pid.setId = '1'
+      pid.patientIdentifierList[0].idNumber = 'MRN1'
+      pid.patientIdentifierList[0].assigningAuthority.namespaceId = 'HOSP'
+      pid.patientName[0].familyName = 'Doe'
+      pid.patientName[0].givenName = 'John'
+      expect(pid.toString()).toBe('PID|1||MRN1^^^HOSP||Doe^John')
+    })
+
+    test('...values are escaped', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A01^ADT_A01|12345||2.7' })
+      const pid = new PID(message.addSegment('PID'))
+      pid.patientName[0].familyName = 'Smith^Jones'
+      expect(pid.toString()).toBe('PID|||||Smith\\S\\Jones')
+      expect(pid.patientName[0].familyName).toBe('Smith^Jones')
+    })
+
+    test('...repeating simple fields', async () => {
+      const message = new Message({ text: hl7 })
+      const pid = new PID(message.get('PID'))
+      pid.identityReliabilityCode = ['US', 'UD']
+      expect(message.get('PID.32').toRaw()).toBe('US~UD')
+      expect(pid.identityReliabilityCode).toEqual(['US', 'UD'])
+      pid.identityReliabilityCode = ['AL']
+      expect(pid.identityReliabilityCode).toEqual(['AL'])
+    })
+  })
+
+  describe('define segment', () => {
+    test('...custom Z segment', async () => {
+      class ZPD extends defineSegment('ZPD', {
+        setId: { field: 1, type: 'SI' },
+        petName: { field: 2, type: XPN, repeating: true }
+      }) {}
+
+      const message = new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A01^ADT_A01|12345||2.7\rZPD|1|Dog^Rex' })
+      const zpd = new ZPD(message.get('ZPD'))
+      expect(zpd.petName[0].givenName).toBe('Rex')
+      zpd.setId = '2'
+      expect(message.get('ZPD.1').toString()).toBe('2')
+    })
+  })
+
+  describe('data types', () => {
+    test('...read a field', async () => {
+      const message = new Message({ text: hl7 })
+      const name = message.get('PID.5').as(XPN)
+      expect(name.familyName).toBe('Doe')
+      expect(name.suffix).toBe('Jr')
+      expect(message.get('PID.13').as(XTN).localNumber).toBe('5551234')
+    })
+
+    test('...read a repetition or a component', async () => {
+      const message = new Message({ text: hl7 })
+      const pid = message.get('PID').get(0)
+      expect(pid.get('3').get(1).as(CX).idNumber).toBe('987654321')
+      expect(pid.get('3.4').as(HD).universalId).toBe('1.2.3')
+    })
+
+    test('...read a field that is not there', async () => {
+      const message = new Message({ text: hl7 })
+      expect(message.get('PID.30').as(XPN).isEmpty()).toBe(true)
+      expect(message.get('ZZZ.1').as(XPN).familyName).toBe('')
+      expect(() => { message.get('ZZZ.1').as(XPN).familyName = 'Doe' }).toThrow('Can not write to a node that does not exist.')
+    })
+
+    test('...write components', async () => {
+      const message = new Message({ text: hl7 })
+      message.set('PID.6').as(XPN).set({ familyName: 'Smith^Jones', givenName: 'Jane' })
+      expect(message.get('PID.6').toRaw()).toBe('Smith\\S\\Jones^Jane')
+      expect(message.get('PID.6').as(XPN).familyName).toBe('Smith^Jones')
+      expect(() => message.get('PID.6').as(XPN).set({ nickname: 'J' } as any)).toThrow('XPN has no component named nickname.')
+    })
+
+    test('...set a data type', async () => {
+      const message = new Message({ text: hl7 })
+      message.set('PID.9', message.get('PID.5').as(XPN))
+      expect(message.get('PID.9').toRaw()).toBe('Doe^John^Q^Jr')
+    })
+
+    test('...date/time', async () => {
+      const message = new Message({ text: hl7 })
+      expect(message.get('MSH.7').as(DTM).value).toBe('20081231')
+      expect(message.get('PID.7').as(DTM).toDate()).toEqual(new Date(1970, 0, 1))
+      // a time stamp keeps its degree of precision
+      message.set('EVN.2.1', '20081231')
+      message.set('EVN.2.2', 'D')
+      message.get('EVN.2').as(DTM).setDate(new Date(2020, 0, 2, 3, 4, 5))
+      expect(message.get('EVN.2').toRaw()).toBe('20200102030405^D')
+    })
+
+    test('...structured numeric', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20081231||ORU^R01^ORU_R01|12345||2.5.1\rOBX|1|SN|12345-6||>^100' })
+      const value = message.get('OBX.5').as(SN)
+      expect(value.comparator).toBe('>')
+      expect(value.num1).toBe('100')
+    })
+
+    test('...CE is CWE from 2.6', async () => {
+      const old = new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A01^ADT_A01|12345||2.5.1\rPID|1|||||||||2106-3^White^HL70005\rOBX|1|NM|8867-4^Heart rate^LN||72' })
+      const race = old.get('PID.10').as(CE)
+      expect(race).not.toBeInstanceOf(CWE)
+      expect(race.identifier).toBe('2106-3')
+
+      const message = new Message({ text: hl7 })
+      expect(message.get('OBX.3').as(CE)).toBeInstanceOf(CWE)
+      expect(new OBX(message.get('OBX')).observationIdentifier).toBeInstanceOf(CWE)
+      expect(new OBX(old.get('OBX')).observationIdentifier).not.toBeInstanceOf(CWE)
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import { describe, expect, test } from 'vitest'
+import { Message, MessageGroup, Segment } from '../src'
+
+describe('node hl7 client - message structure tests', () => {
+  const oru = [
+    'MSH|^~\\&|LAB|HOSP|||20240101||ORU^R01^ORU_R01|1|P|2.5.1',
+    'PID|1||100',
+    'PV1|1|I',
+    'OBR|1||A1|GLU^Glucose',
+    'OBX|1|NM|GLU||90',
+    'NTE|1||Fasting',
+    'ZXX|1',
+    'OBX|2|NM|GLU||95',
+    'OBR|2||A2|NA^Sodium',
+    'NTE|1||Order note',
+    'OBX|1|NM|NA||140'
+  ].join('\r')
+
+  const names = (group: MessageGroup): any[] => group.children.map(child => child instanceof MessageGroup ? { [child.name]: names(child) } : child.name)
+
+  describe('navigation', () => {
+    test('...groups of an ORU_R01', async () => {
+      const structure = new Message({ text: oru }).structure()
+      expect(structure.name).toBe('ORU_R01')
+      expect(structure.parent).toBeUndefined()
+      expect(names(structure)).toEqual([
+        'MSH',
+        {
+          PATIENT_RESULT: [
+            { PATIENT: ['PID', { VISIT: ['PV1'] }] },
+            { ORDER_OBSERVATION: ['OBR', { OBSERVATION: ['OBX', 'NTE', 'ZXX'] }, { OBSERVATION: ['OBX'] }] },
+            { ORDER_OBSERVATION: ['OBR', 'NTE', { OBSERVATION: ['OBX'] }] }
+          ]
+        }
+      ])
+    })
+
+    test('...which OBX goes with which OBR', async () => {
+      const structure = new Message({ text: oru }).structure()
+      const orders = structure.group('PATIENT_RESULT')?.groups('ORDER_OBSERVATION') ?? []
+      expect(orders.map(order => order.segment('OBR')?.get('4.1').toString())).toEqual(['GLU', 'NA'])
+      expect(orders.map(order => order.segments('OBX').map(obx => obx.get('5').toString()))).toEqual([['90', '95'], ['140']])
+      // the NTE of an order is not the NTE of its observations
+      expect(orders.map(order => order.segment('NTE')?.get('3').toString())).toEqual([undefined, 'Order note'])
+      expect(orders[0].group('OBSERVATION')?.segment('NTE')?.get('3').toString()).toBe('Fasting')
+      expect(orders[0].group('OBSERVATION', 1)?.segment('NTE')).toBeUndefined()
+      expect(orders[0].group('OBSERVATION', 2)).toBeUndefined()
+    })
+
+    test('...group of a segment', async () => {
+      const message = new Message({ text: oru })
+      const structure = message.structure()
+      const obx = message.query("OBX[5='140']")[0] as Segment
+      const group = structure.groupOf(obx)
+      expect(group?.name).toBe('OBSERVATION')
+      expect(group?.parent?.segment('OBR')?.get('4.1').toString()).toBe('NA')
+      expect(structure.groupOf(message.get('MSH').get(0) as Segment)).toBe(structure)
+      expect(structure.group('PATIENT_RESULT')?.group('PATIENT')?.groupOf(obx)).toBeUndefined()
+    })
+
+    test('...segments of ADT_A01 from the trigger event', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20240101||ADT^A04|1|P|2.5.1\rEVN|A04\rPID|1||100\rPV1|1|O\rIN1|1|PLAN\rIN2|1\rIN1|2|PLAN' })
+      const structure = message.structure()
+      expect(structure.name).toBe('ADT_A01')
+      expect(names(structure)).toEqual(['MSH', 'EVN', 'PID', 'PV1', { INSURANCE: ['IN1', 'IN2'] }, { INSURANCE: ['IN1'] }])
+      expect(structure.segments().length).toBe(message.toArray().length)
+    })
+
+    test('...segments that do not fit go at the end', async () => {
+      const structure = new Message({ text: 'MSH|^~\\&|||||20240101||ADT^A01^ADT_A01|1|P|2.5.1\rEVN|A01\rPID|1\rPV1|1\rPID|2' }).structure()
+      expect(names(structure)).toEqual(['MSH', 'EVN', 'PID', 'PV1', 'PID'])
+    })
+
+    test('...unknown message structure', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20240101||ZZZ^Z01|1|P|2.5.1' })
+      expect(() => message.structure()).toThrow('The message structure of ZZZ^Z01 is not known.')
+    })
+  })
+
+  describe('building', () => {
+    test('...segments go where the structure says', async () => {
+      const message = new Message({ text: oru })
+      const order = message.structure().group('PATIENT_RESULT')?.group('ORDER_OBSERVATION') as MessageGroup
+      order.addSegment('ORC').set('1', 'RE')
+      order.addSegment('NTE').set('3', 'Order note')
+      order.group('OBSERVATION', 1)?.addSegment('NTE').set('3', 'Repeated')
+      expect(message.toString().split('\r').slice(3, 11)).toEqual([
+        'ORC|RE',
+        'OBR|1||A1|GLU^Glucose',
+        'NTE|||Order note',
+        'OBX|1|NM|GLU||90',
+        'NTE|1||Fasting',
+        'ZXX|1',
+        'OBX|2|NM|GLU||95',
+        'NTE|||Repeated'
+      ])
+      expect(names(order)).toEqual(['ORC', 'OBR', 'NTE', { OBSERVATION: ['OBX', 'NTE', 'ZXX'] }, { OBSERVATION: ['OBX', 'NTE'] }])
+    })
+
+    test('...groups go after the ones that are there', async () => {
+      const message = new Message({ text: oru })
+      const result = message.structure().group('PATIENT_RESULT') as MessageGroup
+      result.group('ORDER_OBSERVATION')?.addGroup('OBSERVATION').segment('OBX')?.set('5', '99')
+      result.addGroup('ORDER_OBSERVATION').segment('OBR')?.set('4.1', 'K')
+      expect(message.toString().split('\r').slice(7)).toEqual([
+        'OBX|2|NM|GLU||95',
+        'OBX|||||99',
+        'OBR|2||A2|NA^Sodium',
+        'NTE|1||Order note',
+        'OBX|1|NM|NA||140',
+        'OBR||||K'
+      ])
+      expect(message.structure().group('PATIENT_RESULT')?.groups('ORDER_OBSERVATION').length).toBe(3)
+    })
+
+    test('...a message from the start', async () => {
+      const message = new Message({
+        messageHeader: {
+          msh_9_1: 'ORU',
+          msh_9_2: 'R01',
+          msh_10: '12345'
+        }
+      })
+      message.set('MSH.12', '2.5.1')
+      const structure = message.structure()
+      const result = structure.addGroup('PATIENT_RESULT')
+      expect(names(result)).toEqual([{ ORDER_OBSERVATION: ['OBR'] }])
+      // added out of order, but in the right place
+      const observation = result.group('ORDER_OBSERVATION')?.addGroup('OBSERVATION') as MessageGroup
+      observation.addSegment('NTE')
+      result.addGroup('PATIENT').addSegment('PD1')
+      result.group('PATIENT')?.addGroup('VISIT')
+      structure.addSegment('SFT')
+      expect(message.toArray().map(segment => segment.name)).toEqual(['MSH', 'SFT', 'PID', 'PD1', 'PV1', 'OBR', 'OBX', 'NTE'])
+      expect(names(message.structure())).toEqual(names(structure))
+    })
+
+    test('...segments that repeat in a structure twice', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20240101||ADT^A01^ADT_A01|1|P|2.5.1\rEVN|A01\rPID|1\rPV1|1' })
+      const structure = message.structure()
+      structure.addSegment('ROL').set('1', 'A')
+      structure.addSegment('PV2')
+      expect(message.toArray().map(segment => segment.name)).toEqual(['MSH', 'EVN', 'PID', 'ROL', 'PV1', 'PV2'])
+    })
+
+    test('...not after Z segments at the end', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20240101||ADT^A01^ADT_A01|1|P|2.5.1\rEVN|A01\rPID|1\rPV1|1\rZPD|1\rZPD|2' })
+      const structure = message.structure()
+      structure.addSegment('AL1').set('1', '1')
+      structure.addGroup('INSURANCE')
+      structure.addSegment('NK1')
+      expect(message.toArray().map(segment => segment.name)).toEqual(['MSH', 'EVN', 'PID', 'NK1', 'PV1', 'AL1', 'IN1', 'ZPD', 'ZPD'])
+
+      const result = new Message({ text: `${oru}\rZXX|2` })
+      result.structure().group('PATIENT_RESULT')?.addGroup('ORDER_OBSERVATION')
+      expect(result.toString().split('\r').slice(-3)).toEqual(['OBX|1|NM|NA||140', 'OBR', 'ZXX|2'])
+    })
+
+    test('...not after segments that did not fit', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20240101||ADT^A01^ADT_A01|1|P|2.5.1\rEVN|A01\rPID|1\rPV1|1\rAL1|1\rEVN|A01' })
+      message.structure().addSegment('DG1')
+      expect(message.toArray().map(segment => segment.name)).toEqual(['MSH', 'EVN', 'PID', 'PV1', 'AL1', 'DG1', 'EVN'])
+    })
+
+    test('...errors', async () => {
+      const structure = new Message({ text: oru }).structure()
+      const result = structure.group('PATIENT_RESULT') as MessageGroup
+      expect(() => result.addSegment('OBX')).toThrow('OBX segment is not part of PATIENT_RESULT.')
+      expect(() => result.addGroup('INSURANCE')).toThrow('INSURANCE group is not part of PATIENT_RESULT.')
+      expect(() => result.addGroup('PATIENT')).toThrow('PATIENT group can not repeat in PATIENT_RESULT.')
+      expect(() => result.group('ORDER_OBSERVATION')?.addSegment('OBR')).toThrow('OBR segment can not repeat in ORDER_OBSERVATION.')
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest'
+import { Message } from '../src'
+
+describe('node hl7 client - formatted text tests', () => {
+  const report = [
+    'MSH|^~\\&|RAD|HOSP|||20240101||ORU^R01|1|P|2.5.1',
+    'OBX|1|FT|IMP^Impression||\\H\\IMPRESSION:\\N\\\\.br\\No acute \\T\\ stable findings.\\.sp\\\\.in+2\\1. Lungs clear.\\.br\\2. Heart normal.',
+    'OBX|2|TX|ADD^Addendum||First line.~Second line.\\Zxyz\\',
+    'OBX|3|FT|CEN^Centered||Before\\.ce\\Title\\.br\\\\.ti+4\\Indented\\.br\\A\\.sk3\\B\\.fi\\\\.nf\\'
+  ].join('\r')
+
+  const message = new Message({ text: report })
+
+  describe('unescape', () => {
+    test('...removes highlighting by default', async () => {
+      expect(message.unescape('\\H\\Note\\N\\ A\\T\\B')).toBe('Note A&B')
+      expect(message.get('OBX.5').toString()).toBe('IMPRESSION:\\.br\\No acute & stable findings.\\.sp\\\\.in+2\\1. Lungs clear.\\.br\\2. Heart normal.')
+    })
+
+    test('...keeps formatting', async () => {
+      expect(message.unescape('\\H\\Note\\N\\ A\\T\\B\\.br\\\\C2D41\\\\Zxyz\\\\X41\\', true)).toBe('\\H\\Note\\N\\ A&B\\.br\\\\C2D41\\\\Zxyz\\A')
+    })
+  })
+
+  describe('toText', () => {
+    test('...formatting commands are new lines and spaces', async () => {
+      expect(message.get('OBX.5').toText()).toBe('IMPRESSION:\nNo acute & stable findings.\n\n  1. Lungs clear.\n  2. Heart normal.')
+      expect(message.get('OBX').get(2).get(5).toText()).toBe('Before\nTitle\n    Indented\nA   B')
+    })
+
+    test('...repetitions are lines', async () => {
+      expect(message.get('OBX').get(1).get(5).toText()).toBe('First line.\nSecond line.')
+      expect(message.get('OBX').get(1).get(5).get(1).toText()).toBe('Second line.')
+    })
+
+    test('...empty', async () => {
+      expect(message.get('OBX.4').toText()).toBe('')
+      expect(message.get('ZZZ.1').toText()).toBe('')
+    })
+
+    test('...character sets', async () => {
+      const text = new Message({ text: 'MSH|^~\\&|||||20240101||ADT^A08|1|P|2.5.1\rPID|1||1||\\C2D41\\M\xfcller^\\C2D4C\\\xb8\xd2\xd0\xdd\\C2842\\^\\M2442\\\x3b\x33\x45\x44' })
+      expect(text.get('PID.5.1').toText()).toBe('Müller')
+      expect(text.get('PID.5.2').toText()).toBe('Иван')
+      expect(text.get('PID.5.3').toText()).toBe('山田')
+      // already decoded text is left as it is
+      expect(new Message({ text: 'MSH|^~\\&|||||20240101||ADT^A08|1|P|2.5.1\rNTE|1||\\C2D41\\Müller ☃' }).get('NTE.3').toText()).toBe('Müller ☃')
+    })
+  })
+
+  describe('toFormattedText', () => {
+    test('...highlighting and commands', async () => {
+      expect(message.get('OBX.5').toFormattedText()).toEqual([
+        { type: 'text', text: 'IMPRESSION:', highlight: true },
+        { type: 'command', command: 'br' },
+        { type: 'text', text: 'No acute & stable findings.', highlight: false },
+        { type: 'command', command: 'sp' },
+        { type: 'command', command: 'in', value: 2 },
+        { type: 'text', text: '1. Lungs clear.', highlight: false },
+        { type: 'command', command: 'br' },
+        { type: 'text', text: '2. Heart normal.', highlight: false }
+      ])
+    })
+
+    test('...repetitions and custom escapes', async () => {
+      expect(message.get('OBX').get(1).get(5).toFormattedText()).toEqual([
+        { type: 'text', text: 'First line.', highlight: false },
+        { type: 'command', command: 'br' },
+        { type: 'text', text: 'Second line.', highlight: false },
+        { type: 'custom', value: 'xyz' }
+      ])
+    })
+
+    test('...unknown escapes are text', async () => {
+      const text = new Message({ text: 'MSH|^~\\&|||||20240101||ADT^A08|1|P|2.5.1\rNTE|1||\\a\\ \\.zz\\ \\E\\ end\\' })
+      expect(text.get('NTE.3').toFormattedText()).toEqual([{ type: 'text', text: '\\a\\ \\.zz\\ \\ end\\', highlight: false }])
+    })
+  })
+})
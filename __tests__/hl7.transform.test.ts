@@ -0,0 +1,156 @@
+import { describe, expect, test } from 'vitest'
+import { HL7_2_5_1 } from '../src/hl7'
+import { Message } from '../src'
+
+describe('node hl7 client - transform tests', () => {
+  const hl7 = [
+    'MSH|^~\\&|APP|FAC|RECV|RFAC|20240101||ORU^R01|1|P|2.5.1',
+    'PID|1||100^^^HOSP^PI~200^^^HOSP^MR||Doe^John',
+    'PV1|1|I',
+    'ZPD|1|custom',
+    'OBX|1|NM|GLU^Glucose||90',
+    'OBX|2|NM|NA^Sodium||140',
+    'ZPV|A|B',
+    'ZPD|2|custom'
+  ].join('\r')
+
+  describe('clone', () => {
+    test('...message', async () => {
+      const message = new Message({ text: hl7 })
+      const copy = message.clone()
+      expect(copy).not.toBe(message)
+      expect(copy.toString()).toBe(hl7)
+      copy.set('PID.5.1', 'Roe')
+      copy.removeSegment('ZPD')
+      expect(copy.get('PID.5.1').toString()).toBe('Roe')
+      expect(message.toString()).toBe(hl7)
+    })
+
+    test('...changes that are not written yet', async () => {
+      const message = new Message({ text: hl7 })
+      message.set('PV1.2', 'O')
+      expect(message.clone().get('PV1.2').toString()).toBe('O')
+    })
+
+    test('...keeps the specification and delimiters', async () => {
+      const specification = new HL7_2_5_1()
+      const message = new Message({ text: 'MSH|^~\\&|||||20240101||ADT^A01|1|P|2.5.1\nPID|1' })
+      message._opt.specification = specification
+      const copy = message.clone()
+      expect(copy._opt.specification).toBe(specification)
+      expect(copy.toString()).toBe('MSH|^~\\&|||||20240101||ADT^A01|1|P|2.5.1\nPID|1')
+    })
+
+    test('...keeps the diagnostics of a lenient parse', async () => {
+      const message = new Message({ text: 'msh|^~\\&|APP|FAC|RECV|RFAC|20240101||ORU^R01|1|P|2.5.1\r\rPID|1||100\nZPD', lenient: true })
+      const copy = message.clone()
+      expect(copy.diagnostics).toEqual(message.diagnostics)
+      expect(copy.diagnostics.map(diagnostic => diagnostic.code)).toEqual(['segment.name', 'line.empty', 'line.ending', 'segment.separator'])
+      expect(copy.diagnostics[0]).not.toBe(message.diagnostics[0])
+      expect(message.deidentify().diagnostics).toEqual(message.diagnostics)
+      expect(message.transform([]).diagnostics).toEqual(message.diagnostics)
+
+      // and changing one does not change the other
+      copy.set('PID.3', '200')
+      copy.insertSegment('NTE', 1)
+      message.set('MSH.3', 'OTHER')
+      expect(copy.toString()).toBe('MSH|^~\\&|APP|FAC|RECV|RFAC|20240101||ORU^R01|1|P|2.5.1\rNTE\rPID|1||200\rZPD|')
+      expect(message.toString()).toBe('MSH|^~\\&|OTHER|FAC|RECV|RFAC|20240101||ORU^R01|1|P|2.5.1\rPID|1||100\rZPD|')
+      expect(copy.get('PID').get(0).get(3).toString()).toBe('200')
+    })
+
+    test('...segments and fields', async () => {
+      const message = new Message({ text: hl7 })
+      const pid = message.get('PID').get(0).clone()
+      pid.set('3', 'ANON')
+      expect(pid.toString()).toBe('PID|1||ANON||Doe^John')
+      expect(message.get('PID.3').toString()).toBe('100')
+
+      const field = message.get('PID.3').clone()
+      field.get(1).set(0, '300')
+      expect(field.toRaw()).toBe('100^^^HOSP^PI~300^^^HOSP^MR')
+      expect(field.get(1).get(4).toString()).toBe('MR')
+      expect(message.get('PID.3').toRaw()).toBe('100^^^HOSP^PI~200^^^HOSP^MR')
+      expect(message.toString()).toBe(hl7)
+    })
+  })
+
+  describe('transform', () => {
+    test('...every rule', async () => {
+      const message = new Message({ text: hl7 })
+      const out = message.transform([
+        { type: 'set', path: 'MSH.5', value: 'LIS' },
+        { type: 'copy', from: "PID.3[5='MR'].1", to: 'PID.2' },
+        { type: 'map', path: 'PV1.2', table: { I: 'INPATIENT', O: 'OUTPATIENT' } },
+        { type: 'drop', segment: 'ZPD' },
+        { type: 'rename', segment: 'ZPV', to: 'ZV1' }
+      ])
+      expect(out.toString().split('\r')).toEqual([
+        'MSH|^~\\&|APP|FAC|LIS|RFAC|20240101||ORU^R01|1|P|2.5.1',
+        'PID|1|200|100^^^HOSP^PI~200^^^HOSP^MR||Doe^John',
+        'PV1|1|INPATIENT',
+        'OBX|1|NM|GLU^Glucose||90',
+        'OBX|2|NM|NA^Sodium||140',
+        'ZV1|A|B'
+      ])
+      expect(out.get('ZV1.2').toString()).toBe('B')
+      // the message is not changed
+      expect(message.toString()).toBe(hl7)
+    })
+
+    test('...every segment, or the ones a query picks', async () => {
+      const out = new Message({ text: hl7 }).transform([
+        { type: 'set', path: 'OBX.11', value: 'F' },
+        { type: 'set', path: "OBX[3.1='NA'].6", value: 'mmol/L' },
+        { type: 'copy', from: '.3.2', to: 'OBX.9' },
+        { type: 'drop', segment: 'ZPD[2..]' }
+      ])
+      expect(out.query('OBX[*]').map(segment => segment.toString())).toEqual([
+        'OBX|1|NM|GLU^Glucose||90||||Glucose||F',
+        'OBX|2|NM|NA^Sodium||140|mmol/L|||Sodium||F'
+      ])
+      expect(out.query('ZPD[*].1').map(node => node.toString())).toEqual(['1'])
+    })
+
+    test('...copy keeps components and escapes', async () => {
+      const out = new Message({ text: hl7 }).transform([
+        { type: 'copy', from: 'PID.3', to: 'PID.4' },
+        { type: 'set', path: 'PID.5.2', value: 'J&J' },
+        { type: 'copy', from: 'PID.5', to: 'PID.9' },
+        { type: 'copy', from: 'PID.30', to: 'PID.2' }
+      ])
+      expect(out.get('PID.4').toRaw()).toBe('100^^^HOSP^PI~200^^^HOSP^MR')
+      expect(out.get('PID.9').toRaw()).toBe('Doe^J\\T\\J')
+      expect(out.get('PID.2').toString()).toBe('')
+    })
+
+    test('...map with a default', async () => {
+      const out = new Message({ text: hl7 }).transform([{ type: 'map', path: 'OBX.3.1', table: { GLU: '2345-7' }, default: 'UNKNOWN' }])
+      expect(out.query('OBX[*].3.1').map(node => node.toString())).toEqual(['2345-7', 'UNKNOWN'])
+      const kept = new Message({ text: hl7 }).transform([{ type: 'map', path: 'OBX.3.1', table: { GLU: '2345-7' } }])
+      expect(kept.query('OBX[*].3.1').map(node => node.toString())).toEqual(['2345-7', 'NA'])
+    })
+
+    test('...rules are applied in order', async () => {
+      const out = new Message({ text: hl7 }).transform([
+        { type: 'rename', segment: 'ZPD', to: 'ZP1' },
+        { type: 'set', path: 'ZP1.2', value: 'renamed' },
+        { type: 'drop', segment: 'ZP1[1]' }
+      ])
+      expect(out.toString().split('\r').slice(-2)).toEqual(['ZPV|A|B', 'ZP1|2|renamed'])
+    })
+
+    test('...errors', async () => {
+      const message = new Message({ text: hl7 })
+      expect(() => message.transform([{ type: 'set', path: 'PID', value: '' }])).toThrow('Invalid path PID.')
+      expect(() => message.transform([{ type: 'set', path: 'PID.3[*]', value: '' }])).toThrow('Invalid path PID.3[*].')
+      expect(() => message.transform([{ type: 'copy', from: '.x', to: 'PID.2' }])).toThrow('Invalid path .x.')
+      expect(() => message.transform([{ type: 'drop', segment: 'PID.3' }])).toThrow('Invalid segment PID.3.')
+      expect(() => message.transform([{ type: 'drop', segment: 'pid' }])).toThrow('Invalid query pid at position 0: expected a segment name.')
+      expect(() => message.transform([{ type: 'drop', segment: 'MSH' }])).toThrow('MSH segment can not be dropped.')
+      expect(() => message.transform([{ type: 'rename', segment: 'MSH', to: 'ZSH' }])).toThrow('MSH segment can not be renamed.')
+      expect(() => message.transform([{ type: 'rename', segment: 'PID', to: 'MSH' }])).toThrow('Invalid segment name MSH.')
+      expect(() => message.transform([{ type: 'unknown' } as any])).toThrow('Unknown transform rule unknown.')
+    })
+  })
+})
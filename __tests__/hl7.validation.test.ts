@@ -0,0 +1,166 @@
+import { describe, expect, test } from 'vitest'
+import { Message } from '../src'
+import { HL7_2_3, HL7_2_4, HL7_2_5_1, HL7_2_6, HL7_2_7, HL7_SPEC } from '../src/hl7'
+
+describe('node hl7 client - validation tests', () => {
+  const adt = (...segments: string[]): Message => new Message({
+    text: ['MSH|^~\\&|SEND|FAC|RECV|FAC|20081231||ADT^A01^ADT_A01|12345|P|2.5.1', ...segments].join('\r')
+  })
+
+  describe('structure', () => {
+    test('...valid message', async () => {
+      const message = adt('EVN||20081231', 'PID|1||123^^^MRN||Doe^John||19700101|M', 'PV1|1|I', 'ZPV|anything', 'AL1|1||PEANUT')
+      expect(new HL7_2_5_1().validate(message)).toEqual([])
+    })
+
+    test('...missing required segment', async () => {
+      const findings = new HL7_2_5_1().validate(adt('EVN||20081231', 'PID|1||123||Doe^John'))
+      expect(findings).toEqual([{
+        code: 'segment.missing',
+        severity: 'error',
+        path: 'PV1',
+        message: 'PV1 segment is required in ADT_A01.'
+      }])
+    })
+
+    test('...segment that can not repeat', async () => {
+      const findings = new HL7_2_5_1().validate(adt('EVN||20081231', 'PID|1||123||Doe^John', 'PID|2||456||Roe^Rick', 'PV1|1|I'))
+      expect(findings).toEqual([{
+        code: 'segment.repeat',
+        severity: 'error',
+        path: 'PID',
+        line: 4,
+        message: 'PID segment can not repeat in ADT_A01.'
+      }])
+    })
+
+    test('...segment that is not part of the structure', async () => {
+      const findings = new HL7_2_5_1().validate(adt('EVN||20081231', 'PID|1||123||Doe^John', 'OBR|1', 'PV1|1|I'))
+      expect(findings.map(finding => finding.code)).toEqual(['segment.unexpected', 'field.required'])
+      expect(findings[0].message).toBe('OBR segment is not part of ADT_A01.')
+      expect(findings[0].line).toBe(4)
+    })
+
+    test('...segment out of order', async () => {
+      const findings = new HL7_2_5_1().validate(adt('EVN||20081231', 'PID|1||123||Doe^John', 'PV1|1|I', 'NK1|1'))
+      expect(findings).toEqual([{
+        code: 'segment.unexpected',
+        severity: 'error',
+        path: 'NK1',
+        line: 5,
+        message: 'NK1 segment is not expected here in ADT_A01.'
+      }])
+    })
+
+    test('...structure from the trigger event', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A04|12345|P|2.3\rEVN||20081231\rPID|1||123||Doe^John' })
+      expect(new HL7_2_3().validate(message).map(finding => finding.message)).toEqual(['PV1 segment is required in ADT_A01.'])
+    })
+
+    test('...unknown structure', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20081231||ZZZ^Z01|12345|P|2.5.1\rPID|1||123' })
+      expect(new HL7_2_5_1().validate(message)).toEqual([
+        {
+          code: 'structure.unknown',
+          severity: 'warning',
+          path: 'MSH.9',
+          line: 1,
+          message: 'The message structure of ZZZ^Z01 is not known, so only the fields are checked.'
+        },
+        { code: 'field.required', severity: 'error', path: 'PID.5', line: 2, message: 'PID.5 is required.' }
+      ])
+    })
+
+    test('...groups', async () => {
+      const oru = (...segments: string[]): Message => new Message({
+        text: ['MSH|^~\\&|||||20081231||ORU^R01^ORU_R01|12345|P|2.5.1', ...segments].join('\r')
+      })
+      const validator = new HL7_2_5_1()
+      // two orders, the first one with two results, and a note on a result
+      expect(validator.validate(oru(
+        'PID|1||123||Doe^John',
+        'ORC|RE', 'OBR|1|||CBC', 'OBX|1|NM|WBC||7.2||||||F', 'NTE|1||Normal', 'OBX|2|NM|RBC||4.5||||||F',
+        'ORC|RE', 'OBR|2|||BMP', 'OBX|1|NM|NA||140||||||F'
+      ))).toEqual([])
+      // a result without an order
+      expect(validator.validate(oru('PID|1||123||Doe^John', 'OBX|1|NM|WBC||7.2||||||F')).map(finding => finding.path))
+        .toEqual(['OBX', 'PATIENT_RESULT.ORDER_OBSERVATION'])
+    })
+  })
+
+  describe('fields', () => {
+    test('...required, length, and format', async () => {
+      const findings = new HL7_2_5_1().validate(adt('EVN||20081231', 'PID|1||||Doe^John||1970-01-01|MF', 'PV1|1|I', 'OBX|x|NM|HR||72||||||F'))
+      expect(findings.map(finding => [finding.code, finding.path])).toEqual([
+        ['field.required', 'PID.3'],
+        ['field.format', 'PID.7'],
+        ['field.length', 'PID.8'],
+        ['field.format', 'OBX.1']
+      ])
+      expect(findings[1].message).toBe('PID.7 is not a valid TS: "1970-01-01".')
+      expect(findings[2].message).toBe('PID.8 is 2 characters long, which is longer than the maximum of 1.')
+    })
+
+    test('...MSH fields', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||2008-12-31||ACK|12345678901234567890X|P|2.5.1\rMSA|AA' })
+      expect(new HL7_2_5_1().validate(message).map(finding => finding.path)).toEqual(['MSH.7', 'MSH.10', 'MSA.2'])
+    })
+
+    test('...2.7 has no maximum lengths', async () => {
+      const message = adt('EVN||20081231', 'PID|1||123||Doe^John|||MF', 'PV1|1|I')
+      expect(new HL7_2_5_1().validate(message).map(finding => finding.code)).toEqual(['field.length'])
+      expect(new HL7_2_7().validate(message)).toEqual([])
+    })
+
+    test('...timestamps with precision and offset', async () => {
+      const message = adt('EVN||20081231153000.1234-0500', 'PID|1||123||Doe^John||1970', 'PV1|1|I')
+      expect(new HL7_2_5_1().validate(message)).toEqual([])
+    })
+  })
+  describe('versions', () => {
+    const versioned = (version: string, date: string, controlId: string, name: string): Message => new Message({
+      text: [`MSH|^~\\&|SEND|FAC|RECV|FAC|${date}||ADT^A01|${controlId}|P|${version}`, 'EVN||20081231', `PID|1||123||${name}`, 'PV1|1|I'].join('\r')
+    })
+
+    test('...MSH-7 is optional before 2.5', async () => {
+      const message = versioned('2.4', '', '12345', 'Doe^John')
+      expect(new HL7_2_4().validate(message)).toEqual([])
+      expect(new HL7_2_5_1().validate(message).map(finding => [finding.code, finding.path])).toEqual([['field.required', 'MSH.7']])
+    })
+
+    test('...lengths of the version', async () => {
+      const message = versioned('2.3', '20081231', '12345', `${'D'.repeat(30)}^${'J'.repeat(20)}`)
+      expect(new HL7_2_3().validate(message).map(finding => [finding.code, finding.path])).toEqual([['field.length', 'PID.5']])
+      expect(new HL7_2_4().validate(message)).toEqual([])
+
+      const long = versioned('2.6', '20081231', 'X'.repeat(30), 'Doe^John')
+      expect(new HL7_2_6().validate(long)).toEqual([])
+      expect(new HL7_2_5_1().validate(long).map(finding => [finding.code, finding.path])).toEqual([['field.length', 'MSH.10']])
+    })
+
+    test('...a parsed message is checked against its own version', async () => {
+      expect(versioned('2.4', '', '12345', 'Doe^John').validate()).toEqual([])
+      expect(versioned('2.5.1', '', '12345', 'Doe^John').validate().map(finding => finding.path)).toEqual(['MSH.7'])
+      expect(versioned('2.3', '20081231', '12345', 'D'.repeat(50)).validate().map(finding => finding.path)).toEqual(['PID.5'])
+      // an unknown version is checked as 2.7, without the maximum lengths
+      expect(versioned('9.9', '20081231', 'X'.repeat(30), 'D'.repeat(50)).validate()).toEqual([])
+      expect(versioned('2.4', '', '12345', 'Doe^John').validate(new HL7_2_5_1()).map(finding => finding.path)).toEqual(['MSH.7'])
+    })
+
+    test('...a built message is checked against its specification', async () => {
+      const message = new Message({ specification: new HL7_2_3(), messageHeader: { msh_9_1: 'ADT', msh_9_2: 'A01', msh_11_1: 'P' } })
+      message.set('MSH.12', '2.5.1')
+      message.set('MSH.7', '')
+      expect(message.validate().map(finding => finding.path)).not.toContain('MSH.7')
+    })
+
+    test('...a specification that does not extend HL7_SPEC_BASE', async () => {
+      const custom: HL7_SPEC = { name: 'custom', checkMSH: () => true, buildMSH: () => {} }
+      // the schema and XML namespace are the ones of the version in MSH-12
+      expect(versioned('2.4', '', '12345', 'Doe^John').validate(custom)).toEqual([])
+      expect(versioned('2.5.1', '', '12345', 'Doe^John').validate(custom).map(finding => finding.path)).toEqual(['MSH.7'])
+      const message = versioned('2.4', '20081231', '12345', 'Doe^John')
+      expect(message.toXML({ specification: custom })).toBe(message.toXML())
+    })
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, expect, test } from 'vitest'
+import { Message } from '../src'
+import { HL7_2_3, HL7_2_7 } from '../src/hl7'
+
+describe('node hl7 client - xml tests', () => {
+  const hl7 = 'MSH|^~\\&|SEND|FAC|RECV|FAC|20081231||ADT^A01^ADT_A01|12345|P|2.5.1\rPID|1||123^^^HOSP&1.2.3&ISO~~456||Doe\\S\\Jr^John||19700101\rZPD|A^B\rOBX|1|CE|1234^Test||A^Alpha^L||||||F\rOBX|2|ST|5^X||1.5 \\H\\high\\N\\ a\\T\\b'
+
+  describe('encode', () => {
+    test('...root element and namespace', async () => {
+      const xml = new Message({ text: hl7 }).toXML()
+      expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?><ADT_A01 xmlns="urn:hl7-org:v2xml"><MSH>')).toBe(true)
+      expect(xml.endsWith('</OBX></ADT_A01>')).toBe(true)
+    })
+
+    test('...root element from the message type when the structure is not known', async () => {
+      const xml = new Message({ text: 'MSH|^~\\&|||||20081231||ZZZ^Z01|1|P|2.7' }).toXML()
+      expect(xml).toContain('<ZZZ_Z01 xmlns="urn:hl7-org:v2xml">')
+    })
+
+    test('...header delimiters', async () => {
+      const xml = new Message({ text: hl7 }).toXML()
+      expect(xml).toContain('<MSH.1>|</MSH.1><MSH.2>^~\\&amp;</MSH.2><MSH.3><HD.1>SEND</HD.1></MSH.3>')
+      expect(xml).toContain('<MSH.9><MSG.1>ADT</MSG.1><MSG.2>A01</MSG.2><MSG.3>ADT_A01</MSG.3></MSH.9>')
+    })
+
+    test('...components and sub-components by data type', async () => {
+      const xml = new Message({ text: hl7 }).toXML()
+      expect(xml).toContain('<PID.3><CX.1>123</CX.1><CX.4><HD.1>HOSP</HD.1><HD.2>1.2.3</HD.2><HD.3>ISO</HD.3></CX.4></PID.3><PID.3/><PID.3><CX.1>456</CX.1></PID.3>')
+      expect(xml).toContain('<PID.5><XPN.1><FN.1>Doe^Jr</FN.1></XPN.1><XPN.2>John</XPN.2></PID.5>')
+      expect(xml).toContain('<PID.7><TS.1>19700101</TS.1></PID.7>')
+    })
+
+    test('...fields without a known data type', async () => {
+      const xml = new Message({ text: hl7 }).toXML()
+      expect(xml).toContain('<ZPD><ZPD.1><ZPD.1.1>A</ZPD.1.1><ZPD.1.2>B</ZPD.1.2></ZPD.1></ZPD>')
+    })
+
+    test('...OBX-5 uses the value type', async () => {
+      const xml = new Message({ text: hl7 }).toXML()
+      expect(xml).toContain('<OBX.5><CE.1>A</CE.1><CE.2>Alpha</CE.2><CE.3>L</CE.3></OBX.5>')
+      expect(xml).toContain('<OBX.5>1.5 <escape V="H"/>high<escape V="N"/> a&amp;b</OBX.5>')
+    })
+
+    test('...data types of the version', async () => {
+      const xml = new Message({ text: hl7.replace('2.5.1', '2.7') }).toXML()
+      expect(xml).toContain('<OBX.3><CWE.1>1234</CWE.1><CWE.2>Test</CWE.2></OBX.3>')
+      expect(xml).toContain('<PID.7>19700101</PID.7>')
+    })
+
+    test('...specification', async () => {
+      class Custom extends HL7_2_7 {
+        xmlNamespace (): string {
+          return 'urn:example'
+        }
+      }
+      const xml = new Message({ text: hl7 }).toXML({ specification: new Custom() })
+      expect(xml).toContain('<ADT_A01 xmlns="urn:example">')
+    })
+
+    test('...indent', async () => {
+      const xml = new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A01^ADT_A01|1|P|2.7\rPID|1||123' }).toXML({ indent: '  ' })
+      expect(xml).toBe([
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<ADT_A01 xmlns="urn:hl7-org:v2xml">',
+        '  <MSH>',
+        '    <MSH.1>|</MSH.1>',
+        '    <MSH.2>^~\\&amp;</MSH.2>',
+        '    <MSH.7>20081231</MSH.7>',
+        '    <MSH.9>',
+        '      <MSG.1>ADT</MSG.1>',
+        '      <MSG.2>A01</MSG.2>',
+        '      <MSG.3>ADT_A01</MSG.3>',
+        '    </MSH.9>',
+        '    <MSH.10>1</MSH.10>',
+        '    <MSH.11>',
+        '      <PT.1>P</PT.1>',
+        '    </MSH.11>',
+        '    <MSH.12>',
+        '      <VID.1>2.7</VID.1>',
+        '    </MSH.12>',
+        '  </MSH>',
+        '  <PID>',
+        '    <PID.1>1</PID.1>',
+        '    <PID.3>',
+        '      <CX.1>123</CX.1>',
+        '    </PID.3>',
+        '  </PID>',
+        '</ADT_A01>'
+      ].join('\n'))
+    })
+  })
+
+  describe('decode', () => {
+    test('...round trip', async () => {
+      const message = new Message({ text: hl7 })
+      const copy = Message.fromXML(message.toXML())
+      expect(copy.toString()).toBe(message.toString())
+      expect(copy.get('PID.5.1').toString()).toBe('Doe^Jr')
+      expect(Message.fromXML(message.toXML({ indent: '\t' })).toString()).toBe(message.toString())
+    })
+
+    test('...round trip with other delimiters', async () => {
+      const message = new Message({ text: 'MSH#$*!@#SEND#FAC#RECV#FAC#20081231##ADT$A01$ADT_A01#12345#P#2.7\rPID#1##123$$$HOSP@1.2.3*456##A<B>&C' })
+      const xml = message.toXML()
+      expect(xml).toContain('<PID.5><XPN.1><FN.1>A&lt;B&gt;&amp;C</FN.1></XPN.1></PID.5>')
+      expect(Message.fromXML(xml).toString()).toBe(message.toString())
+    })
+
+    test('...empty trailing fields are kept', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A01|1|P|2.7|\rPV1|1|||\rPV1|\rZPD||x||' })
+      const xml = message.toXML()
+      expect(xml).toContain('<MSH.13/></MSH>')
+      expect(xml).toContain('<PV1><PV1.1>1</PV1.1><PV1.4/></PV1><PV1><PV1.1/></PV1>')
+      expect(Message.fromXML(xml).toString()).toBe(message.toString())
+    })
+
+    test('...round trip before 2.6', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|SEND|FAC|RECV|FAC|19990101||ADT^A01|1|P|2.3\rEVN|A01|19990101\rPID|1||123^^^HOSP||Doe^John||19700101|M|||\rOBX|1|CE|1234^Test||A^Alpha^L||||||F\rPV1|1|I' })
+      const xml = message.toXML()
+      expect(xml).toContain('<OBX.3><CE.1>1234</CE.1><CE.2>Test</CE.2></OBX.3>')
+      expect(xml).toContain('<OBX.5><CE.1>A</CE.1><CE.2>Alpha</CE.2><CE.3>L</CE.3></OBX.5>')
+      expect(xml).toContain('<PID.7><TS.1>19700101</TS.1></PID.7>')
+      expect(Message.fromXML(xml).toString()).toBe(message.toString())
+      expect(Message.fromXML(message.toXML({ indent: '  ' })).toString()).toBe(message.toString())
+    })
+
+    test('...a parsed message uses the specification of its version', async () => {
+      const message = new Message({ text: 'MSH|^~\\&|||||19990101||ADT^A01|1|P|2.3\rPID|1||123||Doe^John||19700101' })
+      expect(message.toXML()).toBe(message.toXML({ specification: new HL7_2_3() }))
+    })
+
+    test('...groups, prefixes, CDATA, comments, and entities', async () => {
+      const xml = `<?xml version="1.0"?>
+<!-- from another system -->
+<v2:ORU_R01 xmlns:v2="urn:hl7-org:v2xml">
+  <v2:MSH><v2:MSH.1>|</v2:MSH.1><v2:MSH.2>^~\\&amp;</v2:MSH.2><v2:MSH.9><v2:MSG.1>ORU</v2:MSG.1><v2:MSG.2>R01</v2:MSG.2></v2:MSH.9><v2:MSH.12><v2:VID.1>2.5.1</v2:VID.1></v2:MSH.12></v2:MSH>
+  <v2:ORU_R01.PATIENT_RESULT>
+    <v2:ORU_R01.PATIENT><v2:PID><v2:PID.5 ><v2:XPN.1><v2:FN.1><![CDATA[O'Brien & <Sons>]]></v2:FN.1></v2:XPN.1><v2:XPN.2>&#74;&#x6F;e</v2:XPN.2></v2:PID.5></v2:PID></v2:ORU_R01.PATIENT>
+    <v2:ORU_R01.ORDER_OBSERVATION><v2:OBR><v2:OBR.1>1</v2:OBR.1></v2:OBR></v2:ORU_R01.ORDER_OBSERVATION>
+  </v2:ORU_R01.PATIENT_RESULT>
+</v2:ORU_R01>`
+      const message = Message.fromXML(xml)
+      expect(message.toString()).toBe("MSH|^~\\&|||||||ORU^R01|||2.5.1\rPID|||||O'Brien \\T\\ <Sons>^Joe\rOBR|1")
+      expect(message.get('PID.5.1').toString()).toBe("O'Brien & <Sons>")
+    })
+
+    test('...errors', async () => {
+      expect(() => Message.fromXML('not xml')).toThrow('Invalid XML at position 0: expected the root element.')
+      expect(() => Message.fromXML('<ADT_A01><MSH></ADT_A01>')).toThrow('expected </MSH>, not </ADT_A01>')
+      expect(() => Message.fromXML('<ADT_A01><PID/></ADT_A01>')).toThrow('XML must begin with the MSH segment.')
+      expect(() => Message.fromXML('<ADT_A01><MSH><MSH.1>|</MSH.1></MSH></ADT_A01>')).toThrow('MSH.1 and MSH.2 must have the delimiters of the message.')
+    })
+  })
+})
@@ -1,8 +1,11 @@
+import { Delimiters } from '../utils/enum.js'
 import { HL7FatalError, HL7ParserError } from '../utils/exception.js'
 import { ClientBuilderOptions, normalizedClientBatchBuilderOptions } from '../utils/normalizedBuilder.js'
-import { createHL7Date, split } from '../utils/utils.js'
+import { createHL7Date } from '../utils/utils.js'
 import { FileBatch } from './fileBatch.js'
+import { deidentifySegments, HL7DeidentifyOptions } from './deidentify.js'
 import { HL7Node } from './interface/hL7Node.js'
+import { batchFromJSON, batchToJSON, delimitersToJSON, HL7BatchJSON } from './json.js'
 import { Message } from './message.js'
 import { RootBase } from './modules/rootBase.js'
 import { Segment } from './modules/segment.js'
@@ -20,8 +23,6 @@ export class Batch extends RootBase {
   /** @internal **/
   _opt: ReturnType<typeof normalizedClientBatchBuilderOptions>
   /** @internal */
-  protected _lines: string[]
-  /** @internal */
   _messagesCount: number
 
   /**
@@ -31,17 +32,24 @@ export class Batch extends RootBase {
   constructor (props?: ClientBuilderOptions) {
     const opt = normalizedClientBatchBuilderOptions(props)
     super(opt)
-    this._lines = []
     this._opt = opt
     this._messagesCount = 0
 
-    if (typeof opt.text !== 'undefined' && opt.parsing === true && opt.text !== '') {
-      this._lines = split(opt.text).filter(line => line.startsWith('MSH'))
-    } else {
+    if (typeof opt.text === 'undefined' || opt.parsing !== true || opt.text === '') {
       this.set('BHS.7', createHL7Date(new Date(), this._opt.date))
     }
   }
 
+  /**
+   * Batch from JSON
+   * @description Parse a batch from {@link toJSON}.
+   * @since 2.4.0
+   * @param json
+   */
+  static fromJSON (json: HL7BatchJSON): Batch {
+    return new Batch({ text: batchFromJSON(json) })
+  }
+
   /**
    * Add a Message to the Batch
    * @description This adds a Message (MSH) output into the batch.
@@ -61,6 +69,21 @@ export class Batch extends RootBase {
     }
   }
 
+  /**
+   * De-identify
+   * @description A new batch, from a copy of this one, with each of its messages de-identified,
+   * like {@link Message.deidentify}. The dates of a patient move the same number of days in every message.
+   * This batch is not changed.
+   * @since 2.4.0
+   * @param options
+   * @throws {HL7FatalError} If a rule is not valid.
+   */
+  deidentify (options?: HL7DeidentifyOptions): Batch {
+    const copy = new Batch({ text: this.toRaw() })
+    deidentifySegments(copy, copy.children as Segment[], options)
+    return copy
+  }
+
   /**
    * End Batch
    * @description At the conclusion of building the batch,
@@ -110,8 +133,10 @@ export class Batch extends RootBase {
 
   /**
    * Get Messages within a submitted Batch
-   * @description This will parse the passed on "text"
-   * in the contractor options and get all the messages (MSH) segments within it and return an array of them.
+   * @description Get all the messages (MSH) within it, from its segments as they are now,
+   * so segments that were inserted, removed, or moved are part of them.
+   * Each message is a copy, so changing it does not change this,
+   * but it can be given to {@link removeSegment} or {@link moveSegment} to take out, or move, the whole message.
    * @since 1.0.0
    * @example
    * ```ts
@@ -128,18 +153,10 @@ export class Batch extends RootBase {
    *   // error here
    * }
    * ```
-   * @returns Returns an array of messages or a HL7ParserError will throw.
+   * @returns Returns an array of messages.
    */
   messages (): Message[] {
-    if (typeof this._lines !== 'undefined' && typeof this._opt.newLine !== 'undefined') {
-      const message: Message[] = []
-      const re = new RegExp(`${this._opt.newLine}$`, 'g')
-      for (let i = 0; i < this._lines.length; i++) {
-        message.push(new Message({ text: this._lines[i].replace(re, '') }))
-      }
-      return message
-    }
-    throw new HL7FatalError('No messages inside batch.')
+    return batchMessages(this.children, this.delimiters[Delimiters.Segment], this._copies)
   }
 
   /**
@@ -214,6 +231,26 @@ export class Batch extends RootBase {
     return fileBatch.fileName()
   }
 
+  /**
+   * To JSON
+   * @description The batch as JSON, with the BHS and BTS segments and each message.
+   * See {@link HL7BatchJSON} for the shape.
+   * @since 2.4.0
+   */
+  toJSON (): HL7BatchJSON {
+    return batchToJSON(this.children.map(child => child instanceof Message ? child.toJSON() : child.toRaw()), delimitersToJSON(this.delimiters))
+  }
+
+  /** @internal */
+  protected _span (index: number): number {
+    return messageSpan(this.children, index)
+  }
+
+  /** @internal */
+  protected _header (): string {
+    return 'BHS'
+  }
+
   /** @internal */
   protected createChild (text: string, _index: number): HL7Node {
     return new Segment(this, text.trim())
@@ -276,3 +313,52 @@ export class Batch extends RootBase {
 }
 
 export default Batch
+
+/** @internal */
+const HEADERS = ['FHS', 'BHS', 'MSH', 'BTS', 'FTS']
+
+/**
+ * How many children, from an index, are part of the same message, if it is an MSH,
+ * up to the next MSH, or header or trailer of a batch or file.
+ * @since 2.4.0
+ * @internal
+ */
+export const messageSpan = (children: HL7Node[], index: number): number => {
+  const child = children[index]
+  if (!(child instanceof Segment) || child.name !== 'MSH') {
+    return 1
+  }
+  let end = index + 1
+  while (end < children.length && children[end] instanceof Segment && !HEADERS.includes(children[end].name)) {
+    end++
+  }
+  return end - index
+}
+
+/**
+ * The messages of a batch or file, from the segments, messages, and batches that are in it now.
+ * @since 2.4.0
+ * @internal
+ * @param children The children of the batch or file.
+ * @param newLine The segment separator of the batch or file.
+ * @param copies Where to keep what each message is a copy of.
+ */
+export const batchMessages = (children: HL7Node[], newLine: string, copies: WeakMap<HL7Node, HL7Node>): Message[] => {
+  const messages: Message[] = []
+  children.forEach((child, index) => {
+    let text: string | undefined
+    if (child instanceof Batch) {
+      messages.push(...child.messages())
+    } else if (child instanceof Message) {
+      text = child.toString()
+    } else if (child.name === 'MSH') {
+      text = children.slice(index, index + messageSpan(children, index)).map(segment => segment.toString()).join(newLine)
+    }
+    if (typeof text !== 'undefined') {
+      const message = new Message({ text })
+      copies.set(message, child)
+      messages.push(message)
+    }
+  })
+  return messages
+}
@@ -0,0 +1,455 @@
+import { createHmac, randomBytes } from 'node:crypto'
+import { Delimiters } from '../utils/enum.js'
+import { HL7FatalError } from '../utils/exception.js'
+import { HL7DateTime } from '../utils/dateTime.js'
+import { escapeForRegExp } from '../utils/utils.js'
+import type { RootBase } from './modules/rootBase.js'
+import type { Segment } from './modules/segment.js'
+
+/**
+ * HL7 Fake Data
+ * @description The kind of fake data for the `fake` action of a {@link HL7DeidentifyRule}:
+ * - `name` - A person name (XPN): the family and given names are made up, the middle initial is a letter,
+ * and the suffix, prefix, degree, and name type are kept.
+ * - `address` - An address (XAD): the street and city are made up, each digit of the zip code is a 0,
+ * the state, country, and address type are kept, and the rest is removed.
+ * - `phone` - A phone number (XTN): the digits are changed, the email address is made up,
+ * the use, equipment type, and country code are kept, and the rest is removed.
+ * - `id` - An identifier (CX): the digits and letters of the ID are changed, so it looks the same,
+ * the assigning authority, type, and facility are kept, and the rest is removed.
+ * @since 2.4.0
+ */
+export type HL7FakeData = 'name' | 'address' | 'phone' | 'id'
+
+/**
+ * HL7 De-identify Rule
+ * @description What {@link Message.deidentify} does with a field, component, or sub-component:
+ * - `remove` - Make it empty, like `{ path: 'PID.12', action: 'remove' }`.
+ * - `hash` - Replace it with a salted hash (16 hex characters), like `{ path: 'PID.3.1', action: 'hash' }`.
+ * For a field, each repetition is hashed, as a whole.
+ * - `fake` - Replace it with made up data of a kind, like `{ path: 'PID.5', action: 'fake', fake: 'name' }`.
+ * See {@link HL7FakeData}. For a component, only that component is made up.
+ * - `year` - Keep only the year of a date, like `{ path: 'PID.7', action: 'year' }`.
+ * A year 90 or more years ago becomes the year 90 years ago, so every age over 89 is the same.
+ * For a field, it is the first component of each repetition. A date that is not valid is removed.
+ * - `shift` - Move a date by the number of days for the patient, like `{ path: 'PV1.44', action: 'shift' }`,
+ * and keep its time. This keeps more than the year, so it is not part of {@link SAFE_HARBOR}.
+ * For a field, it is the first component of each repetition. A date that is not valid is removed.
+ *
+ * The path is a segment name and a field, component, or sub-component, like `PID.11.5`,
+ * and it is done to every segment with that name.
+ * @since 2.4.0
+ */
+export type HL7DeidentifyRule =
+  { path: string, action: 'remove' } |
+  { path: string, action: 'hash' } |
+  { path: string, action: 'fake', fake: HL7FakeData } |
+  { path: string, action: 'year' } |
+  { path: string, action: 'shift' }
+
+/**
+ * HL7 De-identify Options
+ * @since 2.4.0
+ */
+export interface HL7DeidentifyOptions {
+  /**
+   * The rules, in place of the default ones.
+   * @default SAFE_HARBOR
+   */
+  rules?: HL7DeidentifyRule[]
+  /**
+   * The secret for the hashes, the fake data, and how many days dates move.
+   * The same value always becomes the same hash or fake data for the same salt,
+   * so use the same salt to de-identify messages that have to match each other, and keep it secret.
+   * @default A new random salt each time.
+   */
+  salt?: string
+  /**
+   * The most days a date can be moved, earlier or later, by a `shift` rule.
+   * @default 365
+   */
+  shiftDays?: number
+}
+
+/**
+ * HIPAA Safe Harbor
+ * @description The default rules of {@link Message.deidentify},
+ * for the identifiers of the HIPAA Safe Harbor method in PID, NK1, PV1, IN1, and GT1:
+ * names, addresses smaller than a state (with a zip code of zeros, since only the first three digits
+ * of some zip codes can be kept), dates (but their year), phone numbers, email addresses, and numbers like the MRN, SSN, and account numbers.
+ * Other segments, like OBX and NTE, can have free text with identifiers in it,
+ * so check them, or add rules to remove them.
+ * @since 2.4.0
+ */
+export const SAFE_HARBOR: readonly HL7DeidentifyRule[] = Object.freeze([
+  ...['PID.2', 'PID.3', 'PID.4', 'PID.18', 'PID.19', 'PID.20', 'PID.21'].map(path => _fake(path, 'id')),
+  ...['PID.5', 'PID.6', 'PID.9'].map(path => _fake(path, 'name')),
+  ...['PID.7', 'PID.29'].map(_year),
+  _fake('PID.11', 'address'),
+  ...['PID.13', 'PID.14'].map(path => _fake(path, 'phone')),
+  ...['PID.12', 'PID.23'].map(_remove),
+  ...['NK1.2', 'NK1.30'].map(path => _fake(path, 'name')),
+  ...['NK1.4', 'NK1.32'].map(path => _fake(path, 'address')),
+  ...['NK1.5', 'NK1.6', 'NK1.31'].map(path => _fake(path, 'phone')),
+  ...['NK1.8', 'NK1.9', 'NK1.16'].map(_year),
+  ...['NK1.12', 'NK1.33', 'NK1.37'].map(path => _fake(path, 'id')),
+  ...['PV1.19', 'PV1.50'].map(path => _fake(path, 'id')),
+  ...['PV1.44', 'PV1.45'].map(_year),
+  _fake('IN1.16', 'name'),
+  ...['IN1.12', 'IN1.13', 'IN1.18'].map(_year),
+  _fake('IN1.19', 'address'),
+  ...['IN1.36', 'IN1.49'].map(path => _fake(path, 'id')),
+  ...['GT1.2', 'GT1.12', 'GT1.19'].map(path => _fake(path, 'id')),
+  ...['GT1.3', 'GT1.4'].map(path => _fake(path, 'name')),
+  ...['GT1.5', 'GT1.17'].map(path => _fake(path, 'address')),
+  ...['GT1.6', 'GT1.7', 'GT1.18'].map(path => _fake(path, 'phone')),
+  _year('GT1.8'),
+  _remove('GT1.16')
+])
+
+/** @internal */
+function _fake (path: string, fake: HL7FakeData): HL7DeidentifyRule {
+  return { path, action: 'fake', fake }
+}
+
+/** @internal */
+function _year (path: string): HL7DeidentifyRule {
+  return { path, action: 'year' }
+}
+
+/** @internal */
+function _remove (path: string): HL7DeidentifyRule {
+  return { path, action: 'remove' }
+}
+
+/** @internal */
+const OLDEST_AGE = 90
+
+/** @internal */
+const RULE_PATH = /^([A-Z][A-Z0-9]{2})\.(\d+)(?:\.(\d+))?(?:\.(\d+))?$/
+
+/** @internal */
+const HEADERS = ['MSH', 'BHS', 'FHS']
+
+/** @internal */
+const FAMILY_NAMES = ['ABBOTT', 'BAKER', 'CARTER', 'DAWSON', 'ELLIS', 'FLEMING', 'GARNER', 'HOLLAND', 'IVES', 'JENKINS', 'KELLER', 'LAMBERT', 'MORROW', 'NORTON', 'OSBORNE', 'PRESTON', 'QUINN', 'RAMSEY', 'SUTTON', 'TURNER', 'UPTON', 'VAUGHN', 'WALSH', 'YATES']
+
+/** @internal */
+const GIVEN_NAMES = ['ALEX', 'BRIDGET', 'CALVIN', 'DIANA', 'EDGAR', 'FIONA', 'GRANT', 'HAZEL', 'IAN', 'JUNE', 'KARL', 'LENA', 'MILES', 'NORA', 'OWEN', 'PAULA', 'REID', 'SYLVIA', 'TOBIAS', 'VERA', 'WADE', 'ZOE']
+
+/** @internal */
+const STREETS = ['MAPLE ST', 'OAK AVE', 'CEDAR LN', 'PINE RD', 'ELM ST', 'BIRCH DR', 'WILLOW CT', 'ASPEN WAY', 'HICKORY BLVD', 'SPRUCE PL']
+
+/** @internal */
+const CITIES = ['SPRINGFIELD', 'FAIRVIEW', 'RIVERSIDE', 'GREENVILLE', 'FRANKLIN', 'CLINTON', 'MADISON', 'GEORGETOWN', 'ARLINGTON', 'SALEM']
+
+/**
+ * How to make up each component of a kind of fake data.
+ * Components with a value are made up from the original text, the ones in `keep` stay, and the rest are removed.
+ * @internal
+ */
+const FAKE_DATA: Record<HL7FakeData, { components: Record<number, (text: string, salt: string) => string>, keep: number[] }> = {
+  name: {
+    components: {
+      1: (text, salt) => _pick(FAMILY_NAMES, salt, `family:${text}`),
+      2: (text, salt) => _pick(GIVEN_NAMES, salt, `given:${text}`),
+      3: (text, salt) => _pick(GIVEN_NAMES, salt, `given:${text}`).slice(0, 1)
+    },
+    keep: [4, 5, 6, 7]
+  },
+  address: {
+    components: {
+      1: (text, salt) => `${_digest(salt, `street:${text}`).readUInt16BE(0) % 9900 + 100} ${_pick(STREETS, salt, `street:${text}`)}`,
+      3: (text, salt) => _pick(CITIES, salt, `city:${text}`),
+      // the first three digits can only be kept where more than 20,000 people live, which is not known here
+      5: text => text.replace(/\d/g, '0').replace(/[A-Za-z]/g, 'X')
+    },
+    keep: [4, 6, 7]
+  },
+  phone: {
+    components: {
+      1: _scramble,
+      4: (text, salt) => `${_pick(GIVEN_NAMES, salt, `email:${text}`)}.${_pick(FAMILY_NAMES, salt, `email:${text}`)}@example.com`.toLowerCase(),
+      6: _scramble,
+      7: _scramble,
+      8: _scramble,
+      12: _scramble
+    },
+    keep: [2, 3, 5]
+  },
+  id: {
+    components: {
+      1: _scramble
+    },
+    keep: [4, 5, 6]
+  }
+}
+
+/**
+ * De-identify the segments of a message, batch, or file.
+ * @since 2.4.0
+ * @internal
+ * @param root The message, batch, or file the segments are in, for its delimiters.
+ * @param segments Every segment, in order, so the dates of each patient move together.
+ * @param options
+ * @throws {HL7FatalError} If a rule is not valid.
+ */
+export const deidentifySegments = (root: RootBase, segments: Segment[], options: HL7DeidentifyOptions = {}): void => {
+  const rules = (options.rules ?? SAFE_HARBOR).map(rule => ({ rule, path: _path(rule) }))
+  const salt = options.salt ?? randomBytes(16).toString('hex')
+  const shiftDays = options.shiftDays ?? 365
+  if (!Number.isInteger(shiftDays) || shiftDays < 1) {
+    throw new HL7FatalError('shiftDays must be a whole number of 1 or more.')
+  }
+
+  // read first, since the patient IDs are changed too
+  const patients = _patients(segments)
+  segments.forEach((segment, index) => {
+    for (const { rule, path } of rules) {
+      if (segment.name !== path.segment) {
+        continue
+      }
+      const field = segment.get(String(path.field))
+      if (field.isEmpty()) {
+        continue
+      }
+      const days = _days(salt, patients[index], shiftDays)
+      segment.write([String(path.field)], _apply(root, field.toRaw(), path, rule, salt, days))
+    }
+  })
+}
+
+/**
+ * A rule path, as numbers.
+ * @internal
+ */
+interface RulePath {
+  segment: string
+  field: number
+  component?: number
+  subComponent?: number
+}
+
+/** @internal */
+const _path = (rule: HL7DeidentifyRule): RulePath => {
+  const match = RULE_PATH.exec(rule.path)
+  if (match === null || HEADERS.includes(match[1]) || [match[2], match[3], match[4]].some(position => position === '0')) {
+    throw new HL7FatalError(`Invalid path ${rule.path}. It must be a segment and a field, component, or sub-component, like PID.11.5.`)
+  }
+  if (!['remove', 'hash', 'fake', 'year', 'shift'].includes(rule.action)) {
+    throw new HL7FatalError(`Unknown de-identify action ${(rule as { action: string }).action}.`)
+  }
+  if (rule.action === 'fake' && !Object.prototype.hasOwnProperty.call(FAKE_DATA, rule.fake)) {
+    throw new HL7FatalError(`Unknown fake data ${(rule as { fake: string }).fake}.`)
+  }
+  return {
+    segment: match[1],
+    field: parseInt(match[2]),
+    component: typeof match[3] !== 'undefined' ? parseInt(match[3]) : undefined,
+    subComponent: typeof match[4] !== 'undefined' ? parseInt(match[4]) : undefined
+  }
+}
+
+/**
+ * The new text of a field, with a rule done to each repetition of it.
+ * The text is split on the delimiters, and put back the same way, so the structure stays the same.
+ * @internal
+ */
+const _apply = (root: RootBase, raw: string, path: RulePath, rule: HL7DeidentifyRule, salt: string, days: number): string => {
+  const delimiters = root.delimiters
+  const repetition = delimiters[Delimiters.Repetition]
+  const component = delimiters[Delimiters.Component]
+  const subComponent = delimiters[Delimiters.SubComponent]
+
+  const value = (text: string, changed: (text: string) => string): string => {
+    return root.escape(changed(root.unescape(text)))
+  }
+
+  const position = path.component
+  if (typeof position === 'undefined' && rule.action === 'remove') {
+    return ''
+  }
+
+  return raw.split(repetition).map(item => {
+    if (item === '') {
+      return item
+    }
+    const components = item.split(component)
+
+    if (typeof position === 'undefined') {
+      switch (rule.action) {
+        case 'remove':
+          return ''
+        case 'hash':
+          return value(item, text => _hash(salt, text))
+        case 'year':
+          components[0] = _yearOf(components[0])
+          return components.join(component)
+        case 'shift':
+          components[0] = _shiftDate(components[0], days)
+          return components.join(component)
+        case 'fake': {
+          const fake = FAKE_DATA[rule.fake]
+          return components.map((text, index) => {
+            const make = fake.components[index + 1]
+            if (typeof make !== 'undefined') {
+              // the first sub-component, like the surname of a family name
+              return text === '' ? text : value(text.split(subComponent)[0], text => make(text, salt))
+            }
+            return fake.keep.includes(index + 1) ? text : ''
+          }).join(component).replace(new RegExp(`(${escapeForRegExp(component)})+$`), '')
+        }
+      }
+    }
+
+    const index = position - 1
+    if (index >= components.length || components[index] === '') {
+      return item
+    }
+    const subComponents = components[index].split(subComponent)
+    const at = typeof path.subComponent !== 'undefined' ? path.subComponent - 1 : undefined
+    if (typeof at !== 'undefined' && (at >= subComponents.length || subComponents[at] === '')) {
+      return item
+    }
+    const current = typeof at !== 'undefined' ? subComponents[at] : components[index]
+
+    let changed: string
+    switch (rule.action) {
+      case 'remove':
+        changed = ''
+        break
+      case 'hash':
+        changed = value(current, text => _hash(salt, text))
+        break
+      case 'year':
+        changed = _yearOf(current)
+        break
+      case 'shift':
+        changed = _shiftDate(current, days)
+        break
+      case 'fake': {
+        const make = FAKE_DATA[rule.fake].components[position]
+        changed = typeof make !== 'undefined' ? value(current, text => make(text, salt)) : current
+        break
+      }
+    }
+    if (typeof at !== 'undefined') {
+      subComponents[at] = changed
+      components[index] = subComponents.join(subComponent)
+    } else {
+      components[index] = changed
+    }
+    return components.join(component)
+  }).join(repetition)
+}
+
+/**
+ * The patient of each segment, from PID-3 (or PID-2 or PID-5) of the PID it is with in its message.
+ * The segments of a message before its PID, like EVN, are for the same patient.
+ * @internal
+ */
+const _patients = (segments: Segment[]): string[] => {
+  const patients: string[] = []
+  let patient = ''
+  let waiting: number[] = []
+  segments.forEach((segment, index) => {
+    if (HEADERS.includes(segment.name)) {
+      patient = ''
+      waiting = []
+    }
+    if (segment.name === 'PID') {
+      patient = ['3.1', '2.1', '5'].map(path => segment.get(path).toString()).find(text => text !== '') ?? ''
+      waiting.forEach(before => { patients[before] = patient })
+      waiting = []
+    }
+    patients[index] = patient
+    if (patient === '') {
+      waiting.push(index)
+    }
+  })
+  return patients
+}
+
+/**
+ * The days to move the dates of a patient, which is never 0.
+ * @internal
+ */
+const _days = (salt: string, patient: string, shiftDays: number): number => {
+  const number = _digest(salt, `shift:${patient}`).readUInt32BE(0) % (shiftDays * 2)
+  return number < shiftDays ? number - shiftDays : number - shiftDays + 1
+}
+
+/**
+ * Move a date by a number of days, and keep its time, offset, and precision.
+ * A year alone is not an identifier, so it stays.
+ * @internal
+ */
+const _shiftDate = (text: string, days: number): string => {
+  let date: HL7DateTime
+  try {
+    date = HL7DateTime.parse(text)
+  } catch {
+    return ''
+  }
+  if (date.precision === 4) {
+    return text
+  }
+  // the calendar date, so the time does not change for daylight saving time
+  const day = new Date(Date.UTC(date.year, date.month - 1, (date.precision === 6 ? 1 : date.day) + days))
+  const shifted = `${String(day.getUTCFullYear()).padStart(4, '0')}${String(day.getUTCMonth() + 1).padStart(2, '0')}${String(day.getUTCDate()).padStart(2, '0')}`
+  const length = Math.min(date.precision, 8)
+  return shifted.slice(0, length) + text.slice(length)
+}
+
+/**
+ * Only the year of a date, and the same year for every date 90 or more years ago,
+ * since Safe Harbor groups the ages over 89 together.
+ * @internal
+ */
+const _yearOf = (text: string): string => {
+  let year: number
+  try {
+    year = HL7DateTime.parse(text).year
+  } catch {
+    return ''
+  }
+  return String(Math.max(year, new Date().getUTCFullYear() - OLDEST_AGE)).padStart(4, '0')
+}
+
+/** @internal */
+const _hash = (salt: string, text: string): string => {
+  return _digest(salt, `hash:${text}`).toString('hex').slice(0, 16)
+}
+
+/**
+ * Change each digit to another digit, and each letter to another letter, the same way each time.
+ * @internal
+ */
+function _scramble (text: string, salt: string): string {
+  let bytes = Buffer.alloc(0)
+  for (let block = 0; bytes.length < text.length; block++) {
+    bytes = Buffer.concat([bytes, _digest(salt, `scramble:${block}:${text}`)])
+  }
+  return Array.from(text, (character, index) => {
+    if (/\d/.test(character)) {
+      return String(bytes[index] % 10)
+    }
+    if (/[A-Z]/.test(character)) {
+      return String.fromCharCode(65 + bytes[index] % 26)
+    }
+    if (/[a-z]/.test(character)) {
+      return String.fromCharCode(97 + bytes[index] % 26)
+    }
+    return character
+  }).join('')
+}
+
+/** @internal */
+const _pick = (list: string[], salt: string, text: string): string => {
+  return list[_digest(salt, text).readUInt32BE(0) % list.length]
+}
+
+/** @internal */
+const _digest = (salt: string, text: string): Buffer => {
+  return createHmac('sha256', salt).update(text).digest()
+}
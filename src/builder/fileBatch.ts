@@ -1,11 +1,14 @@
 import fs from 'node:fs'
 import path from 'node:path'
 import { NAME_FORMAT } from '../utils/constants.js'
+import { Delimiters } from '../utils/enum.js'
 import { HL7FatalError, HL7ParserError } from '../utils/exception.js'
 import { ClientBuilderFileOptions, normalizedClientFileBuilderOptions } from '../utils/normalizedBuilder.js'
-import { createHL7Date, split } from '../utils/utils.js'
-import { Batch } from './batch.js'
+import { createHL7Date } from '../utils/utils.js'
+import { Batch, batchMessages, messageSpan } from './batch.js'
+import { deidentifySegments, HL7DeidentifyOptions } from './deidentify.js'
 import { HL7Node } from './interface/hL7Node.js'
+import { delimitersToJSON, fileBatchFromJSON, fileBatchToJSON, HL7FileBatchJSON } from './json.js'
 import { Message } from './message.js'
 import { RootBase } from './modules/rootBase.js'
 import { Segment } from './modules/segment.js'
@@ -27,8 +30,6 @@ export class FileBatch extends RootBase {
   /** @internal **/
   _opt: ReturnType<typeof normalizedClientFileBuilderOptions>
   /** @internal */
-  protected _lines: string[]
-  /** @internal */
   protected _batchCount: number
   /** @internal */
   protected _messagesCount: number
@@ -41,19 +42,26 @@ export class FileBatch extends RootBase {
     const opt = normalizedClientFileBuilderOptions(props)
     super(opt)
     this._fileName = ''
-    this._lines = []
     this._opt = opt
     this._batchCount = 0
     this._messagesCount = 0
     this._fileName = ''
 
-    if (typeof opt.text !== 'undefined' && opt.parsing === true && opt.text !== '') {
-      this._lines = split(opt.text).filter(line => line.startsWith('MSH'))
-    } else {
+    if (typeof opt.text === 'undefined' || opt.parsing !== true || opt.text === '') {
       this.set('FHS.7', createHL7Date(new Date(), this._opt.date))
     }
   }
 
+  /**
+   * File Batch from JSON
+   * @description Parse a file from {@link toJSON}.
+   * @since 2.4.0
+   * @param json
+   */
+  static fromJSON (json: HL7FileBatchJSON): FileBatch {
+    return new FileBatch({ text: fileBatchFromJSON(json) })
+  }
+
   /**
    * AAdd a Message or a Batch to the File
    * @description This adds a Message (MSH) output into the file batch.
@@ -116,6 +124,21 @@ export class FileBatch extends RootBase {
     }
   }
 
+  /**
+   * De-identify
+   * @description A new file, from a copy of this one, with each of its messages de-identified,
+   * like {@link Message.deidentify}. The dates of a patient move the same number of days in every message.
+   * This file is not changed.
+   * @since 2.4.0
+   * @param options
+   * @throws {HL7FatalError} If a rule is not valid.
+   */
+  deidentify (options?: HL7DeidentifyOptions): FileBatch {
+    const copy = new FileBatch({ text: this.toRaw() })
+    deidentifySegments(copy, copy.children as Segment[], options)
+    return copy
+  }
+
   /**
    * End Batch
    * @description At the conclusion of building the file batch,
@@ -158,9 +181,10 @@ export class FileBatch extends RootBase {
 
   /**
    * Get Messages within a submitted File Batch
-   * @description This will parse the passed on "text"
-   * in the contractor options and get all the messages (MSH) segments within it and return an array of them.
-   * This will happen regardless of the depth of the segments.
+   * @description Get all the messages (MSH) within it, from its segments as they are now,
+   * so segments that were inserted, removed, or moved are part of them.
+   * Each message is a copy, so changing it does not change this,
+   * but it can be given to {@link removeSegment} or {@link moveSegment} to take out, or move, the whole message.
    * @since 1.0.0
    * @example
    * ```ts
@@ -177,18 +201,10 @@ export class FileBatch extends RootBase {
    *   // error here
    * }
    * ```
-   * @returns Returns an array of messages or a HL7ParserError will throw.
+   * @returns Returns an array of messages.
    */
   messages (): Message[] {
-    if (typeof this._lines !== 'undefined' && typeof this._opt.newLine !== 'undefined') {
-      const message: Message[] = []
-      const re = new RegExp(`${this._opt.newLine}$`, 'g')
-      for (let i = 0; i < this._lines.length; i++) {
-        message.push(new Message({ text: this._lines[i].replace(re, '') }))
-      }
-      return message
-    }
-    throw new HL7FatalError('No messages inside file segment.')
+    return batchMessages(this.children, this.delimiters[Delimiters.Segment], this._copies)
   }
 
   /**
@@ -221,6 +237,27 @@ export class FileBatch extends RootBase {
     this.set('FHS.7', createHL7Date(new Date()))
   }
 
+  /**
+   * To JSON
+   * @description The file as JSON, with the FHS and FTS segments and each batch or message.
+   * See {@link HL7FileBatchJSON} for the shape.
+   * @since 2.4.0
+   */
+  toJSON (): HL7FileBatchJSON {
+    const children = this.children.map(child => child instanceof Message || child instanceof Batch ? child.toJSON() : child.toRaw())
+    return fileBatchToJSON(children, delimitersToJSON(this.delimiters))
+  }
+
+  /** @internal */
+  protected _span (index: number): number {
+    return messageSpan(this.children, index)
+  }
+
+  /** @internal */
+  protected _header (): string {
+    return 'FHS'
+  }
+
   /** @internal */
   protected createChild (text: string, _index: number): HL7Node {
     return new Segment(this, text.trim())
@@ -0,0 +1,186 @@
+import fs from 'node:fs'
+import { Readable } from 'node:stream'
+import { StringDecoder } from 'node:string_decoder'
+import { HL7ParserError } from '../utils/exception.js'
+import { Batch } from './batch.js'
+import { FileBatch } from './fileBatch.js'
+import { Message } from './message.js'
+
+/**
+ * File Batch Reader
+ * @description Reads a File Batch (FHS), a Batch (BHS), or a list of Messages (MSH) from a stream,
+ * one Message at a time, so the whole input never has to be in memory.
+ * Use this instead of {@link FileBatch} for very large files.
+ *
+ * While reading, the FHS and BHS segments that the current message is inside of
+ * are available from {@link getFileHeader} and {@link getBatchHeader}.
+ * When a BTS or FTS segment is read, its count is checked against the number of messages or batches read,
+ * and a {@link HL7ParserError} is thrown if they do not match.
+ * Segments can be split by \r, \n, or \r\n.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const reader = new FileBatchReader('/data/claims.hl7')
+ * for await (const message of reader) {
+ *   console.log(reader.getBatchHeader()?.get('BHS.11').toString(), message.get('MSH.10').toString())
+ * }
+ * ```
+ */
+export class FileBatchReader implements AsyncIterable<Message> {
+  /** @internal */
+  private readonly _source: Readable | string
+  /** @internal */
+  private readonly _encoding: BufferEncoding
+  /** @internal */
+  private _fileHeader: FileBatch | undefined
+  /** @internal */
+  private _batchHeader: Batch | undefined
+  /** @internal */
+  private _lines: string[]
+  /** @internal */
+  private _separatorField: string
+  /** @internal */
+  private _fileCount: number
+  /** @internal */
+  private _batchCount: number
+  /** @internal */
+  readonly stats = {
+    /** Messages read so far.
+     * @since 2.4.0 */
+    messages: 0
+  }
+
+  /**
+   * @since 2.4.0
+   * @param source A path to the file or a stream to read from.
+   * @param encoding The encoding of the source.
+   * @default "utf-8"
+   */
+  constructor (source: Readable | string, encoding: BufferEncoding = 'utf-8') {
+    this._source = source
+    this._encoding = encoding
+    this._fileHeader = undefined
+    this._batchHeader = undefined
+    this._lines = []
+    this._separatorField = '|'
+    this._fileCount = 0
+    this._batchCount = 0
+  }
+
+  /**
+   * Get File Header
+   * @description The FHS segment of the file being read, as a {@link FileBatch}.
+   * @since 2.4.0
+   * @return Undefined if the input has no FHS segment or the FTS segment has been read.
+   */
+  getFileHeader (): FileBatch | undefined {
+    return this._fileHeader
+  }
+
+  /**
+   * Get Batch Header
+   * @description The BHS segment of the batch being read, as a {@link Batch}.
+   * @since 2.4.0
+   * @return Undefined if the current message is not inside a batch or the BTS segment has been read.
+   */
+  getBatchHeader (): Batch | undefined {
+    return this._batchHeader
+  }
+
+  /**
+   * Read each message.
+   * @since 2.4.0
+   */
+  async * [Symbol.asyncIterator] (): AsyncGenerator<Message> {
+    const stream = typeof this._source === 'string' ? fs.createReadStream(this._source) : this._source
+    const decoder = new StringDecoder(this._encoding)
+    let rest = ''
+
+    for await (const chunk of stream) {
+      const lines = (rest + (typeof chunk === 'string' ? chunk : decoder.write(chunk))).split(/\r\n|\r|\n/)
+      // the last line might not be finished
+      rest = lines.pop() as string
+      for (const line of lines) {
+        yield * this._readLine(line)
+      }
+    }
+
+    yield * this._readLine(rest + decoder.end())
+    yield * this._flush()
+  }
+
+  /** @internal */
+  private * _readLine (line: string): Generator<Message> {
+    if (line === '') {
+      return
+    }
+
+    const name = line.slice(0, 3)
+    switch (name) {
+      case 'FHS':
+        yield * this._flush()
+        this._separatorField = line[3]
+        this._fileHeader = new FileBatch({ text: line })
+        this._fileCount = 0
+        break
+      case 'BHS':
+        yield * this._flush()
+        this._separatorField = line[3]
+        this._batchHeader = new Batch({ text: line })
+        this._batchCount = 0
+        this._fileCount++
+        break
+      case 'MSH':
+        yield * this._flush()
+        this._separatorField = line[3]
+        this._lines = [line]
+        if (typeof this._batchHeader !== 'undefined') {
+          this._batchCount++
+        } else {
+          this._fileCount++
+        }
+        break
+      case 'BTS':
+        yield * this._flush()
+        this._checkCount(line, this._batchCount)
+        this._batchHeader = undefined
+        break
+      case 'FTS':
+        yield * this._flush()
+        this._checkCount(line, this._fileCount)
+        this._fileHeader = undefined
+        break
+      default:
+        if (this._lines.length === 0) {
+          throw new HL7ParserError(`${name} segment found outside of a message.`)
+        }
+        this._lines.push(line)
+    }
+  }
+
+  /** @internal */
+  private * _flush (): Generator<Message> {
+    if (this._lines.length === 0) {
+      return
+    }
+    const text = this._lines.join('\r')
+    this._lines = []
+    this.stats.messages++
+    yield new Message({ text })
+  }
+
+  /** @internal */
+  private _checkCount (line: string, count: number): void {
+    const name = line.slice(0, 3)
+    const value = line.split(this._separatorField)[1]
+    // the count is optional
+    if (typeof value === 'undefined' || value === '') {
+      return
+    }
+    if (parseInt(value) !== count) {
+      throw new HL7ParserError(`${name}-1 is ${value}, but ${count} were read.`)
+    }
+  }
+}
+
+export default FileBatchReader
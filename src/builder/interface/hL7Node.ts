@@ -1,3 +1,7 @@
+import type { HL7DateTime } from '../../utils/dateTime.js'
+import type { HL7FormattedTextPart } from '../../utils/formattedText.js'
+import type { DataType, DataTypeClass } from '../types/dataType.js'
+
 /**
  * Node Base
  * @since 1.0.0
@@ -17,11 +21,17 @@ export interface HL7Node {
   toArray: () => HL7Node[]
   isEmpty: () => boolean
   toDate: () => Date
+  toDateTime: () => HL7DateTime
   toInteger: () => number
   toFloat: () => number
   toBoolean: () => boolean
+  toText: () => string
+  toFormattedText: () => HL7FormattedTextPart[]
   toFile: (name: string, newLine?: boolean, location?: string) => void
 
+  as: <T extends DataType>(Type: DataTypeClass<T>) => T
+  clone: () => HL7Node
+
   read: (path: string[]) => HL7Node
   write: (path: string[], value: string) => HL7Node
   path: string[]
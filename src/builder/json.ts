@@ -0,0 +1,291 @@
+import { Delimiters } from '../utils/enum.js'
+import { HL7ParserError } from '../utils/exception.js'
+
+/**
+ * HL7 Delimiters JSON
+ * @description The delimiters of a {@link Message}, {@link Batch}, or {@link FileBatch} in JSON.
+ * @since 2.4.0
+ */
+export interface HL7DelimitersJSON {
+  /** Between segments, like `\r`. */
+  segment: string
+  /** Between fields, like `|`. */
+  field: string
+  /** Between components, like `^`. */
+  component: string
+  /** Between field repetitions, like `~`. */
+  repetition: string
+  /** Starts and ends an escape sequence, like `\`. */
+  escape: string
+  /** Between sub-components, like `&`. */
+  subComponent: string
+}
+
+/**
+ * HL7 Field JSON
+ * @description A field in JSON: its repetitions, each a list of components, each a list of sub-components.
+ * Every field has at least one repetition with one component with one sub-component,
+ * so an empty field is `[[['']]]`, and `a^b~c` is `[[['a'], ['b']], [['c']]]`.
+ * The values are as they are in the message, with any escape sequences.
+ * @since 2.4.0
+ */
+export type HL7FieldJSON = string[][][]
+
+/**
+ * HL7 Segment JSON
+ * @description A segment in JSON.
+ * @since 2.4.0
+ */
+export interface HL7SegmentJSON {
+  /** The segment name, like `PID`. */
+  name: string
+  /** The fields, where `fields[0]` is field 1.
+   * For MSH, BHS, and FHS, field 1 is the field delimiter,
+   * and field 2 is the other delimiters as one value, like `[[['^~\\&']]]`. */
+  fields: HL7FieldJSON[]
+}
+
+/**
+ * HL7 Message JSON
+ * @description A {@link Message} in JSON, from {@link Message.toJSON}.
+ * @since 2.4.0
+ */
+export interface HL7MessageJSON {
+  delimiters: HL7DelimitersJSON
+  segments: HL7SegmentJSON[]
+}
+
+/**
+ * HL7 Batch JSON
+ * @description A {@link Batch} in JSON, from {@link Batch.toJSON}.
+ * @since 2.4.0
+ */
+export interface HL7BatchJSON {
+  delimiters: HL7DelimitersJSON
+  /** The BHS segment. */
+  header?: HL7SegmentJSON
+  messages: HL7MessageJSON[]
+  /** The BTS segment. Not there if the batch has not ended. */
+  trailer?: HL7SegmentJSON
+}
+
+/**
+ * HL7 File Batch JSON
+ * @description A {@link FileBatch} in JSON, from {@link FileBatch.toJSON}.
+ * A file has batches or messages, not both.
+ * @since 2.4.0
+ */
+export interface HL7FileBatchJSON {
+  delimiters: HL7DelimitersJSON
+  /** The FHS segment. */
+  header?: HL7SegmentJSON
+  batches: HL7BatchJSON[]
+  messages: HL7MessageJSON[]
+  /** The FTS segment. Not there if the file has not ended. */
+  trailer?: HL7SegmentJSON
+}
+
+/** @internal */
+const HEADERS = ['MSH', 'BHS', 'FHS']
+
+/**
+ * The delimiters of a root node in JSON.
+ * @since 2.4.0
+ * @internal
+ * @param delimiters All the delimiters as one string, in the order of {@link Delimiters}.
+ */
+export const delimitersToJSON = (delimiters: string): HL7DelimitersJSON => {
+  return {
+    segment: delimiters[Delimiters.Segment],
+    field: delimiters[Delimiters.Field],
+    component: delimiters[Delimiters.Component],
+    repetition: delimiters[Delimiters.Repetition],
+    escape: delimiters[Delimiters.Escape],
+    subComponent: delimiters[Delimiters.SubComponent]
+  }
+}
+
+/**
+ * Split the text of a segment into JSON.
+ * @since 2.4.0
+ * @internal
+ * @param text
+ * @param delimiters
+ */
+export const segmentToJSON = (text: string, delimiters: HL7DelimitersJSON): HL7SegmentJSON => {
+  const [name, ...fields] = text.split(delimiters.field)
+  const json: HL7FieldJSON[] = fields.map(field => field.split(delimiters.repetition).map(repetition =>
+    repetition.split(delimiters.component).map(component => component.split(delimiters.subComponent))))
+
+  if (HEADERS.includes(name) && fields.length > 0) {
+    // field 1 is the field delimiter, and field 2 is the other delimiters, which can not be split by themselves
+    json.splice(0, 1, [[[delimiters.field]]], [[[fields[0]]]])
+  }
+
+  return { name, fields: json }
+}
+
+/**
+ * Join a segment in JSON back into its text.
+ * @since 2.4.0
+ * @internal
+ * @param segment
+ * @param delimiters
+ */
+export const segmentFromJSON = (segment: HL7SegmentJSON, delimiters: HL7DelimitersJSON): string => {
+  const fields = segment.fields.map(field => field.map(repetition =>
+    repetition.map(component => component.join(delimiters.subComponent)).join(delimiters.component)).join(delimiters.repetition))
+
+  if (HEADERS.includes(segment.name) && fields.length > 0) {
+    return `${segment.name}${delimiters.field}${fields.slice(1).join(delimiters.field)}`
+  }
+  return [segment.name, ...fields].join(delimiters.field)
+}
+
+/**
+ * Group the segments and messages of a batch into JSON.
+ * @since 2.4.0
+ * @internal
+ * @param items The text of each segment, or a message that is already JSON.
+ * @param delimiters
+ */
+export const batchToJSON = (items: Array<string | HL7MessageJSON>, delimiters: HL7DelimitersJSON): HL7BatchJSON => {
+  const json: HL7BatchJSON = { delimiters, messages: [] }
+  let lines: string[] | undefined
+
+  const flush = (): void => {
+    if (typeof lines !== 'undefined') {
+      json.messages.push({ delimiters, segments: lines.map(line => segmentToJSON(line, delimiters)) })
+      lines = undefined
+    }
+  }
+
+  for (const item of items) {
+    if (typeof item !== 'string') {
+      flush()
+      json.messages.push(item)
+      continue
+    }
+    const name = item.split(delimiters.field)[0]
+    switch (name) {
+      case 'BHS':
+        flush()
+        json.header = segmentToJSON(item, delimiters)
+        break
+      case 'BTS':
+        flush()
+        json.trailer = segmentToJSON(item, delimiters)
+        break
+      case 'MSH':
+        flush()
+        lines = [item]
+        break
+      default:
+        if (typeof lines === 'undefined') {
+          throw new HL7ParserError(`${name} segment found outside of a message.`)
+        }
+        lines.push(item)
+    }
+  }
+  flush()
+
+  return json
+}
+
+/**
+ * Group the segments, batches, and messages of a file into JSON.
+ * @since 2.4.0
+ * @internal
+ * @param items The text of each segment, or a batch or message that is already JSON.
+ * @param delimiters
+ */
+export const fileBatchToJSON = (items: Array<string | HL7MessageJSON | HL7BatchJSON>, delimiters: HL7DelimitersJSON): HL7FileBatchJSON => {
+  const json: HL7FileBatchJSON = { delimiters, batches: [], messages: [] }
+  const outside: Array<string | HL7MessageJSON> = []
+  let batch: string[] | undefined
+
+  for (const item of items) {
+    if (typeof item !== 'string') {
+      if ('segments' in item) {
+        outside.push(item)
+      } else {
+        json.batches.push(item)
+      }
+      continue
+    }
+    const name = item.split(delimiters.field)[0]
+    if (name === 'FHS') {
+      json.header = segmentToJSON(item, delimiters)
+    } else if (name === 'FTS') {
+      json.trailer = segmentToJSON(item, delimiters)
+    } else if (name === 'BHS') {
+      batch = [item]
+    } else if (typeof batch !== 'undefined') {
+      batch.push(item)
+      if (name === 'BTS') {
+        json.batches.push(batchToJSON(batch, delimiters))
+        batch = undefined
+      }
+    } else {
+      outside.push(item)
+    }
+  }
+  if (typeof batch !== 'undefined') {
+    json.batches.push(batchToJSON(batch, delimiters))
+  }
+  json.messages = batchToJSON(outside, delimiters).messages
+
+  if (json.batches.length > 0 && json.messages.length > 0) {
+    throw new HL7ParserError('A file can not have both batches and messages outside of a batch.')
+  }
+
+  return json
+}
+
+/**
+ * Join a message in JSON back into its text.
+ * @since 2.4.0
+ * @internal
+ * @param json
+ */
+export const messageFromJSON = (json: HL7MessageJSON): string => {
+  if (!Array.isArray(json?.segments) || typeof json.delimiters !== 'object') {
+    throw new HL7ParserError('JSON is not a message.')
+  }
+  return json.segments.map(segment => segmentFromJSON(segment, json.delimiters)).join(json.delimiters.segment)
+}
+
+/**
+ * Join a batch in JSON back into its text.
+ * @since 2.4.0
+ * @internal
+ * @param json
+ */
+export const batchFromJSON = (json: HL7BatchJSON): string => {
+  if (!Array.isArray(json?.messages) || typeof json.delimiters !== 'object') {
+    throw new HL7ParserError('JSON is not a batch.')
+  }
+  return _join(json.delimiters, json.header, json.messages.map(messageFromJSON), json.trailer)
+}
+
+/**
+ * Join a file in JSON back into its text.
+ * @since 2.4.0
+ * @internal
+ * @param json
+ */
+export const fileBatchFromJSON = (json: HL7FileBatchJSON): string => {
+  if (!Array.isArray(json?.batches) || !Array.isArray(json.messages) || typeof json.delimiters !== 'object') {
+    throw new HL7ParserError('JSON is not a file.')
+  }
+  return _join(json.delimiters, json.header, [...json.batches.map(batchFromJSON), ...json.messages.map(messageFromJSON)], json.trailer)
+}
+
+/** @internal */
+const _join = (delimiters: HL7DelimitersJSON, header: HL7SegmentJSON | undefined, body: string[], trailer: HL7SegmentJSON | undefined): string => {
+  const lines = typeof header !== 'undefined' ? [segmentFromJSON(header, delimiters), ...body] : body
+  if (typeof trailer !== 'undefined') {
+    lines.push(segmentFromJSON(trailer, delimiters))
+  }
+  return lines.join(delimiters.segment)
+}
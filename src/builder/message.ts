@@ -1,12 +1,24 @@
+import type { HL7_SPEC } from '../specification/specification.js'
+import type { ValidationFinding } from '../specification/validation.js'
+import { messageSpecification } from '../specification/versions.js'
+import type { AcknowledgmentCode, AcknowledgmentError } from '../client/module/inboundResponse.js'
+import { Delimiters } from '../utils/enum.js'
 import { HL7FatalError, HL7ParserError } from '../utils/exception.js'
-import { ClientBuilderMessageOptions, normalizedClientMessageBuilderOptions } from '../utils/normalizedBuilder.js'
-import { isHL7Number, split } from '../utils/utils.js'
+import { lenientText, ParseDiagnostic } from '../utils/lenient.js'
+import { ClientBuilderAckOptions, ClientBuilderMessageOptions, normalizedClientMessageBuilderOptions } from '../utils/normalizedBuilder.js'
+import { createHL7Date, isHL7Number, randomString, split } from '../utils/utils.js'
 import { FileBatch } from './fileBatch.js'
+import { deidentifySegments, HL7DeidentifyOptions } from './deidentify.js'
+import { delimitersToJSON, HL7MessageJSON, messageFromJSON, segmentToJSON } from './json.js'
 import { NodeBase } from './modules/nodeBase.js'
+import { queryNodes } from './query.js'
 import { RootBase } from './modules/rootBase.js'
 import { Segment } from './modules/segment.js'
 import { SegmentList } from './modules/segmentList.js'
 import { HL7Node } from './interface/hL7Node.js'
+import { MessageGroup, messageStructure } from './structure.js'
+import { HL7TransformRule, transformMessage } from './transform.js'
+import { HL7XMLOptions, messageFromXML, messageToXML } from './xml.js'
 
 /**
  * Message Class
@@ -16,6 +28,12 @@ import { HL7Node } from './interface/hL7Node.js'
 export class Message extends RootBase {
   /** @internal */
   _opt: ReturnType<typeof normalizedClientMessageBuilderOptions>
+  /**
+   * What was fixed when the message was parsed with `lenient`, in the order of the lines.
+   * Empty if nothing was fixed, or without `lenient`. See {@link ParseDiagnostic}.
+   * @since 2.4.0
+   */
+  readonly diagnostics: ParseDiagnostic[]
 
   /**
    * Build the Message or Parse It
@@ -35,11 +53,13 @@ export class Message extends RootBase {
    *
    */
   constructor (props?: ClientBuilderMessageOptions) {
-    const opt = normalizedClientMessageBuilderOptions(props)
+    const lenient = props?.lenient === true && typeof props.text === 'string' && props.text !== '' ? lenientText(props.text) : undefined
+    const opt = normalizedClientMessageBuilderOptions(typeof lenient !== 'undefined' ? { ...props, text: lenient.text } : props)
 
     super(opt)
 
     this._opt = opt
+    this.diagnostics = lenient?.diagnostics ?? []
 
     if (typeof opt.text !== 'undefined' && opt.parsing === true && opt.text !== '') {
       const totalMsh = split(opt.text).filter(line => line.startsWith('MSH'))
@@ -55,6 +75,39 @@ export class Message extends RootBase {
     }
   }
 
+  /**
+   * Message from JSON
+   * @description Parse a message from {@link toJSON}.
+   * The message is the same as the one the JSON came from, down to its `toString()`.
+   * @since 2.4.0
+   * @param json
+   * @example
+   * ```ts
+   * const copy = Message.fromJSON(JSON.parse(JSON.stringify(message)))
+   * copy.toString() === message.toString() // true
+   * ```
+   */
+  static fromJSON (json: HL7MessageJSON): Message {
+    return new Message({ text: messageFromJSON(json) })
+  }
+
+  /**
+   * Message from XML
+   * @description Parse a message in the HL7 v2.xml encoding, like from {@link toXML}.
+   * Segments can be inside of group elements, and namespace prefixes are ignored.
+   * @since 2.4.0
+   * @param xml
+   * @throws {HL7ParserError} If it is not XML, or there is no MSH segment with the delimiters.
+   * @example
+   * ```ts
+   * const message = Message.fromXML(xml)
+   * message.get('PID.5.1').toString()
+   * ```
+   */
+  static fromXML (xml: string): Message {
+    return new Message({ text: messageFromXML(xml) })
+  }
+
   /**
    * Add a new segment to a message.
    * @since 1.0.0
@@ -87,6 +140,115 @@ export class Message extends RootBase {
     return this.addChild(preparedPath[0]) as Segment
   }
 
+  /**
+   * Clone
+   * @description A copy of the message that can be changed without changing this one,
+   * with the same delimiters and specification.
+   * Each segment is copied from this one, and only read when it is used,
+   * so it is quicker than parsing `toString()` again, and the {@link diagnostics} of a `lenient` parse are kept.
+   * @since 2.4.0
+   * @example
+   * ```ts
+   * const copy = message.clone()
+   * copy.set('MSH.5', 'OTHER_APP')
+   * ```
+   */
+  clone (): Message {
+    // only the MSH is parsed, for the delimiters, and the segments are copies of these ones
+    const copy = new Message({ text: `${this.children[0].toRaw()}${this.delimiters[Delimiters.Segment]}` })
+    copy._copyChildren(this)
+    copy._opt.specification = this._opt.specification
+    copy._opt.date = this._opt.date
+    copy.diagnostics.push(...this.diagnostics.map(diagnostic => ({ ...diagnostic })))
+    return copy
+  }
+
+  /**
+   * Create an Acknowledgment
+   * @description Build the ACK (or NAK) for this message.
+   * The sending and receiving application/facility (MSH-3/4 and MSH-5/6) are swapped,
+   * MSH-9 is set to `ACK^<trigger>^ACK` (or `ACK` without a trigger event), and MSA-1 and MSA-2 are set to the code and this message's MSH-10.
+   * The processing ID (MSH-11), version (MSH-12), delimiters, and specification are the same as this message.
+   * @since 2.4.0
+   * @param code The acknowledgment code for MSA-1.
+   * @param options {@link ClientBuilderAckOptions}
+   * @example
+   * ```ts
+   * const ack = message.createAck('AE', {
+   *   text: 'Missing MRN',
+   *   errors: [{ location: { segment: 'PID', sequence: 1, field: 3 }, code: '101', text: 'Required field missing' }]
+   * })
+   * ```
+   */
+  createAck (code: AcknowledgmentCode, options?: ClientBuilderAckOptions): Message {
+    if (!['AA', 'AE', 'AR', 'CA', 'CE', 'CR'].includes(code)) {
+      throw new HL7FatalError(`${code as string} is not a valid acknowledgment code.`)
+    }
+
+    const delimiters = this.delimiters
+    const field = delimiters[Delimiters.Field]
+    const component = delimiters[Delimiters.Component]
+    // copied as they are, so nothing gets escaped twice
+    const raw = (path: string): string => this.exists(path) ? this.get(path).toRaw() : ''
+    const trigger = raw('MSH.9.2')
+
+    const ack = new Message({
+      text: [
+        [
+          `MSH${delimiters.slice(Delimiters.Field)}`,
+          raw('MSH.5'),
+          raw('MSH.6'),
+          raw('MSH.3'),
+          raw('MSH.4'),
+          createHL7Date(new Date(), this._opt.date),
+          '',
+          trigger !== '' ? ['ACK', trigger, 'ACK'].join(component) : 'ACK',
+          options?.controlId ?? randomString(),
+          raw('MSH.11'),
+          raw('MSH.12')
+        ].join(field),
+        ['MSA', code, raw('MSH.10')].join(field)
+      ].join(delimiters[Delimiters.Segment])
+    })
+    // a parsed message has no specification, so carry over ours
+    ack._opt.specification = this._opt.specification
+
+    if (typeof options?.text !== 'undefined' && options.text !== '') {
+      ack.set('MSA.3', options.text)
+    }
+
+    const modern = parseFloat(this.get('MSH.12.1').toString()) >= 2.5
+    for (const error of options?.errors ?? []) {
+      this._addAckError(ack, error, modern)
+    }
+
+    return ack
+  }
+
+  /**
+   * De-identify
+   * @description A new message, from a copy of this one without the identifiers of the patient and their family,
+   * by default the HIPAA Safe Harbor ones in PID, NK1, PV1, IN1, and GT1 ({@link SAFE_HARBOR}).
+   * It has the same segments and fields, so it parses the same way. This message is not changed.
+   * See {@link HL7DeidentifyRule} for the rules, and {@link HL7DeidentifyOptions} for the salt.
+   * @since 2.4.0
+   * @param options
+   * @throws {HL7FatalError} If a rule is not valid.
+   * @example
+   * ```ts
+   * const sample = message.deidentify({ salt: process.env.DEIDENTIFY_SALT })
+   * // or with your own rules
+   * const custom = message.deidentify({
+   *   rules: [...SAFE_HARBOR, { path: 'OBX.5', action: 'hash' }, { path: 'ZPD.2', action: 'remove' }]
+   * })
+   * ```
+   */
+  deidentify (options?: HL7DeidentifyOptions): Message {
+    const copy = this.clone()
+    deidentifySegments(copy, copy.toArray() as Segment[], options)
+    return copy
+  }
+
   /**
    * Get HL7 Segment at Path
    * @since 1.0.0
@@ -132,6 +294,78 @@ export class Message extends RootBase {
     return Message.empty
   }
 
+  /**
+   * Query
+   * @description Find every node that matches a query, where {@link get} only finds the first one.
+   * A query is a path, like `OBX.5.1`, where segments and fields can be followed by `[ ]` to pick from them:
+   * - `[*]` - all of them, like `OBX[*]` for every OBX segment, or `PID.3[*]` for every repetition of PID-3
+   * - `[2]` - the second one
+   * - `[2..4]`, `[2..]`, or `[..4]` - a range of them, starting at 1
+   * - `[3.1='GLU']` or `[3.1!='GLU']` - the ones with (or without) that value, at a path inside of each one
+   * - `[3.1]` - the ones with any value at that path
+   *
+   * More than one `[ ]` are applied in order, so `OBX[11='F'][1]` is the first final result.
+   * Without `[ ]`, only the first segment or repetition is used, like {@link get}.
+   * Fields, components, and sub-components can be `*` for all of them, like `PID.5.*`.
+   * Only the nodes that are there are returned, so asking for something past the end of a segment or field gives back nothing.
+   * @since 2.4.0
+   * @param query
+   * @throws {HL7FatalError} If the query is not valid.
+   * @example
+   * ```ts
+   * // the value of every OBX segment
+   * message.query('OBX[*].5').map(node => node.toString())
+   * // the glucose results
+   * message.query("OBX[3.1='GLU'].5")
+   * // the medical record number, from the PID-3 repetition with an identifier type of MR
+   * message.query("PID.3[5='MR'].1")[0]?.toString()
+   * ```
+   */
+  query (query: string): HL7Node[] {
+    return queryNodes(this.children, query)
+  }
+
+  /**
+   * Validate
+   * @description Check the message against the HL7 standard, the same as `validate` of a specification.
+   * Nothing is thrown, and the list of findings is empty when nothing was found.
+   * @since 2.4.0
+   * @param specification The specification to check against.
+   * @default The specification of the message, or of the version in MSH-12 if it was parsed.
+   * @example
+   * ```ts
+   * const message = new Message({ text })
+   * const findings = message.validate() // by its MSH-12, like 2.3
+   * const strict = message.validate(new HL7_2_5_1())
+   * ```
+   */
+  validate (specification?: HL7_SPEC): ValidationFinding[] {
+    return messageSpecification(this, specification).validate(this)
+  }
+
+  /**
+   * Message Structure
+   * @description The segments of the message in the groups of its message structure, like `ADT_A01` or `ORU_R01`,
+   * so you can tell which OBX segments go with which OBR segment, and which NTE segments go with which OBX.
+   * The structure is from MSH-9.3, or from MSH-9.1 and MSH-9.2 if that is not there.
+   * Groups can also add segments and groups where the structure says they go. See {@link MessageGroup}.
+   * @since 2.4.0
+   * @param specification The specification with the message structures.
+   * @default The specification of the message, or of the version in MSH-12 if it was parsed.
+   * @throws {HL7FatalError} If the message structure is not known.
+   * @example
+   * ```ts
+   * const structure = message.structure()
+   * const order = structure.group('PATIENT_RESULT')?.group('ORDER_OBSERVATION')
+   * order?.groups('OBSERVATION').map(observation => observation.segment('NTE')?.get('3').toString())
+   * // add an OBX, with an NTE, after the last one of the order
+   * order?.addGroup('OBSERVATION').addSegment('NTE')
+   * ```
+   */
+  structure (specification?: HL7_SPEC): MessageGroup {
+    return messageStructure(this, specification)
+  }
+
   /**
    * Set HL7 Segment at Path with a Value
    * @since 1.0.0
@@ -209,6 +443,67 @@ export class Message extends RootBase {
     return fileBatch.fileName()
   }
 
+  /**
+   * To JSON
+   * @description The message as JSON, with every segment, field repetition, component, and sub-component,
+   * and the delimiters it uses. See {@link HL7MessageJSON} for the shape.
+   * This is also what `JSON.stringify(message)` uses.
+   * @since 2.4.0
+   * @example
+   * ```ts
+   * const message = new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A01^ADT_A01|12345|P|2.7\rPID|1||123^^^MRN~456' })
+   * message.toJSON().segments[1]
+   * // { name: 'PID', fields: [[[['1']]], [[['']]], [[['123'], [''], [''], ['MRN']], [['456']]]] }
+   * ```
+   */
+  toJSON (): HL7MessageJSON {
+    const delimiters = delimitersToJSON(this.delimiters)
+    return { delimiters, segments: this.children.map(segment => segmentToJSON(segment.toRaw(), delimiters)) }
+  }
+
+  /**
+   * To XML
+   * @description The message in the HL7 v2.xml encoding.
+   * The root element is the message structure, like `ADT_A01`, and each field, component,
+   * and sub-component is named by its position and data type from the specification, like `PID.5` and `XPN.1`.
+   * Empty fields, components, and sub-components are left out.
+   * @since 2.4.0
+   * @param options {@link HL7XMLOptions}
+   * @example
+   * ```ts
+   * const message = new Message({ text: 'MSH|^~\\&|||||20081231||ADT^A01^ADT_A01|12345|P|2.7\rPID|1||123^^^MRN' })
+   * message.toXML()
+   * // <?xml version="1.0" encoding="UTF-8"?><ADT_A01 xmlns="urn:hl7-org:v2xml"><MSH>...</MSH>
+   * // <PID><PID.1>1</PID.1><PID.3><CX.1>123</CX.1><CX.4><HD.1>MRN</HD.1></CX.4></PID.3></PID></ADT_A01>
+   * ```
+   */
+  toXML (options?: HL7XMLOptions): string {
+    return messageToXML(this, options)
+  }
+
+  /**
+   * Transform
+   * @description A new message, from a copy of this one with the rules applied to it, in order.
+   * This message is not changed. See {@link HL7TransformRule} for the rules.
+   * @since 2.4.0
+   * @param rules
+   * @throws {HL7FatalError} If a rule or one of its paths is not valid.
+   * @example
+   * ```ts
+   * const outbound = message.transform([
+   *   { type: 'set', path: 'MSH.5', value: 'LIS' },
+   *   { type: 'copy', from: "PID.3[5='MR'].1", to: 'PID.2' },
+   *   { type: 'map', path: 'PV1.2', table: { I: 'INPATIENT', O: 'OUTPATIENT' } },
+   *   { type: 'copy', from: '.3.2', to: 'OBX.9' },
+   *   { type: 'drop', segment: 'ZPD' },
+   *   { type: 'rename', segment: 'ZPV', to: 'ZV1' }
+   * ])
+   * ```
+   */
+  transform (rules: HL7TransformRule[]): Message {
+    return transformMessage(this.clone(), rules)
+  }
+
   /**
    * Write Core of the Message
    * @since 1.0.0
@@ -240,6 +535,11 @@ export class Message extends RootBase {
     return new Segment(this, text.trim())
   }
 
+  /** @internal */
+  _version (): string {
+    return this.get('MSH.12.1').toString()
+  }
+
   /**
    * Path Core
    * @since 1.0.0
@@ -249,6 +549,37 @@ export class Message extends RootBase {
     return []
   }
 
+  /** @internal */
+  private _addAckError (ack: Message, error: AcknowledgmentError, modern: boolean): void {
+    const segment = ack.addSegment('ERR')
+    const location = error.location
+    const position = typeof location !== 'undefined'
+      ? [location.segment, location.sequence, location.field, location.repetition, location.component, location.subComponent]
+      : []
+
+    if (!modern) {
+      // segment^sequence^field^code&text&table
+      position.slice(0, 3).forEach((value, index) => {
+        if (typeof value !== 'undefined') segment.set(`1.${index + 1}`, value)
+      })
+      segment.set('1.4.1', error.code)
+      segment.set('1.4.2', error.text)
+      segment.set('1.4.3', 'HL70357')
+      return
+    }
+
+    position.forEach((value, index) => {
+      if (typeof value !== 'undefined') segment.set(`2.${index + 1}`, value)
+    })
+    segment.set('3.1', error.code)
+    segment.set('3.2', error.text)
+    segment.set('3.3', 'HL70357')
+    segment.set('4', error.severity ?? 'E')
+    if (typeof error.applicationCode !== 'undefined') segment.set('5.1', error.applicationCode)
+    if (typeof error.diagnostic !== 'undefined') segment.set('7', error.diagnostic)
+    if (typeof error.userMessage !== 'undefined') segment.set('8', error.userMessage)
+  }
+
   /** @internal */
   private _getFirstSegment (name: string): Segment | undefined {
     const children = this.children
@@ -1,4 +1,8 @@
+import { HL7DateTime } from '../../utils/dateTime.js'
+import { HL7FatalError } from '../../utils/exception.js'
+import { HL7FormattedTextPart } from '../../utils/formattedText.js'
 import { HL7Node } from '../interface/hL7Node.js'
+import { DataType, DataTypeClass } from '../types/dataType.js'
 
 /**
  * Empty Node
@@ -34,6 +38,18 @@ export class EmptyNode implements HL7Node {
     return ''
   }
 
+  clone (): HL7Node {
+    return this
+  }
+
+  toText (): string {
+    return ''
+  }
+
+  toFormattedText (): HL7FormattedTextPart[] {
+    return []
+  }
+
   toFile (_name: string, _newLine?: boolean, _location?: string): void {
     throw new Error('Method not implemented.')
   }
@@ -54,6 +70,10 @@ export class EmptyNode implements HL7Node {
     throw new Error('Method not implemented')
   }
 
+  toDateTime (): HL7DateTime {
+    throw new Error('Method not implemented')
+  }
+
   toInteger (): number {
     throw new Error('Method not implemented')
   }
@@ -66,6 +86,15 @@ export class EmptyNode implements HL7Node {
     throw new Error('Method not implemented')
   }
 
+  as<T extends DataType> (Type: DataTypeClass<T>): T {
+    return new Type({
+      get: () => this,
+      ensure: () => {
+        throw new HL7FatalError('Can not write to a node that does not exist. Use set(path) to create it first.')
+      }
+    })
+  }
+
   read (_path: string[]): HL7Node {
     throw new Error('Method not implemented')
   }
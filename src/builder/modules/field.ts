@@ -1,5 +1,7 @@
 import { Delimiters } from '../../utils/enum.js'
+import { HL7FormattedTextPart } from '../../utils/formattedText.js'
 import { HL7Node } from '../interface/hL7Node.js'
+import { DataType, DataTypeClass } from '../types/dataType.js'
 import { FieldRepetition } from './fieldRepetition.js'
 import { NodeBase } from './nodeBase.js'
 import { ValueNode } from './valueNode.js'
@@ -19,6 +21,28 @@ export class Field extends ValueNode {
     return this
   }
 
+  /**
+   * As
+   * @description Read the first repetition of this field as an HL7 data type.
+   * @since 2.4.0
+   * @param Type
+   */
+  as<T extends DataType> (Type: DataTypeClass<T>): T {
+    const Resolved = this._resolve(Type)
+    return new Resolved({ get: () => this.get(0), ensure: () => this.set(0) })
+  }
+
+  /**
+   * To Formatted Text
+   * @description Every repetition, with a new line (`\.br\`) between them.
+   * @since 2.4.0
+   */
+  toFormattedText (): HL7FormattedTextPart[] {
+    return this.children.flatMap((repetition, index): HL7FormattedTextPart[] => index === 0
+      ? repetition.toFormattedText()
+      : [{ type: 'command', command: 'br' }, ...repetition.toFormattedText()])
+  }
+
   /** @internal */
   protected writeCore (path: string[], value: string): HL7Node {
     return this._ensureChild().write(path, value)
@@ -1,4 +1,6 @@
 import EventEmitter from 'events'
+import { HL7DateTime } from '../../utils/dateTime.js'
+import { formattedTextToString, HL7FormattedTextPart } from '../../utils/formattedText.js'
 import { isHL7Number, isHL7String, padHL7Date } from '../../utils/utils.js'
 import { Batch } from '../batch.js'
 import { EmptyNode } from './emptyNode.js'
@@ -6,6 +8,8 @@ import { HL7FatalError } from '../../utils/exception.js'
 import { Delimiters } from '../../utils/enum.js'
 import { HL7Node } from '../interface/hL7Node.js'
 import { Message } from '../message.js'
+import { DataType, DataTypeClass } from '../types/dataType.js'
+import { resolveDataType } from '../types/versions.js'
 
 /**
  * Node Base
@@ -103,6 +107,10 @@ export class NodeBase extends EventEmitter implements HL7Node {
     throw new Error('Method not implemented.')
   }
 
+  toDateTime (): HL7DateTime {
+    throw new Error('Method not implemented.')
+  }
+
   toFile (_name: string, _newLine?: boolean, _location?: string): void {
     throw new Error('Method not implemented.')
   }
@@ -119,10 +127,95 @@ export class NodeBase extends EventEmitter implements HL7Node {
     throw new Error('Method not implemented.')
   }
 
+  /**
+   * Clone
+   * @description A copy of this node, and everything in it, that can be changed without changing this one.
+   * The copy is not part of the message, but uses the same delimiters.
+   * It is made from the text of this node, and its parts are only read when they are used, so it is quick even for large values.
+   * @since 2.4.0
+   * @example
+   * ```ts
+   * const pid = message.get('PID').get(0).clone()
+   * pid.set('3', 'ANON')
+   * message.get('PID.3').toString() // not changed
+   * ```
+   */
+  clone (): HL7Node {
+    const copy = this.cloneCore()
+    copy._message = this.message
+    copy.parent = null
+    return copy
+  }
+
+  /**
+   * Make the children of this node copies of the children of another one, for {@link Message.clone}.
+   * @internal
+   */
+  _copyChildren (from: NodeBase): void {
+    this._children = from.children.map(child => {
+      const copy = (child as NodeBase).cloneCore()
+      copy.parent = this
+      return copy
+    })
+    this.setDirty()
+  }
+
+  /** @internal */
+  protected cloneCore (): NodeBase {
+    throw new Error('Method not implemented.')
+  }
+
+  /**
+   * To Text
+   * @description The value as plain text, for formatted text (FT and TX) like the report in OBX-5.
+   * Unlike {@link toString}, formatting commands like `\.br\` and `\.sp\` are new lines,
+   * `\.in\`, `\.ti\`, and `\.sk\` are spaces, and text after a `\C\` or `\M\` character set escape is decoded.
+   * Each repetition of a field is on its own line.
+   * @since 2.4.0
+   * @example
+   * ```ts
+   * // OBX|1|FT|||\H\IMPRESSION:\N\\.br\No acute findings.
+   * message.get('OBX.5').toText() // 'IMPRESSION:\nNo acute findings.'
+   * ```
+   */
+  toText (): string {
+    return formattedTextToString(this.toFormattedText())
+  }
+
+  /**
+   * To Formatted Text
+   * @description The value as formatted text, with the highlighting (`\H\` and `\N\`), formatting commands,
+   * and custom (`\Z\`) escapes, that {@link toString} leaves out. See {@link HL7FormattedTextPart}.
+   * @since 2.4.0
+   * @example
+   * ```ts
+   * message.get('OBX.5').toFormattedText()
+   * // [{ type: 'text', text: 'IMPRESSION:', highlight: true }, { type: 'command', command: 'br' },
+   * //  { type: 'text', text: 'No acute findings.', highlight: false }]
+   * ```
+   */
+  toFormattedText (): HL7FormattedTextPart[] {
+    throw new Error('Method not implemented.')
+  }
+
   toString (): string {
     return this.toRaw()
   }
 
+  /**
+   * As
+   * @description Read this node as an HL7 data type, like `message.get('PID.5').as(XPN)`.
+   * Nothing is copied, so reading and writing its components goes straight to this node.
+   * The data type follows the HL7 version of the message (MSH-12),
+   * so asking for a {@link CE} in a 2.6 or later message gives a {@link CWE}.
+   * @since 2.4.0
+   * @param Type The data type class, like {@link XPN}.
+   */
+  as<T extends DataType> (Type: DataTypeClass<T>): T {
+    const Resolved = this._resolve(Type)
+    return new Resolved({ get: () => this, ensure: () => this })
+  }
+
   toRaw (): string {
     if (!this._dirty) {
       return typeof this._text !== 'undefined' ? this._text : ''
@@ -206,9 +299,24 @@ export class NodeBase extends EventEmitter implements HL7Node {
       return this._formatDateTime(value)
     }
 
+    if (value instanceof HL7DateTime) {
+      return value.toString()
+    }
+
+    if (value instanceof DataType) {
+      // already escaped
+      return value.toString()
+    }
+
     return value.toString()
   }
 
+  /** @internal */
+  _resolve<T extends DataType> (Type: DataTypeClass<T>): DataTypeClass<T> {
+    const message = this.message
+    return resolveDataType(Type, typeof message?._version === 'function' ? message._version() : '')
+  }
+
   /** @internal */
   protected get message (): Message | Batch | undefined {
     if (typeof this._message !== 'undefined') {
@@ -323,6 +431,16 @@ export class NodeBase extends EventEmitter implements HL7Node {
     return child
   }
 
+  /**
+   * Take this node out of its parent, so changing it no longer changes the parent,
+   * but keep the message it was in, for its delimiters.
+   * @internal
+   */
+  _detach (): void {
+    this._message = this.message
+    this.parent = null
+  }
+
   /** @internal */
   protected setDirty (): void {
     if (!this._dirty) {
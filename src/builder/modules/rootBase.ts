@@ -1,8 +1,10 @@
-import { HL7FatalError } from '../../utils/exception.js'
+import { HL7FatalError, HL7ParserError } from '../../utils/exception.js'
 import { ClientBuilderOptions } from '../../utils/normalizedBuilder.js'
 import { Delimiters } from '../../utils/enum.js'
 import { decodeHexString, escapeForRegExp } from '../../utils/utils.js'
+import type { HL7Node } from '../interface/hL7Node.js'
 import { NodeBase } from './nodeBase.js'
+import type { Segment } from './segment.js'
 /**
  * Root Base
  * @since 1.0.0
@@ -19,6 +21,13 @@ export class RootBase extends NodeBase {
   /** @internal */
   private readonly _matchUnescape: RegExp
 
+  /**
+   * The copies of what is in here, like the messages of a batch from `messages()`, to what they are a copy of,
+   * so a copy can be removed or moved, and a segment can go after it.
+   * @internal
+   */
+  protected readonly _copies = new WeakMap<HL7Node, HL7Node>()
+
   /** @internal */
   private static readonly _defaultDelimiters = '\r|^~\\&'
   /** @internal */
@@ -40,6 +49,62 @@ export class RootBase extends NodeBase {
     }
   }
 
+  /** @internal */
+  private _insertIndex (position: number | HL7Node): number {
+    if (typeof position === 'number') {
+      if (!Number.isInteger(position) || position < 0 || position > this.children.length) {
+        throw new HL7ParserError(`Index ${position} is out of range.`)
+      }
+      if (position === 0) {
+        throw new HL7FatalError(`A segment can not go before the ${this._header()} segment.`)
+      }
+      return position
+    }
+    const original = this._copies.get(position)
+    const index = this.children.indexOf(original ?? position)
+    if (index === -1) {
+      throw new HL7ParserError(`Segment ${position.name} is not here.`)
+    }
+    // after all of what a copy is of, like every segment of a message
+    return index + (typeof original !== 'undefined' ? this._span(index) : 1)
+  }
+
+  /** @internal */
+  private _segmentIndex (segment: HL7Node | string): number {
+    if (typeof segment !== 'string') {
+      return this.children.indexOf(this._copies.get(segment) ?? segment)
+    }
+    const preparedPath = this.preparePath(segment)
+    if (preparedPath.length !== 1) {
+      throw new HL7ParserError(`Invalid segment ${segment}.`)
+    }
+    return this.children.findIndex(child => child.name === preparedPath[0])
+  }
+
+  /** @internal */
+  private _assertNotHeader (index: number, action: string): void {
+    const name = this.children[index].name
+    if (name === this._header()) {
+      throw new HL7FatalError(`${name} segment can not be ${action}.`)
+    }
+  }
+
+  /**
+   * The segment this starts with, like the MSH of a message, which stays first.
+   * @internal
+   */
+  protected _header (): string {
+    return 'MSH'
+  }
+
+  /**
+   * How many children, from an index, are removed or moved together, like every segment of a message in a batch.
+   * @internal
+   */
+  protected _span (_index: number): number {
+    return 1
+  }
+
   /** @internal */
   protected static _makeMatchEscape (delimiters: string): RegExp {
     const sequences = [
@@ -100,8 +165,129 @@ export class RootBase extends NodeBase {
     })
   }
 
-  /** @internal */
-  unescape (text: string): string {
+  /**
+   * Insert a Segment
+   * @description Add a new, empty segment at a position, where {@link Message.addSegment} always adds it at the end.
+   * @since 2.4.0
+   * @param name The segment name, like `NTE`.
+   * @param position The index (starting at 0, like `get(0)` for the MSH) it will be at,
+   * or a segment of this message (or batch, or file) to put it right after.
+   * @throws {HL7ParserError} If the name is not a segment, or the position is not in here.
+   * @throws {HL7FatalError} If the position is 0, before the MSH (or BHS, or FHS).
+   * @example
+   * ```ts
+   * // an NTE right after the first OBX
+   * const nte = message.insertSegment('NTE', message.query('OBX')[0])
+   * nte.set('3', 'Hemolyzed')
+   * ```
+   */
+  insertSegment (name: string, position: number | HL7Node): Segment {
+    const preparedPath = this.preparePath(name)
+    if (preparedPath.length !== 1) {
+      throw new HL7ParserError(`Invalid segment ${name}.`)
+    }
+
+    const index = this._insertIndex(position)
+    const segment = this.createChild(preparedPath[0], index) as Segment
+    this.setDirty()
+    this.children.splice(index, 0, segment)
+    return segment
+  }
+
+  /**
+   * Remove a Segment
+   * @description Take a segment out.
+   * The segment that was removed can still be read, but changing it no longer changes this.
+   * In a batch or file, an MSH is taken out with the rest of its message.
+   * @since 2.4.0
+   * @param segment The segment, or a segment name, like `ZPD`, for the first one with that name.
+   * In a batch or file, this can also be a message from `messages()`.
+   * @return The segment that was removed, or undefined if it was not here.
+   * @throws {HL7FatalError} If it is the MSH of a message, or the BHS of a batch, or the FHS of a file.
+   * @example
+   * ```ts
+   * message.removeSegment('ZPD')
+   * // every one of them
+   * message.query('NTE[*]').forEach(nte => message.removeSegment(nte))
+   * ```
+   */
+  removeSegment (segment: HL7Node | string): Segment | undefined {
+    const index = this._segmentIndex(segment)
+    if (index === -1) {
+      return undefined
+    }
+    this._assertNotHeader(index, 'removed')
+    this.setDirty()
+    const removed = this.children.splice(index, this._span(index)) as NodeBase[]
+    removed.forEach(node => node._detach())
+    return removed[0] as unknown as Segment
+  }
+
+  /**
+   * Move a Segment
+   * @description Move a segment to another position.
+   * In a batch or file, an MSH is moved with the rest of its message.
+   * @since 2.4.0
+   * @param segment The segment, or a segment name, like `PV1`, for the first one with that name.
+   * In a batch or file, this can also be a message from `messages()`.
+   * @param position The index (starting at 0) it will be at, or another segment to put it right after,
+   * or a message from `messages()` to put it right after the whole message.
+   * @throws {HL7ParserError} If the segment or the position is not in here.
+   * @throws {HL7FatalError} If it is the MSH of a message, or the BHS of a batch, or the FHS of a file,
+   * or the position is 0, before it.
+   * @example
+   * ```ts
+   * // the PV1 right after the PID
+   * message.moveSegment('PV1', message.query('PID')[0])
+   * ```
+   */
+  moveSegment (segment: HL7Node | string, position: number | HL7Node): Segment {
+    const index = this._segmentIndex(segment)
+    if (index === -1) {
+      throw new HL7ParserError(`Segment ${typeof segment === 'string' ? segment : segment.name} is not here.`)
+    }
+    this._assertNotHeader(index, 'moved')
+    const count = this._span(index)
+    if (typeof position !== 'number' && this.children.slice(index, index + count).includes(this._copies.get(position) ?? position)) {
+      throw new HL7ParserError('A segment can not be moved after itself.')
+    }
+    this.setDirty()
+    const moved = this.children.splice(index, count)
+    try {
+      this.children.splice(this._insertIndex(position), 0, ...moved)
+    } catch (error) {
+      this.children.splice(index, 0, ...moved)
+      throw error
+    }
+    return moved[0] as Segment
+  }
+
+  /**
+   * The HL7 version, for {@link NodeBase.as}.
+   * @since 2.4.0
+   * @internal
+   */
+  _version (): string {
+    return ''
+  }
+
+  /**
+   * Unescape
+   * @description Decode the escape sequences of text from the message.
+   * The delimiter (`\E\`, `\F\`, `\R\`, `\S\`, and `\T\`) and hex (`\X..\`) escapes are decoded,
+   * and the highlighting (`\H\` and `\N\`), character set (`\C..\` and `\M..\`), and custom (`\Z..\`) escapes are removed,
+   * unless `keepFormatting` is true, to keep them, and the formatting commands like `\.br\`, as they are.
+   * Use {@link HL7Node.toFormattedText} or {@link HL7Node.toText} to read formatted text.
+   * @since 1.0.0
+   * @param text
+   * @param keepFormatting Keep the escapes that are not delimiters or hex.
+   * @example
+   * ```ts
+   * message.unescape('\\H\\Note\\N\\ A\\T\\B') // 'Note A&B'
+   * message.unescape('\\H\\Note\\N\\ A\\T\\B', true) // '\\H\\Note\\N\\ A&B'
+   * ```
+   */
+  unescape (text: string, keepFormatting: boolean = false): string {
     if (text === null) {
       throw new HL7FatalError('Text must be passed in unescape function.')
     }
@@ -130,12 +316,10 @@ export class RootBase extends NodeBase {
         case 'M':
         case 'N':
         case 'Z':
-          break
+          return keepFormatting ? match : ''
         default:
           return match
       }
-
-      return ''
     })
   }
 }
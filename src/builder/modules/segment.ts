@@ -13,7 +13,7 @@ import { SubComponent } from './subComponent.js'
  */
 export class Segment extends NodeBase {
   /** @internal */
-  private readonly _segmentName: string
+  private _segmentName: string
 
   /** @internal */
   constructor (parent: NodeBase, text: string) {
@@ -99,6 +99,21 @@ export class Segment extends NodeBase {
     return [this._segmentName]
   }
 
+  /**
+   * Change the name of the segment, and keep its fields.
+   * @internal
+   */
+  _rename (name: string): void {
+    this._segmentName = name
+    this._name = name
+    this.setChild(this.createChild(name, 0), 0)
+  }
+
+  /** @internal */
+  protected cloneCore (): NodeBase {
+    return new Segment(this, this.toRaw())
+  }
+
   /** @internal */
   protected createChild (text: string, index: number): HL7Node {
     return new Field(this, index.toString(), text)
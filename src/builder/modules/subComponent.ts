@@ -1,4 +1,5 @@
 import { HL7FatalError } from '../../utils/exception.js'
+import { HL7FormattedTextPart, parseFormattedText } from '../../utils/formattedText.js'
 import { isHL7String } from '../../utils/utils.js'
 import { ValueNode } from './valueNode.js'
 
@@ -12,6 +13,14 @@ export class SubComponent extends ValueNode {
     throw new HL7FatalError('this.message is undefined. Unable to continue.')
   }
 
+  /** @internal */
+  toFormattedText (): HL7FormattedTextPart[] {
+    if (typeof this.message !== 'undefined') {
+      return parseFormattedText(this.toRaw(), this.message.delimiters)
+    }
+    throw new HL7FatalError('this.message is undefined. Unable to continue.')
+  }
+
   /** @internal */
   isEmpty (): boolean {
     return !isHL7String(this.toString())
@@ -1,4 +1,6 @@
+import { HL7DateTime } from '../../utils/dateTime.js'
 import { HL7FatalError } from '../../utils/exception.js'
+import { HL7FormattedTextPart } from '../../utils/formattedText.js'
 import { Delimiters } from '../../utils/enum.js'
 import { NodeBase } from './nodeBase.js'
 
@@ -19,20 +21,20 @@ export class ValueNode extends NodeBase {
     return children.length === 0 ? this.toRaw() : children[0].toString()
   }
 
+  /** @internal */
+  toFormattedText (): HL7FormattedTextPart[] {
+    const children = this.children
+    return children.length === 0 ? [] : children[0].toFormattedText()
+  }
+
   /** @internal */
   toDate (): Date {
-    const text = this.toString()
-    if (text.length === 8) {
-      /** YYYYMMDD */
-      return new Date(parseInt(text.slice(0, 4)), parseInt(text.slice(4, 6)) - 1, parseInt(text.slice(6, 8)), 0, 0, 0)
-    } else if (text.length === 12) {
-      /** YYYYMMDDHHMM */
-      return new Date(parseInt(text.slice(0, 4)), parseInt(text.slice(4, 6)) - 1, parseInt(text.slice(6, 8)), parseInt(text.slice(8, 10)), parseInt(text.slice(10, 12)), 0)
-    } else if (text.length >= 14) {
-      /** YYYYMMDDHHMMSS **/
-      return new Date(parseInt(text.slice(0, 4)), parseInt(text.slice(4, 6)) - 1, parseInt(text.slice(6, 8)), parseInt(text.slice(8, 10)), parseInt(text.slice(10, 12)), parseInt(text.slice(12, 14)))
-    }
-    throw new HL7FatalError('Invalid Date Format')
+    return this.toDateTime().toDate()
+  }
+
+  /** @internal */
+  toDateTime (): HL7DateTime {
+    return HL7DateTime.parse(this.toString())
   }
 
   /** @internal */
@@ -56,6 +58,13 @@ export class ValueNode extends NodeBase {
     throw new HL7FatalError('Not a valid value for boolean value.')
   }
 
+  /** @internal */
+  protected cloneCore (): NodeBase {
+    // every value node is made with its parent, key, and text
+    const Type = this.constructor as new (parent: NodeBase, key: string, text: string) => ValueNode
+    return new Type(this, this.key, this.toRaw())
+  }
+
   /** @internal */
   protected pathCore (): string[] {
     if (this.parent === null) {
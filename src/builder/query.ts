@@ -0,0 +1,242 @@
+import { HL7FatalError } from '../utils/exception.js'
+import { HL7Node } from './interface/hL7Node.js'
+import { EmptyNode } from './modules/emptyNode.js'
+import { Field } from './modules/field.js'
+
+/**
+ * One `[...]` of a query.
+ * @internal
+ */
+type QuerySelector =
+  { kind: 'all' } |
+  { kind: 'range', from: number, to: number } |
+  { kind: 'predicate', path: number[], operator?: '=' | '!=', value?: string }
+
+/**
+ * One part of a query, between the dots.
+ * @internal
+ */
+interface QueryStep {
+  /** The segment name for the first step, then the position, or `*` for all of them. */
+  name: string
+  selectors: QuerySelector[]
+}
+
+/** @internal */
+const HEADERS = ['MSH', 'BHS', 'FHS']
+
+/**
+ * Run a query on the segments of a message.
+ * @since 2.4.0
+ * @internal
+ * @param segments
+ * @param query Like `OBX[*].5.1` or `OBX[3.1='GLU'].5`.
+ * @return Every node that matches, in the order they are in the message.
+ */
+export const queryNodes = (segments: HL7Node[], query: string): HL7Node[] => {
+  const steps = parseQuery(query)
+  const [first, ...rest] = steps
+
+  let nodes = _select(segments.filter(segment => segment.name === first.name), first.selectors, 'segment')
+
+  rest.forEach((step, index) => {
+    nodes = nodes.flatMap(node => {
+      const children = _children(node, step.name, index)
+      // the repetitions of a field, if any are asked for
+      return step.selectors.length > 0
+        ? children.flatMap(field => _select(field.toArray(), step.selectors, 'repetition'))
+        : children
+    })
+  })
+
+  return nodes
+}
+
+/**
+ * Parse a query into its steps.
+ * @since 2.4.0
+ * @internal
+ * @param query
+ */
+export const parseQuery = (query: string): QueryStep[] => {
+  let position = 0
+
+  const fail = (reason: string): never => {
+    throw new HL7FatalError(`Invalid query ${query} at position ${position}: ${reason}.`)
+  }
+
+  const readNumber = (): number | undefined => {
+    const match = /\d+/y
+    match.lastIndex = position
+    const found = match.exec(query)
+    if (found === null) {
+      return undefined
+    }
+    position = match.lastIndex
+    return parseInt(found[0])
+  }
+
+  const readPosition = (): number => {
+    const number = readNumber()
+    if (typeof number === 'undefined' || number < 1) {
+      return fail('expected a position of 1 or more')
+    }
+    return number
+  }
+
+  const readPath = (): number[] => {
+    const path = [readPosition()]
+    while (query[position] === '.') {
+      position++
+      path.push(readPosition())
+    }
+    return path
+  }
+
+  const readSelector = (): QuerySelector => {
+    if (query[position] === '*') {
+      position++
+      return { kind: 'all' }
+    }
+    if (query.startsWith('..', position) || /^\d+(\.\.|\])/.test(query.slice(position))) {
+      // a position, or a range of them
+      const from = readNumber() ?? 1
+      let to = from
+      if (query.startsWith('..', position)) {
+        position += 2
+        to = readNumber() ?? Infinity
+      }
+      if (from < 1 || to < from) {
+        fail('expected a range like 2..4')
+      }
+      return { kind: 'range', from, to }
+    }
+
+    const path = readPath()
+    const operator = /^!?=/.exec(query.slice(position))?.[0] as '=' | '!=' | undefined
+    if (typeof operator === 'undefined') {
+      return { kind: 'predicate', path }
+    }
+    position += operator.length
+    const quote = query[position]
+    if (quote !== "'" && quote !== '"') {
+      fail('expected a quoted value')
+    }
+    const end = query.indexOf(quote, position + 1)
+    if (end === -1) {
+      fail('missing the end of the value')
+    }
+    const value = query.slice(position + 1, end)
+    position = end + 1
+    return { kind: 'predicate', path, operator, value }
+  }
+
+  const steps: QueryStep[] = []
+  const segment = /[A-Z][A-Z0-9]{2}/y
+  if (segment.exec(query) === null) {
+    fail('expected a segment name')
+  }
+  position = segment.lastIndex
+  steps.push({ name: query.slice(0, 3), selectors: [] })
+
+  for (;;) {
+    while (query[position] === '[') {
+      if (steps.length > 2) {
+        fail('only segments and fields can have [ ]')
+      }
+      position++
+      steps[steps.length - 1].selectors.push(readSelector())
+      if (query[position] !== ']') {
+        fail('expected ]')
+      }
+      position++
+    }
+    if (position === query.length) {
+      break
+    }
+    if (query[position] !== '.') {
+      fail('expected .')
+    }
+    position++
+    if (steps.length === 4) {
+      fail('a query can not go past sub-components')
+    }
+    if (query[position] === '*') {
+      position++
+      steps.push({ name: '*', selectors: [] })
+    } else {
+      steps.push({ name: String(readPosition()), selectors: [] })
+    }
+  }
+
+  return steps
+}
+
+/**
+ * Pick from the segments or repetitions that a step found.
+ * With no selectors, that is the first one.
+ * @internal
+ */
+const _select = (nodes: HL7Node[], selectors: QuerySelector[], kind: 'segment' | 'repetition'): HL7Node[] => {
+  if (selectors.length === 0) {
+    return nodes.slice(0, 1)
+  }
+  for (const selector of selectors) {
+    switch (selector.kind) {
+      case 'range':
+        nodes = nodes.slice(selector.from - 1, selector.to)
+        break
+      case 'predicate':
+        nodes = nodes.filter(node => {
+          const value = _read(node, selector.path, kind)
+          switch (selector.operator) {
+            case '=':
+              return value === selector.value
+            case '!=':
+              return value !== selector.value
+          }
+          return value !== ''
+        })
+        break
+    }
+  }
+  return nodes
+}
+
+/**
+ * The text at a path inside of a segment or a field repetition, like `3.1`.
+ * @internal
+ */
+const _read = (node: HL7Node, path: number[], kind: 'segment' | 'repetition'): string => {
+  if (kind === 'segment') {
+    return node.get(path.join('.')).toString()
+  }
+  return path.reduce((child, position) => child.get(position - 1), node).toString()
+}
+
+/**
+ * The fields of a segment, the components of a field or field repetition,
+ * or the sub-components of a component, that are there.
+ * @internal
+ * @param node
+ * @param name The position, or `*` for all.
+ * @param depth 0 for fields, 1 for components, and 2 for sub-components.
+ */
+const _children = (node: HL7Node, name: string, depth: number): HL7Node[] => {
+  if (depth === 0) {
+    // fields are read by path, since MSH-1 and MSH-2 are not like the others
+    const count = node.length - 1 + (HEADERS.includes(node.name) ? 1 : 0)
+    const positions = name === '*' ? Array.from({ length: count }, (_, index) => index + 1) : [parseInt(name)]
+    return positions.map(position => node.get(String(position))).filter(child => !(child instanceof EmptyNode))
+  }
+  if (depth === 1 && node instanceof Field) {
+    // a field without [ ] is its first repetition
+    node = node.get(0)
+  }
+  const children = node.toArray()
+  if (name === '*') {
+    return children
+  }
+  const child = children[parseInt(name) - 1]
+  return typeof child !== 'undefined' ? [child] : []
+}
@@ -0,0 +1,20 @@
+import { CE } from '../types/ce.js'
+import { defineSegment } from './segmentView.js'
+
+/**
+ * Patient Allergy Information (AL1)
+ * @description A single allergy of the patient.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const al1 = new AL1(message.get('AL1'))
+ * ```
+ */
+export class AL1 extends defineSegment('AL1', {
+  setId: { field: 1, type: 'SI' },
+  allergenTypeCode: { field: 2, type: CE },
+  allergenCodeMnemonicDescription: { field: 3, type: CE },
+  allergySeverityCode: { field: 4, type: CE },
+  allergyReactionCode: { field: 5, type: 'ST', repeating: true },
+  identificationDate: { field: 6, type: 'DT' }
+}) {}
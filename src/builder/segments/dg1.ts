@@ -0,0 +1,37 @@
+import { CE } from '../types/ce.js'
+import { EI } from '../types/ei.js'
+import { XCN } from '../types/xcn.js'
+import { defineSegment } from './segmentView.js'
+
+/**
+ * Diagnosis (DG1)
+ * @description A single diagnosis of the patient.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const dg1 = new DG1(message.get('DG1'))
+ * ```
+ */
+export class DG1 extends defineSegment('DG1', {
+  setId: { field: 1, type: 'SI' },
+  diagnosisCodingMethod: { field: 2, type: 'ID' },
+  diagnosisCode: { field: 3, type: CE },
+  diagnosisDescription: { field: 4, type: 'ST' },
+  diagnosisDateTime: { field: 5, type: 'TS' },
+  diagnosisType: { field: 6, type: 'IS' },
+  majorDiagnosticCategory: { field: 7, type: CE },
+  diagnosticRelatedGroup: { field: 8, type: CE },
+  drgApprovalIndicator: { field: 9, type: 'ID' },
+  drgGrouperReviewCode: { field: 10, type: 'IS' },
+  outlierType: { field: 11, type: CE },
+  outlierDays: { field: 12, type: 'NM' },
+  outlierCost: { field: 13, type: 'CP' },
+  grouperVersionAndType: { field: 14, type: 'ST' },
+  diagnosisPriority: { field: 15, type: 'ID' },
+  diagnosingClinician: { field: 16, type: XCN, repeating: true },
+  diagnosisClassification: { field: 17, type: 'IS' },
+  confidentialIndicator: { field: 18, type: 'ID' },
+  attestationDateTime: { field: 19, type: 'TS' },
+  diagnosisIdentifier: { field: 20, type: EI },
+  diagnosisActionCode: { field: 21, type: 'ID' }
+}) {}
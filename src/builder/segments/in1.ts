@@ -0,0 +1,73 @@
+import { CE } from '../types/ce.js'
+import { CX } from '../types/cx.js'
+import { XAD } from '../types/xad.js'
+import { XCN } from '../types/xcn.js'
+import { XON } from '../types/xon.js'
+import { XPN } from '../types/xpn.js'
+import { XTN } from '../types/xtn.js'
+import { defineSegment } from './segmentView.js'
+
+/**
+ * Insurance (IN1)
+ * @description The insurance policy coverage information needed for billing.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const in1 = new IN1(message.get('IN1'))
+ * ```
+ */
+export class IN1 extends defineSegment('IN1', {
+  setId: { field: 1, type: 'SI' },
+  insurancePlanId: { field: 2, type: CE },
+  insuranceCompanyId: { field: 3, type: CX, repeating: true },
+  insuranceCompanyName: { field: 4, type: XON, repeating: true },
+  insuranceCompanyAddress: { field: 5, type: XAD, repeating: true },
+  insuranceCoContactPerson: { field: 6, type: XPN, repeating: true },
+  insuranceCoPhoneNumber: { field: 7, type: XTN, repeating: true },
+  groupNumber: { field: 8, type: 'ST' },
+  groupName: { field: 9, type: XON, repeating: true },
+  insuredsGroupEmpId: { field: 10, type: CX, repeating: true },
+  insuredsGroupEmpName: { field: 11, type: XON, repeating: true },
+  planEffectiveDate: { field: 12, type: 'DT' },
+  planExpirationDate: { field: 13, type: 'DT' },
+  authorizationInformation: { field: 14, type: 'AUI' },
+  planType: { field: 15, type: 'IS' },
+  nameOfInsured: { field: 16, type: XPN, repeating: true },
+  insuredsRelationshipToPatient: { field: 17, type: CE },
+  insuredsDateOfBirth: { field: 18, type: 'TS' },
+  insuredsAddress: { field: 19, type: XAD, repeating: true },
+  assignmentOfBenefits: { field: 20, type: 'IS' },
+  coordinationOfBenefits: { field: 21, type: 'IS' },
+  coordOfBenPriority: { field: 22, type: 'ST' },
+  noticeOfAdmissionFlag: { field: 23, type: 'ID' },
+  noticeOfAdmissionDate: { field: 24, type: 'DT' },
+  reportOfEligibilityFlag: { field: 25, type: 'ID' },
+  reportOfEligibilityDate: { field: 26, type: 'DT' },
+  releaseInformationCode: { field: 27, type: 'IS' },
+  preAdmitCert: { field: 28, type: 'ST' },
+  verificationDateTime: { field: 29, type: 'TS' },
+  verificationBy: { field: 30, type: XCN, repeating: true },
+  typeOfAgreementCode: { field: 31, type: 'IS' },
+  billingStatus: { field: 32, type: 'IS' },
+  lifetimeReserveDays: { field: 33, type: 'NM' },
+  delayBeforeLrDay: { field: 34, type: 'NM' },
+  companyPlanCode: { field: 35, type: 'IS' },
+  policyNumber: { field: 36, type: 'ST' },
+  policyDeductible: { field: 37, type: 'CP' },
+  policyLimitAmount: { field: 38, type: 'CP' },
+  policyLimitDays: { field: 39, type: 'NM' },
+  roomRateSemiPrivate: { field: 40, type: 'CP' },
+  roomRatePrivate: { field: 41, type: 'CP' },
+  insuredsEmploymentStatus: { field: 42, type: CE },
+  insuredsAdministrativeSex: { field: 43, type: 'IS' },
+  insuredsEmployersAddress: { field: 44, type: XAD, repeating: true },
+  verificationStatus: { field: 45, type: 'ST' },
+  priorInsurancePlanId: { field: 46, type: 'IS' },
+  coverageType: { field: 47, type: 'IS' },
+  handicap: { field: 48, type: 'IS' },
+  insuredsIdNumber: { field: 49, type: CX, repeating: true },
+  signatureCode: { field: 50, type: 'IS' },
+  signatureCodeDate: { field: 51, type: 'DT' },
+  insuredsBirthPlace: { field: 52, type: 'ST' },
+  vipIndicator: { field: 53, type: 'IS' }
+}) {}
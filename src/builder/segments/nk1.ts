@@ -0,0 +1,58 @@
+import { CE } from '../types/ce.js'
+import { CX } from '../types/cx.js'
+import { XAD } from '../types/xad.js'
+import { XON } from '../types/xon.js'
+import { XPN } from '../types/xpn.js'
+import { XTN } from '../types/xtn.js'
+import { defineSegment } from './segmentView.js'
+
+/**
+ * Next of Kin/Associated Parties (NK1)
+ * @description A next of kin, emergency contact, or other party related to the patient.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const nk1 = new NK1(message.get('NK1'))
+ * ```
+ */
+export class NK1 extends defineSegment('NK1', {
+  setId: { field: 1, type: 'SI' },
+  name: { field: 2, type: XPN, repeating: true },
+  relationship: { field: 3, type: CE },
+  address: { field: 4, type: XAD, repeating: true },
+  phoneNumber: { field: 5, type: XTN, repeating: true },
+  businessPhoneNumber: { field: 6, type: XTN, repeating: true },
+  contactRole: { field: 7, type: CE },
+  startDate: { field: 8, type: 'DT' },
+  endDate: { field: 9, type: 'DT' },
+  nextOfKinAssociatedPartiesJobTitle: { field: 10, type: 'ST' },
+  nextOfKinAssociatedPartiesJobCodeClass: { field: 11, type: 'JCC' },
+  nextOfKinAssociatedPartiesEmployeeNumber: { field: 12, type: CX },
+  organizationName: { field: 13, type: XON, repeating: true },
+  maritalStatus: { field: 14, type: CE },
+  administrativeSex: { field: 15, type: 'IS' },
+  dateTimeOfBirth: { field: 16, type: 'TS' },
+  livingDependency: { field: 17, type: 'IS', repeating: true },
+  ambulatoryStatus: { field: 18, type: 'IS', repeating: true },
+  citizenship: { field: 19, type: CE, repeating: true },
+  primaryLanguage: { field: 20, type: CE },
+  livingArrangement: { field: 21, type: 'IS' },
+  publicityCode: { field: 22, type: CE },
+  protectionIndicator: { field: 23, type: 'ID' },
+  studentIndicator: { field: 24, type: 'IS' },
+  religion: { field: 25, type: CE },
+  mothersMaidenName: { field: 26, type: XPN, repeating: true },
+  nationality: { field: 27, type: CE },
+  ethnicGroup: { field: 28, type: CE, repeating: true },
+  contactReason: { field: 29, type: CE, repeating: true },
+  contactPersonsName: { field: 30, type: XPN, repeating: true },
+  contactPersonsTelephoneNumber: { field: 31, type: XTN, repeating: true },
+  contactPersonsAddress: { field: 32, type: XAD, repeating: true },
+  nextOfKinAssociatedPartysIdentifiers: { field: 33, type: CX, repeating: true },
+  jobStatus: { field: 34, type: 'IS' },
+  race: { field: 35, type: CE, repeating: true },
+  handicap: { field: 36, type: 'IS' },
+  contactPersonSocialSecurityNumber: { field: 37, type: 'ST' },
+  nextOfKinBirthPlace: { field: 38, type: 'ST' },
+  vipIndicator: { field: 39, type: 'IS' }
+}) {}
@@ -0,0 +1,68 @@
+import { CE } from '../types/ce.js'
+import { CWE } from '../types/cwe.js'
+import { EI } from '../types/ei.js'
+import { XCN } from '../types/xcn.js'
+import { XTN } from '../types/xtn.js'
+import { defineSegment } from './segmentView.js'
+
+/**
+ * Observation Request (OBR)
+ * @description Information about a test, exam, or study that was ordered.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const obr = new OBR(message.get('OBR'))
+ * ```
+ */
+export class OBR extends defineSegment('OBR', {
+  setId: { field: 1, type: 'SI' },
+  placerOrderNumber: { field: 2, type: EI },
+  fillerOrderNumber: { field: 3, type: EI },
+  universalServiceIdentifier: { field: 4, type: CE },
+  priority: { field: 5, type: 'ID' },
+  requestedDateTime: { field: 6, type: 'TS' },
+  observationDateTime: { field: 7, type: 'TS' },
+  observationEndDateTime: { field: 8, type: 'TS' },
+  collectionVolume: { field: 9, type: 'CQ' },
+  collectorIdentifier: { field: 10, type: XCN, repeating: true },
+  specimenActionCode: { field: 11, type: 'ID' },
+  dangerCode: { field: 12, type: CE },
+  relevantClinicalInformation: { field: 13, type: 'ST' },
+  specimenReceivedDateTime: { field: 14, type: 'TS' },
+  specimenSource: { field: 15, type: 'SPS' },
+  orderingProvider: { field: 16, type: XCN, repeating: true },
+  orderCallbackPhoneNumber: { field: 17, type: XTN, repeating: true },
+  placerField1: { field: 18, type: 'ST' },
+  placerField2: { field: 19, type: 'ST' },
+  fillerField1: { field: 20, type: 'ST' },
+  fillerField2: { field: 21, type: 'ST' },
+  resultsRptStatusChngDateTime: { field: 22, type: 'TS' },
+  chargeToPractice: { field: 23, type: 'MOC' },
+  diagnosticServSectId: { field: 24, type: 'ID' },
+  resultStatus: { field: 25, type: 'ID' },
+  parentResult: { field: 26, type: 'PRL' },
+  quantityTiming: { field: 27, type: 'TQ', repeating: true },
+  resultCopiesTo: { field: 28, type: XCN, repeating: true },
+  parent: { field: 29, type: 'EIP' },
+  transportationMode: { field: 30, type: 'ID' },
+  reasonForStudy: { field: 31, type: CE, repeating: true },
+  principalResultInterpreter: { field: 32, type: 'NDL' },
+  assistantResultInterpreter: { field: 33, type: 'NDL', repeating: true },
+  technician: { field: 34, type: 'NDL', repeating: true },
+  transcriptionist: { field: 35, type: 'NDL', repeating: true },
+  scheduledDateTime: { field: 36, type: 'TS' },
+  numberOfSampleContainers: { field: 37, type: 'NM' },
+  transportLogisticsOfCollectedSample: { field: 38, type: CE, repeating: true },
+  collectorsComment: { field: 39, type: CE, repeating: true },
+  transportArrangementResponsibility: { field: 40, type: CE },
+  transportArranged: { field: 41, type: 'ID' },
+  escortRequired: { field: 42, type: 'ID' },
+  plannedPatientTransportComment: { field: 43, type: CE, repeating: true },
+  procedureCode: { field: 44, type: CE },
+  procedureCodeModifier: { field: 45, type: CE, repeating: true },
+  placerSupplementalServiceInformation: { field: 46, type: CE, repeating: true },
+  fillerSupplementalServiceInformation: { field: 47, type: CE, repeating: true },
+  medicallyNecessaryDuplicateProcedureReason: { field: 48, type: CWE },
+  resultHandling: { field: 49, type: 'IS' },
+  parentUniversalServiceIdentifier: { field: 50, type: CWE }
+}) {}
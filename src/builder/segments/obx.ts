@@ -0,0 +1,44 @@
+import { CE } from '../types/ce.js'
+import { CWE } from '../types/cwe.js'
+import { EI } from '../types/ei.js'
+import { XAD } from '../types/xad.js'
+import { XCN } from '../types/xcn.js'
+import { XON } from '../types/xon.js'
+import { defineSegment } from './segmentView.js'
+
+/**
+ * Observation/Result (OBX)
+ * @description A single observation or result.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const obx = new OBX(message.get('OBX'))
+ * ```
+ */
+export class OBX extends defineSegment('OBX', {
+  setId: { field: 1, type: 'SI' },
+  valueType: { field: 2, type: 'ID' },
+  observationIdentifier: { field: 3, type: CE },
+  observationSubId: { field: 4, type: 'ST' },
+  observationValue: { field: 5, type: 'varies', repeating: true },
+  units: { field: 6, type: CE },
+  referencesRange: { field: 7, type: 'ST' },
+  abnormalFlags: { field: 8, type: 'IS', repeating: true },
+  probability: { field: 9, type: 'NM' },
+  natureOfAbnormalTest: { field: 10, type: 'ID', repeating: true },
+  observationResultStatus: { field: 11, type: 'ID' },
+  effectiveDateOfReferenceRange: { field: 12, type: 'TS' },
+  userDefinedAccessChecks: { field: 13, type: 'ST' },
+  dateTimeOfTheObservation: { field: 14, type: 'TS' },
+  producersId: { field: 15, type: CE },
+  responsibleObserver: { field: 16, type: XCN, repeating: true },
+  observationMethod: { field: 17, type: CE, repeating: true },
+  equipmentInstanceIdentifier: { field: 18, type: EI, repeating: true },
+  dateTimeOfTheAnalysis: { field: 19, type: 'TS' },
+  observationSite: { field: 20, type: CWE, repeating: true },
+  observationInstanceIdentifier: { field: 21, type: EI },
+  moodCode: { field: 22, type: 'CNE' },
+  performingOrganizationName: { field: 23, type: XON },
+  performingOrganizationAddress: { field: 24, type: XAD },
+  performingOrganizationMedicalDirector: { field: 25, type: XCN }
+}) {}
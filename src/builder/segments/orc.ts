@@ -0,0 +1,52 @@
+import { CE } from '../types/ce.js'
+import { CWE } from '../types/cwe.js'
+import { EI } from '../types/ei.js'
+import { PL } from '../types/pl.js'
+import { XAD } from '../types/xad.js'
+import { XCN } from '../types/xcn.js'
+import { XON } from '../types/xon.js'
+import { XTN } from '../types/xtn.js'
+import { defineSegment } from './segmentView.js'
+
+/**
+ * Common Order (ORC)
+ * @description The fields that are common to all orders.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const orc = new ORC(message.get('ORC'))
+ * ```
+ */
+export class ORC extends defineSegment('ORC', {
+  orderControl: { field: 1, type: 'ID' },
+  placerOrderNumber: { field: 2, type: EI },
+  fillerOrderNumber: { field: 3, type: EI },
+  placerGroupNumber: { field: 4, type: EI },
+  orderStatus: { field: 5, type: 'ID' },
+  responseFlag: { field: 6, type: 'ID' },
+  quantityTiming: { field: 7, type: 'TQ', repeating: true },
+  parent: { field: 8, type: 'EIP' },
+  dateTimeOfTransaction: { field: 9, type: 'TS' },
+  enteredBy: { field: 10, type: XCN, repeating: true },
+  verifiedBy: { field: 11, type: XCN, repeating: true },
+  orderingProvider: { field: 12, type: XCN, repeating: true },
+  enterersLocation: { field: 13, type: PL },
+  callBackPhoneNumber: { field: 14, type: XTN, repeating: true },
+  orderEffectiveDateTime: { field: 15, type: 'TS' },
+  orderControlCodeReason: { field: 16, type: CE },
+  enteringOrganization: { field: 17, type: CE },
+  enteringDevice: { field: 18, type: CE },
+  actionBy: { field: 19, type: XCN, repeating: true },
+  advancedBeneficiaryNoticeCode: { field: 20, type: CE },
+  orderingFacilityName: { field: 21, type: XON, repeating: true },
+  orderingFacilityAddress: { field: 22, type: XAD, repeating: true },
+  orderingFacilityPhoneNumber: { field: 23, type: XTN, repeating: true },
+  orderingProviderAddress: { field: 24, type: XAD, repeating: true },
+  orderStatusModifier: { field: 25, type: CWE },
+  advancedBeneficiaryNoticeOverrideReason: { field: 26, type: CWE },
+  fillersExpectedAvailabilityDateTime: { field: 27, type: 'TS' },
+  confidentialityCode: { field: 28, type: CWE },
+  orderType: { field: 29, type: CWE },
+  entererAuthorizationMode: { field: 30, type: 'CNE' },
+  parentUniversalServiceIdentifier: { field: 31, type: CWE }
+}) {}
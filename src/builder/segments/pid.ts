@@ -0,0 +1,59 @@
+import { CE } from '../types/ce.js'
+import { CWE } from '../types/cwe.js'
+import { CX } from '../types/cx.js'
+import { HD } from '../types/hd.js'
+import { XAD } from '../types/xad.js'
+import { XPN } from '../types/xpn.js'
+import { XTN } from '../types/xtn.js'
+import { defineSegment } from './segmentView.js'
+
+/**
+ * Patient Identification (PID)
+ * @description The main way to identify a patient, along with their demographics.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const pid = new PID(message.get('PID'))
+ * ```
+ */
+export class PID extends defineSegment('PID', {
+  setId: { field: 1, type: 'SI' },
+  patientId: { field: 2, type: CX },
+  patientIdentifierList: { field: 3, type: CX, repeating: true },
+  alternatePatientId: { field: 4, type: CX, repeating: true },
+  patientName: { field: 5, type: XPN, repeating: true },
+  mothersMaidenName: { field: 6, type: XPN, repeating: true },
+  dateTimeOfBirth: { field: 7, type: 'TS' },
+  administrativeSex: { field: 8, type: 'IS' },
+  patientAlias: { field: 9, type: XPN, repeating: true },
+  race: { field: 10, type: CE, repeating: true },
+  patientAddress: { field: 11, type: XAD, repeating: true },
+  countyCode: { field: 12, type: 'IS' },
+  phoneNumberHome: { field: 13, type: XTN, repeating: true },
+  phoneNumberBusiness: { field: 14, type: XTN, repeating: true },
+  primaryLanguage: { field: 15, type: CE },
+  maritalStatus: { field: 16, type: CE },
+  religion: { field: 17, type: CE },
+  patientAccountNumber: { field: 18, type: CX },
+  ssnNumber: { field: 19, type: 'ST' },
+  driversLicenseNumber: { field: 20, type: 'DLN' },
+  mothersIdentifier: { field: 21, type: CX, repeating: true },
+  ethnicGroup: { field: 22, type: CE, repeating: true },
+  birthPlace: { field: 23, type: 'ST' },
+  multipleBirthIndicator: { field: 24, type: 'ID' },
+  birthOrder: { field: 25, type: 'NM' },
+  citizenship: { field: 26, type: CE, repeating: true },
+  veteransMilitaryStatus: { field: 27, type: CE },
+  nationality: { field: 28, type: CE },
+  patientDeathDateAndTime: { field: 29, type: 'TS' },
+  patientDeathIndicator: { field: 30, type: 'ID' },
+  identityUnknownIndicator: { field: 31, type: 'ID' },
+  identityReliabilityCode: { field: 32, type: 'IS', repeating: true },
+  lastUpdateDateTime: { field: 33, type: 'TS' },
+  lastUpdateFacility: { field: 34, type: HD },
+  speciesCode: { field: 35, type: CE },
+  breedCode: { field: 36, type: CE },
+  strain: { field: 37, type: 'ST' },
+  productionClassCode: { field: 38, type: CE },
+  tribalCitizenship: { field: 39, type: CWE, repeating: true }
+}) {}
@@ -0,0 +1,69 @@
+import { CE } from '../types/ce.js'
+import { CX } from '../types/cx.js'
+import { PL } from '../types/pl.js'
+import { XCN } from '../types/xcn.js'
+import { defineSegment } from './segmentView.js'
+
+/**
+ * Patient Visit (PV1)
+ * @description Information about an account or visit.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const pv1 = new PV1(message.get('PV1'))
+ * ```
+ */
+export class PV1 extends defineSegment('PV1', {
+  setId: { field: 1, type: 'SI' },
+  patientClass: { field: 2, type: 'IS' },
+  assignedPatientLocation: { field: 3, type: PL },
+  admissionType: { field: 4, type: 'IS' },
+  preadmitNumber: { field: 5, type: CX },
+  priorPatientLocation: { field: 6, type: PL },
+  attendingDoctor: { field: 7, type: XCN, repeating: true },
+  referringDoctor: { field: 8, type: XCN, repeating: true },
+  consultingDoctor: { field: 9, type: XCN, repeating: true },
+  hospitalService: { field: 10, type: 'IS' },
+  temporaryLocation: { field: 11, type: PL },
+  preadmitTestIndicator: { field: 12, type: 'IS' },
+  reAdmissionIndicator: { field: 13, type: 'IS' },
+  admitSource: { field: 14, type: 'IS' },
+  ambulatoryStatus: { field: 15, type: 'IS', repeating: true },
+  vipIndicator: { field: 16, type: 'IS' },
+  admittingDoctor: { field: 17, type: XCN, repeating: true },
+  patientType: { field: 18, type: 'IS' },
+  visitNumber: { field: 19, type: CX },
+  financialClass: { field: 20, type: 'FC', repeating: true },
+  chargePriceIndicator: { field: 21, type: 'IS' },
+  courtesyCode: { field: 22, type: 'IS' },
+  creditRating: { field: 23, type: 'IS' },
+  contractCode: { field: 24, type: 'IS', repeating: true },
+  contractEffectiveDate: { field: 25, type: 'DT', repeating: true },
+  contractAmount: { field: 26, type: 'NM', repeating: true },
+  contractPeriod: { field: 27, type: 'NM', repeating: true },
+  interestCode: { field: 28, type: 'IS' },
+  transferToBadDebtCode: { field: 29, type: 'IS' },
+  transferToBadDebtDate: { field: 30, type: 'DT' },
+  badDebtAgencyCode: { field: 31, type: 'IS' },
+  badDebtTransferAmount: { field: 32, type: 'NM' },
+  badDebtRecoveryAmount: { field: 33, type: 'NM' },
+  deleteAccountIndicator: { field: 34, type: 'IS' },
+  deleteAccountDate: { field: 35, type: 'DT' },
+  dischargeDisposition: { field: 36, type: 'IS' },
+  dischargedToLocation: { field: 37, type: 'DLD' },
+  dietType: { field: 38, type: CE },
+  servicingFacility: { field: 39, type: 'IS' },
+  bedStatus: { field: 40, type: 'IS' },
+  accountStatus: { field: 41, type: 'IS' },
+  pendingLocation: { field: 42, type: PL },
+  priorTemporaryLocation: { field: 43, type: PL },
+  admitDateTime: { field: 44, type: 'TS' },
+  dischargeDateTime: { field: 45, type: 'TS', repeating: true },
+  currentPatientBalance: { field: 46, type: 'NM' },
+  totalCharges: { field: 47, type: 'NM' },
+  totalAdjustments: { field: 48, type: 'NM' },
+  totalPayments: { field: 49, type: 'NM' },
+  alternateVisitId: { field: 50, type: CX },
+  visitIndicator: { field: 51, type: 'IS' },
+  otherHealthcareProvider: { field: 52, type: XCN, repeating: true }
+}) {}
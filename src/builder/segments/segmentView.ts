@@ -0,0 +1,186 @@
+import { HL7FatalError } from '../../utils/exception.js'
+import { HL7Node } from '../interface/hL7Node.js'
+import { NodeBase } from '../modules/nodeBase.js'
+import { SegmentList } from '../modules/segmentList.js'
+import { DataType, DataTypeClass, NodeAccessor } from '../types/dataType.js'
+
+/**
+ * Field Definition
+ * @description Describes one field of a segment for {@link defineSegment}.
+ * @since 2.4.0
+ */
+export interface FieldDefinition {
+  /** The position of the field in the segment, starting at 1. */
+  field: number
+  /** The data type of the field.
+   * A {@link DataType} class for the composite types that have one,
+   * otherwise the HL7 code (like `ST` or `TS`), and the field is read as a string. */
+  type: DataTypeClass<DataType> | string
+  /** Can the field repeat? */
+  repeating?: boolean
+}
+
+/**
+ * Field Value
+ * @description What a field of a segment view reads as, based on its {@link FieldDefinition}.
+ * @since 2.4.0
+ */
+export type FieldValue<D extends FieldDefinition> =
+  D['type'] extends DataTypeClass<infer T>
+    ? D['repeating'] extends true ? T[] : T
+    : D['repeating'] extends true ? string[] : string
+
+/**
+ * Segment Fields
+ * @description The named fields of a segment view.
+ * Composite fields are read only, since you write to their components instead.
+ * @since 2.4.0
+ */
+export type SegmentFields<D extends Record<string, FieldDefinition>> = {
+  readonly [K in keyof D as D[K]['type'] extends string ? never : K]: FieldValue<D[K]>
+} & {
+  -readonly [K in keyof D as D[K]['type'] extends string ? K : never]: FieldValue<D[K]>
+}
+
+/**
+ * Segment View Class
+ * @description The class returned from {@link defineSegment}.
+ * @since 2.4.0
+ */
+export interface SegmentViewClass<D extends Record<string, FieldDefinition> = Record<string, FieldDefinition>> {
+  new (segment: HL7Node): SegmentView & SegmentFields<D>
+  /** The segment name, like `PID`. */
+  readonly segmentName: string
+  /** The fields of the segment. */
+  readonly fields: D
+}
+
+/**
+ * Segment View
+ * @description A typed view over a {@link Segment}.
+ * Nothing is copied: every read and write goes straight to the segment,
+ * so the view and the message always agree.
+ * The views of this package, like {@link PID}, name their fields as HL7 v2.5.1 does,
+ * and a field with a data type that does not have its own class reads as the text of its first component.
+ * @since 2.4.0
+ */
+export class SegmentView {
+  /** The segment name, like `PID`.
+   * @since 2.4.0 */
+  static readonly segmentName: string = ''
+  /** The fields of the segment.
+   * @since 2.4.0 */
+  static readonly fields: Record<string, FieldDefinition> = {}
+  /** The segment this is a view of.
+   * @since 2.4.0 */
+  readonly segment: HL7Node
+
+  /**
+   * @since 2.4.0
+   * @param segment The segment to view, such as from `message.get('PID')` or `message.addSegment('PID')`.
+   * If there is more than one of the segment, the first one is used.
+   */
+  constructor (segment: HL7Node) {
+    if (segment instanceof SegmentList) {
+      segment = segment.get(0)
+    }
+    const name = (this.constructor as typeof SegmentView).segmentName
+    if (segment.name !== name) {
+      throw new HL7FatalError(`Expected a ${name} segment, not ${segment.name}.`)
+    }
+    this.segment = segment
+  }
+
+  /**
+   * To String
+   * @description The raw text of the segment.
+   * @since 2.4.0
+   */
+  toString (): string {
+    return this.segment.toString()
+  }
+
+  /** @internal */
+  _read (definition: FieldDefinition): DataType | DataType[] | string | string[] {
+    const field = this.segment.get(definition.field)
+    if (typeof definition.type === 'string') {
+      if (definition.repeating === true) {
+        return field.toArray().map(repetition => repetition.toString())
+      }
+      return field.toString()
+    }
+    // CE is read as CWE in 2.6 and later
+    const Type = this.segment instanceof NodeBase ? this.segment._resolve(definition.type) : definition.type
+    if (definition.repeating === true) {
+      // always give back at least one, so [0] can be written to
+      const list: DataType[] = []
+      for (let i = 0, l = Math.max(field.length, 1); i < l; i++) {
+        list.push(new Type(this._accessor(definition.field, i)))
+      }
+      return list
+    }
+    return new Type(this._accessor(definition.field, 0))
+  }
+
+  /** @internal */
+  _write (definition: FieldDefinition, value: string | string[]): void {
+    if (Array.isArray(value)) {
+      // clear the old repetitions
+      this.segment.set(definition.field, '')
+      if (value.length > 0) {
+        this.segment.set(definition.field, value)
+      }
+    } else {
+      this.segment.set(definition.field, value)
+    }
+  }
+
+  /** @internal */
+  private _accessor (field: number, repetition: number): NodeAccessor {
+    return {
+      get: () => this.segment.get(field).get(repetition),
+      ensure: () => this.segment.set(field).set(repetition)
+    }
+  }
+}
+
+/**
+ * Define Segment
+ * @description Create a typed {@link SegmentView} class from the list of fields of a segment.
+ * Each field becomes a property with the name it was given.
+ * Use this for Z segments or any other segment this package does not have a view for.
+ * @since 2.4.0
+ * @param name The segment name, like `ZPD`.
+ * @param fields The fields, by the name of the property.
+ * @example
+ * ```ts
+ * class ZPD extends defineSegment('ZPD', {
+ *   setId: { field: 1, type: 'SI' },
+ *   petName: { field: 2, type: XPN, repeating: true }
+ * }) {}
+ *
+ * const zpd = new ZPD(message.addSegment('ZPD'))
+ * zpd.petName[0].givenName = 'Rex'
+ * ```
+ */
+export function defineSegment<const D extends Record<string, FieldDefinition>> (name: string, fields: D): SegmentViewClass<D> {
+  class View extends SegmentView {
+    static readonly segmentName: string = name
+    static readonly fields: D = fields
+  }
+
+  for (const [key, definition] of Object.entries(fields)) {
+    Object.defineProperty(View.prototype, key, {
+      configurable: true,
+      enumerable: true,
+      get (this: SegmentView) {
+        return this._read(definition)
+      },
+      set: typeof definition.type === 'string'
+        ? function (this: SegmentView, value: string | string[]) { this._write(definition, value) }
+        : undefined
+    })
+  }
+
+  return View as unknown as SegmentViewClass<D>
+}
@@ -0,0 +1,354 @@
+import { HL7FatalError } from '../utils/exception.js'
+import type { HL7_SPEC } from '../specification/specification.js'
+import { itemStarts, segmentNames, structureName, StructureGroup, StructureItem } from '../specification/validation.js'
+import { messageSpecification } from '../specification/versions.js'
+import type { Message } from './message.js'
+import { Segment } from './modules/segment.js'
+
+/**
+ * Message Group
+ * @description A group of segments in a message, like `ORDER_OBSERVATION` in an `ORU_R01`,
+ * from {@link Message.structure}. The message itself is the group at the top, named after its structure.
+ *
+ * A group is what the segments of the message look like at the time it was made.
+ * Adding segments through a group keeps it up to date,
+ * but call {@link Message.structure} again after changing the message in any other way.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const structure = message.structure()
+ * for (const order of structure.group('PATIENT_RESULT')?.groups('ORDER_OBSERVATION') ?? []) {
+ *   const test = order.segment('OBR')?.get('4.1').toString()
+ *   const results = order.groups('OBSERVATION').map(observation => observation.segment('OBX')?.get('5').toString())
+ * }
+ * ```
+ */
+export class MessageGroup {
+  /** The group name, like `ORDER_OBSERVATION`, or the structure name, like `ORU_R01`, for the message. */
+  readonly name: string
+  /** The group this one is in, or undefined for the message. */
+  readonly parent: MessageGroup | undefined
+  /** @internal */
+  readonly _items: StructureItem[]
+  /** @internal */
+  readonly _message: Message
+  /** @internal */
+  private readonly _children: Array<Segment | MessageGroup> = []
+  /**
+   * The position in {@link _items} of each child, for where to add new ones.
+   * @internal
+   */
+  private readonly _positions: number[] = []
+  /**
+   * The segments that are not part of the structure, like Z segments, or that did not fit in it.
+   * @internal
+   */
+  private readonly _extra = new Set<Segment>()
+
+  /** @internal */
+  constructor (name: string, items: StructureItem[], parent: MessageGroup | undefined, message: Message) {
+    this.name = name
+    this._items = items
+    this.parent = parent
+    this._message = message
+  }
+
+  /**
+   * The segments and groups right inside of this group, in order.
+   * Segments that are not part of the structure, like Z segments, are in the group that is before them.
+   * @since 2.4.0
+   */
+  get children (): Array<Segment | MessageGroup> {
+    return this._children.slice()
+  }
+
+  /**
+   * Get a Group
+   * @description The first group with a name right inside of this group.
+   * @since 2.4.0
+   * @param name Like `PATIENT`.
+   * @param index Which one, starting at 0, for a repeating group.
+   * @return Undefined if there is no such group.
+   */
+  group (name: string, index: number = 0): MessageGroup | undefined {
+    return this.groups(name)[index]
+  }
+
+  /**
+   * Get the Groups
+   * @description Every group with a name right inside of this group, like each `OBSERVATION` of an `ORDER_OBSERVATION`.
+   * @since 2.4.0
+   * @param name
+   */
+  groups (name: string): MessageGroup[] {
+    return this._children.filter((child): child is MessageGroup => child instanceof MessageGroup && child.name === name)
+  }
+
+  /**
+   * Get a Segment
+   * @description The first segment with a name right inside of this group,
+   * so the `NTE` of an `OBSERVATION` is not the `NTE` of the `ORDER_OBSERVATION` it is in.
+   * @since 2.4.0
+   * @param name Like `OBR`.
+   * @return Undefined if there is no such segment.
+   */
+  segment (name: string): Segment | undefined {
+    return this._children.find((child): child is Segment => child instanceof Segment && child.name === name)
+  }
+
+  /**
+   * Get the Segments
+   * @description Every segment in this group, and in the groups inside of it, in the order they are in the message.
+   * @since 2.4.0
+   * @param name Only the segments with this name.
+   */
+  segments (name?: string): Segment[] {
+    const segments = this._children.flatMap(child => child instanceof MessageGroup ? child.segments() : [child])
+    return typeof name === 'undefined' ? segments : segments.filter(segment => segment.name === name)
+  }
+
+  /**
+   * Group of a Segment
+   * @description The group a segment is right inside of, looking in this group and the groups inside of it.
+   * @since 2.4.0
+   * @param segment A segment of the message.
+   * @return Undefined if the segment is not in this group.
+   * @example
+   * ```ts
+   * // the OBR of an OBX
+   * const obx = message.query("OBX[3.1='GLU']")[0] as Segment
+   * structure.groupOf(obx)?.parent?.segment('OBR')
+   * ```
+   */
+  groupOf (segment: Segment): MessageGroup | undefined {
+    if (this._children.includes(segment)) {
+      return this
+    }
+    for (const child of this._children) {
+      const group = child instanceof MessageGroup ? child.groupOf(segment) : undefined
+      if (typeof group !== 'undefined') {
+        return group
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Add a Segment
+   * @description Add an empty segment to this group, in the message, where the structure says it goes,
+   * after the segments that come before it, and before the ones that come after it.
+   * @since 2.4.0
+   * @param name A segment that is right inside of this group, like `NTE` in an `OBSERVATION`.
+   * @throws {HL7FatalError} If the segment is not part of this group, or it can not repeat and it is already there.
+   * @example
+   * ```ts
+   * const observation = structure.group('PATIENT_RESULT')?.group('ORDER_OBSERVATION')?.group('OBSERVATION')
+   * observation?.addSegment('NTE').set('3', 'Repeated twice.')
+   * ```
+   */
+  addSegment (name: string): Segment {
+    const position = this._position(name, 'segment')
+    const segment = this._message.insertSegment(name, this._index(position))
+    this._add(segment, position)
+    return segment
+  }
+
+  /**
+   * Add a Group
+   * @description Add a group inside of this group, in the message, where the structure says it goes.
+   * The new group has its first required segment, like `OBX` for an `OBSERVATION`,
+   * and `OBR` (inside of a new `ORDER_OBSERVATION`) for a `PATIENT_RESULT`.
+   * @since 2.4.0
+   * @param name A group that is right inside of this group, like `OBSERVATION` in an `ORDER_OBSERVATION`.
+   * @throws {HL7FatalError} If the group is not part of this group, or it can not repeat and it is already there.
+   * @example
+   * ```ts
+   * const observation = order.addGroup('OBSERVATION')
+   * observation.segment('OBX')?.set('5', '90')
+   * ```
+   */
+  addGroup (name: string): MessageGroup {
+    const position = this._position(name, 'group')
+    const group = new MessageGroup(name, (this._items[position] as StructureGroup).items, this, this._message)
+    group._start(this._index(position))
+    this._add(group, position)
+    return group
+  }
+
+  /**
+   * Add what a new group must have, at an index of the message.
+   * @internal
+   */
+  _start (index: number): void {
+    const required = this._items.findIndex(item => item.required === true)
+    const position = required === -1 ? 0 : required
+    const item = this._items[position]
+    if ('segment' in item) {
+      this._add(this._message.insertSegment(item.segment, index), position)
+    } else {
+      const group = new MessageGroup(item.group, item.items, this, this._message)
+      group._start(index)
+      this._add(group, position)
+    }
+  }
+
+  /**
+   * Add a child at the end, by default at the same position as the one before it.
+   * @internal
+   */
+  _push (child: Segment | MessageGroup, position: number = this._positions[this._positions.length - 1] ?? 0): void {
+    this._children.push(child)
+    this._positions.push(position)
+  }
+
+  /**
+   * Add a segment that is not part of the structure at the end.
+   * @internal
+   */
+  _pushExtra (segment: Segment, position?: number): void {
+    this._push(segment, position)
+    this._extra.add(segment)
+  }
+
+  /**
+   * Where a segment or group goes in the structure of this group.
+   * @internal
+   */
+  private _position (name: string, kind: 'segment' | 'group'): number {
+    // a segment can be in a structure twice, like ROL in ADT_A01, so use the first one there is still room in
+    const positions = this._items
+      .map((item, position) => (kind === 'segment' ? 'segment' in item && item.segment === name : 'group' in item && item.group === name) ? position : -1)
+      .filter(position => position !== -1)
+    if (positions.length === 0) {
+      throw new HL7FatalError(`${name} ${kind} is not part of ${this.name}.`)
+    }
+    const position = positions.find(position => this._items[position].repeating === true || !this._positions.includes(position))
+    if (typeof position === 'undefined') {
+      throw new HL7FatalError(`${name} ${kind} can not repeat in ${this.name}.`)
+    }
+    return position
+  }
+
+  /**
+   * The index in the message for something new at a position of the structure of this group.
+   * @internal
+   */
+  private _index (position: number): number {
+    const segments = this._message.toArray()
+    // not after a Z segment, or anything else that is not part of the structure, at the end of the ones before
+    const before = this._owned(this._children.slice(0, this._after(position)))
+    if (before.length > 0) {
+      return segments.indexOf(before[before.length - 1]) + 1
+    }
+    const first = this.segments()[0]
+    return typeof first !== 'undefined' ? segments.indexOf(first) : segments.length
+  }
+
+  /**
+   * The segments in this group, and in the groups inside of it, that are part of the structure.
+   * @internal
+   */
+  _owned (children: Array<Segment | MessageGroup> = this._children): Segment[] {
+    return children.flatMap(child => child instanceof MessageGroup ? child._owned() : this._extra.has(child) ? [] : [child])
+  }
+
+  /**
+   * How many children come before something new at a position of the structure of this group.
+   * @internal
+   */
+  private _after (position: number): number {
+    let index = this._positions.length
+    while (index > 0 && this._positions[index - 1] > position) {
+      index--
+    }
+    return index
+  }
+
+  /** @internal */
+  private _add (child: Segment | MessageGroup, position: number): void {
+    const index = this._after(position)
+    this._children.splice(index, 0, child)
+    this._positions.splice(index, 0, position)
+  }
+}
+
+/** @internal */
+interface BuildState {
+  segments: Segment[]
+  position: number
+  known: Set<string>
+}
+
+/**
+ * The segments of a message as groups, from its message structure.
+ * @since 2.4.0
+ * @internal
+ * @param message
+ * @param specification
+ * @throws {HL7FatalError} If the message structure is not known.
+ */
+export const messageStructure = (message: Message, specification?: HL7_SPEC): MessageGroup => {
+  const schema = messageSpecification(message, specification).schema()
+  const name = structureName(message, schema)
+  if (typeof name === 'undefined') {
+    throw new HL7FatalError(`The message structure of ${message.get('MSH.9').toRaw()} is not known.`)
+  }
+
+  const items = schema.structures[name]
+  const root = new MessageGroup(name, items, undefined, message)
+  const state: BuildState = { segments: message.toArray() as Segment[], position: 0, known: segmentNames(items) }
+  _build(root, state, false)
+  // anything that did not fit goes at the end
+  for (; state.position < state.segments.length; state.position++) {
+    root._pushExtra(state.segments[state.position], root._items.length)
+  }
+  return root
+}
+
+/**
+ * Put the segments into a group, the same way `validate` matches them.
+ * @internal
+ */
+const _build = (group: MessageGroup, state: BuildState, inRepeatingGroup: boolean): void => {
+  group._items.forEach((item, position) => {
+    let count = 0
+    while (_skip(group, state) && itemStarts(item, state.segments[state.position].name)) {
+      const start = state.position
+      if ('segment' in item) {
+        group._push(state.segments[state.position++], position)
+      } else {
+        const child = new MessageGroup(item.group, item.items, group, group._message)
+        _build(child, state, inRepeatingGroup || item.repeating === true)
+        group._push(child, position)
+      }
+      count++
+      if (item.repeating !== true || state.position === start) {
+        break
+      }
+    }
+
+    if ('segment' in item && item.repeating !== true && count === 1 && !inRepeatingGroup) {
+      // a segment that should not repeat, but does, stays with the first one
+      while (_skip(group, state) && state.segments[state.position].name === item.segment) {
+        group._push(state.segments[state.position++], position)
+      }
+    }
+  })
+}
+
+/**
+ * Put the segments that are not part of the structure at all, like Z segments, into the group that is before them.
+ * @internal
+ * @return If there are any segments left.
+ */
+const _skip = (group: MessageGroup, state: BuildState): boolean => {
+  while (state.position < state.segments.length) {
+    const segment = state.segments[state.position]
+    if (state.known.has(segment.name)) {
+      return true
+    }
+    group._pushExtra(segment)
+    state.position++
+  }
+  return false
+}
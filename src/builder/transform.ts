@@ -0,0 +1,161 @@
+import { HL7FatalError } from '../utils/exception.js'
+import type { Message } from './message.js'
+import { Segment } from './modules/segment.js'
+import { parseQuery, queryNodes } from './query.js'
+
+/**
+ * HL7 Transform Rule
+ * @description One step of {@link Message.transform}:
+ * - `set` - Set a value, like `{ type: 'set', path: 'MSH.5', value: 'LIS' }`.
+ * - `copy` - Copy a value, as it is, with its components and repetitions,
+ * like `{ type: 'copy', from: 'PID.3.1', to: 'PID.2' }`.
+ * A `from` that starts with a dot is in each segment of `to`, so `{ type: 'copy', from: '.3.2', to: 'OBX.9' }`
+ * copies OBX-3.2 to OBX-9 of every OBX.
+ * Otherwise, it is the first one it finds, like {@link Message.get}, and can be a query, like `PID.3[5='MR'].1`.
+ * - `map` - Change a value with a lookup table, like `{ type: 'map', path: 'PV1.2', table: { I: 'INPATIENT' } }`.
+ * A value that is not in the table is set to `default`, or left as it is if there is no `default`.
+ * - `drop` - Remove segments, like `{ type: 'drop', segment: 'ZPD' }`. The MSH can not be dropped.
+ * - `rename` - Change the name of segments, and keep their fields, like `{ type: 'rename', segment: 'ZPV', to: 'ZV1' }`.
+ *
+ * The segment of `path`, `to`, and `segment` can have the `[ ]` of {@link Message.query}, like `OBX[3.1='GLU'].5`,
+ * but without them, it is every segment with that name, not only the first one.
+ * The rest of the path is a field, component, or sub-component.
+ * @since 2.4.0
+ */
+export type HL7TransformRule =
+  { type: 'set', path: string, value: string } |
+  { type: 'copy', from: string, to: string } |
+  { type: 'map', path: string, table: Record<string, string>, default?: string } |
+  { type: 'drop', segment: string } |
+  { type: 'rename', segment: string, to: string }
+
+/** @internal */
+const SEGMENT_NAME = /^[A-Z][A-Z0-9]{2}$/
+
+/** @internal */
+const HEADERS = ['MSH', 'BHS', 'FHS']
+
+/** @internal */
+const FIELD_PATH = /^\d+(\.\d+){0,2}$/
+
+/**
+ * Apply transform rules to a message.
+ * @since 2.4.0
+ * @internal
+ * @param message The message to change.
+ * @param rules
+ * @return The message.
+ */
+export const transformMessage = (message: Message, rules: HL7TransformRule[]): Message => {
+  for (const rule of rules) {
+    switch (rule.type) {
+      case 'set': {
+        const { segments, path } = _target(message, rule.path)
+        segments.forEach(segment => segment.set(path, rule.value))
+        break
+      }
+      case 'copy': {
+        const { segments, path } = _target(message, rule.to)
+        const relative = rule.from.startsWith('.')
+        if (relative && !FIELD_PATH.test(rule.from.slice(1))) {
+          throw new HL7FatalError(`Invalid path ${rule.from}. It must be a field, component, or sub-component, like .3.1.`)
+        }
+        // the first one, the same as get, or an empty value if there is none
+        const value = relative ? undefined : queryNodes(message.toArray(), rule.from)[0]?.toRaw() ?? ''
+        segments.forEach(segment => segment.write(path.split('.'), value ?? _raw(segment, rule.from.slice(1))))
+        break
+      }
+      case 'map': {
+        const { segments, path } = _target(message, rule.path)
+        for (const segment of segments) {
+          const value = segment.get(path).toString()
+          const mapped = Object.prototype.hasOwnProperty.call(rule.table, value) ? rule.table[value] : rule.default
+          if (typeof mapped !== 'undefined') {
+            segment.set(path, mapped)
+          }
+        }
+        break
+      }
+      case 'drop':
+        _segments(message, rule.segment).forEach(segment => {
+          if (HEADERS.includes(segment.name)) {
+            throw new HL7FatalError(`${segment.name} segment can not be dropped.`)
+          }
+          message.removeSegment(segment)
+        })
+        break
+      case 'rename':
+        if (!SEGMENT_NAME.test(rule.to) || HEADERS.includes(rule.to)) {
+          throw new HL7FatalError(`Invalid segment name ${rule.to}.`)
+        }
+        _segments(message, rule.segment).forEach(segment => {
+          if (HEADERS.includes(segment.name)) {
+            throw new HL7FatalError(`${segment.name} segment can not be renamed.`)
+          }
+          segment._rename(rule.to)
+        })
+        break
+      default:
+        throw new HL7FatalError(`Unknown transform rule ${(rule as { type: string }).type}.`)
+    }
+  }
+  return message
+}
+
+/**
+ * The segments and the field path in each of them, of a path like `OBX[3.1='GLU'].5.1`.
+ * @internal
+ */
+const _target = (message: Message, path: string): { segments: Segment[], path: string } => {
+  const dot = _end(path)
+  const field = path.slice(dot + 1)
+  if (dot === path.length || !FIELD_PATH.test(field)) {
+    throw new HL7FatalError(`Invalid path ${path}. It must have a field, component, or sub-component, like PID.3.1.`)
+  }
+  return { segments: _segments(message, path.slice(0, dot)), path: field }
+}
+
+/**
+ * The segments of a segment query, where a segment without `[ ]` is all of them.
+ * @internal
+ */
+const _segments = (message: Message, query: string): Segment[] => {
+  if (_end(query) !== query.length) {
+    throw new HL7FatalError(`Invalid segment ${query}. It must be a segment, like ZPD or OBX[3.1='GLU'].`)
+  }
+  // checked first, so the error is about the query that was given
+  parseQuery(query)
+  return queryNodes(message.toArray(), query.includes('[') ? query : `${query}[*]`) as Segment[]
+}
+
+/**
+ * Where the segment part of a path ends, at the first dot that is not inside of `[ ]`.
+ * @internal
+ */
+const _end = (path: string): number => {
+  let depth = 0
+  let quote: string | undefined
+  for (let i = 0; i < path.length; i++) {
+    const character = path[i]
+    if (typeof quote !== 'undefined') {
+      if (character === quote) {
+        quote = undefined
+      }
+    } else if (character === "'" || character === '"') {
+      quote = character
+    } else if (character === '[') {
+      depth++
+    } else if (character === ']') {
+      depth--
+    } else if (character === '.' && depth === 0) {
+      return i
+    }
+  }
+  return path.length
+}
+
+/** @internal */
+const _raw = (segment: Segment, path: string): string => {
+  const node = segment.get(path)
+  return node.isEmpty() ? '' : node.toRaw()
+}
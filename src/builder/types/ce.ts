@@ -0,0 +1,72 @@
+import { DataType } from './dataType.js'
+
+/**
+ * Coded Element (CE)
+ * @description A code, its text, and the coding system it is from.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class CE extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'CE'
+
+  /** Identifier (CE.1)
+   * @since 2.4.0 */
+  get identifier (): string {
+    return this.getComponent(1)
+  }
+
+  set identifier (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Text (CE.2)
+   * @since 2.4.0 */
+  get text (): string {
+    return this.getComponent(2)
+  }
+
+  set text (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** Name of Coding System (CE.3)
+   * @since 2.4.0 */
+  get nameOfCodingSystem (): string {
+    return this.getComponent(3)
+  }
+
+  set nameOfCodingSystem (value: string) {
+    this.setComponent(3, value)
+  }
+
+  /** Alternate Identifier (CE.4)
+   * @since 2.4.0 */
+  get alternateIdentifier (): string {
+    return this.getComponent(4)
+  }
+
+  set alternateIdentifier (value: string) {
+    this.setComponent(4, value)
+  }
+
+  /** Alternate Text (CE.5)
+   * @since 2.4.0 */
+  get alternateText (): string {
+    return this.getComponent(5)
+  }
+
+  set alternateText (value: string) {
+    this.setComponent(5, value)
+  }
+
+  /** Name of Alternate Coding System (CE.6)
+   * @since 2.4.0 */
+  get nameOfAlternateCodingSystem (): string {
+    return this.getComponent(6)
+  }
+
+  set nameOfAlternateCodingSystem (value: string) {
+    this.setComponent(6, value)
+  }
+}
@@ -0,0 +1,42 @@
+import { CE } from './ce.js'
+
+/**
+ * Coded with Exceptions (CWE)
+ * @description A code, its text, and the coding system it is from. Replaces {@link CE} from HL7 v2.6 onward.
+ * @since 2.4.0
+ * @extends CE
+ */
+export class CWE extends CE {
+  /** @since 2.4.0 */
+  static readonly code: string = 'CWE'
+
+  /** Coding System Version ID (CWE.7)
+   * @since 2.4.0 */
+  get codingSystemVersionId (): string {
+    return this.getComponent(7)
+  }
+
+  set codingSystemVersionId (value: string) {
+    this.setComponent(7, value)
+  }
+
+  /** Alternate Coding System Version ID (CWE.8)
+   * @since 2.4.0 */
+  get alternateCodingSystemVersionId (): string {
+    return this.getComponent(8)
+  }
+
+  set alternateCodingSystemVersionId (value: string) {
+    this.setComponent(8, value)
+  }
+
+  /** Original Text (CWE.9)
+   * @since 2.4.0 */
+  get originalText (): string {
+    return this.getComponent(9)
+  }
+
+  set originalText (value: string) {
+    this.setComponent(9, value)
+  }
+}
@@ -0,0 +1,98 @@
+import { CWE } from './cwe.js'
+import { DataType } from './dataType.js'
+import { HD } from './hd.js'
+
+/**
+ * Extended Composite ID with Check Digit (CX)
+ * @description An identifier, like a medical record number, along with who assigned it.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class CX extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'CX'
+
+  /** ID Number (CX.1)
+   * @since 2.4.0 */
+  get idNumber (): string {
+    return this.getComponent(1)
+  }
+
+  set idNumber (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Check Digit (CX.2)
+   * @since 2.4.0 */
+  get checkDigit (): string {
+    return this.getComponent(2)
+  }
+
+  set checkDigit (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** Check Digit Scheme (CX.3)
+   * @since 2.4.0 */
+  get checkDigitScheme (): string {
+    return this.getComponent(3)
+  }
+
+  set checkDigitScheme (value: string) {
+    this.setComponent(3, value)
+  }
+
+  /** Assigning Authority (CX.4)
+   * @since 2.4.0 */
+  get assigningAuthority (): HD {
+    return this._type(4, HD)
+  }
+
+  /** Identifier Type Code (CX.5)
+   * @since 2.4.0 */
+  get identifierTypeCode (): string {
+    return this.getComponent(5)
+  }
+
+  set identifierTypeCode (value: string) {
+    this.setComponent(5, value)
+  }
+
+  /** Assigning Facility (CX.6)
+   * @since 2.4.0 */
+  get assigningFacility (): HD {
+    return this._type(6, HD)
+  }
+
+  /** Effective Date (CX.7)
+   * @since 2.4.0 */
+  get effectiveDate (): string {
+    return this.getComponent(7)
+  }
+
+  set effectiveDate (value: string) {
+    this.setComponent(7, value)
+  }
+
+  /** Expiration Date (CX.8)
+   * @since 2.4.0 */
+  get expirationDate (): string {
+    return this.getComponent(8)
+  }
+
+  set expirationDate (value: string) {
+    this.setComponent(8, value)
+  }
+
+  /** Assigning Jurisdiction (CX.9)
+   * @since 2.4.0 */
+  get assigningJurisdiction (): CWE {
+    return this._type(9, CWE)
+  }
+
+  /** Assigning Agency or Department (CX.10)
+   * @since 2.4.0 */
+  get assigningAgencyOrDepartment (): CWE {
+    return this._type(10, CWE)
+  }
+}
@@ -0,0 +1,135 @@
+import { HL7FatalError } from '../../utils/exception.js'
+import { HL7Node } from '../interface/hL7Node.js'
+
+/**
+ * Node Accessor
+ * @description How a data type finds the node it is reading from or writing to.
+ * `get` returns the node if it is there (or an empty node if it is not),
+ * and `ensure` creates it, and every node above it, so it can be written to.
+ * @since 2.4.0
+ * @internal
+ */
+export interface NodeAccessor {
+  get: () => HL7Node
+  ensure: () => HL7Node
+}
+
+/**
+ * Data Type Class
+ * @description The constructor of a {@link DataType}.
+ * @since 2.4.0
+ */
+export interface DataTypeClass<T extends DataType> {
+  new (accessor: NodeAccessor): T
+  /** The HL7 code of the data type, like `XPN`. */
+  readonly code: string
+}
+
+/**
+ * Data Type Values
+ * @description The components of a {@link DataType} that can be written, by name, for {@link DataType.set}.
+ * @since 2.4.0
+ */
+export type DataTypeValues<T extends DataType> = {
+  [K in keyof T as T[K] extends string ? K : never]?: string
+}
+
+/**
+ * Data Type
+ * @description The base of every composite HL7 data type, like XPN or CX.
+ * A data type does not hold a copy of the values.
+ * It reads from and writes to the field repetition or component it sits on,
+ * so it always agrees with the {@link Message} it came from.
+ * @since 2.4.0
+ */
+export class DataType {
+  /** The HL7 code of the data type.
+   * @since 2.4.0 */
+  static readonly code: string = ''
+  /** @internal */
+  protected readonly _accessor: NodeAccessor
+
+  /** @internal */
+  constructor (accessor: NodeAccessor) {
+    this._accessor = accessor
+  }
+
+  /**
+   * Get Component
+   * @description Read a component by its position, for components that do not have a name.
+   * @since 2.4.0
+   * @param index Starting from 1.
+   */
+  getComponent (index: number): string {
+    return this._accessor.get().get(index - 1).toString()
+  }
+
+  /**
+   * Set Component
+   * @description Write a component by its position.
+   * Any delimiters in the value are escaped.
+   * @since 2.4.0
+   * @param index Starting from 1.
+   * @param value
+   */
+  setComponent (index: number, value: string): void {
+    this._accessor.ensure().set(index - 1, value)
+  }
+
+  /**
+   * Set
+   * @description Write more than one component at once, by name.
+   * Components that are not in `values` are left as they are.
+   * @since 2.4.0
+   * @param values
+   * @example
+   * ```ts
+   * message.set('PID.5').as(XPN).set({ familyName: 'Doe', givenName: 'John' })
+   * ```
+   */
+  set (values: DataTypeValues<this>): this {
+    for (const [name, value] of Object.entries(values)) {
+      if (!this._hasSetter(name)) {
+        throw new HL7FatalError(`${(this.constructor as DataTypeClass<DataType>).code} has no component named ${name}.`)
+      }
+      (this as any)[name] = value
+    }
+    return this
+  }
+
+  /**
+   * Is Empty
+   * @since 2.4.0
+   */
+  isEmpty (): boolean {
+    return this._accessor.get().isEmpty()
+  }
+
+  /**
+   * To String
+   * @description The raw text of the data type, with its delimiters.
+   * @since 2.4.0
+   */
+  toString (): string {
+    const node = this._accessor.get()
+    return node.isEmpty() ? '' : node.toRaw()
+  }
+
+  /** @internal */
+  private _hasSetter (name: string): boolean {
+    for (let prototype = Object.getPrototypeOf(this); prototype !== DataType.prototype; prototype = Object.getPrototypeOf(prototype)) {
+      if (typeof Object.getOwnPropertyDescriptor(prototype, name)?.set !== 'undefined') {
+        return true
+      }
+    }
+    return false
+  }
+
+  /** @internal */
+  protected _type<T extends DataType> (index: number, Type: DataTypeClass<T>): T {
+    return new Type({
+      get: () => this._accessor.get().get(index - 1),
+      ensure: () => this._accessor.ensure().set(index - 1)
+    })
+  }
+}
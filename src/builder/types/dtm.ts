@@ -0,0 +1,61 @@
+import { HL7DateTime } from '../../utils/dateTime.js'
+import { HL7FatalError } from '../../utils/exception.js'
+import { DataType } from './dataType.js'
+
+/**
+ * Date/Time (DTM)
+ * @description A point in time, like `20081231` or `20081231153000`.
+ * When it is read from a time stamp (TS), which has the date/time as its first component,
+ * only the first component is read and written, so the degree of precision (TS.2) is kept.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class DTM extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'DTM'
+
+  /** The date/time as it is in the message.
+   * @since 2.4.0 */
+  get value (): string {
+    return this.getComponent(1)
+  }
+
+  set value (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /**
+   * To Date
+   * @description The date/time as a Date.
+   * @since 2.4.0
+   */
+  toDate (): Date {
+    if (this.value === '') {
+      throw new HL7FatalError('Invalid Date Format')
+    }
+    return this._accessor.get().get(0).toDate()
+  }
+
+  /**
+   * To Date Time
+   * @description The date/time with its precision and time zone offset.
+   * @since 2.4.0
+   */
+  toDateTime (): HL7DateTime {
+    if (this.value === '') {
+      throw new HL7FatalError('Invalid Date Format')
+    }
+    return this._accessor.get().get(0).toDateTime()
+  }
+
+  /**
+   * Set Date
+   * @description Write a Date, or an {@link HL7DateTime} to control the precision and offset.
+   * The time of a Date is left out if it is midnight.
+   * @since 2.4.0
+   * @param date
+   */
+  setDate (date: Date | HL7DateTime): void {
+    this._accessor.ensure().set(0, date)
+  }
+}
@@ -0,0 +1,52 @@
+import { DataType } from './dataType.js'
+
+/**
+ * Entity Identifier (EI)
+ * @description An identifier along with who assigned it, like an order number.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class EI extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'EI'
+
+  /** Entity Identifier (EI.1)
+   * @since 2.4.0 */
+  get entityIdentifier (): string {
+    return this.getComponent(1)
+  }
+
+  set entityIdentifier (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Namespace ID (EI.2)
+   * @since 2.4.0 */
+  get namespaceId (): string {
+    return this.getComponent(2)
+  }
+
+  set namespaceId (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** Universal ID (EI.3)
+   * @since 2.4.0 */
+  get universalId (): string {
+    return this.getComponent(3)
+  }
+
+  set universalId (value: string) {
+    this.setComponent(3, value)
+  }
+
+  /** Universal ID Type (EI.4)
+   * @since 2.4.0 */
+  get universalIdType (): string {
+    return this.getComponent(4)
+  }
+
+  set universalIdType (value: string) {
+    this.setComponent(4, value)
+  }
+}
@@ -0,0 +1,42 @@
+import { DataType } from './dataType.js'
+
+/**
+ * Hierarchic Designator (HD)
+ * @description Identifies the system, application, or facility that assigned an identifier.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class HD extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'HD'
+
+  /** Namespace ID (HD.1)
+   * @since 2.4.0 */
+  get namespaceId (): string {
+    return this.getComponent(1)
+  }
+
+  set namespaceId (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Universal ID (HD.2)
+   * @since 2.4.0 */
+  get universalId (): string {
+    return this.getComponent(2)
+  }
+
+  set universalId (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** Universal ID Type (HD.3)
+   * @since 2.4.0 */
+  get universalIdType (): string {
+    return this.getComponent(3)
+  }
+
+  set universalIdType (value: string) {
+    this.setComponent(3, value)
+  }
+}
@@ -0,0 +1,112 @@
+import { DataType } from './dataType.js'
+import { EI } from './ei.js'
+import { HD } from './hd.js'
+
+/**
+ * Person Location (PL)
+ * @description Where a patient is, like a room and bed.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class PL extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'PL'
+
+  /** Point of Care (PL.1)
+   * @since 2.4.0 */
+  get pointOfCare (): string {
+    return this.getComponent(1)
+  }
+
+  set pointOfCare (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Room (PL.2)
+   * @since 2.4.0 */
+  get room (): string {
+    return this.getComponent(2)
+  }
+
+  set room (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** Bed (PL.3)
+   * @since 2.4.0 */
+  get bed (): string {
+    return this.getComponent(3)
+  }
+
+  set bed (value: string) {
+    this.setComponent(3, value)
+  }
+
+  /** Facility (PL.4)
+   * @since 2.4.0 */
+  get facility (): HD {
+    return this._type(4, HD)
+  }
+
+  /** Location Status (PL.5)
+   * @since 2.4.0 */
+  get locationStatus (): string {
+    return this.getComponent(5)
+  }
+
+  set locationStatus (value: string) {
+    this.setComponent(5, value)
+  }
+
+  /** Person Location Type (PL.6)
+   * @since 2.4.0 */
+  get personLocationType (): string {
+    return this.getComponent(6)
+  }
+
+  set personLocationType (value: string) {
+    this.setComponent(6, value)
+  }
+
+  /** Building (PL.7)
+   * @since 2.4.0 */
+  get building (): string {
+    return this.getComponent(7)
+  }
+
+  set building (value: string) {
+    this.setComponent(7, value)
+  }
+
+  /** Floor (PL.8)
+   * @since 2.4.0 */
+  get floor (): string {
+    return this.getComponent(8)
+  }
+
+  set floor (value: string) {
+    this.setComponent(8, value)
+  }
+
+  /** Location Description (PL.9)
+   * @since 2.4.0 */
+  get locationDescription (): string {
+    return this.getComponent(9)
+  }
+
+  set locationDescription (value: string) {
+    this.setComponent(9, value)
+  }
+
+  /** Comprehensive Location Identifier (PL.10)
+   * @since 2.4.0 */
+  get comprehensiveLocationIdentifier (): EI {
+    return this._type(10, EI)
+  }
+
+  /** Assigning Authority for Location (PL.11)
+   * @since 2.4.0 */
+  get assigningAuthorityForLocation (): HD {
+    return this._type(11, HD)
+  }
+}
@@ -0,0 +1,52 @@
+import { DataType } from './dataType.js'
+
+/**
+ * Structured Numeric (SN)
+ * @description A number, a range, or a ratio, with an optional comparator, like `>^100`, `^1^-^10`, or `^1^:^128`.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class SN extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'SN'
+
+  /** Comparator (SN.1)
+   * @since 2.4.0 */
+  get comparator (): string {
+    return this.getComponent(1)
+  }
+
+  set comparator (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Num1 (SN.2)
+   * @since 2.4.0 */
+  get num1 (): string {
+    return this.getComponent(2)
+  }
+
+  set num1 (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** Separator/Suffix (SN.3)
+   * @since 2.4.0 */
+  get separatorSuffix (): string {
+    return this.getComponent(3)
+  }
+
+  set separatorSuffix (value: string) {
+    this.setComponent(3, value)
+  }
+
+  /** Num2 (SN.4)
+   * @since 2.4.0 */
+  get num2 (): string {
+    return this.getComponent(4)
+  }
+
+  set num2 (value: string) {
+    this.setComponent(4, value)
+  }
+}
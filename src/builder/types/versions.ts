@@ -0,0 +1,64 @@
+import { CWE } from './cwe.js'
+import { DataType, DataTypeClass } from './dataType.js'
+
+/**
+ * The data types that were replaced in a later HL7 version, what replaced them,
+ * and the class of the new one, if this package has one.
+ * @internal
+ */
+const REPLACED: Array<{ code: string, version: string, by: string, type?: DataTypeClass<DataType> }> = [
+  { code: 'CE', version: '2.6', by: 'CWE', type: CWE },
+  { code: 'TS', version: '2.7', by: 'DTM' }
+]
+
+/**
+ * Resolve Data Type Code
+ * @description The code of the data type to use for a message of an HL7 version,
+ * like `CWE` instead of `CE` from 2.6 onward, or `DTM` instead of `TS` from 2.7 onward.
+ * @since 2.4.0
+ * @internal
+ * @param code The code of the data type asked for.
+ * @param version The HL7 version of the message, from MSH-12. Empty if it is not known.
+ */
+export const resolveDataTypeCode = (code: string, version: string): string => {
+  return _replaced(code, version)?.by ?? code
+}
+
+/**
+ * Resolve Data Type
+ * @description The data type to use for a message of an HL7 version,
+ * like {@link CWE} instead of {@link CE} from 2.6 onward.
+ * The data type that is returned always extends the one asked for.
+ * @since 2.4.0
+ * @internal
+ * @param Type The data type asked for.
+ * @param version The HL7 version of the message, from MSH-12. Empty if it is not known.
+ */
+export const resolveDataType = <T extends DataType>(Type: DataTypeClass<T>, version: string): DataTypeClass<T> => {
+  const replaced = _replaced(Type.code, version)
+  if (typeof replaced?.type !== 'undefined' && replaced.type.prototype instanceof Type) {
+    return replaced.type as DataTypeClass<T>
+  }
+  return Type
+}
+
+/** @internal */
+const _replaced = (code: string, version: string): typeof REPLACED[number] | undefined => {
+  if (version === '') {
+    return undefined
+  }
+  return REPLACED.find(replaced => replaced.code === code && _compareVersion(version, replaced.version) >= 0)
+}
+
+/** @internal */
+const _compareVersion = (a: string, b: string): number => {
+  const left = a.split('.').map(part => parseInt(part))
+  const right = b.split('.').map(part => parseInt(part))
+  for (let i = 0, l = Math.max(left.length, right.length); i < l; i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0)
+    if (difference !== 0) {
+      return difference
+    }
+  }
+  return 0
+}
@@ -0,0 +1,152 @@
+import { DataType } from './dataType.js'
+
+/**
+ * Extended Address (XAD)
+ * @description A mailing or street address.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class XAD extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'XAD'
+
+  /** Street Address (XAD.1)
+   * @since 2.4.0 */
+  get streetAddress (): string {
+    return this.getComponent(1)
+  }
+
+  set streetAddress (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Other Designation (XAD.2)
+   * @since 2.4.0 */
+  get otherDesignation (): string {
+    return this.getComponent(2)
+  }
+
+  set otherDesignation (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** City (XAD.3)
+   * @since 2.4.0 */
+  get city (): string {
+    return this.getComponent(3)
+  }
+
+  set city (value: string) {
+    this.setComponent(3, value)
+  }
+
+  /** State or Province (XAD.4)
+   * @since 2.4.0 */
+  get stateOrProvince (): string {
+    return this.getComponent(4)
+  }
+
+  set stateOrProvince (value: string) {
+    this.setComponent(4, value)
+  }
+
+  /** Zip or Postal Code (XAD.5)
+   * @since 2.4.0 */
+  get zipOrPostalCode (): string {
+    return this.getComponent(5)
+  }
+
+  set zipOrPostalCode (value: string) {
+    this.setComponent(5, value)
+  }
+
+  /** Country (XAD.6)
+   * @since 2.4.0 */
+  get country (): string {
+    return this.getComponent(6)
+  }
+
+  set country (value: string) {
+    this.setComponent(6, value)
+  }
+
+  /** Address Type (XAD.7)
+   * @since 2.4.0 */
+  get addressType (): string {
+    return this.getComponent(7)
+  }
+
+  set addressType (value: string) {
+    this.setComponent(7, value)
+  }
+
+  /** Other Geographic Designation (XAD.8)
+   * @since 2.4.0 */
+  get otherGeographicDesignation (): string {
+    return this.getComponent(8)
+  }
+
+  set otherGeographicDesignation (value: string) {
+    this.setComponent(8, value)
+  }
+
+  /** County/Parish Code (XAD.9)
+   * @since 2.4.0 */
+  get countyParishCode (): string {
+    return this.getComponent(9)
+  }
+
+  set countyParishCode (value: string) {
+    this.setComponent(9, value)
+  }
+
+  /** Census Tract (XAD.10)
+   * @since 2.4.0 */
+  get censusTract (): string {
+    return this.getComponent(10)
+  }
+
+  set censusTract (value: string) {
+    this.setComponent(10, value)
+  }
+
+  /** Address Representation Code (XAD.11)
+   * @since 2.4.0 */
+  get addressRepresentationCode (): string {
+    return this.getComponent(11)
+  }
+
+  set addressRepresentationCode (value: string) {
+    this.setComponent(11, value)
+  }
+
+  /** Address Validity Range (XAD.12)
+   * @since 2.4.0 */
+  get addressValidityRange (): string {
+    return this.getComponent(12)
+  }
+
+  set addressValidityRange (value: string) {
+    this.setComponent(12, value)
+  }
+
+  /** Effective Date (XAD.13)
+   * @since 2.4.0 */
+  get effectiveDate (): string {
+    return this.getComponent(13)
+  }
+
+  set effectiveDate (value: string) {
+    this.setComponent(13, value)
+  }
+
+  /** Expiration Date (XAD.14)
+   * @since 2.4.0 */
+  get expirationDate (): string {
+    return this.getComponent(14)
+  }
+
+  set expirationDate (value: string) {
+    this.setComponent(14, value)
+  }
+}
@@ -0,0 +1,225 @@
+import { CE } from './ce.js'
+import { CWE } from './cwe.js'
+import { DataType } from './dataType.js'
+import { HD } from './hd.js'
+
+/**
+ * Extended Composite ID Number and Name for Persons (XCN)
+ * @description An identifier and the name of a person, like a provider.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class XCN extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'XCN'
+
+  /** ID Number (XCN.1)
+   * @since 2.4.0 */
+  get idNumber (): string {
+    return this.getComponent(1)
+  }
+
+  set idNumber (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Family Name (XCN.2)
+   * @since 2.4.0 */
+  get familyName (): string {
+    return this.getComponent(2)
+  }
+
+  set familyName (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** Given Name (XCN.3)
+   * @since 2.4.0 */
+  get givenName (): string {
+    return this.getComponent(3)
+  }
+
+  set givenName (value: string) {
+    this.setComponent(3, value)
+  }
+
+  /** Second and Further Given Names or Initials Thereof (XCN.4)
+   * @since 2.4.0 */
+  get secondNames (): string {
+    return this.getComponent(4)
+  }
+
+  set secondNames (value: string) {
+    this.setComponent(4, value)
+  }
+
+  /** Suffix (XCN.5)
+   * @since 2.4.0 */
+  get suffix (): string {
+    return this.getComponent(5)
+  }
+
+  set suffix (value: string) {
+    this.setComponent(5, value)
+  }
+
+  /** Prefix (XCN.6)
+   * @since 2.4.0 */
+  get prefix (): string {
+    return this.getComponent(6)
+  }
+
+  set prefix (value: string) {
+    this.setComponent(6, value)
+  }
+
+  /** Degree (XCN.7)
+   * @since 2.4.0 */
+  get degree (): string {
+    return this.getComponent(7)
+  }
+
+  set degree (value: string) {
+    this.setComponent(7, value)
+  }
+
+  /** Source Table (XCN.8)
+   * @since 2.4.0 */
+  get sourceTable (): string {
+    return this.getComponent(8)
+  }
+
+  set sourceTable (value: string) {
+    this.setComponent(8, value)
+  }
+
+  /** Assigning Authority (XCN.9)
+   * @since 2.4.0 */
+  get assigningAuthority (): HD {
+    return this._type(9, HD)
+  }
+
+  /** Name Type Code (XCN.10)
+   * @since 2.4.0 */
+  get nameTypeCode (): string {
+    return this.getComponent(10)
+  }
+
+  set nameTypeCode (value: string) {
+    this.setComponent(10, value)
+  }
+
+  /** Identifier Check Digit (XCN.11)
+   * @since 2.4.0 */
+  get identifierCheckDigit (): string {
+    return this.getComponent(11)
+  }
+
+  set identifierCheckDigit (value: string) {
+    this.setComponent(11, value)
+  }
+
+  /** Check Digit Scheme (XCN.12)
+   * @since 2.4.0 */
+  get checkDigitScheme (): string {
+    return this.getComponent(12)
+  }
+
+  set checkDigitScheme (value: string) {
+    this.setComponent(12, value)
+  }
+
+  /** Identifier Type Code (XCN.13)
+   * @since 2.4.0 */
+  get identifierTypeCode (): string {
+    return this.getComponent(13)
+  }
+
+  set identifierTypeCode (value: string) {
+    this.setComponent(13, value)
+  }
+
+  /** Assigning Facility (XCN.14)
+   * @since 2.4.0 */
+  get assigningFacility (): HD {
+    return this._type(14, HD)
+  }
+
+  /** Name Representation Code (XCN.15)
+   * @since 2.4.0 */
+  get nameRepresentationCode (): string {
+    return this.getComponent(15)
+  }
+
+  set nameRepresentationCode (value: string) {
+    this.setComponent(15, value)
+  }
+
+  /** Name Context (XCN.16)
+   * @since 2.4.0 */
+  get nameContext (): CE {
+    return this._type(16, CE)
+  }
+
+  /** Name Validity Range (XCN.17)
+   * @since 2.4.0 */
+  get nameValidityRange (): string {
+    return this.getComponent(17)
+  }
+
+  set nameValidityRange (value: string) {
+    this.setComponent(17, value)
+  }
+
+  /** Name Assembly Order (XCN.18)
+   * @since 2.4.0 */
+  get nameAssemblyOrder (): string {
+    return this.getComponent(18)
+  }
+
+  set nameAssemblyOrder (value: string) {
+    this.setComponent(18, value)
+  }
+
+  /** Effective Date (XCN.19)
+   * @since 2.4.0 */
+  get effectiveDate (): string {
+    return this.getComponent(19)
+  }
+
+  set effectiveDate (value: string) {
+    this.setComponent(19, value)
+  }
+
+  /** Expiration Date (XCN.20)
+   * @since 2.4.0 */
+  get expirationDate (): string {
+    return this.getComponent(20)
+  }
+
+  set expirationDate (value: string) {
+    this.setComponent(20, value)
+  }
+
+  /** Professional Suffix (XCN.21)
+   * @since 2.4.0 */
+  get professionalSuffix (): string {
+    return this.getComponent(21)
+  }
+
+  set professionalSuffix (value: string) {
+    this.setComponent(21, value)
+  }
+
+  /** Assigning Jurisdiction (XCN.22)
+   * @since 2.4.0 */
+  get assigningJurisdiction (): CWE {
+    return this._type(22, CWE)
+  }
+
+  /** Assigning Agency or Department (XCN.23)
+   * @since 2.4.0 */
+  get assigningAgencyOrDepartment (): CWE {
+    return this._type(23, CWE)
+  }
+}
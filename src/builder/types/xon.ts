@@ -0,0 +1,105 @@
+import { DataType } from './dataType.js'
+import { HD } from './hd.js'
+
+/**
+ * Extended Composite Name and Identification Number for Organizations (XON)
+ * @description The name and identifier of an organization.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class XON extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'XON'
+
+  /** Organization Name (XON.1)
+   * @since 2.4.0 */
+  get organizationName (): string {
+    return this.getComponent(1)
+  }
+
+  set organizationName (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Organization Name Type Code (XON.2)
+   * @since 2.4.0 */
+  get organizationNameTypeCode (): string {
+    return this.getComponent(2)
+  }
+
+  set organizationNameTypeCode (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** ID Number (XON.3)
+   * @since 2.4.0 */
+  get idNumber (): string {
+    return this.getComponent(3)
+  }
+
+  set idNumber (value: string) {
+    this.setComponent(3, value)
+  }
+
+  /** Check Digit (XON.4)
+   * @since 2.4.0 */
+  get checkDigit (): string {
+    return this.getComponent(4)
+  }
+
+  set checkDigit (value: string) {
+    this.setComponent(4, value)
+  }
+
+  /** Check Digit Scheme (XON.5)
+   * @since 2.4.0 */
+  get checkDigitScheme (): string {
+    return this.getComponent(5)
+  }
+
+  set checkDigitScheme (value: string) {
+    this.setComponent(5, value)
+  }
+
+  /** Assigning Authority (XON.6)
+   * @since 2.4.0 */
+  get assigningAuthority (): HD {
+    return this._type(6, HD)
+  }
+
+  /** Identifier Type Code (XON.7)
+   * @since 2.4.0 */
+  get identifierTypeCode (): string {
+    return this.getComponent(7)
+  }
+
+  set identifierTypeCode (value: string) {
+    this.setComponent(7, value)
+  }
+
+  /** Assigning Facility (XON.8)
+   * @since 2.4.0 */
+  get assigningFacility (): HD {
+    return this._type(8, HD)
+  }
+
+  /** Name Representation Code (XON.9)
+   * @since 2.4.0 */
+  get nameRepresentationCode (): string {
+    return this.getComponent(9)
+  }
+
+  set nameRepresentationCode (value: string) {
+    this.setComponent(9, value)
+  }
+
+  /** Organization Identifier (XON.10)
+   * @since 2.4.0 */
+  get organizationIdentifier (): string {
+    return this.getComponent(10)
+  }
+
+  set organizationIdentifier (value: string) {
+    this.setComponent(10, value)
+  }
+}
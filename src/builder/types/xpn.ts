@@ -0,0 +1,149 @@
+import { CE } from './ce.js'
+import { DataType } from './dataType.js'
+
+/**
+ * Extended Person Name (XPN)
+ * @description A name of a person.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class XPN extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'XPN'
+
+  /** Family Name (XPN.1)
+   * @since 2.4.0 */
+  get familyName (): string {
+    return this.getComponent(1)
+  }
+
+  set familyName (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Given Name (XPN.2)
+   * @since 2.4.0 */
+  get givenName (): string {
+    return this.getComponent(2)
+  }
+
+  set givenName (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** Second and Further Given Names or Initials Thereof (XPN.3)
+   * @since 2.4.0 */
+  get secondNames (): string {
+    return this.getComponent(3)
+  }
+
+  set secondNames (value: string) {
+    this.setComponent(3, value)
+  }
+
+  /** Suffix (XPN.4)
+   * @since 2.4.0 */
+  get suffix (): string {
+    return this.getComponent(4)
+  }
+
+  set suffix (value: string) {
+    this.setComponent(4, value)
+  }
+
+  /** Prefix (XPN.5)
+   * @since 2.4.0 */
+  get prefix (): string {
+    return this.getComponent(5)
+  }
+
+  set prefix (value: string) {
+    this.setComponent(5, value)
+  }
+
+  /** Degree (XPN.6)
+   * @since 2.4.0 */
+  get degree (): string {
+    return this.getComponent(6)
+  }
+
+  set degree (value: string) {
+    this.setComponent(6, value)
+  }
+
+  /** Name Type Code (XPN.7)
+   * @since 2.4.0 */
+  get nameTypeCode (): string {
+    return this.getComponent(7)
+  }
+
+  set nameTypeCode (value: string) {
+    this.setComponent(7, value)
+  }
+
+  /** Name Representation Code (XPN.8)
+   * @since 2.4.0 */
+  get nameRepresentationCode (): string {
+    return this.getComponent(8)
+  }
+
+  set nameRepresentationCode (value: string) {
+    this.setComponent(8, value)
+  }
+
+  /** Name Context (XPN.9)
+   * @since 2.4.0 */
+  get nameContext (): CE {
+    return this._type(9, CE)
+  }
+
+  /** Name Validity Range (XPN.10)
+   * @since 2.4.0 */
+  get nameValidityRange (): string {
+    return this.getComponent(10)
+  }
+
+  set nameValidityRange (value: string) {
+    this.setComponent(10, value)
+  }
+
+  /** Name Assembly Order (XPN.11)
+   * @since 2.4.0 */
+  get nameAssemblyOrder (): string {
+    return this.getComponent(11)
+  }
+
+  set nameAssemblyOrder (value: string) {
+    this.setComponent(11, value)
+  }
+
+  /** Effective Date (XPN.12)
+   * @since 2.4.0 */
+  get effectiveDate (): string {
+    return this.getComponent(12)
+  }
+
+  set effectiveDate (value: string) {
+    this.setComponent(12, value)
+  }
+
+  /** Expiration Date (XPN.13)
+   * @since 2.4.0 */
+  get expirationDate (): string {
+    return this.getComponent(13)
+  }
+
+  set expirationDate (value: string) {
+    this.setComponent(13, value)
+  }
+
+  /** Professional Suffix (XPN.14)
+   * @since 2.4.0 */
+  get professionalSuffix (): string {
+    return this.getComponent(14)
+  }
+
+  set professionalSuffix (value: string) {
+    this.setComponent(14, value)
+  }
+}
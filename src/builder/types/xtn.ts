@@ -0,0 +1,132 @@
+import { DataType } from './dataType.js'
+
+/**
+ * Extended Telecommunication Number (XTN)
+ * @description A phone number or email address.
+ * @since 2.4.0
+ * @extends DataType
+ */
+export class XTN extends DataType {
+  /** @since 2.4.0 */
+  static readonly code: string = 'XTN'
+
+  /** Telephone Number (XTN.1)
+   * @since 2.4.0 */
+  get telephoneNumber (): string {
+    return this.getComponent(1)
+  }
+
+  set telephoneNumber (value: string) {
+    this.setComponent(1, value)
+  }
+
+  /** Telecommunication Use Code (XTN.2)
+   * @since 2.4.0 */
+  get telecommunicationUseCode (): string {
+    return this.getComponent(2)
+  }
+
+  set telecommunicationUseCode (value: string) {
+    this.setComponent(2, value)
+  }
+
+  /** Telecommunication Equipment Type (XTN.3)
+   * @since 2.4.0 */
+  get telecommunicationEquipmentType (): string {
+    return this.getComponent(3)
+  }
+
+  set telecommunicationEquipmentType (value: string) {
+    this.setComponent(3, value)
+  }
+
+  /** Email Address (XTN.4)
+   * @since 2.4.0 */
+  get emailAddress (): string {
+    return this.getComponent(4)
+  }
+
+  set emailAddress (value: string) {
+    this.setComponent(4, value)
+  }
+
+  /** Country Code (XTN.5)
+   * @since 2.4.0 */
+  get countryCode (): string {
+    return this.getComponent(5)
+  }
+
+  set countryCode (value: string) {
+    this.setComponent(5, value)
+  }
+
+  /** Area/City Code (XTN.6)
+   * @since 2.4.0 */
+  get areaCityCode (): string {
+    return this.getComponent(6)
+  }
+
+  set areaCityCode (value: string) {
+    this.setComponent(6, value)
+  }
+
+  /** Local Number (XTN.7)
+   * @since 2.4.0 */
+  get localNumber (): string {
+    return this.getComponent(7)
+  }
+
+  set localNumber (value: string) {
+    this.setComponent(7, value)
+  }
+
+  /** Extension (XTN.8)
+   * @since 2.4.0 */
+  get extension (): string {
+    return this.getComponent(8)
+  }
+
+  set extension (value: string) {
+    this.setComponent(8, value)
+  }
+
+  /** Any Text (XTN.9)
+   * @since 2.4.0 */
+  get anyText (): string {
+    return this.getComponent(9)
+  }
+
+  set anyText (value: string) {
+    this.setComponent(9, value)
+  }
+
+  /** Extension Prefix (XTN.10)
+   * @since 2.4.0 */
+  get extensionPrefix (): string {
+    return this.getComponent(10)
+  }
+
+  set extensionPrefix (value: string) {
+    this.setComponent(10, value)
+  }
+
+  /** Speed Dial Code (XTN.11)
+   * @since 2.4.0 */
+  get speedDialCode (): string {
+    return this.getComponent(11)
+  }
+
+  set speedDialCode (value: string) {
+    this.setComponent(11, value)
+  }
+
+  /** Unformatted Telephone Number (XTN.12)
+   * @since 2.4.0 */
+  get unformattedTelephoneNumber (): string {
+    return this.getComponent(12)
+  }
+
+  set unformattedTelephoneNumber (value: string) {
+    this.setComponent(12, value)
+  }
+}
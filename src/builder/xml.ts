@@ -0,0 +1,496 @@
+import { HL7ParserError } from '../utils/exception.js'
+import type { HL7_SPEC } from '../specification/specification.js'
+import { structureName } from '../specification/validation.js'
+import { messageSpecification } from '../specification/versions.js'
+import { resolveDataTypeCode } from './types/versions.js'
+import type { Message } from './message.js'
+
+/**
+ * HL7 XML Options
+ * @description How {@link Message.toXML} writes the v2.xml encoding.
+ * @since 2.4.0
+ */
+export interface HL7XMLOptions {
+  /** Put each segment, field, and component on its own line, indented with this, like two spaces.
+   * @default undefined, for everything on one line */
+  indent?: string
+  /** The specification that has the field data types and the XML namespace.
+   * @default The specification of the message, or of the version in MSH-12 if it was parsed. */
+  specification?: HL7_SPEC
+}
+
+/** @internal */
+interface XMLElement {
+  name: string
+  attributes: Record<string, string>
+  children: Array<XMLElement | string>
+}
+
+/**
+ * The data types that always have components in v2.xml, even if only the first one has a value.
+ * @internal
+ */
+const COMPOSITES = new Set([
+  'CE', 'CNE', 'CP', 'CQ', 'CWE', 'CX', 'DLD', 'DLN', 'DR', 'EI', 'EIP', 'ERL', 'FC', 'FN', 'HD', 'JCC',
+  'MO', 'MSG', 'PL', 'PRL', 'PT', 'SAD', 'SN', 'TS', 'VID', 'XAD', 'XCN', 'XON', 'XPN', 'XTN'
+])
+
+/**
+ * The data types of components that have sub-components, by the data type they are in.
+ * @internal
+ */
+const COMPONENTS: Record<string, Record<number, string>> = {
+  CX: { 4: 'HD', 6: 'HD', 9: 'CWE', 10: 'CWE' },
+  EIP: { 1: 'EI', 2: 'EI' },
+  MSG: {},
+  PL: { 4: 'HD', 10: 'EI', 11: 'HD' },
+  PT: {},
+  TS: { 1: 'DTM' },
+  VID: { 2: 'CE', 3: 'CE' },
+  XAD: { 1: 'SAD' },
+  XCN: { 1: 'FN', 9: 'HD', 14: 'HD', 16: 'CE', 22: 'CWE', 23: 'CWE' },
+  XON: { 6: 'HD', 8: 'HD' },
+  XPN: { 1: 'FN', 9: 'CE' }
+}
+
+/** @internal */
+const HEADERS = ['MSH', 'BHS', 'FHS']
+
+/** @internal */
+const SEGMENT_NAME = /^[A-Z][A-Z0-9]{2}$/
+
+/**
+ * Encode a message in the HL7 v2.xml encoding.
+ * @since 2.4.0
+ * @internal
+ * @param message
+ * @param options
+ */
+export const messageToXML = (message: Message, options: HL7XMLOptions = {}): string => {
+  const specification = messageSpecification(message, options.specification)
+  const schema = specification.schema()
+  const version = message._version()
+  const delimiters = message.delimiters
+
+  const root = structureName(message, schema) ?? `${message.get('MSH.9.1').toString()}_${message.get('MSH.9.2').toString()}`
+
+  const segments = message.toArray().map(segment => {
+    const [name, ...fields] = segment.toRaw().split(delimiters[1])
+    const element: XMLElement = { name, attributes: {}, children: [] }
+    const header = HEADERS.includes(name)
+    if (header) {
+      // the delimiters are written as they are
+      element.children.push({ name: `${name}.1`, attributes: {}, children: [delimiters[1]] })
+      element.children.push({ name: `${name}.2`, attributes: {}, children: [fields.shift() ?? ''] })
+    }
+
+    const rules = schema.segments[name] ?? []
+    fields.forEach((field, index) => {
+      // the last field is kept even if it is empty, so the segment has the same number of fields when it comes back
+      if (field === '' && index < fields.length - 1) {
+        return
+      }
+      const position = index + (header ? 3 : 1)
+      const fieldName = `${name}.${position}`
+      let type = rules.find(rule => rule.field === position)?.type
+      if (type === 'varies' && name === 'OBX' && position === 5) {
+        // the value type of the observation
+        type = segment.get('2').toString()
+      }
+      for (const repetition of field.split(delimiters[3])) {
+        element.children.push({
+          name: fieldName,
+          attributes: {},
+          children: _composite(repetition, fieldName, _resolve(type, version), version, delimiters)
+        })
+      }
+    })
+    return element
+  })
+
+  const document: XMLElement = { name: root, attributes: { xmlns: specification.xmlNamespace() }, children: segments }
+  const separator = typeof options.indent !== 'undefined' ? '\n' : ''
+  return `<?xml version="1.0" encoding="UTF-8"?>${separator}${_write(document, options.indent, 0)}`
+}
+
+/**
+ * Decode a message from the HL7 v2.xml encoding into its ER7 (pipe and hat) text.
+ * @since 2.4.0
+ * @internal
+ * @param xml
+ */
+export const messageFromXML = (xml: string): string => {
+  const segments: XMLElement[] = []
+  _segments(_parse(xml), segments)
+
+  const header = segments[0]
+  if (typeof header === 'undefined' || header.name !== 'MSH') {
+    throw new HL7ParserError('XML must begin with the MSH segment.')
+  }
+  const field = _text(_children(header).find(child => child.name === 'MSH.1') ?? _empty('MSH.1'), '')
+  const characters = _text(_children(header).find(child => child.name === 'MSH.2') ?? _empty('MSH.2'), '')
+  if (field.length !== 1 || characters.length < 4) {
+    throw new HL7ParserError('MSH.1 and MSH.2 must have the delimiters of the message.')
+  }
+  // in the order of Delimiters
+  const delimiters = `\r${field}${characters[0]}${characters[1]}${characters[2]}${characters[3]}`
+
+  return segments.map(segment => {
+    const isHeader = HEADERS.includes(segment.name)
+    const fields: string[][] = []
+    for (const child of _children(segment)) {
+      const position = _position(child)
+      if (isHeader && position <= 2) {
+        continue
+      }
+      fields[position] = fields[position] ?? []
+      fields[position].push(_repetition(child, delimiters))
+    }
+    const values = Array.from(fields, (repetitions = []) => repetitions.join(delimiters[3])).slice(isHeader ? 3 : 1)
+    if (isHeader) {
+      return `${segment.name}${field}${[characters, ...values].join(field)}`
+    }
+    return [segment.name, ...values].join(field)
+  }).join('\r')
+}
+
+/** @internal */
+const _resolve = (type: string | undefined, version: string): string | undefined => {
+  return typeof type !== 'undefined' ? resolveDataTypeCode(type, version) : undefined
+}
+
+/**
+ * The children of a field repetition or a component.
+ * @internal
+ * @param text The text of the field repetition or component.
+ * @param name The name of the element it is in, for the names of its parts if the type is not known.
+ * @param type The data type, if it is known.
+ * @param version
+ * @param delimiters
+ * @param level 0 for a field, and 1 for a component.
+ */
+const _composite = (text: string, name: string, type: string | undefined, version: string, delimiters: string, level: number = 0): Array<XMLElement | string> => {
+  const delimiter = delimiters[level === 0 ? 2 : 5]
+  const parts = text.split(delimiter)
+  const hasParts = parts.length > 1 || (level === 0 && text.includes(delimiters[5]))
+  if (!hasParts && (typeof type === 'undefined' || !COMPOSITES.has(type))) {
+    return _leaf(text, delimiters)
+  }
+
+  const prefix = type ?? name
+  const children: XMLElement[] = []
+  parts.forEach((part, index) => {
+    if (part === '') {
+      return
+    }
+    const partName = `${prefix}.${index + 1}`
+    children.push({
+      name: partName,
+      attributes: {},
+      children: level === 0
+        ? _composite(part, partName, _resolve(typeof type !== 'undefined' ? COMPONENTS[type]?.[index + 1] : undefined, version), version, delimiters, 1)
+        : _leaf(part, delimiters)
+    })
+  })
+  return children
+}
+
+/**
+ * The text of a sub-component, with the escape sequences of the delimiters as the delimiters themselves,
+ * and any other escape sequence as an `escape` element.
+ * @internal
+ */
+const _leaf = (text: string, delimiters: string): Array<XMLElement | string> => {
+  const escape = delimiters[4]
+  const children: Array<XMLElement | string> = []
+  let rest = text
+  for (let start = rest.indexOf(escape); start !== -1; start = rest.indexOf(escape)) {
+    const end = rest.indexOf(escape, start + 1)
+    if (end === -1) {
+      break
+    }
+    const sequence = rest.slice(start + 1, end)
+    const character = { F: delimiters[1], S: delimiters[2], R: delimiters[3], E: delimiters[4], T: delimiters[5] }[sequence]
+    _pushText(children, rest.slice(0, start))
+    if (typeof character !== 'undefined') {
+      _pushText(children, character)
+    } else {
+      children.push({ name: 'escape', attributes: { V: sequence }, children: [] })
+    }
+    rest = rest.slice(end + 1)
+  }
+  _pushText(children, rest)
+  return children
+}
+
+/** @internal */
+const _pushText = (children: Array<XMLElement | string>, text: string): void => {
+  if (text === '') {
+    return
+  }
+  const last = children.length - 1
+  if (typeof children[last] === 'string') {
+    children[last] += text
+  } else {
+    children.push(text)
+  }
+}
+
+/**
+ * The segments of a message, from inside of any group elements.
+ * @internal
+ */
+const _segments = (element: XMLElement, segments: XMLElement[]): void => {
+  for (const child of _children(element)) {
+    if (SEGMENT_NAME.test(child.name)) {
+      segments.push(child)
+    } else {
+      _segments(child, segments)
+    }
+  }
+}
+
+/** @internal */
+const _repetition = (element: XMLElement, delimiters: string): string => {
+  const components = _children(element).filter(child => child.name !== 'escape')
+  if (components.length === 0) {
+    return _text(element, delimiters)
+  }
+  return _join(components, delimiters[2], component => {
+    const subComponents = _children(component).filter(child => child.name !== 'escape')
+    if (subComponents.length === 0) {
+      return _text(component, delimiters)
+    }
+    return _join(subComponents, delimiters[5], subComponent => _text(subComponent, delimiters))
+  })
+}
+
+/** @internal */
+const _join = (elements: XMLElement[], delimiter: string, value: (element: XMLElement) => string): string => {
+  const values: string[] = []
+  for (const element of elements) {
+    values[_position(element) - 1] = value(element)
+  }
+  return Array.from(values, text => text ?? '').join(delimiter)
+}
+
+/**
+ * The position of a field, component, or sub-component, from the number at the end of its name, like 5 for `PID.5`.
+ * @internal
+ */
+const _position = (element: XMLElement): number => {
+  const position = parseInt(element.name.slice(element.name.lastIndexOf('.') + 1))
+  if (isNaN(position) || position < 1) {
+    throw new HL7ParserError(`${element.name} does not end with a position.`)
+  }
+  return position
+}
+
+/**
+ * The text of an element, with the delimiters escaped, and `escape` elements as escape sequences.
+ * @internal
+ * @param element
+ * @param delimiters Empty to not escape anything.
+ */
+const _text = (element: XMLElement, delimiters: string): string => {
+  return element.children.map(child => {
+    if (typeof child !== 'string') {
+      return child.name === 'escape' ? `${delimiters[4]}${child.attributes.V ?? ''}${delimiters[4]}` : ''
+    }
+    if (delimiters === '') {
+      return child
+    }
+    return child.replace(/[\s\S]/g, character => {
+      switch (character) {
+        case delimiters[4]:
+          return `${delimiters[4]}E${delimiters[4]}`
+        case delimiters[1]:
+          return `${delimiters[4]}F${delimiters[4]}`
+        case delimiters[2]:
+          return `${delimiters[4]}S${delimiters[4]}`
+        case delimiters[3]:
+          return `${delimiters[4]}R${delimiters[4]}`
+        case delimiters[5]:
+          return `${delimiters[4]}T${delimiters[4]}`
+      }
+      return character
+    })
+  }).join('')
+}
+
+/** @internal */
+const _children = (element: XMLElement): XMLElement[] => {
+  return element.children.filter((child): child is XMLElement => typeof child !== 'string')
+}
+
+/** @internal */
+const _empty = (name: string): XMLElement => ({ name, attributes: {}, children: [] })
+
+/** @internal */
+const _escapeXML = (text: string): string => {
+  return text.replace(/[&<>"]/g, character => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[character] as string)
+}
+
+/** @internal */
+const _unescapeXML = (text: string): string => {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|amp|lt|gt|quot|apos);/g, (_match, entity: string) => {
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16))
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10))
+    }
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" })[entity] as string
+  })
+}
+
+/** @internal */
+const _write = (element: XMLElement, indent: string | undefined, depth: number): string => {
+  const attributes = Object.entries(element.attributes).map(([name, value]) => ` ${name}="${_escapeXML(value)}"`).join('')
+  if (element.children.length === 0) {
+    return `<${element.name}${attributes}/>`
+  }
+
+  let content: string
+  // only put elements that have other elements in them on their own lines, so the text is kept as it is
+  if (typeof indent !== 'undefined' && element.children.every(child => typeof child !== 'string' && child.name !== 'escape')) {
+    const children = element.children as XMLElement[]
+    content = children.map(child => `\n${indent.repeat(depth + 1)}${_write(child, indent, depth + 1)}`).join('') + `\n${indent.repeat(depth)}`
+  } else {
+    content = element.children.map(child => typeof child === 'string' ? _escapeXML(child) : _write(child, indent, depth + 1)).join('')
+  }
+  return `<${element.name}${attributes}>${content}</${element.name}>`
+}
+
+/**
+ * Parse an XML document into its root element.
+ * Only what v2.xml uses is supported: elements, attributes, text, CDATA, comments, and processing instructions.
+ * @internal
+ */
+const _parse = (xml: string): XMLElement => {
+  let position = 0
+
+  const fail = (reason: string): never => {
+    throw new HL7ParserError(`Invalid XML at position ${position}: ${reason}.`)
+  }
+
+  const skipTo = (end: string): void => {
+    const index = xml.indexOf(end, position)
+    if (index === -1) {
+      fail(`missing ${end}`)
+    }
+    position = index + end.length
+  }
+
+  const skipWhitespace = (): void => {
+    while (position < xml.length && /\s/.test(xml[position])) {
+      position++
+    }
+  }
+
+  const skipMisc = (): void => {
+    for (;;) {
+      skipWhitespace()
+      if (xml.startsWith('<?', position)) {
+        skipTo('?>')
+      } else if (xml.startsWith('<!--', position)) {
+        skipTo('-->')
+      } else if (xml.startsWith('<!DOCTYPE', position)) {
+        skipTo('>')
+      } else {
+        return
+      }
+    }
+  }
+
+  const readName = (): string => {
+    const match = /[^\s/>=]+/y
+    match.lastIndex = position
+    const found = match.exec(xml)
+    if (found === null) {
+      return fail('expected a name')
+    }
+    position = match.lastIndex
+    // the namespace prefix is not needed
+    return found[0].slice(found[0].indexOf(':') + 1)
+  }
+
+  const readElement = (): XMLElement => {
+    position++
+    const element: XMLElement = { name: readName(), attributes: {}, children: [] }
+
+    for (;;) {
+      skipWhitespace()
+      if (xml.startsWith('/>', position)) {
+        position += 2
+        return element
+      }
+      if (xml[position] === '>') {
+        position++
+        break
+      }
+      const name = readName()
+      skipWhitespace()
+      if (xml[position] !== '=') {
+        fail(`expected = after ${name}`)
+      }
+      position++
+      skipWhitespace()
+      const quote = xml[position]
+      if (quote !== '"' && quote !== "'") {
+        fail(`expected a quoted value for ${name}`)
+      }
+      const end = xml.indexOf(quote, position + 1)
+      if (end === -1) {
+        fail(`missing the end of the value of ${name}`)
+      }
+      element.attributes[name] = _unescapeXML(xml.slice(position + 1, end))
+      position = end + 1
+    }
+
+    for (;;) {
+      if (position >= xml.length) {
+        fail(`missing </${element.name}>`)
+      }
+      if (xml.startsWith('</', position)) {
+        position += 2
+        const name = readName()
+        if (name !== element.name) {
+          fail(`expected </${element.name}>, not </${name}>`)
+        }
+        skipWhitespace()
+        if (xml[position] !== '>') {
+          fail('expected >')
+        }
+        position++
+        return element
+      }
+      if (xml.startsWith('<!--', position)) {
+        skipTo('-->')
+      } else if (xml.startsWith('<![CDATA[', position)) {
+        const start = position + 9
+        skipTo(']]>')
+        _pushText(element.children, xml.slice(start, position - 3))
+      } else if (xml.startsWith('<?', position)) {
+        skipTo('?>')
+      } else if (xml[position] === '<') {
+        element.children.push(readElement())
+      } else {
+        const end = xml.indexOf('<', position)
+        _pushText(element.children, _unescapeXML(xml.slice(position, end === -1 ? xml.length : end)))
+        position = end === -1 ? xml.length : end
+      }
+    }
+  }
+
+  skipMisc()
+  if (xml[position] !== '<') {
+    fail('expected the root element')
+  }
+  const root = readElement()
+  skipMisc()
+  if (position < xml.length) {
+    fail('unexpected content after the root element')
+  }
+  return root
+}
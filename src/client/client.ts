@@ -1,5 +1,7 @@
 import EventEmitter from 'events'
+import net from 'net'
 import {
+  ClientEndpoint,
   ClientListenerOptions,
   ClientOptions,
   normalizeClientOptions,
@@ -7,16 +9,29 @@ import {
 } from '../utils/normalizedClient.js'
 import { Connection } from './connection.js'
 
+/* eslint-disable */
+export interface IClient extends EventEmitter {
+  /** The endpoint being used has changed. */
+  on(name: 'client.failover', cb: (endpoint: ClientEndpoint, previous: ClientEndpoint) => void): this;
+}
+/* eslint-enable */
+
 /**
  * Client Class
  * @description The main class that starts a client connection to a valid HL7 TCP/MLLP specified server.
  * @since 1.0.0 */
-export class Client extends EventEmitter {
+export class Client extends EventEmitter implements IClient {
   /** @internal */
   _opt: ReturnType<typeof normalizeClientOptions>
   /** @internal */
   _connections: Connection[]
   /** @internal */
+  private _endpointIndex: number
+  /** @internal */
+  private _roundRobinIndex: number
+  /** @internal */
+  private _failbackTimer: NodeJS.Timeout | undefined
+  /** @internal */
   readonly stats = {
     /** Total outbound connections able to connect to at this moment.
      * @since 1.1.0 */
@@ -44,6 +59,9 @@ export class Client extends EventEmitter {
     super()
     this._opt = normalizeClientOptions(props)
     this._connections = []
+    this._endpointIndex = 0
+    this._roundRobinIndex = 0
+    this._failbackTimer = undefined
   }
 
   /**
@@ -57,6 +75,9 @@ export class Client extends EventEmitter {
     })
     // reset!
     this._connections = []
+    this.stats._totalConnections = 0
+    clearTimeout(this._failbackTimer)
+    this._failbackTimer = undefined
   }
 
   /** Connect to a listener to a specified port.
@@ -74,12 +95,25 @@ export class Client extends EventEmitter {
   createConnection (props: ClientListenerOptions, cb: OutboundHandler): Connection {
     const outbound = new Connection(this, props, cb)
 
-    outbound.on('client.acknowledged', (total: number) => {
-      this.stats._totalAck = this.stats._totalAck + total
+    // each event is a single ack/send; the number passed is the running total for that connection
+    outbound.on('client.acknowledged', () => {
+      ++this.stats._totalAck
+    })
+
+    outbound.on('client.sent', () => {
+      ++this.stats._totalSent
+    })
+
+    outbound.on('connect', () => {
+      this._updateTotalConnections()
+    })
+
+    outbound.on('client.error', () => {
+      this._updateTotalConnections()
     })
 
-    outbound.on('client.sent', (total: number) => {
-      this.stats._totalSent = this.stats._totalSent + total
+    outbound.on('close', () => {
+      this._updateTotalConnections()
     })
 
     // add this connection
@@ -92,10 +126,106 @@ export class Client extends EventEmitter {
   /**
    * Get the host that we will connect to.
    * The port might be different from each different "connection"
+   * If {@link ClientOptions.endpoints} is set, this is the host of the active endpoint.
    * @since 1.1.0
    */
   getHost (): string {
-    return this._opt.host
+    return this._opt.endpoints[this._endpointIndex].host
+  }
+
+  /**
+   * Get the active endpoint.
+   * @description The endpoint that new sockets will connect to.
+   * Listen for the `client.failover` event to know when this changes.
+   * @since 2.4.0
+   */
+  getEndpoint (): ClientEndpoint {
+    return { ...this._opt.endpoints[this._endpointIndex] }
+  }
+
+  /**
+   * Select an endpoint for a new socket.
+   * @internal
+   * @return The index into the endpoints list.
+   */
+  _selectEndpoint (): number {
+    if (this._opt.failover === 'round-robin') {
+      const index = this._roundRobinIndex
+      this._roundRobinIndex = (index + 1) % this._opt.endpoints.length
+      this._setEndpoint(index)
+    }
+    return this._endpointIndex
+  }
+
+  /**
+   * A socket to an endpoint failed or was lost.
+   * @internal
+   * @param index The index into the endpoints list that the socket was using.
+   */
+  _endpointFailed (index: number): void {
+    // round-robin moves on every time anyway,
+    // and if another connection already moved us off this endpoint, there is nothing to do
+    if (this._opt.failover === 'round-robin' || index !== this._endpointIndex) {
+      return
+    }
+    this._setEndpoint((index + 1) % this._opt.endpoints.length)
+    if (this._opt.failover === 'priority' && this._endpointIndex !== 0) {
+      this._scheduleFailback()
+    }
+  }
+
+  /** @internal */
+  private _setEndpoint (index: number): void {
+    if (index === this._endpointIndex) {
+      return
+    }
+    const previous = this.getEndpoint()
+    this._endpointIndex = index
+    this.emit('client.failover', this.getEndpoint(), previous)
+  }
+
+  /** @internal */
+  private _scheduleFailback (): void {
+    if (typeof this._failbackTimer !== 'undefined' || this._connections.length === 0) {
+      return
+    }
+    this._failbackTimer = setTimeout(() => {
+      this._failbackTimer = undefined
+      this._probePrimary()
+    }, this._opt.failbackInterval)
+    // do not keep the process alive just to check the primary
+    this._failbackTimer.unref()
+  }
+
+  /** @internal */
+  private _probePrimary (): void {
+    if (this._endpointIndex === 0) {
+      return
+    }
+
+    const primary = this._opt.endpoints[0]
+    const port = primary.port ?? this._connections[0]?.getPort()
+    if (typeof port === 'undefined') {
+      this._scheduleFailback()
+      return
+    }
+
+    // a plain TCP connect is enough to know it is listening again
+    const socket = net.connect({ host: primary.host, port })
+    socket.setTimeout(this._opt.connectionTimeout, () => socket.destroy())
+    socket.on('connect', () => {
+      socket.destroy()
+      this._setEndpoint(0)
+      for (const connection of this._connections) {
+        connection._failback()
+      }
+    })
+    socket.on('error', () => { /* the close event will reschedule */ })
+    socket.on('close', () => {
+      if (this._endpointIndex !== 0) {
+        this._scheduleFailback()
+      }
+    })
   }
 
   /**
@@ -113,4 +243,17 @@ export class Client extends EventEmitter {
   totalSent (): number {
     return this.stats._totalSent
   }
+
+  /**
+   * Total sockets connected to the server at this moment, across every connection and pool.
+   * @since 2.4.0
+   */
+  totalConnections (): number {
+    return this.stats._totalConnections
+  }
+
+  /** @internal */
+  private _updateTotalConnections (): void {
+    this.stats._totalConnections = this._connections.reduce((total, connection) => total + connection.stats.connections, 0)
+  }
 }
@@ -8,10 +8,18 @@ import Message from '../builder/message.js'
 import { PROTOCOL_MLLP_FOOTER, PROTOCOL_MLLP_HEADER } from '../utils/constants.js'
 import { ReadyState } from '../utils/enum.js'
 import { HL7FatalError } from '../utils/exception.js'
-import { ClientListenerOptions, normalizeClientListenerOptions, OutboundHandler } from '../utils/normalizedClient.js'
-import { createDeferred, Deferred, expBackoff } from '../utils/utils.js'
+import { MLLPFramer } from '../utils/mllpFramer.js'
+import {
+  ClientListenerOptions,
+  normalizeClientListenerOptions,
+  normalizeSendMessageOptions,
+  OutboundHandler,
+  SendMessageOptions
+} from '../utils/normalizedClient.js'
+import { createDeferred, Deferred, expBackoff, isBatch, isFile, split } from '../utils/utils.js'
 import { Client } from './client.js'
 import { InboundResponse } from './module/inboundResponse.js'
+import { OutboundQueue } from './module/outboundQueue.js'
 
 /* eslint-disable */
 export interface IConnection extends EventEmitter {
@@ -25,8 +33,12 @@ export interface IConnection extends EventEmitter {
   on(name: 'open', cb: () => void): this;
   /** The total acknowledged for this connection. */
   on(name: 'client.acknowledged', cb: (number: number) => void): this;
-  /** The connection has an error. */
+  /** No ACK came back for a message, even after sending it again {@link ClientListenerOptions.ackRetries} times. */
+  on(name: 'client.ack.timeout', cb: (message: Message | Batch | FileBatch, err: HL7FatalError) => void): this;
+  /** The connection has an error, or a response could not be parsed and was dropped. */
   on(name: 'client.error', cb: (err: any) => void): this;
+  /** Data was received outside an MLLP frame and was discarded. */
+  on(name: 'client.garbage', cb: (data: Buffer) => void): this;
   /** The total sent for this connection. */
   on(name: 'client.sent', cb: (number: number) => void): this;
   /** The connection has timeout. Review "client.error" event for the reason. */
@@ -34,6 +46,34 @@ export interface IConnection extends EventEmitter {
 }
 /* eslint-enable */
 
+/** @internal */
+interface PendingResponse {
+  /** Settled when the matching response comes back. */
+  deferred: Deferred<InboundResponse>
+  /** Rejects the response if nothing came back in time. */
+  timer: NodeJS.Timeout
+}
+
+/** @internal */
+interface InFlight {
+  /** The MSH-10 of each message sent that is still waiting on an ACK. */
+  controlIds: string[]
+  /** The raw text that was written, so it can be sent again. */
+  message: string
+  /** What was passed to sendMessage, if it was not sent from the queue. */
+  source?: Message | Batch | FileBatch
+  /** The queue entry this was sent from, if the connection has a queue. */
+  queueId?: string
+  /** Set if any message within got a negative ACK. */
+  failure?: string
+  /** How many times this was sent again because no ACK came back. */
+  retries: number
+  /** Fires when no ACK came back within ackTimeout. */
+  timer?: NodeJS.Timeout
+  /** Settled when the ACK comes back, or when we give up waiting for it. */
+  acked?: Deferred<void>
+}
+
 /** Connection Class
  * @description Create a connection customer that will listen to result send to the particular port.
  * @since 1.0.0 */
@@ -61,7 +101,27 @@ export class Connection extends EventEmitter implements IConnection {
   /** @internal */
   _onConnect: Deferred<void>
   /** @internal */
-  private _awaitingResponse: boolean
+  private _inFlight: InFlight[]
+  /** @internal */
+  private _windowWaiters: Array<Deferred<void>>
+  /** @internal */
+  private readonly _framer: MLLPFramer
+  /** @internal */
+  private readonly _pendingResponses: Map<string, PendingResponse>
+  /** @internal */
+  private readonly _queue: OutboundQueue | undefined
+  /** @internal */
+  private _flushing: boolean
+  /** @internal */
+  private _socketGeneration: number
+  /** @internal */
+  private readonly _props: ClientListenerOptions
+  /** @internal */
+  private _members: Connection[]
+  /** @internal */
+  private _dispatching: number
+  /** @internal */
+  private _endpointIndex: number
   /** @internal */
   readonly stats = {
     /** Total acknowledged messages back from server.
@@ -69,7 +129,13 @@ export class Connection extends EventEmitter implements IConnection {
     acknowledged: 0,
     /** Total message sent to server.
      * @since 1.1.0 */
-    sent: 0
+    sent: 0,
+    /** Messages sent and still waiting on an ACK.
+     * @since 2.4.0 */
+    inFlight: 0,
+    /** Sockets currently connected to the server.
+     * @since 2.4.0 */
+    connections: 0
   }
 
   /**
@@ -88,9 +154,27 @@ export class Connection extends EventEmitter implements IConnection {
 
     this._handler = handler
     this._main = client
-    this._awaitingResponse = false
+    this._inFlight = []
+    this._windowWaiters = []
+    this._pendingResponses = new Map()
 
     this._opt = normalizeClientListenerOptions(client._opt, props)
+    this._props = props
+    this._members = []
+    this._dispatching = 0
+    this._endpointIndex = 0
+
+    this._flushing = false
+    this._socketGeneration = 0
+    this._queue = typeof this._opt.queueDirectory !== 'undefined' ? new OutboundQueue(this._opt.queueDirectory) : undefined
+
+    this._framer = new MLLPFramer(this._opt.encoding)
+    this._framer.on('frame', (frame: string) => {
+      this._onFrame(frame)
+    })
+    this._framer.on('garbage', (data: Buffer) => {
+      this.emit('client.garbage', data)
+    })
 
     this._connect = this._connect.bind(this)
 
@@ -101,7 +185,14 @@ export class Connection extends EventEmitter implements IConnection {
     this._connectionTimer = undefined
     this._onConnect = createDeferred(true)
 
-    if (this._opt.autoConnect) {
+    if (this._isPool()) {
+      // sockets are opened by the members of the pool as they are needed
+      this._readyState = this._opt.autoConnect ? ReadyState.CONNECTING : ReadyState.OPEN
+      this._socket = undefined
+      if (this._opt.autoConnect) {
+        this._addMember()
+      }
+    } else if (this._opt.autoConnect) {
       this._readyState = ReadyState.CONNECTING
       this.emit('connecting')
       this._socket = this._connect()
@@ -127,6 +218,17 @@ export class Connection extends EventEmitter implements IConnection {
       return // We are already closed. Nothing to do.
     }
 
+    if (this._isPool()) {
+      this._readyState = ReadyState.CLOSING
+      const members = this._members
+      this._members = []
+      await Promise.all(members.map(async member => await member.close()))
+      this._updatePoolStats()
+      this.emit('close')
+      this._readyState = ReadyState.CLOSED
+      return
+    }
+
     if (this._readyState === ReadyState.CLOSING) {
       return await new Promise(resolve => this._socket?.once('close', resolve))
     }
@@ -143,6 +245,10 @@ export class Connection extends EventEmitter implements IConnection {
     // normal closing
     this._readyState = ReadyState.CLOSING
 
+    // nothing else is coming back on this connection
+    this._rejectPendingResponses(new HL7FatalError('Connection closed before a response was received.'))
+    this._resetWindow(new HL7FatalError('Connection closed while waiting to send.'))
+
     // remove socket
     this._socket?.destroy()
     this._socket?.end()
@@ -151,6 +257,8 @@ export class Connection extends EventEmitter implements IConnection {
 
     clearTimeout(this._connectionTimer)
 
+    this._queue?.close()
+
     this._readyState = ReadyState.CLOSED
   }
 
@@ -163,11 +271,34 @@ export class Connection extends EventEmitter implements IConnection {
     return this._opt.port
   }
 
+  /**
+   * Get Queue
+   * @description The durable outbound queue for this connection, if a `queueDirectory` was set.
+   * Use this to inspect, purge, or requeue messages.
+   * @since 2.4.0
+   * @example
+   * ```ts
+   * const failed = OB.getQueue()?.list('failed')
+   * OB.getQueue()?.requeue()
+   * ```
+   */
+  getQueue (): OutboundQueue | undefined {
+    return this._queue
+  }
+
   /**
    * Start the connection if not auto started.
    * @since 2.0.0
    */
   async start (): Promise<void> {
+    if (this._isPool()) {
+      if (this._members.length === 0 && (this._readyState === ReadyState.OPEN || this._readyState === ReadyState.CLOSED)) {
+        this._readyState = ReadyState.CONNECTING
+        this._addMember()
+      }
+      return
+    }
+
     if (this._readyState === ReadyState.CONNECTING) {
       return
     }
@@ -194,6 +325,7 @@ export class Connection extends EventEmitter implements IConnection {
    * It has the ability, if set to auto-retry (defaulted to 1 re-connect before connection closes)
    * @since 1.0.0
    * @param message The message we need to send to the port.
+   * @param options Set `waitResponse` to get back the response matched to this message by its MSH-10 control ID.
    * @example
    * ```ts
    *
@@ -209,9 +341,42 @@ export class Connection extends EventEmitter implements IConnection {
    *
    * await OB.sendMessage(message)
    *
+   * // or wait for the response to this message
+   * const response = await OB.sendMessage(message, { waitResponse: true })
+   *
    * ```
    */
-  async sendMessage (message: Message | Batch | FileBatch): Promise<void> {
+  sendMessage (message: Message | Batch | FileBatch, options?: SendMessageOptions & { waitResponse?: false }): Promise<void>
+  sendMessage (message: Message, options: SendMessageOptions & { waitResponse: true }): Promise<InboundResponse>
+  async sendMessage (message: Message | Batch | FileBatch, options?: SendMessageOptions): Promise<InboundResponse | void> { // eslint-disable-line @typescript-eslint/no-invalid-void-type
+    const sendOptions = normalizeSendMessageOptions(options)
+
+    let controlId = ''
+    if (sendOptions.waitResponse) {
+      if (!(message instanceof Message)) {
+        throw new HL7FatalError('waitResponse can only be used when sending a single Message.')
+      }
+      controlId = message.get('MSH.10').toString()
+      if (controlId === '') {
+        throw new HL7FatalError('MSH.10 must be set to wait for a response.')
+      }
+    }
+
+    if (this._isPool()) {
+      if ((this._readyState === ReadyState.CLOSED) || (this._readyState === ReadyState.CLOSING)) {
+        throw new HL7FatalError('In an invalid state to be able to send message.')
+      }
+      const member = this._pickMember()
+      if (sendOptions.waitResponse) {
+        return await member.sendMessage(message as Message, { ...sendOptions, waitResponse: true })
+      }
+      return await member.sendMessage(message, { ...sendOptions, waitResponse: false })
+    }
+
+    if (typeof this._queue !== 'undefined') {
+      return await this._sendQueued(message.toString(), sendOptions.waitResponse ? controlId : undefined, sendOptions.responseTimeout)
+    }
+
     let attempts = 0
     const maxAttempts = this._opt.maxAttempts
     const emitter = new EventEmitter()
@@ -220,10 +385,6 @@ export class Connection extends EventEmitter implements IConnection {
       return this._readyState === ReadyState.CONNECTED
     }
 
-    const checkAcknowledgement = async (): Promise<boolean> => {
-      return this._awaitingResponse
-    }
-
     const checkSend = async (_message: string): Promise<boolean> => {
       while (true) { // noinspection InfiniteLoopJS
         try {
@@ -239,19 +400,6 @@ export class Connection extends EventEmitter implements IConnection {
                 this._pendingSetup = false
               })
             }
-          } else if (this._readyState === ReadyState.CONNECTED && this._opt.waitAck && this._awaitingResponse) {
-            // Ok, we ar now confirmed connected.
-            // However, since we are checking
-            // to make sure we wait for an ACKNOWLEDGEMENT from the server,
-            // that the message was gotten correctly from the last one we sent.
-            // We are still waiting, we need to recheck again
-            // if we are not connected,
-            // check to see if we are now connected.
-            if (this._pendingSetup === false) {
-              this._pendingSetup = checkAcknowledgement().finally(() => {
-                this._pendingSetup = false
-              })
-            }
           }
           return await this._pendingSetup
         } catch (err: any) {
@@ -268,14 +416,164 @@ export class Connection extends EventEmitter implements IConnection {
     // get the message
     const theMessage = message.toString()
 
-    // check to see if we should be sending
-    await checkSend(theMessage)
+    // wait for room in the window of messages waiting on an ACK,
+    // and track it there until the ACK comes back
+    const inFlight: InFlight = { controlIds: this._controlIds(theMessage), message: theMessage, source: message, retries: 0 }
+    this._dispatching++
+    try {
+      // check to see if we should be sending
+      await checkSend(theMessage)
+      await this._acquireWindow(inFlight)
+    } finally {
+      this._dispatching--
+    }
+
+    // register before writing, so a fast response can not be missed
+    let response: Promise<InboundResponse> | undefined
+    if (sendOptions.waitResponse) {
+      if (this._pendingResponses.has(controlId)) {
+        this._removeFromWindow(inFlight)
+        throw new HL7FatalError(`Already waiting for a response to MSH.10 ${controlId}.`)
+      }
+      response = this._addPendingResponse(controlId, sendOptions.responseTimeout)
+    } else if (typeof this._opt.ackTimeout !== 'undefined') {
+      // so we can tell the caller if it never got there
+      const acked: Deferred<void> = createDeferred()
+      inFlight.acked = acked
+    }
+
+    this._writeInFlight(inFlight)
+
+    if (typeof response !== 'undefined') {
+      return await response
+    }
+    if (typeof inFlight.acked !== 'undefined') {
+      await inFlight.acked.promise
+    }
+  }
+
+  /** @internal */
+  private async _sendQueued (theMessage: string, controlId: string | undefined, responseTimeout: number): Promise<InboundResponse | undefined> {
+    if (typeof controlId !== 'undefined' && this._pendingResponses.has(controlId)) {
+      throw new HL7FatalError(`Already waiting for a response to MSH.10 ${controlId}.`)
+    }
+
+    // on disk before anything else, so it is not lost if we go down from here
+    this._queue?.add(theMessage)
+
+    const response = typeof controlId !== 'undefined' ? this._addPendingResponse(controlId, responseTimeout) : undefined
+
+    // it goes out in order behind anything already waiting in the queue
+    void this._flushQueue()
+
+    if (typeof response !== 'undefined') {
+      return await response
+    }
+    return undefined
+  }
+
+  /** @internal */
+  private async _flushQueue (): Promise<void> {
+    if (typeof this._queue === 'undefined' || this._flushing) {
+      return
+    }
+
+    this._flushing = true
+    try {
+      while (this._readyState === ReadyState.CONNECTED) {
+        const generation = this._socketGeneration
+        const pending = this._queue.list('pending').filter(entry => !this._inFlight.some(inFlight => inFlight.queueId === entry.id))
+        if (pending.length === 0) {
+          break
+        }
+
+        for (const entry of pending) {
+          const inFlight: InFlight = { controlIds: this._controlIds(entry.message), message: entry.message, queueId: entry.id, retries: 0 }
+          await this._acquireWindow(inFlight)
 
-    // ok, if our options are to wait for an acknowledgement, set the var to "true"
-    if (this._opt.waitAck) {
-      this._awaitingResponse = true
+          if (generation !== this._socketGeneration || this._readyState !== ReadyState.CONNECTED) {
+            // the socket went away while we waited, so start over from the front of the queue
+            this._removeFromWindow(inFlight)
+            break
+          }
+
+          if (this._queue.get(entry.id)?.state !== 'pending') {
+            // purged or failed while we waited
+            this._removeFromWindow(inFlight)
+            continue
+          }
+
+          this._queue.sent(entry.id)
+          this._writeInFlight(inFlight)
+        }
+      }
+    } catch (err: any) {
+      this.emit('client.error', err)
+    } finally {
+      this._flushing = false
+    }
+  }
+
+  /** @internal */
+  private _writeInFlight (entry: InFlight): void {
+    this._write(entry.message)
+    if (typeof this._opt.ackTimeout !== 'undefined') {
+      entry.timer = setTimeout(() => this._onAckTimeout(entry), this._opt.ackTimeout)
+    }
+  }
+
+  /** @internal */
+  private _onAckTimeout (entry: InFlight): void {
+    if (!this._inFlight.includes(entry)) {
+      // the ACK beat us to it
+      return
+    }
+
+    if (entry.retries < this._opt.ackRetries) {
+      // same text, so the same MSH-10, so the server can tell it is a duplicate
+      entry.retries++
+      if (typeof entry.queueId !== 'undefined' && typeof this._queue?.get(entry.queueId) !== 'undefined') {
+        this._queue.sent(entry.queueId)
+      }
+      this._writeInFlight(entry)
+      return
+    }
+
+    const controlIds = this._controlIds(entry.message)
+    const err = new HL7FatalError(`No ACK received for MSH.10 ${controlIds.join(', ')} after ${entry.retries + 1} attempts.`)
+
+    this._removeFromWindow(entry)
+
+    if (typeof entry.queueId !== 'undefined' && typeof this._queue?.get(entry.queueId) !== 'undefined') {
+      this._queue.fail(entry.queueId, err.message)
+    }
+
+    for (const controlId of controlIds) {
+      const pending = this._pendingResponses.get(controlId)
+      if (typeof pending !== 'undefined') {
+        clearTimeout(pending.timer)
+        this._pendingResponses.delete(controlId)
+        pending.deferred.reject(err)
+      }
     }
+    entry.acked?.reject(err)
 
+    this.emit('client.ack.timeout', entry.source ?? this._parse(entry.message), err)
+  }
+
+  /** @internal */
+  private _parse (text: string): Message | Batch | FileBatch {
+    if (isFile(text)) {
+      return new FileBatch({ text })
+    }
+    if (isBatch(text)) {
+      return new Batch({ text })
+    }
+    return new Message({ text })
+  }
+
+  /** @internal */
+  private _write (theMessage: string): void {
     // add MLLP settings to the message
     const messageToSend = Buffer.from(`${PROTOCOL_MLLP_HEADER}${theMessage}${PROTOCOL_MLLP_FOOTER}`)
 
@@ -291,8 +589,12 @@ export class Connection extends EventEmitter implements IConnection {
   /** @internal */
   private _connect (): Socket {
     let socket: Socket
-    const host = this._main._opt.host
-    const port = this._opt.port
+    const endpointIndex = this._main._selectEndpoint()
+    const endpoint = this._main._opt.endpoints[endpointIndex]
+    const host = endpoint.host
+    const port = endpoint.port ?? this._opt.port
+
+    this._endpointIndex = endpointIndex
 
     this._retryTimer = undefined
 
@@ -334,10 +636,17 @@ export class Connection extends EventEmitter implements IConnection {
     })
 
     socket.on('close', () => {
-      if (this._readyState === ReadyState.CLOSING || (this._connectionTimer == null)) {
+      this.stats.connections = 0
+      // a response can only come back on the socket the message was sent on
+      this._rejectPendingResponses(new HL7FatalError('Socket closed before a response was received.'))
+      ++this._socketGeneration
+      this._resetWindow()
+      // close() sets CLOSED before the socket has finished closing, so do not treat that as a failure
+      if (this._readyState === ReadyState.CLOSING || this._readyState === ReadyState.CLOSED || (this._connectionTimer == null)) {
         this._readyState = ReadyState.CLOSED
       } else {
         connectionError = (connectionError != null) ? connectionError : new HL7FatalError('Socket closed unexpectedly by server.')
+        this._main._endpointFailed(endpointIndex)
         if (this._readyState === ReadyState.OPEN) {
           this._onConnect = createDeferred(true)
         }
@@ -355,43 +664,24 @@ export class Connection extends EventEmitter implements IConnection {
     })
 
     socket.on('connect', () => {
+      // the connection attempt worked, so it no longer needs to be timed
+      clearTimeout(this._connectionTimer)
       // accepting connections
       this._readyState = ReadyState.CONNECTED
+      this.stats.connections = 1
       // reset retryCount count
       this._retryCount = 1
       // emit
       this.emit('connect')
+      // send anything that was waiting on us to connect
+      void this._flushQueue()
     })
 
-    socket.on('data', (buffer) => {
-      // we got some sort of response, bad, good, or error,
-      // so lets tell the system we got "something"
-      this._awaitingResponse = false
-
-      socket.cork()
-
-      const indexOfVT = buffer.toString().indexOf(PROTOCOL_MLLP_HEADER)
-      const indexOfFSCR = buffer.toString().indexOf(PROTOCOL_MLLP_FOOTER)
-
-      let loadedMessage = buffer.toString().substring(indexOfVT, indexOfFSCR + 2)
-      loadedMessage = loadedMessage.replace(PROTOCOL_MLLP_HEADER, '')
-
-      if (loadedMessage.includes(PROTOCOL_MLLP_FOOTER)) {
-        // strip them out
-        loadedMessage = loadedMessage.replace(PROTOCOL_MLLP_FOOTER, '')
-        if (typeof this._handler !== 'undefined') {
-          // response
-          const response = new InboundResponse(loadedMessage)
-          // got an ACK, failure or not
-          ++this.stats.acknowledged
-          // update ack total
-          this.emit('client.acknowledged', this.stats.acknowledged)
-          // send it back
-          void this._handler(response)
-        }
-      }
+    // a fresh socket never carries over a partial frame from the last one
+    this._framer.reset()
 
-      socket.uncork()
+    socket.on('data', (buffer: Buffer) => {
+      this._framer.push(buffer)
     })
 
     const readerLoop = async (): Promise<void> => {
@@ -409,6 +699,255 @@ export class Connection extends EventEmitter implements IConnection {
     return socket
   }
 
+  /**
+   * The client has moved back to the primary endpoint.
+   * @internal
+   */
+  _failback (): void {
+    if (this._isPool()) {
+      for (const member of this._members) {
+        member._failback()
+      }
+      return
+    }
+    if (this._readyState === ReadyState.CONNECTED && this._endpointIndex !== 0) {
+      // the socket is re-opened, and the client hands back the primary
+      this._socket?.destroy(new HL7FatalError('Moving back to the primary endpoint.'))
+    }
+  }
+
+  /** @internal */
+  private _isPool (): boolean {
+    return this._opt.maxConnections > 1
+  }
+
+  /** @internal */
+  private _pickMember (): Connection {
+    // an idle socket first
+    const idle = this._members.find(member => member._readyState === ReadyState.CONNECTED && member._load() === 0)
+    if (typeof idle !== 'undefined') {
+      return idle
+    }
+    // then a new socket, if we are allowed
+    if (this._members.length < this._opt.maxConnections) {
+      return this._addMember()
+    }
+    // otherwise, the one with the shortest line
+    return this._members.reduce((best, member) => member._load() < best._load() ? member : best)
+  }
+
+  /** @internal */
+  private _load (): number {
+    // messages on their way to the window count too, so picks made back to back spread out
+    return this._dispatching + this._inFlight.length
+  }
+
+  /** @internal */
+  private _addMember (): Connection {
+    const member = new Connection(this._main, { ...this._props, autoConnect: true, maxConnections: 1 }, this._handler)
+
+    member.on('connect', () => {
+      this._readyState = ReadyState.CONNECTED
+      this._updatePoolStats()
+      this.emit('connect')
+    })
+    member.on('close', () => {
+      this._members = this._members.filter(m => m !== member)
+      this._updatePoolStats()
+    })
+    member.on('client.acknowledged', () => {
+      ++this.stats.acknowledged
+      this._updatePoolStats()
+      this.emit('client.acknowledged', this.stats.acknowledged)
+    })
+    member.on('client.sent', () => {
+      ++this.stats.sent
+      this._updatePoolStats()
+      this.emit('client.sent', this.stats.sent)
+    })
+    member.on('client.error', (err: any) => {
+      this._updatePoolStats()
+      this.emit('client.error', err)
+    })
+    member.on('client.garbage', (data: Buffer) => {
+      this.emit('client.garbage', data)
+    })
+    member.on('client.timeout', () => {
+      this.emit('client.timeout')
+    })
+    member.on('client.ack.timeout', (message: Message | Batch | FileBatch, err: HL7FatalError) => {
+      this.emit('client.ack.timeout', message, err)
+    })
+
+    this._members.push(member)
+    return member
+  }
+
+  /** @internal */
+  private _updatePoolStats (): void {
+    this.stats.inFlight = this._members.reduce((total, member) => total + member.stats.inFlight, 0)
+    this.stats.connections = this._members.reduce((total, member) => total + member.stats.connections, 0)
+  }
+
+  /** @internal */
+  private _onFrame (frame: string): void {
+    // response
+    let response: InboundResponse
+    try {
+      response = new InboundResponse(frame)
+    } catch (err) {
+      // a frame that is not HL7 can not be matched to anything, so it is dropped
+      this.emit('client.error', err)
+      return
+    }
+
+    // we got some sort of response, bad, good, or error,
+    // so this message is no longer in flight
+    const controlId = response.getControlId()
+    this._releaseWindow(response)
+
+    // if someone is waiting on this particular message, let them know
+    const pending = this._pendingResponses.get(controlId)
+    if (typeof pending !== 'undefined') {
+      clearTimeout(pending.timer)
+      this._pendingResponses.delete(controlId)
+      pending.deferred.resolve(response)
+    }
+
+    if (typeof this._handler !== 'undefined') {
+      // got an ACK, failure or not
+      ++this.stats.acknowledged
+      // update ack total
+      this.emit('client.acknowledged', this.stats.acknowledged)
+      // send it back
+      void this._handler(response)
+    }
+  }
+
+  /** @internal */
+  private async _acquireWindow (entry: InFlight): Promise<void> {
+    while (this._inFlight.length >= this._opt.windowSize) {
+      const waiter: Deferred<void> = createDeferred()
+      this._windowWaiters.push(waiter)
+      await waiter.promise
+    }
+    if ((this._readyState === ReadyState.CLOSED) || (this._readyState === ReadyState.CLOSING)) {
+      throw new HL7FatalError('In an invalid state to be able to send message.')
+    }
+    // no await between the check above and here, so the slot can not be taken by someone else
+    this._inFlight.push(entry)
+    this.stats.inFlight = this._inFlight.length
+  }
+
+  /** @internal */
+  private _releaseWindow (response: InboundResponse): void {
+    const controlId = response.getControlId()
+    let index = this._inFlight.findIndex(entry => entry.controlIds.includes(controlId))
+    if (index === -1) {
+      // the server did not echo back a control ID we know about,
+      // but ACKs come back in order, so it belongs to the oldest message
+      index = 0
+    }
+
+    const entry = this._inFlight[index]
+    if (typeof entry === 'undefined') {
+      return
+    }
+
+    const position = entry.controlIds.indexOf(controlId)
+    entry.controlIds.splice(position === -1 ? 0 : position, 1)
+
+    if (!response.isSuccess()) {
+      const code = response.getMessage().get('MSA.1').toString()
+      const text = response.getTextMessage()
+      entry.failure = text !== '' ? `${code}: ${text}` : code
+    }
+
+    // a batch is in flight until every message inside it has been acknowledged
+    if (entry.controlIds.length === 0) {
+      this._removeFromWindow(entry)
+      entry.acked?.resolve()
+      if (typeof entry.queueId !== 'undefined' && typeof this._queue?.get(entry.queueId) !== 'undefined') {
+        if (typeof entry.failure !== 'undefined') {
+          this._queue.fail(entry.queueId, entry.failure)
+        } else {
+          this._queue.ack(entry.queueId)
+        }
+      }
+    }
+  }
+
+  /** @internal */
+  private _removeFromWindow (entry: InFlight): void {
+    clearTimeout(entry.timer)
+    const index = this._inFlight.indexOf(entry)
+    if (index !== -1) {
+      this._inFlight.splice(index, 1)
+      this.stats.inFlight = this._inFlight.length
+      this._windowWaiters.shift()?.resolve()
+    }
+  }
+
+  /** @internal */
+  private _resetWindow (err?: Error): void {
+    const inFlight = this._inFlight
+    this._inFlight = []
+    for (const entry of inFlight) {
+      clearTimeout(entry.timer)
+      entry.acked?.reject(err ?? new HL7FatalError('Socket closed before a response was received.'))
+    }
+    this.stats.inFlight = 0
+    const waiters = this._windowWaiters
+    this._windowWaiters = []
+    for (const waiter of waiters) {
+      if (typeof err !== 'undefined') {
+        waiter.reject(err)
+      } else {
+        waiter.resolve()
+      }
+    }
+  }
+
+  /** @internal */
+  private _controlIds (text: string): string[] {
+    return split(text)
+      .filter(line => line.startsWith('MSH'))
+      .map(line => new Message({ text: line }).get('MSH.10').toString())
+  }
+
+  /** @internal */
+  private async _addPendingResponse (controlId: string, timeout: number): Promise<InboundResponse> {
+    const deferred = createDeferred<InboundResponse>()
+    const timer = setTimeout(() => {
+      const err = new HL7FatalError(`No response received for MSH.10 ${controlId} within ${timeout}ms.`)
+      this._pendingResponses.delete(controlId)
+
+      // free its slot in the window, or every message after it waits forever
+      const entry = this._inFlight.find(inFlight => inFlight.controlIds.includes(controlId))
+      if (typeof entry !== 'undefined') {
+        this._removeFromWindow(entry)
+        if (typeof entry.queueId !== 'undefined' && typeof this._queue?.get(entry.queueId) !== 'undefined') {
+          this._queue.fail(entry.queueId, err.message)
+        }
+      }
+
+      deferred.reject(err)
+    }, timeout)
+
+    this._pendingResponses.set(controlId, { deferred, timer })
+
+    return await deferred.promise
+  }
+
+  /** @internal */
+  private _rejectPendingResponses (err: Error): void {
+    for (const pending of this._pendingResponses.values()) {
+      clearTimeout(pending.timer)
+      pending.deferred.reject(err)
+    }
+    this._pendingResponses.clear()
+  }
+
   /** @internal */
   private async _negotiate (): Promise<void> {
     if (this._socket?.writable === true) {
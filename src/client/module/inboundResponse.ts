@@ -1,4 +1,69 @@
 import { Message } from '../../builder/message.js'
+import { HL7Node } from '../../builder/interface/hL7Node.js'
+
+/**
+ * Acknowledgment Code
+ * @description The MSA-1 of a response. (HL7 Table 0008)
+ * - `AA`, `CA` - Accepted.
+ * - `AE`, `CE` - Error. The message was looked at, but there was something wrong with it.
+ * - `AR`, `CR` - Rejected. The message was not processed, usually for a reason unrelated to its content.
+ * @since 2.4.0
+ */
+export type AcknowledgmentCode = 'AA' | 'AE' | 'AR' | 'CA' | 'CE' | 'CR'
+
+/**
+ * Error Severity
+ * @description The ERR-4 of a response. (HL7 Table 0516)
+ * - `E` - Error
+ * - `F` - Fatal Error
+ * - `I` - Information
+ * - `W` - Warning
+ * @since 2.4.0
+ */
+export type ErrorSeverity = 'E' | 'F' | 'I' | 'W'
+
+/**
+ * Error Location
+ * @description Where in the sent message the error was found. (ERR-2, or ERR-1 before HL7 v2.5)
+ * @since 2.4.0
+ */
+export interface AcknowledgmentErrorLocation {
+  /** Segment ID, like `PID`. */
+  segment: string
+  /** Which segment with that ID, starting from 1. */
+  sequence?: number
+  /** Field position. */
+  field?: number
+  /** Field repetition. */
+  repetition?: number
+  /** Component number. */
+  component?: number
+  /** Sub-component number. */
+  subComponent?: number
+}
+
+/**
+ * Acknowledgment Error
+ * @description One ERR segment of a response.
+ * @since 2.4.0
+ */
+export interface AcknowledgmentError {
+  /** Where the error is, if the server said. */
+  location?: AcknowledgmentErrorLocation
+  /** HL7 error code (HL7 Table 0357), like `207`. (ERR-3.1) */
+  code: string
+  /** Text for the error code, like `Application internal error`. (ERR-3.2) */
+  text: string
+  /** How bad it is. (ERR-4)
+   * Left undefined if the server did not say. */
+  severity?: ErrorSeverity | string
+  /** Application error code. (ERR-5.1) */
+  applicationCode?: string
+  /** Diagnostic information. (ERR-7) */
+  diagnostic?: string
+  /** A message meant for the user. (ERR-8) */
+  userMessage?: string
+}
 
 /**
  * Inbound Request
@@ -27,4 +92,122 @@ export class InboundResponse {
   getMessage (): Message {
     return this._message
   }
+
+  /**
+   * Get Acknowledgment Code
+   * @description The MSA-1 of the response.
+   * @since 2.4.0
+   * @return The code, or undefined if the response has no MSA segment or the code is not a known one.
+   */
+  getAcknowledgmentCode (): AcknowledgmentCode | undefined {
+    const code = this._message.get('MSA.1').toString()
+    return ['AA', 'AE', 'AR', 'CA', 'CE', 'CR'].includes(code) ? code as AcknowledgmentCode : undefined
+  }
+
+  /**
+   * Get Control ID
+   * @description The MSH-10 of the message this responds to. (MSA-2)
+   * @since 2.4.0
+   */
+  getControlId (): string {
+    return this._message.get('MSA.2').toString()
+  }
+
+  /**
+   * Get Text Message
+   * @description The text sent back with the acknowledgment. (MSA-3)
+   * @since 2.4.0
+   */
+  getTextMessage (): string {
+    return this._message.get('MSA.3').toString()
+  }
+
+  /**
+   * Get Errors
+   * @description Every ERR segment in the response.
+   * Both the HL7 v2.5+ layout (ERR-2 to ERR-8) and the older ERR-1 layout are understood.
+   * @since 2.4.0
+   */
+  getErrors (): AcknowledgmentError[] {
+    const errors: AcknowledgmentError[] = []
+    if (!this._message.exists('ERR')) {
+      return errors
+    }
+
+    this._message.get('ERR').forEach((segment: HL7Node) => {
+      if (segment.get('2').toString() !== '' || segment.get('3').toString() !== '') {
+        errors.push({
+          location: this._location(segment, '2'),
+          code: segment.get('3.1').toString(),
+          text: segment.get('3.2').toString(),
+          severity: this._optional(segment, '4'),
+          applicationCode: this._optional(segment, '5.1'),
+          diagnostic: this._optional(segment, '7'),
+          userMessage: this._optional(segment, '8')
+        })
+      } else {
+        // before v2.5, it was all in ERR-1: segment^sequence^field^code&text
+        errors.push({
+          location: this._location(segment, '1'),
+          code: segment.get('1.4.1').toString(),
+          text: segment.get('1.4.2').toString()
+        })
+      }
+    })
+
+    return errors
+  }
+
+  /**
+   * Is Success
+   * @description The server accepted the message. (AA or CA)
+   * @since 2.4.0
+   */
+  isSuccess (): boolean {
+    const code = this.getAcknowledgmentCode()
+    return code === 'AA' || code === 'CA'
+  }
+
+  /**
+   * Is Retryable
+   * @description The server rejected the message (AR or CR) for a reason that sending it again could fix,
+   * like the server being busy or down for a moment.
+   * A message with an error (AE or CE) has something wrong with it, so sending it again will get the same result.
+   * An AR with an error code of 200 to 203 (unsupported message type, event, processing ID, or version) is not retryable either.
+   * @since 2.4.0
+   */
+  isRetryable (): boolean {
+    const code = this.getAcknowledgmentCode()
+    if (code !== 'AR' && code !== 'CR') {
+      return false
+    }
+    return !this.getErrors().some(error => ['200', '201', '202', '203'].includes(error.code))
+  }
+
+  /** @internal */
+  private _location (segment: HL7Node, path: string): AcknowledgmentErrorLocation | undefined {
+    const name = segment.get(`${path}.1`).toString()
+    if (name === '') {
+      return undefined
+    }
+    const location: AcknowledgmentErrorLocation = { segment: name }
+    const parts: Array<keyof Omit<AcknowledgmentErrorLocation, 'segment'>> = ['sequence', 'field', 'repetition', 'component', 'subComponent']
+    parts.forEach((part, index) => {
+      // ERR-1 only ever has the segment, sequence, and field
+      if (path === '1' && index > 1) {
+        return
+      }
+      const value = parseInt(segment.get(`${path}.${index + 2}`).toString())
+      if (!isNaN(value)) {
+        location[part] = value
+      }
+    })
+    return location
+  }
+
+  /** @internal */
+  private _optional (segment: HL7Node, path: string): string | undefined {
+    const value = segment.get(path).toString()
+    return value !== '' ? value : undefined
+  }
 }
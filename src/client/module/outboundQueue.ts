@@ -0,0 +1,316 @@
+import { randomUUID } from 'node:crypto'
+import fs from 'node:fs'
+import path from 'node:path'
+import { HL7FatalError } from '../../utils/exception.js'
+
+/**
+ * State of a Queued Message
+ * @description `pending` messages are sent, in order, whenever the connection is up.
+ * `failed` messages got a negative acknowledgement and are held until they are requeued or purged.
+ * @since 2.4.0
+ */
+export type OutboundQueueState = 'pending' | 'failed'
+
+/**
+ * Queued Message
+ * @since 2.4.0
+ */
+export interface OutboundQueueEntry {
+  /** Unique ID of this entry in the queue. */
+  id: string
+  /** The raw HL7 message, batch, or file batch. */
+  message: string
+  /** Current state. */
+  state: OutboundQueueState
+  /** When the message was added to the queue. (ms since epoch) */
+  created: number
+  /** How many times the message has been written to the socket. */
+  attempts: number
+  /** Why it failed, usually the MSA-1 and MSA-3 of the response. */
+  reason?: string
+}
+
+/** @internal */
+type JournalRecord =
+  | { op: 'add', id: string, message: string, created: number }
+  | { op: 'sent', id: string }
+  | { op: 'ack', id: string }
+  | { op: 'fail', id: string, reason: string }
+  | { op: 'requeue', id: string }
+  | { op: 'purge', id: string }
+
+/**
+ * Outbound Queue
+ * @description A durable store-and-forward queue that holds outbound messages until they are positively acknowledged.
+ * Every change is appended to a journal file inside the queue directory and synced to disk before returning,
+ * so the queue survives the process being restarted.
+ * The journal is compacted each time the queue is opened and truncated whenever the queue becomes empty.
+ * A directory MUST NOT be shared by more than one connection.
+ * @since 2.4.0
+ */
+export class OutboundQueue {
+  /** @internal */
+  private readonly _file: string
+  /** @internal */
+  private _fd: number | undefined
+  /** @internal */
+  private readonly _entries: Map<string, OutboundQueueEntry>
+
+  /**
+   * @since 2.4.0
+   * @param directory Where the journal is kept. It is created if it does not exist.
+   */
+  constructor (directory: string) {
+    if (typeof directory !== 'string' || directory === '') {
+      throw new HL7FatalError('Queue directory must be set.')
+    }
+
+    fs.mkdirSync(directory, { recursive: true })
+
+    this._file = path.join(directory, 'outbound.journal')
+    this._entries = new Map()
+
+    this._replay()
+    this._compact()
+  }
+
+  /**
+   * Total Messages in the Queue
+   * @since 2.4.0
+   */
+  get size (): number {
+    return this._entries.size
+  }
+
+  /**
+   * Add a Message
+   * @description Add a message onto the end of the queue.
+   * @since 2.4.0
+   * @param message The raw HL7 text to send.
+   */
+  add (message: string): OutboundQueueEntry {
+    const entry: OutboundQueueEntry = { id: randomUUID(), message, state: 'pending', created: Date.now(), attempts: 0 }
+    this._write({ op: 'add', id: entry.id, message, created: entry.created })
+    this._entries.set(entry.id, entry)
+    return { ...entry }
+  }
+
+  /**
+   * Get Entry
+   * @since 2.4.0
+   * @param id Queue entry ID.
+   */
+  get (id: string): OutboundQueueEntry | undefined {
+    const entry = this._entries.get(id)
+    return typeof entry !== 'undefined' ? { ...entry } : undefined
+  }
+
+  /**
+   * List the Queue
+   * @description Returns a copy of every entry in the order they will be sent.
+   * @since 2.4.0
+   * @param state Only return entries in this state.
+   */
+  list (state?: OutboundQueueState): OutboundQueueEntry[] {
+    const entries: OutboundQueueEntry[] = []
+    for (const entry of this._entries.values()) {
+      if (typeof state === 'undefined' || entry.state === state) {
+        entries.push({ ...entry })
+      }
+    }
+    return entries
+  }
+
+  /**
+   * Mark as Sent
+   * @description Record that an entry was written to the socket.
+   * @since 2.4.0
+   * @param id Queue entry ID.
+   */
+  sent (id: string): void {
+    const entry = this._mustGet(id)
+    this._write({ op: 'sent', id })
+    entry.attempts++
+  }
+
+  /**
+   * Acknowledge
+   * @description The message was positively acknowledged, so it is removed from the queue.
+   * @since 2.4.0
+   * @param id Queue entry ID.
+   */
+  ack (id: string): void {
+    this._mustGet(id)
+    this._write({ op: 'ack', id })
+    this._entries.delete(id)
+    this._truncateIfEmpty()
+  }
+
+  /**
+   * Fail
+   * @description The message was negatively acknowledged.
+   * It stays in the queue, but will not be sent again until it is requeued.
+   * @since 2.4.0
+   * @param id Queue entry ID.
+   * @param reason Why it failed.
+   */
+  fail (id: string, reason: string): void {
+    const entry = this._mustGet(id)
+    this._write({ op: 'fail', id, reason })
+    entry.state = 'failed'
+    entry.reason = reason
+  }
+
+  /**
+   * Requeue
+   * @description Move failed messages back to the end of the queue to be sent again.
+   * @since 2.4.0
+   * @param id Queue entry ID. If not set, every failed message is requeued.
+   * @return The number of messages requeued.
+   */
+  requeue (id?: string): number {
+    const ids = typeof id !== 'undefined' ? [this._mustGet(id).id] : this.list('failed').map(entry => entry.id)
+    for (const requeueId of ids) {
+      const entry = this._mustGet(requeueId)
+      this._write({ op: 'requeue', id: requeueId })
+      this._requeue(entry)
+    }
+    return ids.length
+  }
+
+  /**
+   * Purge
+   * @description Remove messages from the queue without sending them.
+   * @since 2.4.0
+   * @param id Queue entry ID. If not set, every message is removed.
+   * @return The number of messages removed.
+   */
+  purge (id?: string): number {
+    const ids = typeof id !== 'undefined' ? [this._mustGet(id).id] : [...this._entries.keys()]
+    for (const purgeId of ids) {
+      this._write({ op: 'purge', id: purgeId })
+      this._entries.delete(purgeId)
+    }
+    this._truncateIfEmpty()
+    return ids.length
+  }
+
+  /**
+   * Close the Journal
+   * @since 2.4.0
+   */
+  close (): void {
+    if (typeof this._fd !== 'undefined') {
+      fs.closeSync(this._fd)
+      this._fd = undefined
+    }
+  }
+
+  /** @internal */
+  private _mustGet (id: string): OutboundQueueEntry {
+    const entry = this._entries.get(id)
+    if (typeof entry === 'undefined') {
+      throw new HL7FatalError(`Queue entry ${id} does not exist.`)
+    }
+    return entry
+  }
+
+  /** @internal */
+  private _requeue (entry: OutboundQueueEntry): void {
+    // maps keep insertion order, so re-inserting moves it to the back of the line
+    this._entries.delete(entry.id)
+    entry.state = 'pending'
+    delete entry.reason
+    this._entries.set(entry.id, entry)
+  }
+
+  /** @internal */
+  private _write (record: JournalRecord): void {
+    if (typeof this._fd === 'undefined') {
+      this._fd = fs.openSync(this._file, 'a')
+    }
+    fs.writeSync(this._fd, `${JSON.stringify(record)}\n`)
+    fs.fsyncSync(this._fd)
+  }
+
+  /** @internal */
+  private _replay (): void {
+    if (!fs.existsSync(this._file)) {
+      return
+    }
+
+    const lines = fs.readFileSync(this._file, 'utf-8').split('\n')
+    for (const line of lines) {
+      if (line === '') {
+        continue
+      }
+
+      let record: JournalRecord
+      try {
+        record = JSON.parse(line)
+      } catch (_err) {
+        // a partial line left behind from a crash mid-write
+        continue
+      }
+
+      const entry = this._entries.get(record.id)
+      switch (record.op) {
+        case 'add':
+          this._entries.set(record.id, { id: record.id, message: record.message, state: 'pending', created: record.created, attempts: 0 })
+          break
+        case 'sent':
+          if (typeof entry !== 'undefined') entry.attempts++
+          break
+        case 'fail':
+          if (typeof entry !== 'undefined') {
+            entry.state = 'failed'
+            entry.reason = record.reason
+          }
+          break
+        case 'requeue':
+          if (typeof entry !== 'undefined') this._requeue(entry)
+          break
+        case 'ack':
+        case 'purge':
+          this._entries.delete(record.id)
+          break
+      }
+    }
+  }
+
+  /** @internal */
+  private _compact (): void {
+    if (!fs.existsSync(this._file)) {
+      return
+    }
+
+    const records: string[] = []
+    for (const entry of this._entries.values()) {
+      records.push(JSON.stringify({ op: 'add', id: entry.id, message: entry.message, created: entry.created }))
+      for (let i = 0; i < entry.attempts; i++) {
+        records.push(JSON.stringify({ op: 'sent', id: entry.id }))
+      }
+      if (entry.state === 'failed') {
+        records.push(JSON.stringify({ op: 'fail', id: entry.id, reason: entry.reason ?? '' }))
+      }
+    }
+
+    // write out then swap, so a crash part way through never loses the old journal
+    const temp = `${this._file}.tmp`
+    const fd = fs.openSync(temp, 'w')
+    fs.writeSync(fd, records.map(record => `${record}\n`).join(''))
+    fs.fsyncSync(fd)
+    fs.closeSync(fd)
+    fs.renameSync(temp, this._file)
+  }
+
+  /** @internal */
+  private _truncateIfEmpty (): void {
+    if (this._entries.size === 0 && typeof this._fd !== 'undefined') {
+      fs.ftruncateSync(this._fd, 0)
+      fs.fsyncSync(this._fd)
+    }
+  }
+}
+
+export default OutboundQueue
@@ -0,0 +1,806 @@
+import type { Message } from '../builder/message.js'
+import { HL7Node } from '../builder/interface/hL7Node.js'
+import { OBR } from '../builder/segments/obr.js'
+import { OBX } from '../builder/segments/obx.js'
+import { ORC } from '../builder/segments/orc.js'
+import { PID } from '../builder/segments/pid.js'
+import { PV1 } from '../builder/segments/pv1.js'
+import { CE } from '../builder/types/ce.js'
+import { CWE } from '../builder/types/cwe.js'
+import { CX } from '../builder/types/cx.js'
+import { EI } from '../builder/types/ei.js'
+import { HD } from '../builder/types/hd.js'
+import { PL } from '../builder/types/pl.js'
+import { SN } from '../builder/types/sn.js'
+import { XAD } from '../builder/types/xad.js'
+import { XCN } from '../builder/types/xcn.js'
+import { XPN } from '../builder/types/xpn.js'
+import { XTN } from '../builder/types/xtn.js'
+import { HL7DateTime } from '../utils/dateTime.js'
+import {
+  FHIRAddress,
+  FHIRBundle,
+  FHIRCodeableConcept,
+  FHIRCoding,
+  FHIRContactPoint,
+  FHIRDiagnosticReport,
+  FHIREncounter,
+  FHIRHumanName,
+  FHIRIdentifier,
+  FHIRObservation,
+  FHIRPatient,
+  FHIRQuantity,
+  FHIRReference,
+  FHIRResource,
+  FHIRServiceRequest
+} from './resources.js'
+
+/**
+ * FHIR Mapping Context
+ * @description What a mapping method of {@link FHIRMapper} knows about where the segment is in the message.
+ * @since 2.4.0
+ */
+export interface FHIRMappingContext {
+  /** The message being mapped. */
+  message: Message
+  /** The Patient of the last PID segment. */
+  patient?: FHIRReference
+  /** The Encounter of the last PV1 segment, of the same patient. */
+  encounter?: FHIRReference
+  /** The ServiceRequest of the order (ORC and OBR) the segment is in. */
+  serviceRequest?: FHIRReference
+  /** The Observations of the OBX segments of the OBR, for {@link FHIRMapper.diagnosticReport}. */
+  results: FHIRReference[]
+  /** The text of the NTE segments right after the segment, one for each NTE. */
+  notes: string[]
+}
+
+/** @internal */
+const V2 = 'http://terminology.hl7.org/CodeSystem/v2-'
+
+/** @internal */
+const CODE_SYSTEMS: Record<string, string> = {
+  C4: 'http://www.ama-assn.org/go/cpt',
+  CPT: 'http://www.ama-assn.org/go/cpt',
+  CVX: 'http://hl7.org/fhir/sid/cvx',
+  I10: 'http://hl7.org/fhir/sid/icd-10',
+  I10C: 'http://hl7.org/fhir/sid/icd-10-cm',
+  I9C: 'http://hl7.org/fhir/sid/icd-9-cm',
+  LN: 'http://loinc.org',
+  NDC: 'http://hl7.org/fhir/sid/ndc',
+  RXNORM: 'http://www.nlm.nih.gov/research/umls/rxnorm',
+  SCT: 'http://snomed.info/sct',
+  SNM: 'http://snomed.info/sct',
+  UCUM: 'http://unitsofmeasure.org'
+}
+
+/** @internal */
+const GENDERS: Record<string, FHIRPatient['gender']> = { M: 'male', F: 'female', O: 'other', A: 'other', U: 'unknown', N: 'unknown' }
+
+/** @internal */
+const NAME_USES: Record<string, FHIRHumanName['use']> = { L: 'official', D: 'usual', M: 'maiden', N: 'nickname', S: 'anonymous' }
+
+/** @internal */
+const ADDRESS_USES: Record<string, FHIRAddress['use']> = { H: 'home', B: 'work', O: 'work', C: 'temp' }
+
+/** @internal */
+const ENCOUNTER_CLASSES: Record<string, FHIRCoding> = {
+  E: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'EMER', display: 'emergency' },
+  I: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'IMP', display: 'inpatient encounter' },
+  O: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'AMB', display: 'ambulatory' },
+  P: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'PRENC', display: 'pre-admission' }
+}
+
+/** @internal */
+const ENCOUNTER_EVENTS: Record<string, FHIREncounter['status']> = { A03: 'finished', A05: 'planned', A14: 'planned', A11: 'cancelled', A38: 'cancelled' }
+
+/** Observation result status (OBX-11), HL7 table 0085.
+ * @internal */
+const OBSERVATION_STATUSES: Record<string, FHIRObservation['status']> = {
+  C: 'corrected', D: 'entered-in-error', F: 'final', I: 'registered', P: 'preliminary', R: 'preliminary', S: 'preliminary', U: 'final', W: 'entered-in-error', X: 'cancelled'
+}
+
+/** Result status (OBR-25), HL7 table 0123.
+ * @internal */
+const REPORT_STATUSES: Record<string, FHIRDiagnosticReport['status']> = {
+  O: 'registered', I: 'registered', S: 'partial', A: 'partial', P: 'preliminary', R: 'preliminary', C: 'corrected', F: 'final', X: 'cancelled'
+}
+
+/** Order status (ORC-5), HL7 table 0038.
+ * @internal */
+const ORDER_STATUSES: Record<string, FHIRServiceRequest['status']> = {
+  A: 'active', CA: 'revoked', CM: 'completed', DC: 'revoked', ER: 'entered-in-error', HD: 'on-hold', IP: 'active', RP: 'revoked', SC: 'active'
+}
+
+/** Order control (ORC-1), HL7 table 0119.
+ * @internal */
+const ORDER_CONTROLS: Record<string, FHIRServiceRequest['status']> = { NW: 'active', CA: 'revoked', OC: 'revoked', DC: 'revoked', HD: 'on-hold', OH: 'on-hold' }
+
+/** @internal */
+const PRIORITIES: Record<string, FHIRServiceRequest['priority']> = { S: 'stat', A: 'asap', R: 'routine' }
+
+/** @internal */
+const COMPARATORS = ['<', '<=', '>=', '>']
+
+/**
+ * FHIR Mapper
+ * @description Maps a parsed {@link Message} to FHIR R4 resources, as plain JSON:
+ * - Patient from PID
+ * - Encounter from PV1
+ * - ServiceRequest from ORC and OBR
+ * - DiagnosticReport from OBR, with its OBX segments as the results
+ * - Observation from OBX
+ *
+ * Each mapping is a method, so change what you need by extending the class.
+ * Return `undefined` from a mapping method to leave those resources out.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * class Mapper extends FHIRMapper {
+ *   // the lab's own codes
+ *   codeSystem (name: string): string | undefined {
+ *     return name === 'L' ? 'http://lab.example.org/codes' : super.codeSystem(name)
+ *   }
+ *
+ *   // no Encounter resources
+ *   encounter (): undefined {
+ *     return undefined
+ *   }
+ * }
+ *
+ * const bundle = new Mapper().map(message)
+ * ```
+ */
+export class FHIRMapper {
+  /**
+   * Map
+   * @description Map every PID, PV1, ORC, OBR, and OBX segment of the message into a `collection` bundle.
+   * Empty values are left out.
+   * @since 2.4.0
+   * @param message
+   */
+  map (message: Message): FHIRBundle {
+    const resources: FHIRResource[] = []
+    const counts: Record<string, number> = {}
+    const add = (resource: FHIRResource | undefined): FHIRReference | undefined => {
+      if (typeof resource === 'undefined') {
+        return undefined
+      }
+      counts[resource.resourceType] = (counts[resource.resourceType] ?? 0) + 1
+      const id = resource.id ?? this.id(resource.resourceType, counts[resource.resourceType])
+      // the resource type and id first
+      resources.push(_clean(Object.assign({ resourceType: resource.resourceType, id }, resource, { id })))
+      return { reference: `${resource.resourceType}/${id}` }
+    }
+
+    const segments = message.toArray()
+    const context: FHIRMappingContext = { message, results: [], notes: [] }
+    let order: { orc: ORC, context: FHIRMappingContext } | undefined
+    let report: { obr: OBR, context: FHIRMappingContext } | undefined
+
+    // an ORC without an OBR is an order by itself
+    const endOrder = (): void => {
+      if (typeof order !== 'undefined') {
+        context.serviceRequest = add(this.serviceRequest(order.orc, undefined, order.context))
+        order = undefined
+      }
+    }
+    const endReport = (): void => {
+      if (typeof report !== 'undefined') {
+        add(this.diagnosticReport(report.obr, { ...report.context, results: context.results }))
+        report = undefined
+      }
+      context.results = []
+    }
+
+    segments.forEach((segment, index) => {
+      context.notes = _notes(segments, index)
+      switch (segment.name) {
+        case 'PID':
+          endOrder()
+          endReport()
+          context.encounter = undefined
+          context.serviceRequest = undefined
+          context.patient = add(this.patient(new PID(segment), context))
+          break
+        case 'PV1':
+          context.encounter = add(this.encounter(new PV1(segment), context))
+          break
+        case 'ORC':
+          endOrder()
+          endReport()
+          context.serviceRequest = undefined
+          order = { orc: new ORC(segment), context: { ...context } }
+          break
+        case 'OBR': {
+          endReport()
+          const obr = new OBR(segment)
+          context.serviceRequest = add(this.serviceRequest(order?.orc, obr, { ...context, notes: [...(order?.context.notes ?? []), ...context.notes] }))
+          order = undefined
+          report = { obr, context: { ...context } }
+          break
+        }
+        case 'OBX': {
+          const observation = add(this.observation(new OBX(segment), context))
+          if (typeof observation !== 'undefined') {
+            context.results.push(observation)
+          }
+          break
+        }
+      }
+    })
+    endOrder()
+    endReport()
+
+    const identifier = message.get('MSH.10').toString()
+    return {
+      resourceType: 'Bundle',
+      type: 'collection',
+      ...(identifier !== '' ? { identifier: { value: identifier } } : {}),
+      entry: resources.map(resource => ({ resource }))
+    }
+  }
+
+  /**
+   * Patient
+   * @description Map a PID segment.
+   * @since 2.4.0
+   * @param pid
+   * @param _context
+   */
+  patient (pid: PID, _context: FHIRMappingContext): FHIRPatient | undefined {
+    const deceased = pid.patientDeathDateAndTime
+    const birthOrder = parseInt(pid.birthOrder)
+    return {
+      resourceType: 'Patient',
+      identifier: _map(pid.patientIdentifierList, cx => this.identifier(cx)),
+      name: _map(pid.patientName, xpn => this.humanName(xpn)),
+      telecom: [
+        ..._map(pid.phoneNumberHome, xtn => this.contactPoint(xtn, 'home')),
+        ..._map(pid.phoneNumberBusiness, xtn => this.contactPoint(xtn, 'work'))
+      ],
+      gender: GENDERS[pid.administrativeSex],
+      birthDate: this.date(pid.dateTimeOfBirth),
+      ...(deceased !== ''
+        ? { deceasedDateTime: this.dateTime(deceased) }
+        : { deceasedBoolean: _boolean(pid.patientDeathIndicator) }),
+      address: _map(pid.patientAddress, xad => this.address(xad)),
+      maritalStatus: this.codeableConcept(pid.maritalStatus, `${V2}0002`),
+      ...(!isNaN(birthOrder)
+        ? { multipleBirthInteger: birthOrder }
+        : { multipleBirthBoolean: _boolean(pid.multipleBirthIndicator) })
+    }
+  }
+
+  /**
+   * Encounter
+   * @description Map a PV1 segment.
+   * The status is `finished` if there is a discharge date/time (PV1-45),
+   * otherwise it comes from the trigger event, like `planned` for A05, or is `in-progress`.
+   * @since 2.4.0
+   * @param pv1
+   * @param context
+   */
+  encounter (pv1: PV1, context: FHIRMappingContext): FHIREncounter | undefined {
+    const discharged = pv1.dischargeDateTime[0] ?? ''
+    const patientClass = pv1.patientClass
+    return {
+      resourceType: 'Encounter',
+      identifier: _defined(this.identifier(pv1.visitNumber)),
+      status: discharged !== '' ? 'finished' : ENCOUNTER_EVENTS[context.message.get('MSH.9.2').toString()] ?? 'in-progress',
+      class: ENCOUNTER_CLASSES[patientClass] ?? (patientClass !== ''
+        ? { system: `${V2}0004`, code: patientClass }
+        : { system: 'http://terminology.hl7.org/CodeSystem/v3-NullFlavor', code: 'UNK' }),
+      serviceType: this.codeableConcept(pv1.hospitalService, `${V2}0069`),
+      subject: context.patient,
+      participant: [
+        ..._participants(pv1.attendingDoctor, 'ATND', this),
+        ..._participants(pv1.referringDoctor, 'REF', this),
+        ..._participants(pv1.consultingDoctor, 'CON', this),
+        ..._participants(pv1.admittingDoctor, 'ADM', this)
+      ],
+      period: { start: this.dateTime(pv1.admitDateTime), end: this.dateTime(discharged) },
+      hospitalization: {
+        admitSource: this.codeableConcept(pv1.admitSource, `${V2}0023`),
+        dischargeDisposition: this.codeableConcept(pv1.dischargeDisposition, `${V2}0112`)
+      },
+      location: _defined(this.location(pv1.assignedPatientLocation)).map(location => ({ location }))
+    }
+  }
+
+  /**
+   * Service Request
+   * @description Map an order, from its ORC and OBR segments. Either one could be missing.
+   * @since 2.4.0
+   * @param orc
+   * @param obr
+   * @param context The notes are the NTE segments after the ORC and the OBR.
+   */
+  serviceRequest (orc: ORC | undefined, obr: OBR | undefined, context: FHIRMappingContext): FHIRServiceRequest | undefined {
+    const placer = orc?.placerOrderNumber.isEmpty() === false ? orc.placerOrderNumber : obr?.placerOrderNumber
+    const filler = orc?.fillerOrderNumber.isEmpty() === false ? orc.fillerOrderNumber : obr?.fillerOrderNumber
+    const resultStatus = obr?.resultStatus ?? ''
+    const requester = orc?.orderingProvider[0].isEmpty() === false ? orc.orderingProvider[0] : obr?.orderingProvider[0]
+    return {
+      resourceType: 'ServiceRequest',
+      identifier: _defined(this.entityIdentifier(placer, 'PLAC'), this.entityIdentifier(filler, 'FILL')),
+      status: ORDER_STATUSES[orc?.orderStatus ?? ''] ??
+        (['F', 'C'].includes(resultStatus) ? 'completed' : ORDER_CONTROLS[orc?.orderControl ?? '']) ??
+        'unknown',
+      intent: 'order',
+      priority: PRIORITIES[obr?.priority ?? ''],
+      code: this.codeableConcept(obr?.universalServiceIdentifier),
+      subject: context.patient,
+      encounter: context.encounter,
+      authoredOn: this.dateTime(orc?.dateTimeOfTransaction ?? ''),
+      requester: this.practitioner(requester),
+      reasonCode: _map(obr?.reasonForStudy ?? [], ce => this.codeableConcept(ce)),
+      note: context.notes.map(text => ({ text }))
+    }
+  }
+
+  /**
+   * Diagnostic Report
+   * @description Map an OBR segment, with the Observations of its OBX segments as the results.
+   * An OBR with no OBX segments and no result status (OBR-25), like in an order, is not a report,
+   * so this gives back `undefined` for it.
+   * @since 2.4.0
+   * @param obr
+   * @param context
+   */
+  diagnosticReport (obr: OBR, context: FHIRMappingContext): FHIRDiagnosticReport | undefined {
+    if (context.results.length === 0 && obr.resultStatus === '') {
+      return undefined
+    }
+    const start = this.dateTime(obr.observationDateTime)
+    const end = this.dateTime(obr.observationEndDateTime)
+    const issued = this.dateTime(obr.resultsRptStatusChngDateTime)
+    return {
+      resourceType: 'DiagnosticReport',
+      identifier: _defined(this.entityIdentifier(obr.fillerOrderNumber, 'FILL'), this.entityIdentifier(obr.placerOrderNumber, 'PLAC')),
+      basedOn: _defined(context.serviceRequest),
+      status: REPORT_STATUSES[obr.resultStatus] ?? 'unknown',
+      category: _defined(this.codeableConcept(obr.diagnosticServSectId, `${V2}0074`)),
+      code: this.codeableConcept(obr.universalServiceIdentifier) ?? {},
+      subject: context.patient,
+      encounter: context.encounter,
+      ...(typeof end !== 'undefined' ? { effectivePeriod: { start, end } } : { effectiveDateTime: start }),
+      // an instant must have the seconds
+      issued: issued?.includes('T') === true ? issued : undefined,
+      result: context.results
+    }
+  }
+
+  /**
+   * Observation
+   * @description Map an OBX segment. The value is from {@link observationValue}.
+   * @since 2.4.0
+   * @param obx
+   * @param context
+   */
+  observation (obx: OBX, context: FHIRMappingContext): FHIRObservation | undefined {
+    return {
+      resourceType: 'Observation',
+      identifier: _defined(this.entityIdentifier(obx.observationInstanceIdentifier)),
+      basedOn: _defined(context.serviceRequest),
+      status: OBSERVATION_STATUSES[obx.observationResultStatus] ?? 'unknown',
+      code: this.codeableConcept(obx.observationIdentifier) ?? {},
+      subject: context.patient,
+      encounter: context.encounter,
+      effectiveDateTime: this.dateTime(obx.dateTimeOfTheObservation),
+      performer: _map(obx.responsibleObserver, xcn => this.practitioner(xcn)),
+      ...this.observationValue(obx),
+      interpretation: _defined(...obx.abnormalFlags.map(flag => this.codeableConcept(flag, 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation'))),
+      note: context.notes.map(text => ({ text })),
+      method: this.codeableConcept(obx.observationMethod[0]),
+      referenceRange: obx.referencesRange !== '' ? [_range(obx.referencesRange, this.quantity('', obx.units))] : undefined
+    }
+  }
+
+  /**
+   * Observation Value
+   * @description The `value[x]` of an Observation, by the value type of the OBX segment (OBX-2):
+   * - NM - `valueQuantity`, with the units of OBX-6
+   * - SN - `valueQuantity`, `valueRange`, or `valueRatio`
+   * - CE, CWE, and CNE - `valueCodeableConcept`
+   * - DT, DTM, and TS - `valueDateTime`
+   * - TM - `valueTime`
+   * - anything else - `valueString`, with a line for each repetition
+   * @since 2.4.0
+   * @param obx
+   */
+  observationValue (obx: OBX): Partial<FHIRObservation> {
+    const field = obx.segment.get(5)
+    if (field.isEmpty()) {
+      return {}
+    }
+    const value = field.toString()
+    switch (obx.valueType) {
+      case 'NM':
+        return { valueQuantity: this.quantity(value, obx.units) }
+      case 'SN': {
+        const sn = field.get(0).as(SN)
+        const separator = sn.separatorSuffix
+        if (separator === ':' || separator === '/') {
+          return { valueRatio: { numerator: _number(sn.num1), denominator: _number(sn.num2) } }
+        }
+        if (separator === '-') {
+          return { valueRange: { low: this.quantity(sn.num1, obx.units), high: this.quantity(sn.num2, obx.units) } }
+        }
+        const quantity = this.quantity(sn.num1, obx.units)
+        if (COMPARATORS.includes(sn.comparator)) {
+          quantity.comparator = sn.comparator as FHIRQuantity['comparator']
+        }
+        return { valueQuantity: quantity }
+      }
+      case 'CE':
+        return { valueCodeableConcept: this.codeableConcept(field.get(0).as(CE)) }
+      case 'CNE':
+      case 'CWE':
+        return { valueCodeableConcept: this.codeableConcept(field.get(0).as(CWE)) }
+      case 'DT':
+      case 'DTM':
+      case 'TS':
+        return { valueDateTime: this.dateTime(value) }
+      case 'TM':
+        return { valueTime: /^\d{4}/.test(value) ? `${value.slice(0, 2)}:${value.slice(2, 4)}:${value.slice(4, 6).padEnd(2, '0')}` : undefined }
+    }
+    return { valueString: field.toArray().map(repetition => repetition.toString()).join('\n') }
+  }
+
+  /**
+   * Identifier
+   * @description Map a CX, like a medical record number.
+   * The identifier type (CX-5) is coded in HL7 table 0203.
+   * @since 2.4.0
+   * @param cx
+   */
+  identifier (cx: CX): FHIRIdentifier | undefined {
+    if (cx.idNumber === '') {
+      return undefined
+    }
+    return {
+      type: this.codeableConcept(cx.identifierTypeCode, `${V2}0203`),
+      ...this.assigner(cx.assigningAuthority),
+      value: cx.idNumber
+    }
+  }
+
+  /**
+   * Entity Identifier
+   * @description Map an EI, like an order number.
+   * @since 2.4.0
+   * @param ei
+   * @param type The identifier type in HL7 table 0203, like `PLAC` or `FILL`.
+   */
+  entityIdentifier (ei: EI | undefined, type?: string): FHIRIdentifier | undefined {
+    if (typeof ei === 'undefined' || ei.entityIdentifier === '') {
+      return undefined
+    }
+    return {
+      type: this.codeableConcept(type ?? '', `${V2}0203`),
+      system: _system(ei.universalId, ei.universalIdType),
+      ...(ei.namespaceId !== '' ? { assigner: { display: ei.namespaceId } } : {}),
+      value: ei.entityIdentifier
+    }
+  }
+
+  /**
+   * Assigner
+   * @description The `system` and `assigner` of an identifier from who assigned it.
+   * The system is the universal ID, as a URN for an OID or UUID,
+   * and the namespace ID is the display of the assigner.
+   * @since 2.4.0
+   * @param hd
+   */
+  assigner (hd: HD): Pick<FHIRIdentifier, 'system'> & { assigner?: FHIRReference } {
+    return {
+      system: _system(hd.universalId, hd.universalIdType),
+      ...(hd.namespaceId !== '' ? { assigner: { display: hd.namespaceId } } : {})
+    }
+  }
+
+  /**
+   * Human Name
+   * @description Map an XPN, or the name in an XCN.
+   * @since 2.4.0
+   * @param xpn
+   */
+  humanName (xpn: XPN | XCN): FHIRHumanName | undefined {
+    if (xpn.familyName === '' && xpn.givenName === '') {
+      return undefined
+    }
+    return {
+      use: NAME_USES[xpn.nameTypeCode],
+      family: xpn.familyName,
+      given: [xpn.givenName, ...xpn.secondNames.split(' ')],
+      prefix: [xpn.prefix],
+      suffix: [xpn.suffix, xpn.degree]
+    }
+  }
+
+  /**
+   * Address
+   * @description Map an XAD.
+   * @since 2.4.0
+   * @param xad
+   */
+  address (xad: XAD): FHIRAddress | undefined {
+    if (xad.isEmpty()) {
+      return undefined
+    }
+    return {
+      use: ADDRESS_USES[xad.addressType],
+      ...(xad.addressType === 'M' ? { type: 'postal' } : {}),
+      line: [xad.streetAddress, xad.otherDesignation],
+      city: xad.city,
+      district: xad.countyParishCode,
+      state: xad.stateOrProvince,
+      postalCode: xad.zipOrPostalCode,
+      country: xad.country
+    }
+  }
+
+  /**
+   * Contact Point
+   * @description Map an XTN.
+   * The value is the email address for `Internet` equipment (XTN-3), otherwise the phone number,
+   * from XTN-1, or put together from XTN-5 to XTN-8.
+   * @since 2.4.0
+   * @param xtn
+   * @param use What the number is for, from the field it is in.
+   */
+  contactPoint (xtn: XTN, use?: FHIRContactPoint['use']): FHIRContactPoint | undefined {
+    const equipment = xtn.telecommunicationEquipmentType
+    if (equipment === 'Internet' || equipment === 'X.400' || xtn.telecommunicationUseCode === 'NET') {
+      return xtn.emailAddress !== '' ? { system: 'email', value: xtn.emailAddress, use } : undefined
+    }
+    let value = xtn.telephoneNumber
+    if (value === '') {
+      value = [xtn.countryCode !== '' ? `+${xtn.countryCode}` : '', xtn.areaCityCode, xtn.localNumber].filter(part => part !== '').join(' ')
+      if (value !== '' && xtn.extension !== '') {
+        value += ` x${xtn.extension}`
+      }
+    }
+    if (value === '') {
+      return undefined
+    }
+    return {
+      system: equipment === 'FX' ? 'fax' : equipment === 'BP' ? 'pager' : 'phone',
+      value,
+      use: equipment === 'CP' ? 'mobile' : use
+    }
+  }
+
+  /**
+   * Practitioner
+   * @description A reference to the person in an XCN, by their identifier and name.
+   * There is no Practitioner resource for them in the bundle.
+   * @since 2.4.0
+   * @param xcn
+   */
+  practitioner (xcn: XCN | undefined): FHIRReference | undefined {
+    if (typeof xcn === 'undefined' || xcn.isEmpty()) {
+      return undefined
+    }
+    const name = this.humanName(xcn)
+    return {
+      type: 'Practitioner',
+      identifier: xcn.idNumber !== '' ? { ...this.assigner(xcn.assigningAuthority), value: xcn.idNumber } : undefined,
+      display: typeof name !== 'undefined' ? [...(name.given ?? []), name.family].filter(part => part !== '').join(' ') : undefined
+    }
+  }
+
+  /**
+   * Location
+   * @description A reference to a PL, with the point of care, room, and bed as the display, like `ICU 101 A`.
+   * There is no Location resource for it in the bundle.
+   * @since 2.4.0
+   * @param pl
+   */
+  location (pl: PL): FHIRReference | undefined {
+    const display = [pl.pointOfCare, pl.room, pl.bed].filter(part => part !== '').join(' ')
+    return display !== '' ? { display } : undefined
+  }
+
+  /**
+   * Codeable Concept
+   * @description Map a CE or CWE, with the alternate code as a second coding.
+   * A plain code can be given instead.
+   * @since 2.4.0
+   * @param ce
+   * @param system The system of a plain code, or of a CE that does not have its name of coding system.
+   */
+  codeableConcept (ce: CE | string | undefined, system?: string): FHIRCodeableConcept | undefined {
+    if (typeof ce === 'undefined' || ce === '' || (typeof ce !== 'string' && ce.isEmpty())) {
+      return undefined
+    }
+    if (typeof ce === 'string') {
+      return { coding: [{ system, code: ce }] }
+    }
+    const coding: FHIRCoding[] = [
+      { system: ce.nameOfCodingSystem !== '' ? this.codeSystem(ce.nameOfCodingSystem) : system, code: ce.identifier, display: ce.text },
+      { system: ce.nameOfAlternateCodingSystem !== '' ? this.codeSystem(ce.nameOfAlternateCodingSystem) : system, code: ce.alternateIdentifier, display: ce.alternateText }
+    ].filter(code => code.code !== '')
+    return {
+      coding,
+      text: ce instanceof CWE && ce.originalText !== '' ? ce.originalText : coding.length === 0 ? ce.text : undefined
+    }
+  }
+
+  /**
+   * Code System
+   * @description The FHIR system URI of an HL7 coding system name, like `http://loinc.org` for `LN`,
+   * or `undefined` if it is not known.
+   * Local coding systems are not known, so extend this to add them.
+   * @since 2.4.0
+   * @param name
+   */
+  codeSystem (name: string): string | undefined {
+    if (/^HL7\d{4}$/.test(name)) {
+      return `${V2}${name.slice(3)}`
+    }
+    return CODE_SYSTEMS[name]
+  }
+
+  /**
+   * Quantity
+   * @description A number with the units of a CE, like from OBX-6.
+   * @since 2.4.0
+   * @param value The number. Empty for only the units.
+   * @param units
+   */
+  quantity (value: string, units?: CE): FHIRQuantity {
+    const quantity = _number(value)
+    if (typeof units !== 'undefined' && !units.isEmpty()) {
+      quantity.unit = units.text !== '' ? units.text : units.identifier
+      quantity.system = this.codeSystem(units.nameOfCodingSystem)
+      quantity.code = units.identifier
+    }
+    return quantity
+  }
+
+  /**
+   * Date/Time
+   * @description An HL7 date/time (DTM) as a FHIR dateTime, like `2008-12-31T15:30:00-05:00`.
+   * Only the date is kept if there is no time.
+   * Without an offset, it is the local time of this computer, like {@link HL7DateTime.toDate}.
+   * @since 2.4.0
+   * @param text
+   * @return Undefined if it is empty or not a date/time.
+   */
+  dateTime (text: string): string | undefined {
+    const value = _parseDateTime(text)
+    if (typeof value === 'undefined' || value.precision <= 8) {
+      return this.date(text)
+    }
+    const pad = (part: number): string => part.toString().padStart(2, '0')
+    const offset = value.offset ?? -value.toDate().getTimezoneOffset()
+    const fraction = value.fraction !== '' ? `.${value.fraction}` : ''
+    const zone = `${offset < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+    return `${this.date(text) as string}T${pad(value.hour)}:${pad(value.minute)}:${pad(value.second)}${fraction}${zone}`
+  }
+
+  /**
+   * Date
+   * @description An HL7 date/time (DTM) as a FHIR date, like `2008-12-31`, `2008-12`, or `2008`.
+   * @since 2.4.0
+   * @param text
+   * @return Undefined if it is empty or not a date/time.
+   */
+  date (text: string): string | undefined {
+    const value = _parseDateTime(text)
+    if (typeof value === 'undefined') {
+      return undefined
+    }
+    const parts = [value.year.toString().padStart(4, '0'), value.month.toString().padStart(2, '0'), value.day.toString().padStart(2, '0')]
+    return parts.slice(0, Math.min(value.precision, 8) / 2 - 1).join('-')
+  }
+
+  /**
+   * ID
+   * @description The `id` of a resource in the bundle.
+   * @since 2.4.0
+   * @param resourceType
+   * @param index The number of the resource of this type in the bundle, starting at 1.
+   * @return Like `patient-1`.
+   */
+  id (resourceType: string, index: number): string {
+    return `${resourceType.toLowerCase()}-${index}`
+  }
+}
+
+/** @internal */
+const _parseDateTime = (text: string): HL7DateTime | undefined => {
+  if (text === '') {
+    return undefined
+  }
+  try {
+    return HL7DateTime.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The text of the NTE segments right after a segment.
+ * @internal
+ */
+const _notes = (segments: HL7Node[], index: number): string[] => {
+  const notes: string[] = []
+  for (let i = index + 1; i < segments.length && segments[i].name === 'NTE'; i++) {
+    // NTE-3 can repeat, a line for each
+    notes.push(segments[i].get(3).toArray().map(line => line.toString()).join('\n'))
+  }
+  return notes
+}
+
+/** @internal */
+const _map = <T extends { isEmpty: () => boolean }, R>(values: T[], map: (value: T) => R | undefined): R[] => {
+  return values.filter(value => !value.isEmpty()).map(map).filter((value): value is R => typeof value !== 'undefined')
+}
+
+/** @internal */
+const _participants = (doctors: XCN[], type: string, mapper: FHIRMapper): NonNullable<FHIREncounter['participant']> => {
+  return _map(doctors, xcn => mapper.practitioner(xcn)).map(individual => ({
+    type: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-ParticipationType', code: type }] }],
+    individual
+  }))
+}
+
+/** @internal */
+const _system = (universalId: string, universalIdType: string): string | undefined => {
+  if (universalId === '') {
+    return undefined
+  }
+  switch (universalIdType) {
+    case 'ISO':
+      return `urn:oid:${universalId}`
+    case 'UUID':
+      return `urn:uuid:${universalId}`
+  }
+  return universalId
+}
+
+/** @internal */
+const _defined = <T>(...values: Array<T | undefined>): T[] => values.filter((value): value is T => typeof value !== 'undefined')
+
+/** @internal */
+const _boolean = (value: string): boolean | undefined => value === 'Y' ? true : value === 'N' ? false : undefined
+
+/** @internal */
+const _number = (value: string): FHIRQuantity => {
+  const number = parseFloat(value)
+  return isNaN(number) ? {} : { value: number }
+}
+
+/**
+ * A reference range, like `3.5-5.0`, with the low and high values if it has them.
+ * @internal
+ */
+const _range = (text: string, units: FHIRQuantity): { low?: FHIRQuantity, high?: FHIRQuantity, text?: string } => {
+  const match = /^\s*(-?\d*\.?\d+)\s*-\s*(-?\d*\.?\d+)\s*$/.exec(text)
+  if (match === null) {
+    return { text }
+  }
+  return { low: { value: parseFloat(match[1]), ...units }, high: { value: parseFloat(match[2]), ...units } }
+}
+
+/**
+ * Leave out what is empty, so the resource is only what is in the message.
+ * @internal
+ */
+const _clean = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    const list = value.map(_clean).filter(item => typeof item !== 'undefined')
+    return (list.length > 0 ? list : undefined) as T
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).map(([key, item]) => [key, _clean(item)]).filter(([, item]) => typeof item !== 'undefined')
+    return (entries.length > 0 ? Object.fromEntries(entries) : undefined) as T
+  }
+  if (value === '') {
+    return undefined as T
+  }
+  return value
+}
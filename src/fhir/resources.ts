@@ -0,0 +1,263 @@
+/**
+ * FHIR Coding
+ * @since 2.4.0
+ */
+export interface FHIRCoding {
+  system?: string
+  version?: string
+  code?: string
+  display?: string
+}
+
+/**
+ * FHIR Codeable Concept
+ * @since 2.4.0
+ */
+export interface FHIRCodeableConcept {
+  coding?: FHIRCoding[]
+  text?: string
+}
+
+/**
+ * FHIR Identifier
+ * @since 2.4.0
+ */
+export interface FHIRIdentifier {
+  use?: 'usual' | 'official' | 'temp' | 'secondary' | 'old'
+  type?: FHIRCodeableConcept
+  system?: string
+  value?: string
+  period?: FHIRPeriod
+  assigner?: FHIRReference
+}
+
+/**
+ * FHIR Reference
+ * @description A reference to another resource, by `reference` (like `Patient/patient-1`),
+ * or by `identifier` and `display` for something that is not in the bundle, like a doctor.
+ * @since 2.4.0
+ */
+export interface FHIRReference {
+  reference?: string
+  type?: string
+  identifier?: FHIRIdentifier
+  display?: string
+}
+
+/**
+ * FHIR Period
+ * @since 2.4.0
+ */
+export interface FHIRPeriod {
+  start?: string
+  end?: string
+}
+
+/**
+ * FHIR Human Name
+ * @since 2.4.0
+ */
+export interface FHIRHumanName {
+  use?: 'usual' | 'official' | 'temp' | 'nickname' | 'anonymous' | 'old' | 'maiden'
+  text?: string
+  family?: string
+  given?: string[]
+  prefix?: string[]
+  suffix?: string[]
+  period?: FHIRPeriod
+}
+
+/**
+ * FHIR Address
+ * @since 2.4.0
+ */
+export interface FHIRAddress {
+  use?: 'home' | 'work' | 'temp' | 'old' | 'billing'
+  type?: 'postal' | 'physical' | 'both'
+  text?: string
+  line?: string[]
+  city?: string
+  district?: string
+  state?: string
+  postalCode?: string
+  country?: string
+  period?: FHIRPeriod
+}
+
+/**
+ * FHIR Contact Point
+ * @since 2.4.0
+ */
+export interface FHIRContactPoint {
+  system?: 'phone' | 'fax' | 'email' | 'pager' | 'url' | 'sms' | 'other'
+  value?: string
+  use?: 'home' | 'work' | 'temp' | 'old' | 'mobile'
+  rank?: number
+  period?: FHIRPeriod
+}
+
+/**
+ * FHIR Quantity
+ * @since 2.4.0
+ */
+export interface FHIRQuantity {
+  value?: number
+  comparator?: '<' | '<=' | '>=' | '>'
+  unit?: string
+  system?: string
+  code?: string
+}
+
+/**
+ * FHIR Range
+ * @since 2.4.0
+ */
+export interface FHIRRange {
+  low?: FHIRQuantity
+  high?: FHIRQuantity
+}
+
+/**
+ * FHIR Ratio
+ * @since 2.4.0
+ */
+export interface FHIRRatio {
+  numerator?: FHIRQuantity
+  denominator?: FHIRQuantity
+}
+
+/**
+ * FHIR Annotation
+ * @since 2.4.0
+ */
+export interface FHIRAnnotation {
+  text: string
+}
+
+/**
+ * FHIR Resource
+ * @description What every resource has.
+ * @since 2.4.0
+ */
+export interface FHIRResource {
+  resourceType: string
+  id?: string
+}
+
+/**
+ * FHIR Patient
+ * @since 2.4.0
+ */
+export interface FHIRPatient extends FHIRResource {
+  resourceType: 'Patient'
+  identifier?: FHIRIdentifier[]
+  name?: FHIRHumanName[]
+  telecom?: FHIRContactPoint[]
+  gender?: 'male' | 'female' | 'other' | 'unknown'
+  birthDate?: string
+  deceasedBoolean?: boolean
+  deceasedDateTime?: string
+  address?: FHIRAddress[]
+  maritalStatus?: FHIRCodeableConcept
+  multipleBirthBoolean?: boolean
+  multipleBirthInteger?: number
+}
+
+/**
+ * FHIR Encounter
+ * @since 2.4.0
+ */
+export interface FHIREncounter extends FHIRResource {
+  resourceType: 'Encounter'
+  identifier?: FHIRIdentifier[]
+  status: 'planned' | 'arrived' | 'triaged' | 'in-progress' | 'onleave' | 'finished' | 'cancelled' | 'entered-in-error' | 'unknown'
+  class: FHIRCoding
+  type?: FHIRCodeableConcept[]
+  serviceType?: FHIRCodeableConcept
+  subject?: FHIRReference
+  participant?: Array<{ type?: FHIRCodeableConcept[], individual?: FHIRReference }>
+  period?: FHIRPeriod
+  hospitalization?: {
+    admitSource?: FHIRCodeableConcept
+    dischargeDisposition?: FHIRCodeableConcept
+  }
+  location?: Array<{ location: FHIRReference }>
+}
+
+/**
+ * FHIR Observation
+ * @since 2.4.0
+ */
+export interface FHIRObservation extends FHIRResource {
+  resourceType: 'Observation'
+  identifier?: FHIRIdentifier[]
+  basedOn?: FHIRReference[]
+  status: 'registered' | 'preliminary' | 'final' | 'amended' | 'corrected' | 'cancelled' | 'entered-in-error' | 'unknown'
+  code: FHIRCodeableConcept
+  subject?: FHIRReference
+  encounter?: FHIRReference
+  effectiveDateTime?: string
+  performer?: FHIRReference[]
+  valueQuantity?: FHIRQuantity
+  valueCodeableConcept?: FHIRCodeableConcept
+  valueString?: string
+  valueDateTime?: string
+  valueTime?: string
+  valueRange?: FHIRRange
+  valueRatio?: FHIRRatio
+  interpretation?: FHIRCodeableConcept[]
+  note?: FHIRAnnotation[]
+  method?: FHIRCodeableConcept
+  referenceRange?: Array<{ low?: FHIRQuantity, high?: FHIRQuantity, text?: string }>
+}
+
+/**
+ * FHIR Diagnostic Report
+ * @since 2.4.0
+ */
+export interface FHIRDiagnosticReport extends FHIRResource {
+  resourceType: 'DiagnosticReport'
+  identifier?: FHIRIdentifier[]
+  basedOn?: FHIRReference[]
+  status: 'registered' | 'partial' | 'preliminary' | 'final' | 'amended' | 'corrected' | 'appended' | 'cancelled' | 'entered-in-error' | 'unknown'
+  category?: FHIRCodeableConcept[]
+  code: FHIRCodeableConcept
+  subject?: FHIRReference
+  encounter?: FHIRReference
+  effectiveDateTime?: string
+  effectivePeriod?: FHIRPeriod
+  issued?: string
+  resultsInterpreter?: FHIRReference[]
+  result?: FHIRReference[]
+}
+
+/**
+ * FHIR Service Request
+ * @since 2.4.0
+ */
+export interface FHIRServiceRequest extends FHIRResource {
+  resourceType: 'ServiceRequest'
+  identifier?: FHIRIdentifier[]
+  status: 'draft' | 'active' | 'on-hold' | 'revoked' | 'completed' | 'entered-in-error' | 'unknown'
+  intent: 'proposal' | 'plan' | 'directive' | 'order' | 'original-order' | 'reflex-order' | 'filler-order' | 'instance-order' | 'option'
+  priority?: 'routine' | 'urgent' | 'asap' | 'stat'
+  code?: FHIRCodeableConcept
+  subject?: FHIRReference
+  encounter?: FHIRReference
+  authoredOn?: string
+  requester?: FHIRReference
+  reasonCode?: FHIRCodeableConcept[]
+  note?: FHIRAnnotation[]
+}
+
+/**
+ * FHIR Bundle
+ * @description The resources from {@link FHIRMapper.map}, as a `collection` bundle.
+ * @since 2.4.0
+ */
+export interface FHIRBundle extends FHIRResource {
+  resourceType: 'Bundle'
+  type: 'collection'
+  identifier?: FHIRIdentifier
+  entry: Array<{ fullUrl?: string, resource: FHIRResource }>
+}
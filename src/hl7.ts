@@ -12,3 +12,5 @@ export { HL7_2_7_1, HL7_2_7_1_MSH } from './specification/2.7.1.js'
 export { HL7_2_8, HL7_2_8_MSH } from './specification/2.8.js'
 export { HL7_SPEC, HL7_SPEC_BASE } from './specification/specification.js'
 export { MSH } from './specification/specification.js'
+export { DEFAULT_SCHEMA } from './specification/schema.js'
+export type { FieldRule, HL7Schema, MessageStructure, StructureGroup, StructureItem, StructureSegment, ValidationFinding, ValidationFindingCode, ValidationSeverity } from './specification/validation.js'
@@ -1,7 +1,8 @@
-import { Client } from './client/client.js'
+import { Client, IClient } from './client/client.js'
 import { Message } from './builder/message.js'
 import { Batch } from './builder/batch.js'
 import { FileBatch } from './builder/fileBatch.js'
+import { FileBatchReader } from './builder/fileBatchReader.js'
 import { Connection, IConnection } from './client/connection.js'
 import { Delimiters, ReadyState } from './utils/enum.js'
 import { OutboundHandler } from './utils/normalizedClient.js'
@@ -10,12 +11,60 @@ import { NodeBase } from './builder/modules/nodeBase.js'
 import { HL7Node } from './builder/interface/hL7Node.js'
 import { EmptyNode } from './builder/modules/emptyNode.js'
 import { Segment } from './builder/modules/segment.js'
+import { MLLPFramer } from './utils/mllpFramer.js'
+import { OutboundQueue } from './client/module/outboundQueue.js'
+import { Server } from './server/server.js'
+import { IListener, Listener } from './server/listener.js'
+import { InboundRequest } from './server/module/inboundRequest.js'
+import { InboundHandler } from './utils/normalizedServer.js'
+import { DataType } from './builder/types/dataType.js'
+import { CE } from './builder/types/ce.js'
+import { CWE } from './builder/types/cwe.js'
+import { CX } from './builder/types/cx.js'
+import { DTM } from './builder/types/dtm.js'
+import { EI } from './builder/types/ei.js'
+import { HD } from './builder/types/hd.js'
+import { PL } from './builder/types/pl.js'
+import { SN } from './builder/types/sn.js'
+import { XAD } from './builder/types/xad.js'
+import { XCN } from './builder/types/xcn.js'
+import { XON } from './builder/types/xon.js'
+import { XPN } from './builder/types/xpn.js'
+import { XTN } from './builder/types/xtn.js'
+import { defineSegment, SegmentView } from './builder/segments/segmentView.js'
+import { AL1 } from './builder/segments/al1.js'
+import { DG1 } from './builder/segments/dg1.js'
+import { IN1 } from './builder/segments/in1.js'
+import { NK1 } from './builder/segments/nk1.js'
+import { OBR } from './builder/segments/obr.js'
+import { OBX } from './builder/segments/obx.js'
+import { ORC } from './builder/segments/orc.js'
+import { PID } from './builder/segments/pid.js'
+import { PV1 } from './builder/segments/pv1.js'
+import { FHIRMapper } from './fhir/mapper.js'
+import { MessageGroup } from './builder/structure.js'
 
 export { expBackoff, assertNumber, isHL7Number, isHL7String, validIPv4, validIPv6, createHL7Date, isBatch, isFile, padHL7Date, escapeForRegExp, decodeHexString, randomString } from './utils/utils.js'
+export { HL7DateTime, isHL7DatePrecision } from './utils/dateTime.js'
+export { SAFE_HARBOR } from './builder/deidentify.js'
+export type { HL7DateOptions, HL7DatePrecision } from './utils/dateTime.js'
+export type { HL7FormattedTextPart, HL7FormattingCommand } from './utils/formattedText.js'
+export type { ParseDiagnostic, ParseDiagnosticCode } from './utils/lenient.js'
 
-export type { ClientOptions, ClientListenerOptions } from './utils/normalizedClient.js'
-export type { ClientBuilderFileOptions, ClientBuilderMessageOptions, ClientBuilderOptions } from './utils/normalizedBuilder.js'
+export type { AcknowledgmentCode, AcknowledgmentError, AcknowledgmentErrorLocation, ErrorSeverity } from './client/module/inboundResponse.js'
+export type { OutboundQueueEntry, OutboundQueueState } from './client/module/outboundQueue.js'
+export type { ClientEndpoint, ClientOptions, ClientListenerOptions, FailoverPolicy, SendMessageOptions } from './utils/normalizedClient.js'
+export type { ListenerOptions, ServerOptions } from './utils/normalizedServer.js'
+export type { ClientBuilderAckOptions, ClientBuilderFileOptions, ClientBuilderMessageOptions, ClientBuilderOptions } from './utils/normalizedBuilder.js'
+export type { HL7BatchJSON, HL7DelimitersJSON, HL7FieldJSON, HL7FileBatchJSON, HL7MessageJSON, HL7SegmentJSON } from './builder/json.js'
+export type { HL7TransformRule } from './builder/transform.js'
+export type { HL7DeidentifyOptions, HL7DeidentifyRule, HL7FakeData } from './builder/deidentify.js'
+export type { HL7XMLOptions } from './builder/xml.js'
+export type { FHIRMappingContext } from './fhir/mapper.js'
+export type { FHIRAddress, FHIRAnnotation, FHIRBundle, FHIRCodeableConcept, FHIRCoding, FHIRContactPoint, FHIRDiagnosticReport, FHIREncounter, FHIRHumanName, FHIRIdentifier, FHIRObservation, FHIRPatient, FHIRPeriod, FHIRQuantity, FHIRRange, FHIRRatio, FHIRReference, FHIRResource, FHIRServiceRequest } from './fhir/resources.js'
+export type { DataTypeClass, DataTypeValues } from './builder/types/dataType.js'
+export type { FieldDefinition, FieldValue, SegmentFields, SegmentViewClass } from './builder/segments/segmentView.js'
 export type { HL7Error, HL7FatalError, HL7ParserError } from './utils/exception.js'
 
 export default Client
-export { Client, Connection, IConnection, OutboundHandler, InboundResponse, FileBatch, Batch, Message, ReadyState, NodeBase, EmptyNode, Segment, Delimiters, HL7Node }
+export { Client, IClient, Connection, IConnection, OutboundHandler, InboundResponse, FileBatch, FileBatchReader, Batch, Message, ReadyState, NodeBase, EmptyNode, Segment, Delimiters, HL7Node, MLLPFramer, OutboundQueue, Server, Listener, IListener, InboundRequest, InboundHandler, DataType, CE, CWE, CX, DTM, EI, HD, PL, SN, XAD, XCN, XON, XPN, XTN, defineSegment, SegmentView, AL1, DG1, IN1, NK1, OBR, OBX, ORC, PID, PV1, FHIRMapper, MessageGroup }
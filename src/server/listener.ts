@@ -0,0 +1,222 @@
+import EventEmitter from 'node:events'
+import net, { Socket } from 'node:net'
+import tls from 'node:tls'
+import { Message } from '../builder/message.js'
+import { PROTOCOL_MLLP_FOOTER, PROTOCOL_MLLP_HEADER } from '../utils/constants.js'
+import { HL7FatalError } from '../utils/exception.js'
+import { MLLPFramer } from '../utils/mllpFramer.js'
+import { InboundHandler, ListenerOptions, normalizeListenerOptions } from '../utils/normalizedServer.js'
+import { InboundRequest } from './module/inboundRequest.js'
+import { Server } from './server.js'
+
+/* eslint-disable */
+export interface IListener extends EventEmitter {
+  /** The listener has been closed. */
+  on(name: 'close', cb: () => void): this;
+  /** The listener is bound to the port and ready for clients. */
+  on(name: 'listen', cb: () => void): this;
+  /** The listener could not bind, or had some other error. */
+  on(name: 'error', cb: (err: any) => void): this;
+  /** A client has disconnected. */
+  on(name: 'client.close', cb: (socket: Socket) => void): this;
+  /** A client has connected. */
+  on(name: 'client.connect', cb: (socket: Socket) => void): this;
+  /** A client socket had an error. */
+  on(name: 'client.error', cb: (err: any) => void): this;
+  /** Data was received outside an MLLP frame and was discarded. */
+  on(name: 'client.garbage', cb: (data: Buffer) => void): this;
+  /** A frame was received, but could not be parsed into HL7, or had no messages. An AR acknowledgment was sent back. */
+  on(name: 'data.error', cb: (err: any, raw: string) => void): this;
+  /** The handler threw. An AE acknowledgment was sent back. */
+  on(name: 'handler.error', cb: (err: any, req: InboundRequest) => void): this;
+  /** A response was sent back to the client. */
+  on(name: 'response.sent', cb: (response: string) => void): this;
+}
+/* eslint-enable */
+
+/** Listener Class
+ * @description Listens on a port for HL7 messages sent over MLLP and responds to each one.
+ * @since 2.4.0 */
+export class Listener extends EventEmitter implements IListener {
+  /** @internal */
+  _handler: InboundHandler
+  /** @internal */
+  private readonly _main: Server
+  /** @internal */
+  private readonly _opt: ReturnType<typeof normalizeListenerOptions>
+  /** @internal */
+  private readonly _server: net.Server
+  /** @internal */
+  private readonly _sockets: Set<Socket>
+  /** @internal */
+  readonly stats = {
+    /** Total frames received.
+     * @since 2.4.0 */
+    received: 0,
+    /** Total responses sent.
+     * @since 2.4.0 */
+    sent: 0
+  }
+
+  /**
+   * @since 2.4.0
+   * @param server
+   * @param props
+   * @param handler
+   */
+  constructor (server: Server, props: ListenerOptions, handler: InboundHandler) {
+    super()
+    this._main = server
+    this._opt = normalizeListenerOptions(props)
+    this._handler = handler
+    this._sockets = new Set()
+
+    const onConnection = (socket: Socket): void => this._onConnection(socket)
+    this._server = typeof this._main._opt.tls !== 'undefined'
+      ? tls.createServer(this._main._opt.tls, onConnection)
+      : net.createServer(onConnection)
+
+    this._server.on('error', (err) => {
+      this.emit('error', err)
+    })
+
+    this._server.listen(this._opt.port, this._main._opt.bindAddress, () => {
+      this.emit('listen')
+    })
+  }
+
+  /** Close Listener Instance.
+   * @description Stops listening and disconnects every client.
+   * @since 2.4.0
+   */
+  async close (): Promise<void> {
+    for (const socket of this._sockets) {
+      socket.destroy()
+    }
+    this._sockets.clear()
+    if (this._server.listening) {
+      await new Promise<void>((resolve) => this._server.close(() => resolve()))
+    }
+    this.emit('close')
+  }
+
+  /**
+   * Get Port
+   * @description Get the port this listener is bound to.
+   * @since 2.4.0
+   */
+  getPort (): number {
+    return this._opt.port
+  }
+
+  /** @internal */
+  private _onConnection (socket: Socket): void {
+    this._sockets.add(socket)
+    socket.setNoDelay(true)
+
+    const framer = new MLLPFramer(this._opt.encoding)
+    // responses go back in the order the requests came in
+    let processing = Promise.resolve()
+
+    framer.on('frame', (frame: string) => {
+      // _onFrame does not reject, so one bad frame does not stop the ones after it
+      processing = processing.then(async () => await this._onFrame(socket, frame))
+    })
+
+    framer.on('garbage', (data: Buffer) => {
+      this.emit('client.garbage', data)
+    })
+
+    socket.on('data', (buffer: Buffer) => {
+      framer.push(buffer)
+    })
+
+    socket.on('error', (err) => {
+      this.emit('client.error', err)
+    })
+
+    socket.on('close', () => {
+      this._sockets.delete(socket)
+      this.emit('client.close', socket)
+    })
+
+    this.emit('client.connect', socket)
+  }
+
+  /** @internal */
+  private async _onFrame (socket: Socket, frame: string): Promise<void> {
+    ++this.stats.received
+
+    let req: InboundRequest
+    try {
+      req = new InboundRequest(frame)
+    } catch (err: any) {
+      this.emit('data.error', err, frame)
+      this._send(socket, [this._reject(frame, err)])
+      return
+    }
+
+    let responses: string[]
+    try {
+      const result = await this._handler(req)
+      responses = typeof result === 'undefined' ? this._acks(req, frame, 'AA') : [result.toString()]
+    } catch (err: any) {
+      this.emit('handler.error', err, req)
+      responses = this._acks(req, frame, 'AE', err.message)
+    }
+
+    this._send(socket, responses)
+  }
+
+  /**
+   * An acknowledgment for each message of the request,
+   * or an AR if there are none, or they can not be made.
+   * @internal
+   */
+  private _acks (req: InboundRequest, frame: string, code: 'AA' | 'AE', text?: string): string[] {
+    try {
+      const messages = req.getMessages()
+      if (messages.length === 0) {
+        throw new HL7FatalError('No messages inside batch.')
+      }
+      return messages.map(message => message.createAck(code, { text }).toString())
+    } catch (err: any) {
+      this.emit('data.error', err, frame)
+      return [this._reject(frame, err)]
+    }
+  }
+
+  /**
+   * An AR for a frame that could not be used, so the client does not wait for one until it times out.
+   * It is for the first MSH of the frame, if that can be read.
+   * @internal
+   */
+  private _reject (frame: string, err: any): string {
+    const text = typeof err?.message === 'string' ? err.message : String(err)
+    const header = frame.split(/\r\n|\r|\n/).find(line => line.startsWith('MSH'))
+    if (typeof header !== 'undefined') {
+      try {
+        return new Message({ text: header }).createAck('AR', { text }).toString()
+      } catch {
+        // not even the MSH can be read, so use the default one
+      }
+    }
+    return new Message({ text: 'MSH|^~\\&' }).createAck('AR', { text }).toString()
+  }
+
+  /** @internal */
+  private _send (socket: Socket, responses: string[]): void {
+    if (socket.destroyed) {
+      return
+    }
+
+    for (const response of responses) {
+      socket.write(Buffer.from(`${PROTOCOL_MLLP_HEADER}${response}${PROTOCOL_MLLP_FOOTER}`), this._opt.encoding, () => {
+        ++this.stats.sent
+        this.emit('response.sent', response)
+      })
+    }
+  }
+}
+
+export default Listener
@@ -0,0 +1,61 @@
+import { Batch } from '../../builder/batch.js'
+import { FileBatch } from '../../builder/fileBatch.js'
+import { Message } from '../../builder/message.js'
+import { isBatch, isFile } from '../../utils/utils.js'
+
+/**
+ * Inbound Request
+ * @description What a client sent to a {@link Listener}.
+ * @since 2.4.0
+ */
+export class InboundRequest {
+  /** @internal */
+  private readonly _raw: string
+  /** @internal */
+  private readonly _message: Message | Batch | FileBatch
+
+  /**
+   * Process the Inbound Request from the Client
+   * @description This takes the string received from the client and parses it
+   * into a {@link Message}, {@link Batch}, or {@link FileBatch}.
+   * @since 2.4.0
+   * @param data
+   */
+  constructor (data: string) {
+    this._raw = data.toString().trimEnd()
+    if (isFile(this._raw)) {
+      this._message = new FileBatch({ text: this._raw })
+    } else if (isBatch(this._raw)) {
+      this._message = new Batch({ text: this._raw })
+    } else {
+      this._message = new Message({ text: this._raw })
+    }
+  }
+
+  /**
+   * Get Message
+   * @description Depending on what was sent, this could be a {@link Message}, {@link Batch}, or {@link FileBatch}.
+   * @since 2.4.0
+   */
+  getMessage (): Message | Batch | FileBatch {
+    return this._message
+  }
+
+  /**
+   * Get Messages
+   * @description Every message sent, so you do not have to care if it was a batch or not.
+   * @since 2.4.0
+   */
+  getMessages (): Message[] {
+    return this._message instanceof Message ? [this._message] : this._message.messages()
+  }
+
+  /**
+   * Get Raw
+   * @description The HL7 text, without the MLLP framing.
+   * @since 2.4.0
+   */
+  getRaw (): string {
+    return this._raw
+  }
+}
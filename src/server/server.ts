@@ -0,0 +1,75 @@
+import EventEmitter from 'events'
+import { InboundHandler, ListenerOptions, normalizeServerOptions, ServerOptions } from '../utils/normalizedServer.js'
+import { Listener } from './listener.js'
+
+/**
+ * Server Class
+ * @description Receive HL7 messages over TCP/MLLP (or TLS) from other systems.
+ * Then using the {@link createListener} method, you start listening on a port.
+ * @since 2.4.0 */
+export class Server extends EventEmitter {
+  /** @internal */
+  _opt: ReturnType<typeof normalizeServerOptions>
+  /** @internal */
+  _listeners: Listener[]
+
+  /**
+   * This creates a new server.
+   * @since 2.4.0
+   * @param props
+   * @example
+   * ```ts
+   * const server = new Server({bindAddress: '0.0.0.0'})
+   * ```
+   */
+  constructor (props?: ServerOptions) {
+    super()
+    this._opt = normalizeServerOptions(props)
+    this._listeners = []
+  }
+
+  /**
+   * Close all listeners
+   * @since 2.4.0
+   */
+  async closeAll (): Promise<void> {
+    const listeners = this._listeners
+    this._listeners = []
+    await Promise.all(listeners.map(async (listener) => await listener.close()))
+  }
+
+  /** Listen on a port.
+   * @since 2.4.0
+   * @param props The port to listen on, and other options for this port.
+   * @param cb The function that is called with each message received.
+   * What it returns decides what is sent back. See {@link InboundHandler}.
+   * @example
+   * ```ts
+   * const IB_ADT = server.createListener({port: 3000}, async (req) => {
+   *   const message = req.getMessage()
+   *   // do your code here, and return nothing to send back an AA
+   * })
+   * ```
+   */
+  createListener (props: ListenerOptions, cb: InboundHandler): Listener {
+    const inbound = new Listener(this, props, cb)
+
+    inbound.on('close', () => {
+      this._listeners = this._listeners.filter(listener => listener !== inbound)
+    })
+
+    this._listeners.push(inbound)
+
+    return inbound
+  }
+
+  /**
+   * Get the address that we will listen on.
+   * @since 2.4.0
+   */
+  getBindAddress (): string {
+    return this._opt.bindAddress
+  }
+}
+
+export default Server
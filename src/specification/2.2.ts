@@ -1,6 +1,8 @@
 import { Message } from '../builder/message.js'
 import { createHL7Date, randomString } from '../utils/utils.js'
 import { HL7_SPEC_BASE } from './specification.js'
+import { SCHEMA_2_3 } from './schema.js'
+import { HL7Schema } from './validation.js'
 
 /**
  * HL7 2.2 MSH Specification
@@ -103,4 +105,13 @@ export class HL7_2_2 extends HL7_SPEC_BASE {
       message.set('MSH.12', this.name)
     }
   }
+
+  /**
+   * Schema for HL7 2.2
+   * @description The same as {@link HL7_2_3}, since the fields checked did not change until then.
+   * @since 2.4.0
+   */
+  schema (): HL7Schema {
+    return SCHEMA_2_3
+  }
 }
@@ -1,6 +1,8 @@
 import { Message } from '../builder/message.js'
 import { createHL7Date, randomString } from '../utils/utils.js'
 import { HL7_SPEC_BASE } from './specification.js'
+import { SCHEMA_2_3_1 } from './schema.js'
+import { HL7Schema } from './validation.js'
 
 /**
  * HL7 2.3.1 MSH Specification
@@ -110,4 +112,13 @@ export class HL7_2_3_1 extends HL7_SPEC_BASE {
       message.set('MSH.12', this.name)
     }
   }
+
+  /**
+   * Schema for HL7 2.3.1
+   * @description The same as 2.3, with a longer version ID (MSH-12).
+   * @since 2.4.0
+   */
+  schema (): HL7Schema {
+    return SCHEMA_2_3_1
+  }
 }
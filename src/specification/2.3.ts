@@ -1,6 +1,8 @@
 import { Message } from '../builder/message.js'
 import { createHL7Date, randomString } from '../utils/utils.js'
 import { HL7_SPEC_BASE } from './specification.js'
+import { SCHEMA_2_3 } from './schema.js'
+import { HL7Schema } from './validation.js'
 
 /**
  * HL7 2.3 MSH Specification
@@ -108,4 +110,13 @@ export class HL7_2_3 extends HL7_SPEC_BASE {
       message.set('MSH.12', this.name)
     }
   }
+
+  /**
+   * Schema for HL7 2.3
+   * @description MSH-7 is optional, and the application, facility, message type, version, patient ID, and patient name are shorter than in 2.5.
+   * @since 2.4.0
+   */
+  schema (): HL7Schema {
+    return SCHEMA_2_3
+  }
 }
@@ -1,5 +1,7 @@
 import { Message } from '../builder/message.js'
 import { HL7_2_3_1 } from './2.3.1.js'
+import { SCHEMA_2_4 } from './schema.js'
+import { HL7Schema } from './validation.js'
 
 /**
  * HL7 2.4 MSH Specification
@@ -86,4 +88,13 @@ export class HL7_2_4 extends HL7_2_3_1 {
     super.buildMSH(mshHeader, message)
     message.set('MSH.9.3', typeof mshHeader.msh_9_3 !== 'undefined' ? mshHeader.msh_9_3.toString() : `${mshHeader.msh_9_1.toString()}_${mshHeader.msh_9_2.toString()}`)
   }
+
+  /**
+   * Schema for HL7 2.4
+   * @description MSH-7 is still optional, and the application and facility are shorter than in 2.5.
+   * @since 2.4.0
+   */
+  schema (): HL7Schema {
+    return SCHEMA_2_4
+  }
 }
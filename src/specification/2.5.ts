@@ -1,5 +1,7 @@
 import { Message } from '../builder/message.js'
 import { HL7_2_4 } from './2.4.js'
+import { DEFAULT_SCHEMA } from './schema.js'
+import { HL7Schema } from './validation.js'
 
 /**
  * HL7 2.5 MSH Specification
@@ -82,4 +84,13 @@ export class HL7_2_5 extends HL7_2_4 {
   buildMSH (mshHeader: HL7_2_5_MSH, message: Message): void {
     super.buildMSH(mshHeader, message)
   }
+
+  /**
+   * Schema for HL7 2.5
+   * @description MSH-7 is required from 2.5 on.
+   * @since 2.4.0
+   */
+  schema (): HL7Schema {
+    return DEFAULT_SCHEMA
+  }
 }
@@ -1,5 +1,7 @@
 import { Message } from '../builder/message.js'
 import { HL7_2_5_1 } from './2.5.1.js'
+import { SCHEMA_2_6 } from './schema.js'
+import { HL7Schema } from './validation.js'
 
 /**
  * HL7 2.6 MSH Specification
@@ -81,4 +83,13 @@ export class HL7_2_6 extends HL7_2_5_1 {
   buildMSH (mshHeader: HL7_2_6_MSH, message: Message): void {
     super.buildMSH(mshHeader, message)
   }
+
+  /**
+   * Schema for HL7 2.6
+   * @description The message control ID (MSH-10) can be up to 199 characters.
+   * @since 2.4.0
+   */
+  schema (): HL7Schema {
+    return SCHEMA_2_6
+  }
 }
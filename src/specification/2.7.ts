@@ -1,5 +1,7 @@
 import { Message } from '../builder/message.js'
 import { HL7_2_6 } from './2.6.js'
+import { DEFAULT_SCHEMA } from './schema.js'
+import { HL7Schema } from './validation.js'
 
 /**
  * HL7 2.7 MSH Specification
@@ -55,6 +57,9 @@ export interface HL7_2_7_MSH {
  * @since 1.0.0
  */
 export class HL7_2_7 extends HL7_2_6 {
+  /** @internal */
+  private static _schema: HL7Schema | undefined
+
   constructor () {
     super()
     this.name = '2.7'
@@ -96,4 +101,21 @@ export class HL7_2_7 extends HL7_2_6 {
   buildMSH (mshHeader: HL7_2_7_MSH, message: Message): void {
     super.buildMSH(mshHeader, message)
   }
+
+  /**
+   * Schema for HL7 2.7
+   * @description HL7 2.7 dropped the maximum length of most fields,
+   * so only the structures, required fields, and formats are checked.
+   * @since 2.4.0
+   */
+  schema (): HL7Schema {
+    if (typeof HL7_2_7._schema === 'undefined') {
+      const segments: HL7Schema['segments'] = {}
+      for (const [name, rules] of Object.entries(DEFAULT_SCHEMA.segments)) {
+        segments[name] = rules.map(({ length: _length, ...rule }) => rule)
+      }
+      HL7_2_7._schema = { ...DEFAULT_SCHEMA, segments }
+    }
+    return HL7_2_7._schema
+  }
 }
@@ -0,0 +1,377 @@
+import { AL1 } from '../builder/segments/al1.js'
+import { DG1 } from '../builder/segments/dg1.js'
+import { IN1 } from '../builder/segments/in1.js'
+import { NK1 } from '../builder/segments/nk1.js'
+import { OBR } from '../builder/segments/obr.js'
+import { OBX } from '../builder/segments/obx.js'
+import { ORC } from '../builder/segments/orc.js'
+import { PID } from '../builder/segments/pid.js'
+import { PV1 } from '../builder/segments/pv1.js'
+import { FieldDefinition } from '../builder/segments/segmentView.js'
+import { FieldRule, HL7Schema, MessageStructure } from './validation.js'
+
+/** @internal */
+const SFT: MessageStructure = [{ segment: 'SFT', repeating: true }]
+
+/** @internal */
+const PROCEDURE: MessageStructure = [{
+  group: 'PROCEDURE',
+  repeating: true,
+  items: [
+    { segment: 'PR1', required: true },
+    { segment: 'ROL', repeating: true }
+  ]
+}]
+
+/** @internal */
+const INSURANCE: MessageStructure = [{
+  group: 'INSURANCE',
+  repeating: true,
+  items: [
+    { segment: 'IN1', required: true },
+    { segment: 'IN2' },
+    { segment: 'IN3', repeating: true },
+    { segment: 'ROL', repeating: true }
+  ]
+}]
+
+/** @internal */
+const ADT_A01: MessageStructure = [
+  { segment: 'MSH', required: true },
+  ...SFT,
+  { segment: 'EVN', required: true },
+  { segment: 'PID', required: true },
+  { segment: 'PD1' },
+  { segment: 'ROL', repeating: true },
+  { segment: 'NK1', repeating: true },
+  { segment: 'PV1', required: true },
+  { segment: 'PV2' },
+  { segment: 'ROL', repeating: true },
+  { segment: 'DB1', repeating: true },
+  { segment: 'OBX', repeating: true },
+  { segment: 'AL1', repeating: true },
+  { segment: 'DG1', repeating: true },
+  { segment: 'DRG' },
+  ...PROCEDURE,
+  { segment: 'GT1', repeating: true },
+  ...INSURANCE,
+  { segment: 'ACC' },
+  { segment: 'UB1' },
+  { segment: 'UB2' },
+  { segment: 'PDA' }
+]
+
+/**
+ * The HL7 v2.5.1 message structures, fields, and lengths.
+ * @since 2.4.0
+ */
+export const DEFAULT_SCHEMA: HL7Schema = {
+  structures: {
+    ACK: [
+      { segment: 'MSH', required: true },
+      ...SFT,
+      { segment: 'MSA', required: true },
+      { segment: 'ERR', repeating: true }
+    ],
+    ADT_A01,
+    ADT_A02: [
+      { segment: 'MSH', required: true },
+      ...SFT,
+      { segment: 'EVN', required: true },
+      { segment: 'PID', required: true },
+      { segment: 'PD1' },
+      { segment: 'ROL', repeating: true },
+      { segment: 'PV1', required: true },
+      { segment: 'PV2' },
+      { segment: 'ROL', repeating: true },
+      { segment: 'DB1', repeating: true },
+      { segment: 'OBX', repeating: true },
+      { segment: 'PDA' }
+    ],
+    ADT_A03: [
+      { segment: 'MSH', required: true },
+      ...SFT,
+      { segment: 'EVN', required: true },
+      { segment: 'PID', required: true },
+      { segment: 'PD1' },
+      { segment: 'ROL', repeating: true },
+      { segment: 'NK1', repeating: true },
+      { segment: 'PV1', required: true },
+      { segment: 'PV2' },
+      { segment: 'ROL', repeating: true },
+      { segment: 'DB1', repeating: true },
+      { segment: 'AL1', repeating: true },
+      { segment: 'DG1', repeating: true },
+      { segment: 'DRG' },
+      ...PROCEDURE,
+      { segment: 'OBX', repeating: true },
+      { segment: 'GT1', repeating: true },
+      ...INSURANCE,
+      { segment: 'ACC' },
+      { segment: 'PDA' }
+    ],
+    // the same as ADT_A01, without the PDA segment
+    ADT_A05: ADT_A01.slice(0, -1),
+    ORM_O01: [
+      { segment: 'MSH', required: true },
+      { segment: 'NTE', repeating: true },
+      {
+        group: 'PATIENT',
+        items: [
+          { segment: 'PID', required: true },
+          { segment: 'PD1' },
+          { segment: 'NTE', repeating: true },
+          {
+            group: 'PATIENT_VISIT',
+            items: [
+              { segment: 'PV1', required: true },
+              { segment: 'PV2' }
+            ]
+          },
+          {
+            group: 'INSURANCE',
+            repeating: true,
+            items: [
+              { segment: 'IN1', required: true },
+              { segment: 'IN2' },
+              { segment: 'IN3' }
+            ]
+          },
+          { segment: 'GT1' },
+          { segment: 'AL1', repeating: true }
+        ]
+      },
+      {
+        group: 'ORDER',
+        required: true,
+        repeating: true,
+        items: [
+          { segment: 'ORC', required: true },
+          {
+            group: 'ORDER_DETAIL',
+            items: [
+              { segment: 'OBR', required: true },
+              { segment: 'NTE', repeating: true },
+              { segment: 'CTD' },
+              { segment: 'DG1', repeating: true },
+              {
+                group: 'OBSERVATION',
+                repeating: true,
+                items: [
+                  { segment: 'OBX', required: true },
+                  { segment: 'NTE', repeating: true }
+                ]
+              }
+            ]
+          },
+          { segment: 'FT1', repeating: true },
+          { segment: 'CTI', repeating: true },
+          { segment: 'BLG' }
+        ]
+      }
+    ],
+    ORU_R01: [
+      { segment: 'MSH', required: true },
+      ...SFT,
+      {
+        group: 'PATIENT_RESULT',
+        required: true,
+        repeating: true,
+        items: [
+          {
+            group: 'PATIENT',
+            items: [
+              { segment: 'PID', required: true },
+              { segment: 'PD1' },
+              { segment: 'NTE', repeating: true },
+              { segment: 'NK1', repeating: true },
+              {
+                group: 'VISIT',
+                items: [
+                  { segment: 'PV1', required: true },
+                  { segment: 'PV2' }
+                ]
+              }
+            ]
+          },
+          {
+            group: 'ORDER_OBSERVATION',
+            required: true,
+            repeating: true,
+            items: [
+              { segment: 'ORC' },
+              { segment: 'OBR', required: true },
+              { segment: 'NTE', repeating: true },
+              {
+                group: 'TIMING_QTY',
+                repeating: true,
+                items: [
+                  { segment: 'TQ1', required: true },
+                  { segment: 'TQ2', repeating: true }
+                ]
+              },
+              { segment: 'CTD' },
+              {
+                group: 'OBSERVATION',
+                repeating: true,
+                items: [
+                  { segment: 'OBX', required: true },
+                  { segment: 'NTE', repeating: true }
+                ]
+              },
+              { segment: 'FT1', repeating: true },
+              { segment: 'CTI', repeating: true },
+              {
+                group: 'SPECIMEN',
+                repeating: true,
+                items: [
+                  { segment: 'SPM', required: true },
+                  { segment: 'OBX', repeating: true }
+                ]
+              }
+            ]
+          }
+        ]
+      },
+      { segment: 'DSC' }
+    ]
+  },
+  events: {
+    ADT_A01: 'ADT_A01',
+    ADT_A02: 'ADT_A02',
+    ADT_A03: 'ADT_A03',
+    ADT_A04: 'ADT_A01',
+    ADT_A05: 'ADT_A05',
+    ADT_A08: 'ADT_A01',
+    ADT_A13: 'ADT_A01',
+    ADT_A14: 'ADT_A05',
+    ADT_A28: 'ADT_A05',
+    ADT_A31: 'ADT_A05',
+    ORM_O01: 'ORM_O01',
+    ORU_R01: 'ORU_R01'
+  },
+  segments: {
+    MSH: [
+      { field: 3, type: 'HD', length: 227 },
+      { field: 4, type: 'HD', length: 227 },
+      { field: 5, type: 'HD', length: 227 },
+      { field: 6, type: 'HD', length: 227 },
+      { field: 7, type: 'TS', required: true, length: 26 },
+      { field: 8, type: 'ST', length: 40 },
+      { field: 9, type: 'MSG', required: true, length: 15 },
+      { field: 10, type: 'ST', required: true, length: 20 },
+      { field: 11, type: 'PT', required: true, length: 3 },
+      { field: 12, type: 'VID', required: true, length: 60 },
+      { field: 13, type: 'NM', length: 15 }
+    ],
+    EVN: [
+      { field: 1, type: 'ID', length: 3 },
+      { field: 2, type: 'TS', required: true, length: 26 },
+      { field: 3, type: 'TS', length: 26 },
+      { field: 6, type: 'TS', length: 26 }
+    ],
+    MSA: [
+      { field: 1, type: 'ID', required: true, length: 2 },
+      { field: 2, type: 'ST', required: true, length: 20 },
+      { field: 3, type: 'ST', length: 80 },
+      { field: 4, type: 'NM', length: 15 }
+    ],
+    PID: _rules(PID, { 1: 4, 3: true, 5: true, 7: 26, 8: 1, 19: 16, 24: 1, 25: 2, 29: 26, 30: 1, 31: 1, 33: 26 }),
+    PV1: _rules(PV1, { 1: 4, 2: [true, 1], 44: 26 }),
+    ORC: _rules(ORC, { 1: [true, 2], 2: 22, 3: 22, 4: 22, 5: 2, 9: 26, 15: 26 }),
+    OBR: _rules(OBR, { 1: 4, 2: 22, 3: 22, 4: true, 6: 26, 7: 26, 8: 26, 14: 26, 22: 26, 25: 1, 36: 26 }),
+    OBX: _rules(OBX, { 1: 4, 2: 2, 3: true, 4: 20, 7: 60, 8: 5, 11: [true, 1], 12: 26, 14: 26, 19: 26 }),
+    NK1: _rules(NK1, { 1: [true, 4], 8: 8, 9: 8, 16: 26 }),
+    AL1: _rules(AL1, { 1: [true, 4], 3: true, 5: 15, 6: 8 }),
+    DG1: _rules(DG1, { 1: [true, 4], 4: 40, 5: 26, 6: [true, 2], 19: 26 }),
+    IN1: _rules(IN1, { 1: [true, 4], 2: true, 3: true, 12: 8, 13: 8, 18: 26, 24: 8, 26: 8, 29: 26 })
+  }
+}
+
+/**
+ * The HL7 v2.3 fields and lengths, for v2.1 to v2.3.
+ * @description Where they are not the same as v2.5.1: MSH-7 is optional,
+ * and the application, facility, message type, version, patient ID, and patient name are shorter.
+ * @since 2.4.0
+ * @internal
+ */
+export const SCHEMA_2_3: HL7Schema = changeSchema(DEFAULT_SCHEMA, {
+  MSH: { 3: 180, 4: 180, 5: 180, 6: 180, 7: [false, 26], 9: 7, 12: 8 },
+  PID: { 3: [true, 20], 5: [true, 48] }
+})
+
+/**
+ * The HL7 v2.3.1 fields and lengths.
+ * @description The same as v2.3, with the longer version ID of v2.4.
+ * @since 2.4.0
+ * @internal
+ */
+export const SCHEMA_2_3_1: HL7Schema = changeSchema(SCHEMA_2_3, {
+  MSH: { 12: 60 }
+})
+
+/**
+ * The HL7 v2.4 fields and lengths.
+ * @description Where they are not the same as v2.5.1: MSH-7 is still optional,
+ * and the application and facility are shorter.
+ * @since 2.4.0
+ * @internal
+ */
+export const SCHEMA_2_4: HL7Schema = changeSchema(DEFAULT_SCHEMA, {
+  MSH: { 3: 180, 4: 180, 5: 180, 6: 180, 7: [false, 26] },
+  PID: { 3: [true, 250], 5: [true, 250] }
+})
+
+/**
+ * The HL7 v2.6 fields and lengths.
+ * @description Where they are not the same as v2.5.1: the message control ID (MSH-10) can be up to 199 characters.
+ * @since 2.4.0
+ * @internal
+ */
+export const SCHEMA_2_6: HL7Schema = changeSchema(DEFAULT_SCHEMA, {
+  MSH: { 10: [true, 199] }
+})
+
+/**
+ * A copy of a schema with some of its field rules changed.
+ * @since 2.4.0
+ * @internal
+ * @param schema The schema to copy.
+ * @param changes By segment name, and then field number, the same as {@link _rules}.
+ */
+export function changeSchema (schema: HL7Schema, changes: Record<string, Record<number, boolean | number | [boolean, number]>>): HL7Schema {
+  const segments = { ...schema.segments }
+  for (const [name, fields] of Object.entries(changes)) {
+    segments[name] = segments[name].map(rule => ({ ...rule, ..._extra(fields[rule.field]) }))
+  }
+  return { ...schema, segments }
+}
+
+/**
+ * Build the field rules of a segment from its typed view.
+ * @internal
+ * @param view The segment view with the fields and their types.
+ * @param extra By field number: `true` if required, a number for the maximum length, or both as `[required, length]`.
+ */
+function _rules (view: { fields: Record<string, FieldDefinition> }, extra: Record<number, boolean | number | [boolean, number]>): FieldRule[] {
+  return Object.values(view.fields).map(definition => ({
+    field: definition.field,
+    type: typeof definition.type === 'string' ? definition.type : definition.type.code,
+    ..._extra(extra[definition.field])
+  }))
+}
+
+/**
+ * If a field is required, and its maximum length, from the short form used by {@link _rules}.
+ * @internal
+ */
+function _extra (more: boolean | number | [boolean, number] | undefined): Pick<FieldRule, 'required' | 'length'> {
+  if (Array.isArray(more)) {
+    return { required: more[0], length: more[1] }
+  } else if (typeof more === 'boolean') {
+    return { required: more }
+  } else if (typeof more === 'number') {
+    return { length: more }
+  }
+  return {}
+}
@@ -10,6 +10,8 @@ import { HL7_2_6_MSH } from './2.6.js'
 import { HL7_2_7_1_MSH } from './2.7.1.js'
 import { HL7_2_7_MSH } from './2.7.js'
 import { HL7_2_8_MSH } from './2.8.js'
+import { DEFAULT_SCHEMA } from './schema.js'
+import { HL7Schema, validateMessage, ValidationFinding } from './validation.js'
 
 /**
  * MSH Unions
@@ -28,6 +30,15 @@ export interface HL7_SPEC {
   checkMSH: (options: MSH) => boolean
   /** Build MSH */
   buildMSH: (mshHeader: MSH, massage: Message) => void
+  /** Validate a Message, or with the schema, if there is no validate
+   * @since 2.4.0 */
+  validate?: (message: Message) => ValidationFinding[]
+  /** What validate checks against, or the schema of the version in MSH-12, if there is none
+   * @since 2.4.0 */
+  schema?: () => HL7Schema
+  /** The XML namespace for the v2.xml encoding, or the HL7 one, if there is none
+   * @since 2.4.0 */
+  xmlNamespace?: () => string
 }
 
 /**
@@ -60,4 +71,49 @@ export class HL7_SPEC_BASE implements HL7_SPEC {
   buildMSH (_mshHeader: MSH, _massage: Message): void {
     throw new Error('Not Implemented')
   }
+
+  /**
+   * Validate a Message
+   * @description Check a message against this specification:
+   * - The segments and groups are there, in order, as many times as the message structure (MSH-9.3, or MSH-9.1 and MSH-9.2) allows.
+   * - Required fields have a value.
+   * - Fields are not longer than their maximum length.
+   * - Dates, times, and numbers are formatted correctly.
+   *
+   * Every problem found is returned, rather than throwing on the first one.
+   * Z segments are ignored.
+   * @since 2.4.0
+   * @param message The message to check.
+   * @return The problems found, in the order they are in the message. An empty list means the message is valid.
+   * @example
+   * ```ts
+   * const findings = new HL7_2_5_1().validate(message)
+   * if (findings.some(finding => finding.severity === 'error')) {
+   *   // do not send it
+   * }
+   * ```
+   */
+  validate (message: Message): ValidationFinding[] {
+    return validateMessage(message, this.schema())
+  }
+
+  /**
+   * Schema
+   * @description The message structures and field rules that {@link validate} checks against.
+   * Extend the class and override this to add your own.
+   * @since 2.4.0
+   */
+  schema (): HL7Schema {
+    return DEFAULT_SCHEMA
+  }
+
+  /**
+   * XML Namespace
+   * @description The namespace of the root element of a message in the HL7 v2.xml encoding,
+   * from {@link Message.toXML}.
+   * @since 2.4.0
+   */
+  xmlNamespace (): string {
+    return 'urn:hl7-org:v2xml'
+  }
 }
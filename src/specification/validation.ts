@@ -0,0 +1,358 @@
+import { HL7Node } from '../builder/interface/hL7Node.js'
+import { Message } from '../builder/message.js'
+
+/**
+ * Validation Severity
+ * @description How bad a {@link ValidationFinding} is.
+ * - `error` - The message does not follow the specification and a partner is likely to reject it.
+ * - `warning` - Something might be wrong, but the message could still be accepted.
+ * @since 2.4.0
+ */
+export type ValidationSeverity = 'error' | 'warning'
+
+/**
+ * Validation Finding Code
+ * @since 2.4.0
+ */
+export type ValidationFindingCode =
+  'structure.unknown' |
+  'segment.missing' |
+  'segment.repeat' |
+  'segment.unexpected' |
+  'field.required' |
+  'field.length' |
+  'field.format'
+
+/**
+ * Validation Finding
+ * @description One problem found by `validate`.
+ * @since 2.4.0
+ */
+export interface ValidationFinding {
+  /** What kind of problem it is. */
+  code: ValidationFindingCode
+  /** How bad it is. */
+  severity: ValidationSeverity
+  /** Where it is, like `PID.3`, or the segment or group name for a missing segment or group. */
+  path: string
+  /** The line (segment) of the message, starting at 1.
+   * Undefined when the problem is something that is missing. */
+  line?: number
+  /** What is wrong, for people to read. */
+  message: string
+}
+
+/**
+ * Structure Segment
+ * @description A segment in a {@link MessageStructure}.
+ * @since 2.4.0
+ */
+export interface StructureSegment {
+  segment: string
+  required?: boolean
+  repeating?: boolean
+}
+
+/**
+ * Structure Group
+ * @description A group of segments in a {@link MessageStructure}, like `INSURANCE`.
+ * @since 2.4.0
+ */
+export interface StructureGroup {
+  group: string
+  required?: boolean
+  repeating?: boolean
+  items: StructureItem[]
+}
+
+/**
+ * Structure Item
+ * @since 2.4.0
+ */
+export type StructureItem = StructureSegment | StructureGroup
+
+/**
+ * Message Structure
+ * @description The segments and groups of a message structure, like `ADT_A01`, in order.
+ * @since 2.4.0
+ */
+export type MessageStructure = StructureItem[]
+
+/**
+ * Field Rule
+ * @description What a field of a segment must look like.
+ * @since 2.4.0
+ */
+export interface FieldRule {
+  /** The position of the field, starting at 1. */
+  field: number
+  /** The HL7 data type code, like `ST` or `TS`. */
+  type: string
+  /** The field must have a value. */
+  required?: boolean
+  /** Maximum length of each repetition. */
+  length?: number
+}
+
+/**
+ * HL7 Schema
+ * @description Everything `validate` checks a message against.
+ * @since 2.4.0
+ */
+export interface HL7Schema {
+  /** Message structures by name, like `ADT_A01`. */
+  structures: Record<string, MessageStructure>
+  /** The message structure of a message type and trigger event,
+   * like `ADT_A04` to `ADT_A01`, for when MSH-9.3 is not there. */
+  events: Record<string, string>
+  /** Field rules by segment name. */
+  segments: Record<string, FieldRule[]>
+}
+
+/** @internal */
+const FORMATS: Record<string, RegExp> = {
+  DT: /^\d{4}(\d{2}(\d{2})?)?$/,
+  DTM: /^\d{4}(\d{2}(\d{2}(\d{2}(\d{2}(\d{2}(\.\d{1,4})?)?)?)?)?)?([+-]\d{4})?$/,
+  NM: /^[+-]?(\d+\.?\d*|\.\d+)$/,
+  SI: /^\d+$/,
+  TM: /^\d{2}(\d{2}(\d{2}(\.\d{1,4})?)?)?([+-]\d{4})?$/,
+  TS: /^\d{4}(\d{2}(\d{2}(\d{2}(\d{2}(\d{2}(\.\d{1,4})?)?)?)?)?)?([+-]\d{4})?$/
+}
+
+/** @internal */
+interface MatchState {
+  segments: HL7Node[]
+  position: number
+  known: Set<string>
+  structure: string
+  findings: ValidationFinding[]
+}
+
+/**
+ * Validate a message against a schema.
+ * @since 2.4.0
+ * @internal
+ * @param message
+ * @param schema
+ */
+export const validateMessage = (message: Message, schema: HL7Schema): ValidationFinding[] => {
+  const findings: ValidationFinding[] = []
+  const segments = message.toArray()
+
+  const name = structureName(message, schema)
+  if (typeof name === 'undefined') {
+    findings.push({
+      code: 'structure.unknown',
+      severity: 'warning',
+      path: 'MSH.9',
+      line: 1,
+      message: `The message structure of ${_messageType(message)} is not known, so only the fields are checked.`
+    })
+  } else {
+    const structure = schema.structures[name]
+    const state: MatchState = { segments, position: 0, known: segmentNames(structure), structure: name, findings }
+    _match(structure, state, '')
+    for (; state.position < segments.length; state.position++) {
+      const segment = segments[state.position]
+      if (!_isZ(segment.name)) {
+        findings.push({
+          code: 'segment.unexpected',
+          severity: 'error',
+          path: segment.name,
+          line: state.position + 1,
+          message: `${segment.name} segment is not expected here in ${name}.`
+        })
+      }
+    }
+  }
+
+  segments.forEach((segment, index) => {
+    const rules = schema.segments[segment.name]
+    if (typeof rules !== 'undefined') {
+      _checkFields(segment, rules, index + 1, findings)
+    }
+  })
+
+  // in the order they appear in the message, with what is missing at the end
+  return findings.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity))
+}
+
+/**
+ * The name of the message structure of a message, like `ADT_A01`,
+ * from MSH-9.3, or from MSH-9.1 and MSH-9.2 if MSH-9.3 is not a known structure.
+ * @since 2.4.0
+ * @internal
+ * @param message
+ * @param schema
+ * @return Undefined if the structure is not in the schema.
+ */
+export const structureName = (message: Message, schema: HL7Schema): string | undefined => {
+  const structure = message.get('MSH.9.3').toString()
+  if (typeof schema.structures[structure] !== 'undefined') {
+    return structure
+  }
+  const code = message.get('MSH.9.1').toString()
+  if (code === 'ACK') {
+    return 'ACK'
+  }
+  return schema.events[`${code}_${message.get('MSH.9.2').toString()}`]
+}
+
+/** @internal */
+const _messageType = (message: Message): string => {
+  return [message.get('MSH.9.1').toString(), message.get('MSH.9.2').toString()].filter(part => part !== '').join('^')
+}
+
+/** @internal */
+const _match = (items: StructureItem[], state: MatchState, path: string, inRepeatingGroup: boolean = false): void => {
+  for (const item of items) {
+    let count = 0
+    while (_skip(state) && itemStarts(item, state.segments[state.position].name)) {
+      const position = state.position
+      if ('segment' in item) {
+        state.position++
+      } else {
+        _match(item.items, state, `${path}${item.group}.`, inRepeatingGroup || item.repeating === true)
+      }
+      count++
+      if (item.repeating !== true || state.position === position) {
+        break
+      }
+    }
+
+    if ('segment' in item && item.repeating !== true && count === 1 && !inRepeatingGroup) {
+      // report a segment that should not repeat, and move past it
+      // (inside a repeating group, the same segment again is the start of the next one)
+      while (_skip(state) && state.segments[state.position].name === item.segment) {
+        state.findings.push({
+          code: 'segment.repeat',
+          severity: 'error',
+          path: item.segment,
+          line: state.position + 1,
+          message: `${item.segment} segment can not repeat in ${state.structure}.`
+        })
+        state.position++
+      }
+    }
+
+    if (count === 0 && item.required === true) {
+      const name = 'segment' in item ? item.segment : item.group
+      state.findings.push({
+        code: 'segment.missing',
+        severity: 'error',
+        path: `${path}${name}`,
+        message: `${name} ${'segment' in item ? 'segment' : 'group'} is required in ${state.structure}.`
+      })
+    }
+  }
+}
+
+/**
+ * Move past Z segments and segments that are not part of the structure at all.
+ * @internal
+ * @return If there are any segments left.
+ */
+const _skip = (state: MatchState): boolean => {
+  while (state.position < state.segments.length) {
+    const name = state.segments[state.position].name
+    if (state.known.has(name)) {
+      return true
+    }
+    if (!_isZ(name)) {
+      state.findings.push({
+        code: 'segment.unexpected',
+        severity: 'error',
+        path: name,
+        line: state.position + 1,
+        message: `${name} segment is not part of ${state.structure}.`
+      })
+    }
+    state.position++
+  }
+  return false
+}
+
+/**
+ * If a segment can be the start of a structure item.
+ * @since 2.4.0
+ * @internal
+ * @param item
+ * @param name The segment name.
+ */
+export const itemStarts = (item: StructureItem, name: string): boolean => {
+  if ('segment' in item) {
+    return item.segment === name
+  }
+  // a group can start with any of its segments up to, and including, the first required one
+  for (const child of item.items) {
+    if (itemStarts(child, name)) {
+      return true
+    }
+    if (child.required === true) {
+      return false
+    }
+  }
+  return false
+}
+
+/**
+ * Every segment name in a structure, including the ones inside of groups.
+ * @since 2.4.0
+ * @internal
+ * @param items
+ * @param names
+ */
+export const segmentNames = (items: StructureItem[], names: Set<string> = new Set()): Set<string> => {
+  for (const item of items) {
+    if ('segment' in item) {
+      names.add(item.segment)
+    } else {
+      segmentNames(item.items, names)
+    }
+  }
+  return names
+}
+
+/** @internal */
+const _isZ = (name: string): boolean => name.startsWith('Z')
+
+/** @internal */
+const _checkFields = (segment: HL7Node, rules: FieldRule[], line: number, findings: ValidationFinding[]): void => {
+  for (const rule of rules) {
+    const path = `${segment.name}.${rule.field}`
+    const field = segment.get(rule.field.toString())
+
+    if (field.isEmpty()) {
+      if (rule.required === true) {
+        findings.push({ code: 'field.required', severity: 'error', path, line, message: `${path} is required.` })
+      }
+      continue
+    }
+
+    for (const repetition of field.toArray()) {
+      const raw = repetition.toRaw()
+      if (typeof rule.length !== 'undefined' && raw.length > rule.length) {
+        findings.push({
+          code: 'field.length',
+          severity: 'error',
+          path,
+          line,
+          message: `${path} is ${raw.length} characters long, which is longer than the maximum of ${rule.length}.`
+        })
+      }
+
+      const format = FORMATS[rule.type]
+      // TS has the time in the first component
+      const value = rule.type === 'TS' ? repetition.get(0).toString() : raw
+      if (typeof format !== 'undefined' && value !== '' && !format.test(value)) {
+        findings.push({
+          code: 'field.format',
+          severity: 'error',
+          path,
+          line,
+          message: `${path} is not a valid ${rule.type}: "${value}".`
+        })
+      }
+    }
+  }
+}
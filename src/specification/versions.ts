@@ -0,0 +1,62 @@
+import type { Message } from '../builder/message.js'
+import { HL7_2_1 } from './2.1.js'
+import { HL7_2_2 } from './2.2.js'
+import { HL7_2_3 } from './2.3.js'
+import { HL7_2_3_1 } from './2.3.1.js'
+import { HL7_2_4 } from './2.4.js'
+import { HL7_2_5 } from './2.5.js'
+import { HL7_2_5_1 } from './2.5.1.js'
+import { HL7_2_6 } from './2.6.js'
+import { HL7_2_7 } from './2.7.js'
+import { HL7_2_7_1 } from './2.7.1.js'
+import { HL7_2_8 } from './2.8.js'
+import { HL7_SPEC, HL7_SPEC_BASE } from './specification.js'
+import { HL7Schema, validateMessage } from './validation.js'
+
+/** @internal */
+const VERSIONS: Record<string, (new () => HL7_SPEC_BASE) | undefined> = {
+  2.1: HL7_2_1,
+  2.2: HL7_2_2,
+  2.3: HL7_2_3,
+  '2.3.1': HL7_2_3_1,
+  2.4: HL7_2_4,
+  2.5: HL7_2_5,
+  '2.5.1': HL7_2_5_1,
+  2.6: HL7_2_6,
+  2.7: HL7_2_7,
+  '2.7.1': HL7_2_7_1,
+  2.8: HL7_2_8
+}
+
+/**
+ * The specification of a message.
+ * @description The one given, or the one the message was built with,
+ * or for a parsed message, the one of its version in MSH-12.
+ * HL7 2.7 is used when the version is not known.
+ * What a specification that does not extend {@link HL7_SPEC_BASE} does not have comes from the one of its version.
+ * @since 2.4.0
+ * @internal
+ * @param message
+ * @param specification
+ */
+export const messageSpecification = (message: Message, specification?: HL7_SPEC): Required<HL7_SPEC> => {
+  const Version = VERSIONS[message._version()] ?? HL7_2_7
+  const fallback = new Version()
+  const given = specification ?? message._opt.specification as HL7_SPEC | undefined
+  if (typeof given === 'undefined') {
+    return fallback
+  }
+  if (given instanceof HL7_SPEC_BASE) {
+    return given
+  }
+
+  const schema = (): HL7Schema => typeof given.schema !== 'undefined' ? given.schema() : fallback.schema()
+  return {
+    name: given.name,
+    checkMSH: options => given.checkMSH(options),
+    buildMSH: (mshHeader, message) => given.buildMSH(mshHeader, message),
+    validate: message => typeof given.validate !== 'undefined' ? given.validate(message) : validateMessage(message, schema()),
+    schema,
+    xmlNamespace: () => typeof given.xmlNamespace !== 'undefined' ? given.xmlNamespace() : fallback.xmlNamespace()
+  }
+}
@@ -0,0 +1,205 @@
+import { HL7FatalError } from './exception.js'
+
+/**
+ * HL7 Date Precision
+ * @description How much of a date/time (DTM) is there, as the number of characters before the time zone offset:
+ * - `4` - YYYY
+ * - `6` - YYYYMM
+ * - `8` - YYYYMMDD
+ * - `10` - YYYYMMDDHH
+ * - `12` - YYYYMMDDHHMM
+ * - `14` - YYYYMMDDHHMMSS
+ * - `16` to `19` - YYYYMMDDHHMMSS.S to YYYYMMDDHHMMSS.SSSS
+ * @since 2.4.0
+ */
+export type HL7DatePrecision = 4 | 6 | 8 | 10 | 12 | 14 | 16 | 17 | 18 | 19
+
+/**
+ * HL7 Date Options
+ * @description How {@link HL7DateTime.fromDate} and {@link createHL7Date} write a Date.
+ * @since 2.4.0
+ */
+export interface HL7DateOptions {
+  /** How much of the date/time to write.
+   * @default 14 */
+  precision?: HL7DatePrecision
+  /** The time zone offset to write the date/time in, in minutes east of UTC (like `-300` for -0500),
+   * or `local` for the offset of this computer at that date.
+   * If not set, the local time is written without an offset.
+   * @default undefined */
+  offset?: number | 'local'
+  /** Round to the precision, instead of cutting off what does not fit.
+   * Only the time is rounded, so dates (a precision of 8 or less) are always cut off.
+   * @default false */
+  round?: boolean
+}
+
+/** @internal */
+const PRECISIONS: HL7DatePrecision[] = [4, 6, 8, 10, 12, 14, 16, 17, 18, 19]
+
+/**
+ * The length of one unit of the last part written, in milliseconds, for rounding.
+ * @internal
+ */
+const UNITS: Partial<Record<HL7DatePrecision, number>> = { 10: 3600000, 12: 60000, 14: 1000, 16: 100, 17: 10, 18: 1, 19: 1 }
+
+/** @internal */
+const MATCH = /^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:\.(\d{1,4}))?(?:([+-])(\d{2})(\d{2}))?$/
+
+/**
+ * Is HL7 Date Precision
+ * @since 2.4.0
+ * @param value
+ */
+export const isHL7DatePrecision = (value: any): value is HL7DatePrecision => PRECISIONS.includes(value)
+
+/**
+ * HL7 Date/Time
+ * @description A date/time (DTM) that keeps everything that was in the message:
+ * how precise it was, the fraction of a second up to four digits, and the time zone offset.
+ * `toString` gives back exactly what was parsed.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const value = HL7DateTime.parse('20081231153000.1234-0500')
+ * value.precision  // 19
+ * value.offset     // -300
+ * value.toDate()   // 2008-12-31T20:30:00.123Z
+ * value.toString() // 20081231153000.1234-0500
+ * ```
+ */
+export class HL7DateTime {
+  /** @since 2.4.0 */
+  readonly year: number
+  /** 1 to 12. 1 if not in the precision.
+   * @since 2.4.0 */
+  readonly month: number
+  /** 1 to 31. 1 if not in the precision.
+   * @since 2.4.0 */
+  readonly day: number
+  /** @since 2.4.0 */
+  readonly hour: number
+  /** @since 2.4.0 */
+  readonly minute: number
+  /** @since 2.4.0 */
+  readonly second: number
+  /** The digits after the decimal point of the seconds, like `1234`. Empty if there are none.
+   * @since 2.4.0 */
+  readonly fraction: string
+  /** The time zone offset in minutes east of UTC, like `-300` for -0500.
+   * Undefined if there was no offset, which means the local time of whoever sent it.
+   * @since 2.4.0 */
+  readonly offset: number | undefined
+  /** How much of the date/time there is.
+   * @since 2.4.0 */
+  readonly precision: HL7DatePrecision
+
+  /** @internal */
+  private constructor (parts: number[], fraction: string, offset: number | undefined) {
+    this.year = parts[0]
+    this.month = parts[1] ?? 1
+    this.day = parts[2] ?? 1
+    this.hour = parts[3] ?? 0
+    this.minute = parts[4] ?? 0
+    this.second = parts[5] ?? 0
+    this.fraction = fraction
+    this.offset = offset
+    this.precision = (fraction.length > 0 ? 15 + fraction.length : 2 + parts.length * 2) as HL7DatePrecision
+  }
+
+  /**
+   * Parse
+   * @description Read a date/time in the `YYYY[MM[DD[HH[MM[SS[.S[S[S[S]]]]]]]]][+/-ZZZZ]` format.
+   * @since 2.4.0
+   * @param text
+   * @throws {HL7FatalError} If it is not a valid date/time.
+   */
+  static parse (text: string): HL7DateTime {
+    const match = MATCH.exec(text)
+    if (match === null || (typeof match[7] !== 'undefined' && typeof match[6] === 'undefined')) {
+      throw new HL7FatalError('Invalid Date Format')
+    }
+
+    const parts = match.slice(1, 7).filter(part => typeof part !== 'undefined').map(part => parseInt(part))
+    const offset = typeof match[8] !== 'undefined'
+      ? (match[8] === '-' ? -1 : 1) * (parseInt(match[9]) * 60 + parseInt(match[10]))
+      : undefined
+    const value = new HL7DateTime(parts, match[7] ?? '', offset)
+
+    const days = new Date(Date.UTC(value.year, value.month, 0)).getUTCDate()
+    if (value.month < 1 || value.month > 12 || value.day < 1 || value.day > days ||
+      value.hour > 23 || value.minute > 59 || value.second > 59 || parseInt(match[10] ?? '0') > 59) {
+      throw new HL7FatalError('Invalid Date Format')
+    }
+
+    return value
+  }
+
+  /**
+   * From Date
+   * @description Make a date/time from a Date.
+   * @since 2.4.0
+   * @param date
+   * @param options
+   */
+  static fromDate (date: Date, options: HL7DateOptions = {}): HL7DateTime {
+    const precision = options.precision ?? 14
+    const offset = options.offset === 'local' ? -date.getTimezoneOffset() : options.offset
+
+    // the time as it is on a clock at the offset, read with the UTC methods
+    let time = date.getTime() + (typeof offset !== 'undefined' ? offset : -date.getTimezoneOffset()) * 60000
+    const unit = UNITS[precision]
+    if (options.round === true && typeof unit !== 'undefined') {
+      time = Math.round(time / unit) * unit
+    }
+    const clock = new Date(time)
+
+    const parts = [
+      clock.getUTCFullYear(),
+      clock.getUTCMonth() + 1,
+      clock.getUTCDate(),
+      clock.getUTCHours(),
+      clock.getUTCMinutes(),
+      clock.getUTCSeconds()
+    ].slice(0, Math.min(precision, 14) / 2 - 1)
+    const fraction = precision > 14
+      ? clock.getUTCMilliseconds().toString().padStart(3, '0').padEnd(4, '0').slice(0, precision - 15)
+      : ''
+
+    return new HL7DateTime(parts, fraction, offset)
+  }
+
+  /**
+   * To Date
+   * @description The date/time as a Date.
+   * If there is no offset, it is read as the local time of this computer.
+   * @since 2.4.0
+   */
+  toDate (): Date {
+    const milliseconds = Math.round(parseFloat(`0.${this.fraction === '' ? '0' : this.fraction}`) * 1000)
+    if (typeof this.offset === 'undefined') {
+      return new Date(this.year, this.month - 1, this.day, this.hour, this.minute, this.second, milliseconds)
+    }
+    return new Date(Date.UTC(this.year, this.month - 1, this.day, this.hour, this.minute, this.second, milliseconds) - this.offset * 60000)
+  }
+
+  /**
+   * To String
+   * @description The date/time in the HL7 format, with the same precision and offset it was made with.
+   * @since 2.4.0
+   */
+  toString (): string {
+    const parts = [this.month, this.day, this.hour, this.minute, this.second]
+      .slice(0, Math.min(this.precision, 14) / 2 - 2)
+      .map(part => part.toString().padStart(2, '0'))
+    let text = this.year.toString().padStart(4, '0') + parts.join('')
+    if (this.fraction !== '') {
+      text += `.${this.fraction}`
+    }
+    if (typeof this.offset !== 'undefined') {
+      const minutes = Math.abs(this.offset)
+      text += (this.offset < 0 ? '-' : '+') + Math.floor(minutes / 60).toString().padStart(2, '0') + (minutes % 60).toString().padStart(2, '0')
+    }
+    return text
+  }
+}
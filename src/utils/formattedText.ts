@@ -0,0 +1,234 @@
+import { Delimiters } from './enum.js'
+import { decodeHexString } from './utils.js'
+
+/**
+ * HL7 Formatting Command
+ * @description A formatting command of formatted text (FT), like `\.br\`:
+ * - `sp` - End the line, and skip the number of lines (or one).
+ * - `br` - Start a new line.
+ * - `fi` - Start word wrap.
+ * - `nf` - Stop word wrap.
+ * - `in` - Indent the lines by the number of spaces, from the start of this line.
+ * - `ti` - Indent only this line by the number of spaces.
+ * - `sk` - Skip the number of spaces to the right.
+ * - `ce` - End the line, and center the next one.
+ * @since 2.4.0
+ */
+export type HL7FormattingCommand = 'sp' | 'br' | 'fi' | 'nf' | 'in' | 'ti' | 'sk' | 'ce'
+
+/**
+ * HL7 Formatted Text Part
+ * @description One part of formatted text from {@link HL7Node.toFormattedText}:
+ * - `text` - Text, with the delimiter, hex, and character set escapes decoded,
+ * and if it is between `\H\` and `\N\`.
+ * - `command` - A formatting command, with its number, if it has one.
+ * - `custom` - A locally defined escape, like `\Zxxx\`, without the `Z`.
+ * @since 2.4.0
+ */
+export type HL7FormattedTextPart =
+  { type: 'text', text: string, highlight: boolean } |
+  { type: 'command', command: HL7FormattingCommand, value?: number } |
+  { type: 'custom', value: string }
+
+/**
+ * The character sets of the `\C` and `\M` escapes, by the ISO 2022 escape sequence after the ESC, in hex.
+ * `escape` is put back in front of the text for the ISO-2022 encodings, and `high` moves the bytes from GL to GR.
+ * @internal
+ */
+const CHARACTER_SETS: Record<string, { encoding: string, escape?: string, high?: boolean }> = {
+  // ISO-IR 6, ASCII
+  2842: { encoding: 'ascii' },
+  // ISO-IR 14, JIS X 0201 Romaji
+  '284A': { encoding: 'iso-2022-jp', escape: '1B284A' },
+  // ISO-IR 13, JIS X 0201 Katakana
+  2849: { encoding: 'iso-2022-jp', escape: '1B2849' },
+  // ISO-IR 100, 101, 109, 110, 144, 127, 126, 138, 148, and 166
+  '2D41': { encoding: 'iso-8859-1' },
+  '2D42': { encoding: 'iso-8859-2' },
+  '2D43': { encoding: 'iso-8859-3' },
+  '2D44': { encoding: 'iso-8859-4' },
+  '2D4C': { encoding: 'iso-8859-5' },
+  '2D47': { encoding: 'iso-8859-6' },
+  '2D46': { encoding: 'iso-8859-7' },
+  '2D48': { encoding: 'iso-8859-8' },
+  '2D4D': { encoding: 'iso-8859-9' },
+  '2D54': { encoding: 'windows-874' },
+  // ISO-IR 87, JIS X 0208
+  2442: { encoding: 'iso-2022-jp', escape: '1B2442' },
+  // ISO-IR 58, GB 2312
+  2441: { encoding: 'gbk', high: true },
+  // ISO-IR 149, KS X 1001
+  242943: { encoding: 'euc-kr' }
+}
+
+/** @internal */
+const COMMAND = /^\.(sp|br|fi|nf|in|ti|sk|ce)\s*([+-]?\d+)?$/
+
+/**
+ * Read formatted text, keeping the highlighting and formatting commands.
+ * @since 2.4.0
+ * @internal
+ * @param raw The text, as it is in the message.
+ * @param delimiters The delimiters of the message.
+ */
+export const parseFormattedText = (raw: string, delimiters: string): HL7FormattedTextPart[] => {
+  const escape = delimiters[Delimiters.Escape]
+  const parts: HL7FormattedTextPart[] = []
+  let highlight = false
+  let characterSet: string | undefined
+
+  const text = (value: string, decode: boolean = true): void => {
+    if (value === '') {
+      return
+    }
+    if (decode) {
+      value = _decode(value, characterSet)
+    }
+    const last = parts[parts.length - 1]
+    if (last?.type === 'text' && last.highlight === highlight) {
+      last.text += value
+    } else {
+      parts.push({ type: 'text', text: value, highlight })
+    }
+  }
+
+  const pieces = raw.split(escape)
+  // an escape without an end is just text
+  const count = pieces.length % 2 === 0 ? pieces.length - 1 : pieces.length
+  for (let i = 0; i < count; i++) {
+    const piece = pieces[i]
+    if (i % 2 === 0) {
+      text(piece)
+      continue
+    }
+
+    const command = COMMAND.exec(piece)
+    if (command !== null) {
+      const value = typeof command[2] !== 'undefined' ? parseInt(command[2]) : undefined
+      parts.push(typeof value !== 'undefined'
+        ? { type: 'command', command: command[1] as HL7FormattingCommand, value }
+        : { type: 'command', command: command[1] as HL7FormattingCommand })
+      continue
+    }
+
+    switch (piece.slice(0, 1)) {
+      case 'E':
+        text(escape, false)
+        break
+      case 'F':
+        text(delimiters[Delimiters.Field], false)
+        break
+      case 'R':
+        text(delimiters[Delimiters.Repetition], false)
+        break
+      case 'S':
+        text(delimiters[Delimiters.Component], false)
+        break
+      case 'T':
+        text(delimiters[Delimiters.SubComponent], false)
+        break
+      case 'X':
+        text(decodeHexString(piece.slice(1)))
+        break
+      case 'H':
+        highlight = true
+        break
+      case 'N':
+        highlight = false
+        break
+      case 'C':
+      case 'M':
+        characterSet = piece.slice(1).toUpperCase()
+        break
+      case 'Z':
+        parts.push({ type: 'custom', value: piece.slice(1) })
+        break
+      default:
+        text(`${escape}${piece}${escape}`, false)
+    }
+  }
+  if (count < pieces.length) {
+    text(`${escape}${pieces[count]}`)
+  }
+
+  return parts
+}
+
+/**
+ * Write formatted text as plain text, with a line feed for each new line.
+ * @since 2.4.0
+ * @internal
+ * @param parts
+ */
+export const formattedTextToString = (parts: HL7FormattedTextPart[]): string => {
+  let result = ''
+  let line = ''
+  let indent = 0
+  let temporary: number | undefined
+
+  const end = (): void => {
+    result += `${line}\n`
+    line = ''
+  }
+
+  for (const part of parts) {
+    if (part.type === 'text') {
+      if (line === '') {
+        line = ' '.repeat(Math.max(indent + (temporary ?? 0), 0))
+        temporary = undefined
+      }
+      line += part.text
+      continue
+    }
+    if (part.type === 'custom') {
+      continue
+    }
+
+    switch (part.command) {
+      case 'br':
+        end()
+        break
+      case 'sp':
+        if (line !== '') {
+          end()
+        }
+        result += '\n'.repeat(part.value ?? 1)
+        break
+      case 'ce':
+        if (line !== '') {
+          end()
+        }
+        break
+      case 'in':
+        indent = part.value ?? 0
+        break
+      case 'ti':
+        temporary = part.value ?? 0
+        break
+      case 'sk':
+        line += ' '.repeat(Math.max(part.value ?? 1, 0))
+        break
+    }
+  }
+
+  return result + line
+}
+
+/**
+ * Decode text in a character set from a `\C` or `\M` escape.
+ * Text that is not bytes was already decoded, so it is left as it is.
+ * @internal
+ */
+const _decode = (text: string, characterSet: string | undefined): string => {
+  const found = typeof characterSet !== 'undefined' ? CHARACTER_SETS[characterSet] : undefined
+  if (typeof found === 'undefined' || found.encoding === 'ascii' || /[^\x00-\xff]/.test(text)) { // eslint-disable-line no-control-regex
+    return text
+  }
+
+  const bytes = Array.from(text, character => {
+    const code = character.charCodeAt(0)
+    return found.high === true && code > 0x20 && code < 0x7f ? code + 0x80 : code
+  })
+  const escape = typeof found.escape !== 'undefined' ? Array.from(decodeHexString(found.escape), character => character.charCodeAt(0)) : []
+  return new TextDecoder(found.encoding).decode(new Uint8Array([...escape, ...bytes]))
+}
@@ -0,0 +1,178 @@
+import type { ValidationSeverity } from '../specification/validation.js'
+
+/**
+ * Parse Diagnostic Code
+ * @description What a {@link ParseDiagnostic} is about:
+ * - `line.ending` - The line ended with a different segment terminator than the first one, like `\n` and `\r\n` mixed.
+ * - `line.empty` - An empty line was removed.
+ * - `segment.whitespace` - Whitespace (or MLLP framing characters) around the segment was removed.
+ * - `segment.name` - The segment name was in lower case, and is now in upper case.
+ * - `segment.invalid` - The line did not start with a segment name, so it was removed.
+ * - `segment.separator` - The segment only had its name, so a field separator was added after it.
+ * - `encoding.missing` - The header segment was missing some of its encoding characters, so the default ones were added.
+ * - `segment.fields` - The MSH ended before MSH-12, so the field separators up to it were added.
+ * @since 2.4.0
+ */
+export type ParseDiagnosticCode =
+  'line.ending' |
+  'line.empty' |
+  'segment.whitespace' |
+  'segment.name' |
+  'segment.invalid' |
+  'segment.separator' |
+  'encoding.missing' |
+  'segment.fields'
+
+/**
+ * Parse Diagnostic
+ * @description One fix, or problem, from parsing a message with `lenient`.
+ * @since 2.4.0
+ */
+export interface ParseDiagnostic {
+  /** What kind of fix or problem it is. */
+  code: ParseDiagnosticCode
+  /** `warning` for something that was fixed, and `error` for something that was removed. */
+  severity: ValidationSeverity
+  /** The line of the text that was parsed, starting at 1. */
+  line: number
+  /** The segment name, after it was fixed, or undefined if the line was removed. */
+  segment?: string
+  /** The field it is about, like 2 for the encoding characters of MSH-2,
+   * 0 for the segment name or a line that was removed, and the last field for the end of the line. */
+  field: number
+  /** The text of the line, as it was. */
+  original: string
+  /** What was done, for people to read. */
+  message: string
+}
+
+/** @internal */
+const SEGMENT_NAME = /^[A-Z][A-Z0-9]{2}$/
+
+/** @internal */
+const HEADERS = ['MSH', 'BHS', 'FHS']
+
+/** @internal */
+const ENCODING_CHARACTERS = '^~\\&'
+
+/** @internal */
+const HEADER_FIELDS = 12
+
+/** @internal */
+const FILE_SEPARATOR = String.fromCharCode(0x1c)
+
+/** @internal */
+const AROUND = new RegExp(`^[\\s${FILE_SEPARATOR}]+|[\\s${FILE_SEPARATOR}]+$`, 'g')
+
+/** @internal */
+const TERMINATORS: Record<string, string> = { '\r': '\\r', '\n': '\\n', '\r\n': '\\r\\n', '\n\r': '\\n\\r' }
+
+/**
+ * Fix the common problems of a message that does not quite follow HL7,
+ * so it parses the same way as one that does.
+ * @since 2.4.0
+ * @internal
+ * @param text The text of the message.
+ * @return The fixed text, with `\r` after each segment, and what was fixed.
+ */
+export const lenientText = (text: string): { text: string, diagnostics: ParseDiagnostic[] } => {
+  const diagnostics: ParseDiagnostic[] = []
+  const parts = text.split(/(\r\n|\n\r|\r|\n)/)
+  const terminator = parts.find((part, index) => index % 2 === 1 && part !== '')
+  const header = parts.find((part, index) => index % 2 === 0 && /^msh/i.test(_trim(part)))
+  const first = typeof header !== 'undefined' ? _trim(header).slice(3, 4) : ''
+  const separator = first !== '' ? first : '|'
+  const segments: string[] = []
+
+  for (let index = 0; index < parts.length; index += 2) {
+    const original = parts[index]
+    const line = index / 2 + 1
+    const ending = parts[index + 1]
+    // without a field, it is about the end of the line
+    const found: Array<Omit<ParseDiagnostic, 'field'> & { field?: number }> = []
+    const add = (diagnostic: Omit<ParseDiagnostic, 'line' | 'original' | 'field'> & { field?: number }): void => {
+      found.push({ ...diagnostic, line, original })
+    }
+    const removed = (): void => {
+      diagnostics.push(...found.map(diagnostic => ({ ...diagnostic, field: diagnostic.field ?? 0 })))
+    }
+
+    if (typeof ending !== 'undefined' && ending !== terminator) {
+      add({
+        code: 'line.ending',
+        severity: 'warning',
+        message: `The line ended with ${TERMINATORS[ending]}, and not ${TERMINATORS[terminator as string]} like the first one.`
+      })
+    }
+
+    let segment = _trim(original)
+    if (segment === '') {
+      // the end of the last segment is not an empty line
+      if (original !== '' || index < parts.length - 1) {
+        add({ code: 'line.empty', severity: 'warning', message: 'Removed an empty line.' })
+      }
+      removed()
+      continue
+    }
+    if (segment !== original) {
+      add({ code: 'segment.whitespace', severity: 'warning', field: original.startsWith(segment) ? undefined : 0, message: 'Removed the whitespace around the segment.' })
+    }
+
+    const name = segment.slice(0, 3)
+    const rest = segment.slice(3)
+    if (rest !== '' && !rest.startsWith(separator)) {
+      add({ code: 'segment.invalid', severity: 'error', field: 0, message: `Removed a line that does not start with a segment name and ${separator}.` })
+      removed()
+      continue
+    }
+    if (!SEGMENT_NAME.test(name)) {
+      if (!SEGMENT_NAME.test(name.toUpperCase())) {
+        add({ code: 'segment.invalid', severity: 'error', field: 0, message: `Removed a line with the segment name ${name}, which is not valid.` })
+        removed()
+        continue
+      }
+      add({ code: 'segment.name', severity: 'warning', field: 0, message: `Changed the segment name ${name} to ${name.toUpperCase()}.` })
+      segment = name.toUpperCase() + rest
+    }
+
+    const fixed = segment.slice(0, 3)
+    if (rest === '') {
+      add({ code: 'segment.separator', severity: 'warning', field: 1, message: `Added ${separator} after the segment name.` })
+      segment += separator
+    }
+    if (HEADERS.includes(fixed)) {
+      const encoding = segment.slice(4).split(separator)[0]
+      if (encoding.length < 4) {
+        const missing = Array.from(ENCODING_CHARACTERS).filter(character => !encoding.includes(character) && character !== separator).join('').slice(0, 4 - encoding.length)
+        add({ code: 'encoding.missing', severity: 'warning', field: 2, message: `Added the missing encoding characters ${missing}.` })
+        segment = `${segment.slice(0, 4)}${encoding}${missing}${segment.slice(4 + encoding.length)}`
+      }
+    }
+
+    const last = _lastField(segment, separator)
+    if (fixed === 'MSH' && last < HEADER_FIELDS) {
+      add({ code: 'segment.fields', severity: 'warning', field: last + 1, message: `Added the missing fields MSH-${last + 1} to MSH-${HEADER_FIELDS}.` })
+      segment += separator.repeat(HEADER_FIELDS - last)
+    }
+
+    diagnostics.push(...found.map(diagnostic => ({ ...diagnostic, segment: fixed, field: diagnostic.field ?? last })))
+    segments.push(segment)
+  }
+
+  return { text: segments.join('\r'), diagnostics }
+}
+
+/**
+ * Remove whitespace, a byte order mark, and MLLP framing characters from around a line.
+ * @internal
+ */
+const _trim = (text: string): string => text.replace(AROUND, '')
+
+/**
+ * The number of the last field of a segment, where MSH-1 is the field separator itself.
+ * @internal
+ */
+const _lastField = (segment: string, separator: string): number => {
+  const fields = segment.split(separator).length - 1
+  return HEADERS.includes(segment.slice(0, 3)) ? fields + 1 : fields
+}
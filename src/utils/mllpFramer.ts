@@ -0,0 +1,126 @@
+import EventEmitter from 'node:events'
+import { PROTOCOL_MLLP_FOOTER, PROTOCOL_MLLP_HEADER } from './constants.js'
+
+/** @internal */
+const MLLP_HEADER = Buffer.from(PROTOCOL_MLLP_HEADER)
+
+/** @internal */
+const MLLP_FOOTER = Buffer.from(PROTOCOL_MLLP_FOOTER)
+
+/* eslint-disable */
+export interface IMLLPFramer extends EventEmitter {
+  /** A complete frame was decoded. The MLLP header and footer have been removed. */
+  on(name: 'frame', cb: (frame: string) => void): this;
+  /** Bytes were found outside a <VT>...<FS><CR> frame and were discarded. */
+  on(name: 'garbage', cb: (data: Buffer) => void): this;
+}
+/* eslint-enable */
+
+/**
+ * MLLP Framer
+ * @description A stateful decoder for the Minimal Lower Layer Protocol (MLLP).
+ * TCP does not preserve message boundaries,
+ * so a single read could contain part of a frame, exactly one frame, or many frames.
+ * Each chunk is buffered until a complete `<VT>...<FS><CR>` frame is found,
+ * and every complete frame is emitted in the order it was received.
+ * Anything that arrives outside a frame is reported as garbage and dropped.
+ * @since 2.4.0
+ * @example
+ * ```ts
+ * const framer = new MLLPFramer()
+ * framer.on('frame', (frame) => { console.log(frame) })
+ * socket.on('data', (buffer) => { framer.push(buffer) })
+ * ```
+ */
+export class MLLPFramer extends EventEmitter implements IMLLPFramer {
+  /** @internal */
+  private readonly _encoding: BufferEncoding
+  /** @internal */
+  private _buffer: Buffer
+
+  /**
+   * @since 2.4.0
+   * @param encoding The encoding used to turn a complete frame into a string.
+   * @default "utf-8"
+   */
+  constructor (encoding: BufferEncoding = 'utf-8') {
+    super()
+    this._encoding = encoding
+    this._buffer = Buffer.alloc(0)
+  }
+
+  /**
+   * Bytes Buffered
+   * @description The number of bytes held while waiting for the rest of a frame.
+   * @since 2.4.0
+   */
+  get pending (): number {
+    return this._buffer.length
+  }
+
+  /**
+   * Push Data
+   * @description Add a chunk read from the socket.
+   * Any frames completed by this chunk are emitted before this method returns.
+   * @since 2.4.0
+   * @param chunk The data read from the socket.
+   */
+  push (chunk: Buffer | string): void {
+    const data = typeof chunk === 'string' ? Buffer.from(chunk, this._encoding) : chunk
+    this._buffer = this._buffer.length === 0 ? data : Buffer.concat([this._buffer, data])
+
+    while (this._buffer.length > 0) {
+      const start = this._buffer.indexOf(MLLP_HEADER)
+
+      if (start === -1) {
+        // nothing here is part of a frame
+        this._discard(this._buffer.length)
+        break
+      }
+
+      if (start > 0) {
+        // data before the start of the frame
+        this._discard(start)
+        continue
+      }
+
+      const end = this._buffer.indexOf(MLLP_FOOTER, MLLP_HEADER.length)
+      const restart = this._buffer.indexOf(MLLP_HEADER, MLLP_HEADER.length)
+
+      if (restart !== -1 && (end === -1 || restart < end)) {
+        // a new frame started before this one ended, so this one is incomplete
+        this._discard(restart)
+        continue
+      }
+
+      if (end === -1) {
+        // wait for the rest of the frame
+        break
+      }
+
+      const frame = this._buffer.subarray(MLLP_HEADER.length, end).toString(this._encoding)
+      this._buffer = this._buffer.subarray(end + MLLP_FOOTER.length)
+
+      this.emit('frame', frame)
+    }
+  }
+
+  /**
+   * Reset
+   * @description Drop any partial frame.
+   * Used when the underlying socket is replaced.
+   * @since 2.4.0
+   */
+  reset (): void {
+    this._buffer = Buffer.alloc(0)
+  }
+
+  /** @internal */
+  private _discard (length: number): void {
+    const garbage = this._buffer.subarray(0, length)
+    this._buffer = this._buffer.subarray(length)
+    this.emit('garbage', garbage)
+  }
+}
+
+export default MLLPFramer
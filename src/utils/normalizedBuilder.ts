@@ -1,6 +1,8 @@
 import fs from 'fs'
+import type { AcknowledgmentError } from '../client/module/inboundResponse.js'
 import { HL7_2_7 } from '../specification/2.7.js'
 import { MSH } from '../specification/specification.js'
+import { isHL7DatePrecision } from './dateTime.js'
 import { HL7FatalError } from './exception.js'
 import { ParserPlan } from './parserPlan.js'
 import { isBatch } from './utils.js'
@@ -33,6 +35,7 @@ const DEFAULT_CLIENT_FILE_OPTS = {
  */
 export interface ClientBuilderOptions {
   /** The date type for the date field. Usually generated at the time of the class being initialized.
+   * The number of characters, from 4 (YYYY) to 19 (YYYYMMDDHHMMSS.SSSS), since 2.4.0. See {@link HL7DatePrecision}.
    * @since 1.0.0
    * @default 14
    */
@@ -77,6 +80,16 @@ export interface ClientBuilderOptions {
 }
 
 export interface ClientBuilderMessageOptions extends ClientBuilderOptions {
+  /**
+   * Parse text that does not quite follow HL7, and fix what can be fixed:
+   * mixed segment terminators (like `\n` and `\r\n`), empty lines, whitespace around segments,
+   * segment names in lower case, segments without a field separator, missing encoding characters,
+   * and lines that are not segments, which are removed.
+   * Each fix is in {@link Message.diagnostics}.
+   * @since 2.4.0
+   * @default false
+   */
+  lenient?: boolean
   /**
    * MSH Header Options
    * @since 1.0.0
@@ -84,6 +97,25 @@ export interface ClientBuilderMessageOptions extends ClientBuilderOptions {
   messageHeader?: MSH
 }
 
+/**
+ * Acknowledgment Options
+ * @description Used when creating an acknowledgment with {@link Message.createAck}.
+ * @since 2.4.0
+ */
+export interface ClientBuilderAckOptions {
+  /** The MSH-10 of the acknowledgment.
+   * @since 2.4.0
+   * @default Random 20 Character String @see {@link randomString} */
+  controlId?: string
+  /** Each one is added as an ERR segment.
+   * HL7 v2.5 and later use ERR-2 to ERR-8, earlier versions use ERR-1.
+   * @since 2.4.0 */
+  errors?: AcknowledgmentError[]
+  /** Text message to go into MSA-3.
+   * @since 2.4.0 */
+  text?: string
+}
+
 export interface ClientBuilderFileOptions extends ClientBuilderOptions {
   /**
    * Extension of the file when it gets created.
@@ -122,7 +154,7 @@ export function normalizedClientMessageBuilderOptions (raw?: ClientBuilderMessag
     throw new HL7FatalError('newLine must be \r or \n')
   }
 
-  if (props.date !== '8' && props.date !== '12' && props.date !== '14') {
+  if (!isHL7DatePrecision(parseInt(props.date as string))) {
     props.date = '14'
   }
 
@@ -132,7 +164,8 @@ export function normalizedClientMessageBuilderOptions (raw?: ClientBuilderMessag
     const plan: ParserPlan = new ParserPlan(props.text.slice(3, 8))
     props.parsing = true
     // check to make sure that we set the correct properties
-    props.newLine = props.text.includes('\r') ? '\r' : '\n'
+    // one segment has no terminator to go by, so it is the default
+    props.newLine = props.text.includes('\n') && !props.text.includes('\r') ? '\n' : '\r'
     props.separatorField = plan.separatorField
     props.separatorComponent = plan.separatorComponent
     props.separatorRepetition = plan.separatorRepetition
@@ -162,7 +195,7 @@ export function normalizedClientBatchBuilderOptions (raw?: ClientBuilderOptions)
     throw new HL7FatalError('newLine must be \r or \n')
   }
 
-  if (props.date !== '8' && props.date !== '12' && props.date !== '14') {
+  if (!isHL7DatePrecision(parseInt(props.date as string))) {
     props.date = '14'
   }
 
@@ -172,7 +205,8 @@ export function normalizedClientBatchBuilderOptions (raw?: ClientBuilderOptions)
     const plan: ParserPlan = new ParserPlan(props.text.slice(3, 8))
     props.parsing = true
     // check to make sure that we set the correct properties
-    props.newLine = props.text.includes('\r') ? '\r' : '\n'
+    // one segment has no terminator to go by, so it is the default
+    props.newLine = props.text.includes('\n') && !props.text.includes('\r') ? '\n' : '\r'
     props.separatorField = plan.separatorField
     props.separatorComponent = plan.separatorComponent
     props.separatorRepetition = plan.separatorRepetition
@@ -202,12 +236,13 @@ export function normalizedClientFileBuilderOptions (raw?: ClientBuilderFileOptio
     throw new HL7FatalError('You can not have specified a file path and a buffer. Please choose one or the other.')
   }
 
-  if (props.date !== '8' && props.date !== '12' && props.date !== '14') {
+  if (!isHL7DatePrecision(parseInt(props.date as string))) {
     props.date = '14'
   }
 
-  const regex = /\n/mg
-  const subst = '\\r'
+  // a file can have a new line between segments, or between the messages of a file built with newLine
+  const regex = /\r?\n/mg
+  const subst = '\r'
   if (typeof props.fullFilePath !== 'undefined' && typeof props.fileBuffer === 'undefined') {
     const fileBuffer = fs.readFileSync(props.fullFilePath)
     props.text = fileBuffer.toString().replace(regex, subst)
@@ -221,7 +256,8 @@ export function normalizedClientFileBuilderOptions (raw?: ClientBuilderFileOptio
     const plan: ParserPlan = new ParserPlan(props.text.slice(3, 8))
     props.parsing = true
     // check to make sure that we set the correct properties
-    props.newLine = props.text.includes('\r') ? '\r' : '\n'
+    // one segment has no terminator to go by, so it is the default
+    props.newLine = props.text.includes('\n') && !props.text.includes('\r') ? '\n' : '\r'
     props.separatorField = plan.separatorField
     props.separatorComponent = plan.separatorComponent
     props.separatorRepetition = plan.separatorRepetition
@@ -15,6 +15,8 @@ export type OutboundHandler = (res: InboundResponse) => Promise<void> | void
 const DEFAULT_CLIENT_OPTS = {
   encoding: 'utf-8',
   connectionTimeout: 10000,
+  failbackInterval: 30000,
+  failover: 'priority',
   maxAttempts: 10,
   maxConnectionAttempts: 10,
   maxTimeout: 10,
@@ -22,13 +24,44 @@ const DEFAULT_CLIENT_OPTS = {
   retryLow: 1000
 }
 
+const DEFAULT_SEND_MESSAGE_OPTS = {
+  responseTimeout: 10000,
+  waitResponse: false
+}
+
 const DEFAULT_LISTEN_CLIENT_OPTS = {
+  ackRetries: 3,
   autoConnect: true,
   maxAttempts: 10,
+  maxConnections: 1,
   maxConnectionAttempts: 10,
   waitAck: true
 }
 
+/**
+ * Client Endpoint
+ * @description One host (and optionally port) that the client can connect to.
+ * @since 2.4.0
+ */
+export interface ClientEndpoint {
+  /** Host - You can do a FQDN or the IPv(4|6) address. */
+  host: string
+  /** The port to use on this host.
+   * If not set, the port of each connection is used. */
+  port?: number
+}
+
+/**
+ * Failover Policy
+ * @description How the client picks an endpoint from {@link ClientOptions.endpoints}.
+ * - `priority` always uses the first endpoint that works, in the order given,
+ * and fails back to the first endpoint once it can be reached again.
+ * - `round-robin` uses the next endpoint in the list each time a socket is opened.
+ * - `sticky` stays on the endpoint that works until it fails, then moves onto the next one.
+ * @since 2.4.0
+ */
+export type FailoverPolicy = 'priority' | 'round-robin' | 'sticky'
+
 export interface ClientOptions {
   /**
    * How long a connection attempt checked before ending the socket and attempting again.
@@ -38,7 +71,23 @@ export interface ClientOptions {
    * @default 10000
    */
   connectionTimeout?: number
-  /** Host - You can do a FQDN or the IPv(4|6) address. */
+  /** An ordered list of endpoints to connect to, for servers that run as active/passive pairs.
+   * The first endpoint is the primary.
+   * When set, {@link host} does not need to be set.
+   * @since 2.4.0 */
+  endpoints?: ClientEndpoint[]
+  /** How often, in milliseconds, to check if the primary endpoint is back
+   * when the {@link failover} policy is `priority` and another endpoint is in use.
+   * Min. is 1000 (1 second.)
+   * @since 2.4.0
+   * @default 30000 */
+  failbackInterval?: number
+  /** How to pick an endpoint from {@link endpoints}.
+   * @since 2.4.0
+   * @default "priority" */
+  failover?: FailoverPolicy
+  /** Host - You can do a FQDN or the IPv(4|6) address.
+   * Not needed if {@link endpoints} is set. */
   host?: string
   /** IPv4 - If this is set to true, only IPv4 address will be used and also validated upon installation from the hostname property.
    * @default false */
@@ -77,6 +126,18 @@ export interface ClientOptions {
 }
 
 export interface ClientListenerOptions extends ClientOptions {
+  /** How many times a message is sent again, with the same MSH-10, when no ACK comes back within {@link ackTimeout}.
+   * After that, the `client.ack.timeout` event fires and the message is given up on.
+   * Has to be 0 or greater. You cannot exceed 50.
+   * @since 2.4.0
+   * @default 3 */
+  ackRetries?: number
+  /** How long, in milliseconds, to wait for the ACK of a message before sending it again.
+   * When set, {@link Connection.sendMessage} does not resolve until the ACK comes back,
+   * and rejects if it never does.
+   * If not set, it will wait for an ACK for as long as the socket stays up.
+   * @since 2.4.0 */
+  ackTimeout?: number
   /** If set to false, you have to tell the system to start trying to connect
    * by sending 'start' method.
    * @default true
@@ -87,18 +148,60 @@ export interface ClientListenerOptions extends ClientOptions {
    */
   encoding?: BufferEncoding
   /** Max Connections this connection makes.
-   * Has to be greater than 1.
-   * @default 10 */
+   * If greater than 1, the connection becomes a pool of sockets to the same port.
+   * A new socket is only opened when every open socket is busy waiting on an ACK,
+   * and each message is sent on an idle socket if there is one.
+   * ACKs are still matched in order on the socket the message was sent on.
+   * Can not be used with {@link queueDirectory}.
+   * Has to be 1 or greater. You cannot exceed 50.
+   * @default 1 */
   maxConnections?: number
   /** The port we should connect to on the server. */
   port: number
+  /** Directory for a durable store-and-forward queue.
+   * If set, every message sent is first written to a journal in this directory
+   * and is kept there until the server positively acknowledges it (AA/CA).
+   * Messages left in the queue are sent again, in order, when the connection is made, including after a restart.
+   * Messages that get a negative acknowledgement are held as failed until requeued or purged.
+   * See {@link Connection.getQueue}.
+   * Each connection MUST use its own directory.
+   * @since 2.4.0 */
+  queueDirectory?: string
   /** Wait for ACK before sending a new message.
    * If this is set to false, you can send as many messages as you want but since you are not expecting any ACK from a
    * previous message sent before sending another one.
    * This does not stop the "total acknowledgement" counter on the
    * client object to stop increasing.
+   * Same as setting {@link windowSize} to 1 when true, or to no limit when false.
    * @default true **/
   waitAck?: boolean
+  /** The number of messages that can be sent and waiting on an ACK at the same time.
+   * Each message is tracked by its MSH-10 control ID until the server returns an ACK with a matching MSA-2.
+   * When the window is full, {@link Connection.sendMessage} waits until an ACK frees a slot.
+   * If set, this takes precedence over {@link waitAck}.
+   * @since 2.4.0
+   * @default 1 if waitAck is true, otherwise no limit */
+  windowSize?: number
+}
+
+/**
+ * Send Message Options
+ * @description Options used for a single call to {@link Connection.sendMessage}.
+ * @since 2.4.0
+ */
+export interface SendMessageOptions {
+  /** How long, in milliseconds, to wait for the matching response before the returned promise rejects.
+   * Only used if {@link waitResponse} is true.
+   * @since 2.4.0
+   * @default 10000 */
+  responseTimeout?: number
+  /** If true, the returned promise resolves with the {@link InboundResponse}
+   * whose MSA-2 matches the MSH-10 of the message that was sent.
+   * It will reject if no response is received before {@link responseTimeout} or the connection closes.
+   * The response is still passed onto the connection handler.
+   * @since 2.4.0
+   * @default false */
+  waitResponse?: boolean
 }
 
 type ValidatedClientKeys =
@@ -113,6 +216,9 @@ type ValidatedClientListenerKeys =
 
 interface ValidatedClientOptions extends Pick<Required<ClientOptions>, ValidatedClientKeys> {
   connectionTimeout: number
+  endpoints: ClientEndpoint[]
+  failbackInterval: number
+  failover: FailoverPolicy
   host: string
   maxTimeout: number
   retryHigh: number
@@ -122,20 +228,41 @@ interface ValidatedClientOptions extends Pick<Required<ClientOptions>, Validated
 }
 
 interface ValidatedClientListenerOptions extends Pick<Required<ClientListenerOptions>, ValidatedClientListenerKeys> {
+  ackRetries: number
+  ackTimeout?: number
   autoConnect: boolean
   encoding: BufferEncoding
   port: number
   maxAttempts: number
   maxConnectionAttempts: number
+  maxConnections: number
   retryHigh: number
+  queueDirectory?: string
   retryLow: number
   waitAck: boolean
+  windowSize: number
+}
+
+interface ValidatedSendMessageOptions {
+  responseTimeout: number
+  waitResponse: boolean
 }
 
 /** @internal */
 export function normalizeClientOptions (raw?: ClientOptions): ValidatedClientOptions {
   const props: any = { ...DEFAULT_CLIENT_OPTS, ...raw }
 
+  if (typeof props.endpoints !== 'undefined') {
+    if (!Array.isArray(props.endpoints) || props.endpoints.length === 0) {
+      throw new HL7FatalError('endpoints must be a list with at least one endpoint.')
+    }
+    if (typeof props.host !== 'undefined') {
+      throw new HL7FatalError('host and endpoints can not both be set.')
+    }
+    props.endpoints = props.endpoints.map((endpoint: ClientEndpoint) => ({ ...endpoint }))
+    props.host = props.endpoints[0].host
+  }
+
   if (typeof props.host === 'undefined' || props.host.length <= 0) {
     throw new HL7FatalError('host is not defined or the length is less than 0.')
   }
@@ -144,16 +271,32 @@ export function normalizeClientOptions (raw?: ClientOptions): ValidatedClientOpt
     throw new HL7FatalError('ipv4 and ipv6 both can\'t be set to be both used exclusively.')
   }
 
-  if (typeof props.host !== 'string' && props.ipv4 === false && props.ipv6 === false) {
-    throw new HL7FatalError('host is not valid string.')
-  } else if (typeof props.host === 'string' && props.ipv4 === true && props.ipv6 === false) {
-    if (!validIPv4(props.host)) {
-      throw new HL7FatalError('host is not a valid IPv4 address.')
+  if (typeof props.endpoints === 'undefined') {
+    props.endpoints = [{ host: props.host }]
+  }
+
+  for (const endpoint of props.endpoints) {
+    if (typeof endpoint.host === 'undefined' || endpoint.host.length <= 0) {
+      throw new HL7FatalError('host is not defined or the length is less than 0.')
     }
-  } else if (typeof props.host === 'string' && props.ipv4 === false && props.ipv6 === true) {
-    if (!validIPv6(props.host)) {
-      throw new HL7FatalError('host is not a valid IPv6 address.')
+    if (typeof endpoint.host !== 'string' && props.ipv4 === false && props.ipv6 === false) {
+      throw new HL7FatalError('host is not valid string.')
+    } else if (typeof endpoint.host === 'string' && props.ipv4 === true && props.ipv6 === false) {
+      if (!validIPv4(endpoint.host)) {
+        throw new HL7FatalError('host is not a valid IPv4 address.')
+      }
+    } else if (typeof endpoint.host === 'string' && props.ipv4 === false && props.ipv6 === true) {
+      if (!validIPv6(endpoint.host)) {
+        throw new HL7FatalError('host is not a valid IPv6 address.')
+      }
     }
+    if (typeof endpoint.port !== 'undefined') {
+      assertNumber(endpoint, 'port', 1, 65353)
+    }
+  }
+
+  if (!['priority', 'round-robin', 'sticky'].includes(props.failover)) {
+    throw new HL7FatalError('failover must be one of priority, round-robin, or sticky.')
   }
 
   if (props.tls === true) {
@@ -161,6 +304,7 @@ export function normalizeClientOptions (raw?: ClientOptions): ValidatedClientOpt
   }
 
   assertNumber(props, 'connectionTimeout', 1000, 60000)
+  assertNumber(props, 'failbackInterval', 1000)
   assertNumber(props, 'maxTimeout', 1, 50)
 
   return props
@@ -186,9 +330,34 @@ export function normalizeClientListenerOptions (client: ClientOptions, raw?: Cli
     props.retryLow = client.retryLow
   }
 
+  assertNumber(props, 'ackRetries', 0, 50)
   assertNumber(props, 'maxAttempts', 1, 50)
   assertNumber(props, 'maxConnectionAttempts', 1, 50)
+  assertNumber(props, 'maxConnections', 1, 50)
+
+  if (typeof props.ackTimeout !== 'undefined') {
+    assertNumber(props, 'ackTimeout', 1)
+  }
   assertNumber(props, 'port', 1, 65353)
 
+  if (props.maxConnections > 1 && typeof props.queueDirectory !== 'undefined') {
+    throw new HL7FatalError('queueDirectory can not be used when maxConnections is greater than 1.')
+  }
+
+  if (typeof props.windowSize === 'undefined') {
+    props.windowSize = props.waitAck === true ? 1 : Infinity
+  } else {
+    assertNumber(props, 'windowSize', 1)
+  }
+
+  return props
+}
+
+/** @internal */
+export function normalizeSendMessageOptions (raw?: SendMessageOptions): ValidatedSendMessageOptions {
+  const props: any = { ...DEFAULT_SEND_MESSAGE_OPTS, ...raw }
+
+  assertNumber(props, 'responseTimeout', 1)
+
   return props
 }
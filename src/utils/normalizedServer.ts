@@ -0,0 +1,105 @@
+import type { TlsOptions } from 'node:tls'
+import { InboundRequest } from '../server/module/inboundRequest.js'
+import { Message } from '../builder/message.js'
+import { HL7FatalError } from './exception.js'
+import { assertNumber, validIPv4, validIPv6 } from './utils.js'
+
+/**
+ * Inbound Handler
+ * @description Called for every message, batch, or file batch received.
+ * Return nothing to send back a generated AA acknowledgment,
+ * or return your own acknowledgment ({@link Message} or raw HL7 text) to send that instead.
+ * If it throws, an AE acknowledgment is sent back with the error in MSA-3.
+ * @since 2.4.0
+ * @param req
+ */
+export type InboundHandler = (req: InboundRequest) => Promise<Message | string | undefined | void> | Message | string | undefined | void // eslint-disable-line @typescript-eslint/no-invalid-void-type
+
+const DEFAULT_SERVER_OPTS = {
+  bindAddress: '0.0.0.0'
+}
+
+const DEFAULT_LISTENER_OPTS = {
+  encoding: 'utf-8'
+}
+
+/**
+ * Server Options
+ * @since 2.4.0
+ */
+export interface ServerOptions {
+  /** The address to listen on. You can do a FQDN or the IPv(4|6) address.
+   * @default "0.0.0.0" */
+  bindAddress?: string
+  /** IPv4 - If this is set to true, only IPv4 address will be used and also validated upon installation from the bindAddress property.
+   * @default false */
+  ipv4?: boolean
+  /** IPv6 - If this is set to true, only IPv6 address will be used and also validated upon installation from the bindAddress property.
+   * @default false */
+  ipv6?: boolean
+  /** Enable TLS by passing the TLS server options, like the key and cert. */
+  tls?: TlsOptions
+}
+
+/**
+ * Listener Options
+ * @since 2.4.0
+ */
+export interface ListenerOptions {
+  /** Encoding of the messages we expect to receive.
+   * @default "utf-8"
+   */
+  encoding?: BufferEncoding
+  /** The port to listen on. */
+  port: number
+}
+
+interface ValidatedServerOptions {
+  bindAddress: string
+  tls?: TlsOptions
+}
+
+interface ValidatedListenerOptions {
+  encoding: BufferEncoding
+  port: number
+}
+
+/** @internal */
+export function normalizeServerOptions (raw?: ServerOptions): ValidatedServerOptions {
+  const props: any = { ...DEFAULT_SERVER_OPTS, ...raw }
+
+  if (typeof props.bindAddress !== 'string' || props.bindAddress.length <= 0) {
+    throw new HL7FatalError('bindAddress is not valid string.')
+  }
+
+  if (props.ipv4 === true && props.ipv6 === true) {
+    throw new HL7FatalError('ipv4 and ipv6 both can\'t be set to be both used exclusively.')
+  }
+
+  if (props.ipv4 === true && !validIPv4(props.bindAddress)) {
+    throw new HL7FatalError('bindAddress is not a valid IPv4 address.')
+  }
+
+  if (props.ipv6 === true && !validIPv6(props.bindAddress)) {
+    throw new HL7FatalError('bindAddress is not a valid IPv6 address.')
+  }
+
+  return props
+}
+
+/** @internal */
+export function normalizeListenerOptions (raw?: ListenerOptions): ValidatedListenerOptions {
+  const props: any = { ...DEFAULT_LISTENER_OPTS, ...raw }
+
+  if (typeof props.port === 'undefined') {
+    throw new HL7FatalError('port is not defined.')
+  }
+
+  if (typeof props.port !== 'number') {
+    throw new HL7FatalError('port is not valid number.')
+  }
+
+  assertNumber(props, 'port', 1, 65353)
+
+  return props
+}
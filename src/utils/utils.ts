@@ -1,3 +1,5 @@
+import { HL7DateOptions, HL7DateTime, isHL7DatePrecision } from './dateTime.js'
+
 /**
  * Assert Number on a Property
  * @since 1.0.0
@@ -20,18 +22,18 @@ export const assertNumber = (props: Record<string, number>, name: string, min: n
  * @description Custom for this package and based of HL7 specification.
  * @since 1.0.0
  * @param date
- * @param length
+ * @param length The number of characters, from 4 (YYYY) to 19 (YYYYMMDDHHMMSS.SSSS). Anything else is 14.
+ * See {@link HL7DatePrecision}.
+ * @param options The time zone offset to write the date in, and if it should be rounded. Since 2.4.0.
+ * @example
+ * ```ts
+ * createHL7Date(new Date(), '8')                      // 20081231
+ * createHL7Date(new Date(), '17', { offset: 'local' }) // 20081231153000.12-0500
+ * ```
  */
-export const createHL7Date = (date: Date, length?: string): string => {
-  switch (length) {
-    case '8':
-      return `${date.getFullYear()}${padHL7Date(date.getMonth() + 1, 2)}${padHL7Date(date.getDate(), 2)}`
-    case '12':
-      return `${date.getFullYear()}${padHL7Date(date.getMonth() + 1, 2)}${padHL7Date(date.getDate(), 2)}${padHL7Date(date.getHours(), 2)}${padHL7Date(date.getMinutes(), 2)}`
-    case '14':
-    default:
-      return `${date.getFullYear()}${padHL7Date(date.getMonth() + 1, 2)}${padHL7Date(date.getDate(), 2)}${padHL7Date(date.getHours(), 2)}${padHL7Date(date.getMinutes(), 2)}${padHL7Date(date.getSeconds(), 2)}`
-  }
+export const createHL7Date = (date: Date, length?: string, options?: Omit<HL7DateOptions, 'precision'>): string => {
+  const precision = parseInt(length ?? '14')
+  return HL7DateTime.fromDate(date, { ...options, precision: isHL7DatePrecision(precision) ? precision : 14 }).toString()
 }
 
 /**